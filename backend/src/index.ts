@@ -7,9 +7,29 @@ import './models';
 import { testConnection } from './config/database';
 import testRoutes from './routes/test';
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/twoFactor';
 import { syncDatabase } from './config/database';
 import verificationRoutes from './routes/verification';
 import profileRoutes from './routes/profile';
+import jobRoutes from './routes/jobs';
+import bookingRoutes from './routes/bookings';
+import paymentRoutes from './routes/payments';
+import payoutRoutes from './routes/payouts';
+import cancellationPolicyRoutes from './routes/cancellationPolicies';
+import disputeRoutes from './routes/disputes';
+import reviewRoutes from './routes/reviews';
+import smsRoutes from './routes/sms';
+import emailRoutes from './routes/email';
+import nbiClearanceRoutes from './routes/nbiClearances';
+import PayoutService from './services/payouts';
+import DisputeService from './services/disputes';
+import NbiExpiryService from './services/nbiExpiry';
+import ReviewService from './services/reviews';
+import RatingService from './services/ratings';
+import ReviewScreeningService from './services/reviewScreening';
+import TokenService from './services/tokens';
+import AuthorizationService from './services/authorization';
+import verificationService from './services/verification';
 
 // Load environment variables
 dotenv.config();
@@ -34,7 +54,7 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Device-Id']
 }));
 
 // Rate Limiting
@@ -52,7 +72,13 @@ const limiter = rateLimit({
 app.use(limiter);
 
 // Body Parsing Middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the raw body so payment webhooks can verify provider signatures
+  verify: (req: any, res, buf) => {
+    req.rawBody = buf.toString('utf8');
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Health Check Route
@@ -131,6 +157,26 @@ app.get('/api/v1', (req, res) => {
         endpoints: [
           'POST /register - Enhanced user registration with Philippine validation ✅',
           'POST /login - JWT authentication with rate limiting ✅',
+          'POST /forgot-password - Reset link by email or mobile number ✅',
+          'POST /reset-password - Set a new password with a reset token ✅',
+          'POST /refresh-token - Rotate refresh token for a new access token ✅',
+          'POST /logout - End the current session ✅',
+          'POST /logout-all - End sessions on all devices ✅',
+          'GET /sessions - Devices you are logged in on ✅',
+          'DELETE /sessions/:sessionId - Log out one device ✅',
+          'POST /admin/users/:userId/logout - Force logout of a user (admin) ✅',
+          'GET /admin/lockouts - Locked accounts (admin) ✅',
+          'GET /admin/users/:userId/login-history - Lockout state and login attempts (admin) ✅',
+          'GET /admin/users/:userId/sessions - Session history with device, IP and location (admin) ✅',
+          'POST /admin/users/:userId/unlock - Lift a lockout (admin) ✅',
+          'PUT /admin/users/:userId/admin-role - Set support/finance/trust_safety/super_admin (super admin) ✅',
+          'GET /2fa/status - Two-factor settings ✅',
+          'POST /2fa/:method/setup - Start SMS or authenticator (TOTP) enrollment ✅',
+          'POST /2fa/:method/confirm - Enable 2FA and get recovery codes ✅',
+          'POST /2fa/recovery-codes - Regenerate recovery codes ✅',
+          'POST /2fa/disable - Turn 2FA off where optional ✅',
+          'POST /2fa/challenge - Complete login with the second factor ✅',
+          'POST /2fa/challenge/resend - Resend the SMS login code ✅',
           'GET /dev/users - Development user listing ✅'
         ],
         features: [
@@ -140,7 +186,15 @@ app.get('/api/v1', (req, res) => {
           'Disposable email blocking',
           'Input sanitization and business rules',
           'Automatic worker profile creation',
-          'Rate limiting (5 attempts/15min)'
+          'Rate limiting (5 attempts/15min)',
+          'Short-lived access tokens with hashed, rotating refresh tokens',
+          'Refresh token reuse revokes the whole session',
+          'Single-use hashed password reset tokens that end all sessions',
+          'Per-account progressive delays and temporary lockout with owner notification',
+          'Credential-stuffing detection per IP and device',
+          'Per-session device, IP and approximate location with new-device login alerts',
+          'SMS OTP or TOTP two-factor with recovery codes (required for admins and bank-verified workers)',
+          'Permission-based access (e.g. booking:approve, review:moderate) with admin sub-roles'
         ]
       },
       verification: { // NEW: Verification endpoints
@@ -152,7 +206,8 @@ app.get('/api/v1', (req, res) => {
           'POST /phone/verify - Verify SMS code ✅',
           'POST /email/verify - Verify email token ✅',
           'GET /onboarding/:userId - Role-specific onboarding recommendations ✅',
-          'GET /preview/:template/:role - Email template preview (dev only) ✅'
+          'GET /preview - List registered email templates (dev only) ✅',
+          'GET /preview/:template/:role - Render any email template with sample data (dev only) ✅'
         ],
         features: [
           'Email verification with 64-character hex tokens',
@@ -164,6 +219,205 @@ app.get('/api/v1', (req, res) => {
           'Account verification status with next-step guidance'
         ]
       },
+      jobs: {
+        base: '/api/v1/jobs',
+        endpoints: [
+          'GET / - Browse open jobs (category, city/province, budget, urgency, location_type, skills) ✅',
+          'GET /mine - Client job postings (all statuses) ✅',
+          'GET /:id - Job detail with view tracking ✅',
+          'POST / - Create job draft (client) ✅',
+          'PUT /:id - Update draft or open job (client) ✅',
+          'POST /:id/publish - Publish draft job ✅',
+          'POST /:id/close - Close job before assignment ✅',
+          'POST /:id/apply - Worker applies to open job ✅',
+          'GET /:id/applications - Client views job applications ✅',
+          'GET /applications/mine - Worker application history ✅',
+          'POST /applications/:bookingId/withdraw - Withdraw pending application ✅'
+        ]
+      },
+      bookings: {
+        base: '/api/v1/bookings',
+        endpoints: [
+          'GET / - Client and worker bookings ✅',
+          'GET /:id - Booking detail with timeline and work duration ✅',
+          'POST /:id/accept - Accept application (auto-rejects other applicants) ✅',
+          'POST /:id/reject - Reject application ✅',
+          'PUT /:id/schedule - Propose schedule ✅',
+          'POST /:id/schedule/confirm - Confirm proposed schedule ✅',
+          'POST /:id/start - Start work ✅',
+          'POST /:id/complete - Complete work with photos ✅',
+          'POST /:id/approve - Approve completed work ✅',
+          'POST /:id/request-changes - Send work back for changes ✅',
+          'GET /:id/cancellation - Quote refund/compensation for cancelling now ✅',
+          'POST /:id/cancel - Cancel booking under its cancellation policy ✅'
+        ]
+      },
+      payments: {
+        base: '/api/v1/payments',
+        endpoints: [
+          'GET /bookings/:id/ledger - Booking journal entries with reconciliation ✅',
+          'GET /admin/reconciliation - Ledger reconciliation report (admin) ✅',
+          'POST /bookings/:id/checkout - Start GCash/PayMaya checkout (client) ✅',
+          'GET /bookings/:id/transactions - Provider transactions for a booking ✅',
+          'POST /webhooks/:provider - Signed provider webhooks ✅',
+          'POST /dev/bookings/:id/hold - Simulate escrow funding (dev only) ✅',
+          'POST /dev/checkouts/:provider/:checkoutId/simulate - Simulate wallet payment (dev only) ✅'
+        ],
+        features: [
+          'Double-entry ledger: client wallet, escrow, platform commission, worker payable',
+          'Immutable journal entries for hold, release and refund',
+          'Per-booking reconciliation against calculatePayments()',
+          'Pluggable payment providers with local GCash/PayMaya simulators',
+          'HMAC-signed, idempotent webhooks fund escrow on capture'
+        ]
+      },
+      payouts: {
+        base: '/api/v1/payouts',
+        endpoints: [
+          'GET /mine - Worker payout batches ✅',
+          'GET /mine/balance - Unpaid, queued and paid-out earnings ✅',
+          'GET /statements - Monthly earnings statements ✅',
+          'GET /statements/:period - Statement for a month (YYYY-MM) ✅',
+          'GET /admin/batches - Payout batches by status/method (admin) ✅',
+          'POST /admin/run - Run payouts now (admin) ✅',
+          'POST /admin/batches/:id/send - Send a queued batch (admin) ✅',
+          'POST /admin/batches/:id/reverse - Reverse a sent batch (admin) ✅',
+          'POST /admin/statements/generate - Generate monthly statements (admin) ✅'
+        ],
+        features: [
+          'Scheduled per-worker batching of released earnings',
+          'Preferred payout method: GCash, PayMaya or verified bank transfer',
+          'Batch states: queued, sent, failed, reversed',
+          'Monthly statements with gross, 15% commission and net'
+        ]
+      },
+      cancellation_policies: {
+        base: '/api/v1/cancellation-policies',
+        endpoints: [
+          'GET / - Active cancellation policies ✅',
+          'GET /admin/all - All policy versions (admin) ✅',
+          'POST /admin - Publish a new policy version (admin) ✅',
+          'POST /admin/:id/deactivate - Retire a category policy (admin) ✅'
+        ],
+        features: [
+          'Refund %, worker compensation and platform fee by canceller, status and hours to start',
+          'Policies per job category with a default fallback',
+          'Versioned policies pinned to each booking at application time'
+        ]
+      },
+      disputes: {
+        base: '/api/v1/disputes',
+        endpoints: [
+          'POST / - Open a dispute with reason and evidence ✅',
+          'GET /mine - Disputes on my bookings ✅',
+          'GET /:id - Dispute detail, SLA timers and history ✅',
+          'POST /:id/messages - Message the dispute thread ✅',
+          'POST /:id/evidence - Add evidence photos ✅',
+          'GET /admin/queue - Active disputes by deadline (admin) ✅',
+          'POST /:id/assign - Assign to an admin (admin) ✅',
+          'POST /:id/comments - Internal admin comment (admin) ✅',
+          'POST /:id/resolve - Full refund, partial split or release (admin) ✅'
+        ],
+        features: [
+          'Escrow frozen while disputed',
+          'Outcomes applied to payment_status and the escrow ledger',
+          'Response and resolution SLA timers with breach tracking',
+          'Append-only dispute history'
+        ]
+      },
+      reviews: {
+        base: '/api/v1/reviews',
+        endpoints: [
+          'POST / - Review the other party on an approved/paid booking ✅',
+          'GET /booking/:bookingId - My review and the published counterpart ✅',
+          'GET /users/:userId - Published reviews and rating summary ✅',
+          'GET /search - Search published reviews ✅',
+          'POST /:id/response - One response by the reviewee ✅',
+          'GET /:id/vote - My current vote ✅',
+          'POST /:id/vote - Helpful/unhelpful vote (one per user) ✅',
+          'DELETE /:id/vote - Withdraw my vote ✅',
+          'POST /:id/report - Report for moderation ✅',
+          'GET /admin/queue - Moderation queue with filters (admin) ✅',
+          'GET /admin/screening-rules - Screening rules (admin) ✅',
+          'POST /admin/screening-rules - Add a screening rule (admin) ✅',
+          'POST /admin/screening-rules/:ruleId/activate - Turn a rule on (admin) ✅',
+          'POST /admin/screening-rules/:ruleId/deactivate - Turn a rule off (admin) ✅',
+          'POST /admin/screening/test - Preview screening on sample text (admin) ✅',
+          'GET /admin/:id - Review with moderation history (admin) ✅',
+          'POST /admin/:id/claim - Claim from the queue (admin) ✅',
+          'POST /admin/:id/assign - Assign to a moderator (admin) ✅',
+          'POST /admin/:id/hide - Hide from public view (admin) ✅',
+          'POST /admin/:id/restore - Restore a hidden review (admin) ✅',
+          'POST /admin/:id/redact - Redact phrases (admin) ✅',
+          'POST /admin/:id/photos/remove - Remove photos (admin) ✅',
+          'POST /admin/:id/verify - Mark verified (admin) ✅',
+          'POST /admin/:id/dismiss - Dismiss a flag (admin) ✅'
+        ],
+        features: [
+          'Clients rate workers and workers rate clients',
+          'Double-blind publication until both review or the window closes',
+          'Deduplicated votes per user',
+          'Structured moderation history per review',
+          'Automated screening for profanity (English/Filipino), contact details, off-platform payment and duplicate text'
+        ]
+      },
+      sms: {
+        base: '/api/v1/sms',
+        endpoints: [
+          'POST /receipts/:provider - Delivery receipt callbacks ✅',
+          'GET /admin/messages - Outgoing SMS log with status (admin) ✅',
+          'GET /admin/costs - Cost and delivery per provider and network (admin) ✅',
+          'GET /dev/outbox - Messages sent through the fake provider (dev only) ✅',
+          'DELETE /dev/outbox - Clear the fake outbox (dev only) ✅',
+          'GET /dev/route/:number - Provider route for a number (dev only) ✅'
+        ],
+        features: [
+          'Semaphore and Twilio providers, routed per network (Globe, Smart, DITO)',
+          'Retries with backoff and failover to the next provider',
+          'Delivery status and per-message cost tracking',
+          'File-backed fake provider for local development and tests'
+        ]
+      },
+      email: {
+        base: '/api/v1/email',
+        endpoints: [
+          'POST /events - Signed bounce, complaint and delivery reports ✅',
+          'GET /admin/messages - Outgoing email log with status (admin) ✅',
+          'GET /admin/suppressions - Undeliverable addresses (admin) ✅',
+          'DELETE /admin/suppressions/:email - Lift a suppression (admin) ✅',
+          'GET /dev/outbox - Messages in the local maildir (dev only) ✅',
+          'GET /dev/outbox/:file - Raw message source (dev only) ✅',
+          'DELETE /dev/outbox - Clear the local maildir (dev only) ✅',
+          'POST /dev/events - Simulate bounces and complaints (dev only) ✅'
+        ],
+        features: [
+          'Template registry with HTML and plain-text variants',
+          'SMTP transport, or a local maildir outbox in development',
+          'Hard bounces and complaints suppress an address; repeated soft bounces too',
+          'Sends to suppressed addresses are skipped and logged'
+        ]
+      },
+      nbi_clearances: {
+        base: '/api/v1/nbi-clearances',
+        endpoints: [
+          'GET /admin/reasons - Rejection reasons shown to workers (admin) ✅',
+          'GET /admin/queue - Submissions awaiting review, oldest first (admin) ✅',
+          'GET /admin/expiry-report - Upcoming expirations and flagged bookings (admin) ✅',
+          'POST /admin/expiry-check - Run reminders and expiry now (admin) ✅',
+          'POST /admin/flagged-bookings/:id/resolve - Clear an expiry flag on a booking (admin) ✅',
+          'GET /admin/:id - Submission with history and number reuse (admin) ✅',
+          'POST /admin/:id/approve - Approve a clearance (admin) ✅',
+          'POST /admin/:id/reject - Reject with reasons (admin) ✅'
+        ],
+        features: [
+          'Workers submit number, validity date and scan via PUT /api/v1/profile/nbi-clearance',
+          'Only a reviewer decision sets a worker NBI-approved',
+          'Reviewer, time, reasons and notes kept per submission',
+          'Decision emailed to the worker',
+          'Expiry reminders 30, 14 and 3 days ahead',
+          'Expired workers leave job search, pending applications are withdrawn and active bookings flagged'
+        ]
+      },
       testing: {
         base: '/api/v1/test',
         endpoints: [
@@ -214,6 +468,7 @@ app.get('/api/v1', (req, res) => {
 
 // Authentication Routes
 app.use('/api/v1/auth', authRoutes);
+app.use('/api/v1/auth/2fa', twoFactorRoutes);  // Two-factor setup and login challenge
 
 // Verification Routes - NEW
 app.use('/api/v1/verification', verificationRoutes);
@@ -221,6 +476,36 @@ app.use('/api/v1/verification', verificationRoutes);
 // Profile Routes - NEW
 app.use('/api/v1/profile', profileRoutes);
 
+// Job Routes
+app.use('/api/v1/jobs', jobRoutes);
+
+// Booking Routes
+app.use('/api/v1/bookings', bookingRoutes);
+
+// Payment & Escrow Ledger Routes
+app.use('/api/v1/payments', paymentRoutes);
+
+// Worker Payout Routes
+app.use('/api/v1/payouts', payoutRoutes);
+
+// Cancellation Policy Routes
+app.use('/api/v1/cancellation-policies', cancellationPolicyRoutes);
+
+// Dispute Routes
+app.use('/api/v1/disputes', disputeRoutes);
+
+// Review Routes
+app.use('/api/v1/reviews', reviewRoutes);
+
+// SMS Routes (delivery receipts and admin log)
+app.use('/api/v1/sms', smsRoutes);
+
+// Email Routes (bounce/complaint reports and admin log)
+app.use('/api/v1/email', emailRoutes);
+
+// NBI Clearance Review Routes
+app.use('/api/v1/nbi-clearances', nbiClearanceRoutes);
+
 // Test Routes - For development and model testing
 if (process.env.NODE_ENV === 'development') {
   app.use('/api/v1/test', testRoutes);
@@ -274,6 +559,15 @@ const startServer = async () => {
       process.exit(1);
     }
 
+    // Seed the first super_admin so admin sub-roles can be assigned
+    await AuthorizationService.bootstrapSuperAdmin();
+
+    // Keep worker and client ratings in sync with the review store
+    RatingService.attachReviewHooks();
+
+    // Screen review text for profanity, contact details and spam
+    ReviewScreeningService.attachReviewHooks();
+
     // Start the server
     app.listen(PORT, () => {
       console.log(`
@@ -285,6 +579,27 @@ const startServer = async () => {
 📚 API base: http://localhost:${PORT}/api/v1
 ⏰ Started at: ${new Date().toLocaleString()}
       `);
+
+      // Recurring worker payouts and monthly statements
+      PayoutService.startScheduler();
+
+      // Dispute SLA breach checks
+      DisputeService.startSlaMonitor();
+
+      // NBI clearance expiry reminders and suspensions
+      NbiExpiryService.startExpiryMonitor();
+
+      // Double-blind review publication
+      ReviewService.startPublicationScheduler();
+
+      // Time-decayed rating scores
+      RatingService.startDecayRefresh();
+
+      // Expired sessions and refresh tokens
+      TokenService.startCleanupScheduler();
+
+      // Expired SMS codes and email verification tokens
+      verificationService.startCleanupScheduler();
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
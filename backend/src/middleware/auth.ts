@@ -1,30 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import User from '../models/User';
+import TokenService from '../services/tokens';
+import AuthorizationService, { Permission } from '../services/authorization';
 
 // Extend Express Request interface
 declare global {
   namespace Express {
     interface Request {
       user?: any;
+      sessionId?: string;     // AuthSession of the access token
+      twoFactorSetup?: boolean; // Authenticated with a 2FA setup token
     }
   }
 }
 
-// JWT Payload interface
-interface JWTPayload {
-  id: string;
-  email: string;
-  role: 'client' | 'worker' | 'admin';
-  is_verified: boolean;
-  iat: number;
-  exp: number;
-}
-
 /**
- * Authentication middleware - Verify JWT token
+ * Build the authentication middleware
+ * @param allowSetupToken - Also accept 2FA setup tokens (2FA enrollment routes only)
  */
-export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+const createAuthenticator = (allowSetupToken: boolean) => async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
     
@@ -38,8 +32,11 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
-    // Verify JWT token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JWTPayload;
+    // Verify JWT token (rejects tokens whose session was revoked)
+    const isSetupToken = allowSetupToken && TokenService.isSetupToken(token);
+    const decoded = isSetupToken
+      ? TokenService.verifySetupToken(token)
+      : await TokenService.verifyAccessToken(token);
 
     // Find user in database
     const user = await User.findByPk(decoded.id, {
@@ -56,6 +53,8 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
 
     // Add user to request
     req.user = user;
+    req.sessionId = 'sid' in decoded ? decoded.sid : undefined;
+    req.twoFactorSetup = isSetupToken;
     
     console.log(`🔐 Authenticated: ${user.email} (${user.role})`);
     next();
@@ -79,6 +78,14 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       });
     }
 
+    if (error.name === 'TokenRevokedError') {
+      return res.status(401).json({
+        success: false,
+        error: 'Session has ended. Please log in again.',
+        code: 'TOKEN_REVOKED'
+      });
+    }
+
     res.status(500).json({
       success: false,
       error: 'Authentication failed',
@@ -88,23 +95,41 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
 };
 
 /**
- * Role-based access control
+ * Authentication middleware - Verify JWT token and its session
  */
-export const requireRole = (roles: string | string[]) => {
+export const authenticate = createAuthenticator(false);
+
+/**
+ * Authentication for 2FA enrollment - also accepts the setup token
+ * issued at login to accounts that must enable 2FA first
+ */
+export const authenticateTwoFactorSetup = createAuthenticator(true);
+
+/**
+ * Authorization middleware - let the request through when the check passes
+ * @param check - Decision for the authenticated user
+ * @param deniedMessage - 403 error text
+ * @param deniedCode - 403 error code
+ */
+export const authorize = (
+  check: (user: User, req: Request) => boolean,
+  deniedMessage: string,
+  deniedCode: string
+) => {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({
         success: false,
-        error: 'Authentication required'
+        error: 'Authentication required',
+        code: 'NO_TOKEN'
       });
     }
 
-    const allowedRoles = Array.isArray(roles) ? roles : [roles];
-    
-    if (!allowedRoles.includes(req.user.role)) {
+    if (!check(req.user, req)) {
       return res.status(403).json({
         success: false,
-        error: `Access denied. Required role: ${allowedRoles.join(' or ')}`
+        error: deniedMessage,
+        code: deniedCode
       });
     }
 
@@ -112,4 +137,27 @@ export const requireRole = (roles: string | string[]) => {
   };
 };
 
-export default { authenticate, requireRole };
\ No newline at end of file
+/**
+ * Permission-based access control (all listed permissions required)
+ */
+export const requirePermission = (...permissions: Permission[]) =>
+  authorize(
+    user => AuthorizationService.hasPermission(user, ...permissions),
+    `Access denied. Required permission: ${permissions.join(', ')}`,
+    'PERMISSION_DENIED'
+  );
+
+/**
+ * Role-based access control
+ */
+export const requireRole = (roles: string | string[]) => {
+  const allowedRoles = Array.isArray(roles) ? roles : [roles];
+
+  return authorize(
+    user => allowedRoles.includes(user.role),
+    `Access denied. Required role: ${allowedRoles.join(' or ')}`,
+    'ROLE_REQUIRED'
+  );
+};
+
+export default { authenticate, authenticateTwoFactorSetup, authorize, requirePermission, requireRole };
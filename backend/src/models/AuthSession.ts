@@ -0,0 +1,247 @@
+import { DataTypes, Model, Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+
+// Why a session (and every refresh token in it) stopped working
+export const SESSION_REVOCATION_REASONS = [
+  'logout',           // User logged out of this device
+  'user_revoked',     // User ended this session from their session list
+  'logout_all',       // User logged out everywhere
+  'admin_forced',     // Admin ended the user's sessions
+  'token_reuse',      // A rotated refresh token was presented again
+  'password_reset'    // Password was reset
+] as const;
+
+export type SessionRevocationReason = typeof SESSION_REVOCATION_REASONS[number];
+
+// AuthSession Interface for TypeScript
+export interface AuthSessionAttributes {
+  id: string;
+  user_id: string;
+  device_id?: string;
+  device_name?: string;
+  user_agent?: string;
+  ip_address?: string;
+  last_ip_address?: string;
+  location?: string;
+  is_new_device: boolean;
+  expires_at: Date;
+  last_used_at?: Date;
+  revoked_at?: Date;
+  revoked_reason?: SessionRevocationReason;
+  revoked_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A logged-in device. Records where the login came from, owns one family
+ * of rotating refresh tokens and is referenced by every access token
+ * issued for it (the `sid` claim), so revoking the session cuts off both.
+ * Ended sessions are kept as login history (see TokenService.cleanupExpired).
+ */
+class AuthSession extends Model<AuthSessionAttributes> implements AuthSessionAttributes {
+  public id!: string;
+  public user_id!: string;
+  public device_id?: string;
+  public device_name?: string;
+  public user_agent?: string;
+  public ip_address?: string;
+  public last_ip_address?: string;
+  public location?: string;
+  public is_new_device!: boolean;
+  public expires_at!: Date;
+  public last_used_at?: Date;
+  public revoked_at?: Date;
+  public revoked_reason?: SessionRevocationReason;
+  public revoked_by?: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // INSTANCE METHODS
+
+  /**
+   * Check if the session can still be used
+   */
+  public isActive(now: Date = new Date()): boolean {
+    return !this.revoked_at && this.expires_at > now;
+  }
+
+  /**
+   * Revoke this session
+   * @param revokedBy - Admin who forced the logout
+   */
+  public async revoke(reason: SessionRevocationReason, revokedBy?: string, transaction?: Transaction): Promise<void> {
+    if (this.revoked_at) return;
+
+    this.revoked_at = new Date();
+    this.revoked_reason = reason;
+    this.revoked_by = revokedBy;
+    await this.save({ transaction });
+  }
+
+  // STATIC METHODS
+
+  /**
+   * Revoke every active session of a user
+   * @returns number - Sessions revoked
+   */
+  public static async revokeAllForUser(
+    userId: string,
+    reason: SessionRevocationReason,
+    revokedBy?: string,
+    transaction?: Transaction
+  ): Promise<number> {
+    const [count] = await AuthSession.update(
+      { revoked_at: new Date(), revoked_reason: reason, revoked_by: revokedBy },
+      {
+        where: { user_id: userId, revoked_at: null } as any,
+        transaction
+      }
+    );
+    return count;
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  public static async findActiveForUser(userId: string): Promise<AuthSession[]> {
+    return await AuthSession.findAll({
+      where: {
+        user_id: userId,
+        revoked_at: null,
+        expires_at: { [Op.gt]: new Date() }
+      } as any,
+      order: [['last_used_at', 'DESC']]
+    });
+  }
+}
+
+// Initialize AuthSession Model
+AuthSession.init(
+  {
+    // Primary Key (the `sid` claim of access tokens)
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    // Device the session was opened on
+    device_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'App-provided X-Device-Id'
+    },
+
+    device_name: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+      comment: 'e.g. Chrome on Android'
+    },
+
+    user_agent: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      comment: 'IP at login'
+    },
+
+    last_ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      comment: 'IP at the last token refresh'
+    },
+
+    location: {
+      type: DataTypes.STRING(120),
+      allowNull: true,
+      comment: 'Approximate city/region/country from proxy geo headers'
+    },
+
+    is_new_device: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      comment: 'First login from this device (owner was alerted)'
+    },
+
+    // Moves forward with every refresh token rotation
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    last_used_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // Revocation
+    revoked_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    revoked_reason: {
+      type: DataTypes.ENUM(...SESSION_REVOCATION_REASONS),
+      allowNull: true
+    },
+
+    revoked_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'AuthSession',
+    tableName: 'auth_sessions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['user_id', 'revoked_at'] },
+      { fields: ['user_id', 'created_at'] },
+      { fields: ['device_id'] },
+      { fields: ['expires_at'] }
+    ]
+  }
+);
+
+export default AuthSession;
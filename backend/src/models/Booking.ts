@@ -1,5 +1,6 @@
-import { DataTypes, Model, Op } from 'sequelize';
+import { DataTypes, Model, Op, Transaction } from 'sequelize';
 import sequelize from '../config/database';
+import { CancellationOutcome } from './CancellationPolicy';
 
 // Booking Status Workflow
 export const BOOKING_STATUS = [
@@ -29,6 +30,92 @@ export const PAYMENT_STATUS = [
 
 export type PaymentStatus = typeof PAYMENT_STATUS[number];
 
+// Who can trigger a booking status transition
+export const BOOKING_ACTORS = [
+  'client',        // Client who posted the job
+  'worker',        // Worker who applied
+  'admin',         // Platform administrator
+  'system'         // Automated jobs (auto-accept, payment processing)
+] as const;
+
+export type BookingActor = typeof BOOKING_ACTORS[number];
+
+// Why an active booking was flagged for admin review
+export const BOOKING_FLAG_REASONS = [
+  'worker_nbi_expired'  // Worker's NBI clearance expired while the booking was active
+] as const;
+
+export type BookingFlagReason = typeof BOOKING_FLAG_REASONS[number];
+
+// Booking status transition table: from → to → allowed actors
+export const BOOKING_TRANSITIONS: Record<BookingStatus, Partial<Record<BookingStatus, BookingActor[]>>> = {
+  pending: {
+    accepted: ['client', 'system'],
+    rejected: ['client', 'system'],
+    cancelled: ['worker', 'client', 'admin', 'system']
+  },
+  accepted: {
+    confirmed: ['client', 'worker'],
+    cancelled: ['client', 'worker', 'admin']
+  },
+  confirmed: {
+    in_progress: ['worker'],
+    cancelled: ['client', 'worker', 'admin']
+  },
+  in_progress: {
+    completed: ['worker'],
+    disputed: ['client', 'worker'],
+    cancelled: ['admin']
+  },
+  completed: {
+    approved: ['client', 'system'],
+    in_progress: ['client'],      // Client requested changes
+    disputed: ['client', 'worker']
+  },
+  approved: {
+    paid: ['system', 'admin'],
+    disputed: ['client', 'worker']
+  },
+  paid: {},
+  cancelled: {},
+  disputed: {
+    in_progress: ['admin'],
+    completed: ['admin'],
+    approved: ['admin'],
+    paid: ['admin'],
+    cancelled: ['admin']
+  },
+  rejected: {}
+};
+
+// Job status that follows the accepted booking's status
+export const JOB_STATUS_FOR_BOOKING: Partial<Record<BookingStatus, string>> = {
+  accepted: 'assigned',
+  confirmed: 'assigned',
+  in_progress: 'in_progress',
+  completed: 'review',
+  approved: 'review',
+  paid: 'completed',
+  disputed: 'disputed',
+  cancelled: 'open'              // Accepted booking fell through, job reopens
+};
+
+// Typed error for rejected booking status transitions
+export class BookingTransitionError extends Error {
+  public readonly status = 409;
+
+  constructor(
+    public readonly code: 'ILLEGAL_TRANSITION' | 'ACTOR_NOT_ALLOWED' | 'PRECONDITION_FAILED',
+    public readonly from: BookingStatus,
+    public readonly to: BookingStatus,
+    public readonly actor: BookingActor,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BookingTransitionError';
+  }
+}
+
 // Booking Interface for TypeScript
 export interface BookingAttributes {
   id: string;
@@ -53,6 +140,7 @@ export interface BookingAttributes {
   // Scheduling
   scheduled_start?: Date;
   scheduled_end?: Date;
+  schedule_proposed_by?: 'client' | 'worker';
   actual_start?: Date;
   actual_end?: Date;
   
@@ -62,6 +150,10 @@ export interface BookingAttributes {
   commission_amount?: number;
   worker_payout?: number;
   
+  // Cancellation
+  cancellation_policy_id?: string;
+  cancellation_outcome?: CancellationOutcome;
+  
   // Communication
   client_notes?: string;
   worker_notes?: string;
@@ -73,6 +165,10 @@ export interface BookingAttributes {
   worker_satisfaction?: number;
   issues_reported: boolean;
   
+  // Admin Review Flag
+  flagged_at?: Date;
+  flag_reason?: BookingFlagReason;
+  
   // Timestamps
   created_at: Date;
   updated_at: Date;
@@ -99,6 +195,7 @@ class Booking extends Model<BookingAttributes> implements BookingAttributes {
   
   public scheduled_start?: Date;
   public scheduled_end?: Date;
+  public schedule_proposed_by?: 'client' | 'worker';
   public actual_start?: Date;
   public actual_end?: Date;
   
@@ -107,6 +204,9 @@ class Booking extends Model<BookingAttributes> implements BookingAttributes {
   public commission_amount?: number;
   public worker_payout?: number;
   
+  public cancellation_policy_id?: string;
+  public cancellation_outcome?: CancellationOutcome;
+  
   public client_notes?: string;
   public worker_notes?: string;
   public admin_notes?: string;
@@ -116,6 +216,9 @@ class Booking extends Model<BookingAttributes> implements BookingAttributes {
   public worker_satisfaction?: number;
   public issues_reported!: boolean;
   
+  public flagged_at?: Date;
+  public flag_reason?: BookingFlagReason;
+  
   public created_at!: Date;
   public updated_at!: Date;
 
@@ -123,13 +226,13 @@ class Booking extends Model<BookingAttributes> implements BookingAttributes {
   public job?: any;
   public worker?: any;
   public client?: any;
-  public review?: any;
+  public reviews?: any[];
 
 // Review association methods (automatically added by Sequelize associations)
-  public getReview!: () => Promise<any>;
+  public getReviews!: () => Promise<any[]>;
   public createReview!: (reviewData: any) => Promise<any>;
-  public setReview!: (review: any) => Promise<void>;
-  public hasReview!: () => Promise<boolean>;
+  public countReviews!: () => Promise<number>;
+  public hasReview!: (review: any) => Promise<boolean>;
   // INSTANCE METHODS
 
   /**
@@ -268,24 +371,93 @@ class Booking extends Model<BookingAttributes> implements BookingAttributes {
       };
     }
     
-    // Check if too close to start time (less than 2 hours)
-    if (this.scheduled_start) {
-      const hoursUntilStart = (this.scheduled_start.getTime() - Date.now()) / (1000 * 60 * 60);
-      if (hoursUntilStart < 2) {
-        return { 
-          canCancel: false, 
-          reason: 'Cannot cancel less than 2 hours before scheduled start' 
-        };
-      }
-    }
-    
+    // Timing rules, refunds and penalties come from the pinned cancellation policy
     return { canCancel: true };
   }
 
   /**
-   * Update booking status with timestamp tracking
+   * Hours until scheduled start (null when not scheduled)
+   */
+  public getHoursUntilStart(at: Date = new Date()): number | null {
+    if (!this.scheduled_start) return null;
+    return (new Date(this.scheduled_start).getTime() - at.getTime()) / (1000 * 60 * 60);
+  }
+
+  /**
+   * Check whether an actor may move this booking to a new status
+   * @param newStatus - Target status
+   * @param actor - Who is triggering the transition
    */
-  public async updateStatus(newStatus: BookingStatus, notes?: string): Promise<void> {
+  public canTransitionTo(newStatus: BookingStatus, actor: BookingActor): {
+    allowed: boolean;
+    code?: BookingTransitionError['code'];
+    reason?: string;
+  } {
+    const allowedActors = BOOKING_TRANSITIONS[this.status][newStatus];
+
+    if (!allowedActors) {
+      return {
+        allowed: false,
+        code: 'ILLEGAL_TRANSITION',
+        reason: `Cannot move booking from ${this.status} to ${newStatus}`
+      };
+    }
+
+    if (!allowedActors.includes(actor)) {
+      return {
+        allowed: false,
+        code: 'ACTOR_NOT_ALLOWED',
+        reason: `Only ${allowedActors.join(' or ')} can move booking from ${this.status} to ${newStatus}`
+      };
+    }
+
+    // Preconditions
+    if (newStatus === 'confirmed' && !this.scheduled_start) {
+      return {
+        allowed: false,
+        code: 'PRECONDITION_FAILED',
+        reason: 'A scheduled start time is required before confirming'
+      };
+    }
+
+    if (this.status === 'confirmed' && newStatus === 'in_progress' && this.payment_status !== 'held') {
+      return {
+        allowed: false,
+        code: 'PRECONDITION_FAILED',
+        reason: 'Payment must be held in escrow before work starts'
+      };
+    }
+
+    if (newStatus === 'paid' && this.payment_status !== 'released') {
+      return {
+        allowed: false,
+        code: 'PRECONDITION_FAILED',
+        reason: 'Payment must be released before booking is marked paid'
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Update booking status with transition guards and timestamp tracking
+   * @param newStatus - Target status
+   * @param actor - Who is triggering the transition
+   * @param notes - Optional note appended to admin_notes
+   * @param transaction - Optional transaction for the booking and job updates
+   * @throws BookingTransitionError when the transition is not allowed
+   */
+  public async updateStatus(
+    newStatus: BookingStatus,
+    actor: BookingActor,
+    notes?: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    const check = this.canTransitionTo(newStatus, actor);
+    if (!check.allowed) {
+      throw new BookingTransitionError(check.code!, this.status, newStatus, actor, check.reason!);
+    }
+
     const oldStatus = this.status;
     this.status = newStatus;
     
@@ -311,13 +483,35 @@ class Booking extends Model<BookingAttributes> implements BookingAttributes {
     // Add admin notes for status changes
     if (notes) {
       const timestamp = now.toISOString();
-      const statusNote = `[${timestamp}] Status changed from ${oldStatus} to ${newStatus}: ${notes}`;
+      const statusNote = `[${timestamp}] Status changed from ${oldStatus} to ${newStatus} by ${actor}: ${notes}`;
       this.admin_notes = this.admin_notes 
         ? `${this.admin_notes}\n${statusNote}`
         : statusNote;
     }
     
-    await this.save();
+    await this.save({ transaction });
+    await this.syncJobStatus(oldStatus, transaction);
+  }
+
+  /**
+   * Move the job's status in lockstep with its accepted booking
+   * Applications that were never accepted (pending → rejected/cancelled) leave the job alone
+   */
+  private async syncJobStatus(oldStatus: BookingStatus, transaction?: Transaction): Promise<void> {
+    if (oldStatus === 'pending' && this.status !== 'accepted') return;
+
+    // A dispute resolved by cancellation ends the job rather than reopening it
+    const jobStatus = oldStatus === 'disputed' && this.status === 'cancelled'
+      ? 'cancelled'
+      : JOB_STATUS_FOR_BOOKING[this.status];
+    if (!jobStatus) return;
+
+    await sequelize.models.Job.update(
+      { status: jobStatus },
+      { where: { id: this.job_id }, transaction }
+    );
+
+    console.log(`🔄 Job ${this.job_id} status → ${jobStatus} (booking ${this.id}: ${oldStatus} → ${this.status})`);
   }
 
   /**
@@ -1401,6 +1595,11 @@ Booking.init(
       }
     },
 
+    schedule_proposed_by: {
+      type: DataTypes.ENUM('client', 'worker'),
+      allowNull: true
+    },
+
     actual_start: {
       type: DataTypes.DATE,
       allowNull: true
@@ -1468,6 +1667,24 @@ Booking.init(
       }
     },
 
+    // Cancellation policy version pinned when the booking was created
+    cancellation_policy_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'cancellation_policies',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    // Refund/compensation decision applied when the booking was cancelled
+    cancellation_outcome: {
+      type: DataTypes.JSONB,
+      allowNull: true
+    },
+
     // Communication and Notes
     client_notes: {
       type: DataTypes.TEXT,
@@ -1561,6 +1778,17 @@ Booking.init(
       defaultValue: false
     },
 
+    // Admin Review Flag (cleared when an admin resolves it)
+    flagged_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    flag_reason: {
+      type: DataTypes.ENUM(...BOOKING_FLAG_REASONS),
+      allowNull: true
+    },
+
     // Timestamps
     created_at: {
       type: DataTypes.DATE,
@@ -1615,6 +1843,7 @@ Booking.init(
       { fields: ['payment_status'] },
       { fields: ['applied_at'] },
       { fields: ['scheduled_start'] },
+      { fields: ['flagged_at'] },
       { fields: ['created_at'] }
     ],
 
@@ -0,0 +1,203 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import { JobCategory, JOB_CATEGORIES } from './Job';
+
+/**
+ * One line of a cancellation policy. Rules are checked in order and the
+ * first match decides the outcome; whatever is not refunded to the client
+ * or paid to the worker is retained by the platform as a fee.
+ */
+export interface CancellationRule {
+  cancelled_by: Array<'client' | 'worker' | 'admin' | 'system'>;
+  statuses: Array<'pending' | 'accepted' | 'confirmed' | 'in_progress'>;
+  min_hours_before_start?: number;   // Inclusive; omit for no lower bound
+  max_hours_before_start?: number;   // Exclusive; omit for no upper bound
+  allowed: boolean;
+  client_refund_percent: number;
+  worker_compensation_percent: number;
+  reason: string;
+}
+
+// Decision for a specific cancellation (stored on the booking once applied)
+export interface CancellationOutcome {
+  allowed: boolean;
+  reason: string;
+  policy_id: string;
+  policy_name: string;
+  policy_version: number;
+  rule_index: number | null;
+  cancelled_by: string;
+  booking_status: string;
+  hours_until_start: number | null;
+  total_amount: number;
+  client_refund: number;
+  worker_compensation: number;
+  platform_fee: number;
+  evaluated_at: string;
+}
+
+// CancellationPolicy Interface for TypeScript
+export interface CancellationPolicyAttributes {
+  id: string;
+  name: string;
+  version: number;
+  description?: string;
+  categories: JobCategory[];         // Empty = default policy for uncovered categories
+  rules: CancellationRule[];
+  is_active: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Versioned cancellation policy. Published versions are never edited;
+ * bookings pin the version in force when they were created.
+ */
+class CancellationPolicy extends Model<CancellationPolicyAttributes> implements CancellationPolicyAttributes {
+  public id!: string;
+  public name!: string;
+  public version!: number;
+  public description?: string;
+  public categories!: JobCategory[];
+  public rules!: CancellationRule[];
+  public is_active!: boolean;
+  public created_by?: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // INSTANCE METHODS
+
+  /**
+   * Check whether this is the fallback policy for categories without their own
+   */
+  public isDefault(): boolean {
+    return !this.categories || this.categories.length === 0;
+  }
+
+  /**
+   * Get policy summary for API responses
+   */
+  public getPublicInfo() {
+    return {
+      id: this.id,
+      name: this.name,
+      version: this.version,
+      description: this.description,
+      categories: this.categories,
+      is_default: this.isDefault(),
+      is_active: this.is_active,
+      rules: this.rules
+    };
+  }
+}
+
+// Initialize CancellationPolicy Model
+CancellationPolicy.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      validate: {
+        is: {
+          args: /^[a-z0-9_]+$/,
+          msg: 'Policy name must be lowercase letters, numbers and underscores'
+        }
+      }
+    },
+
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1
+    },
+
+    description: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    categories: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      validate: {
+        isValidCategories(value: string[]) {
+          const invalid = value.filter(category => !(JOB_CATEGORIES as readonly string[]).includes(category));
+          if (invalid.length > 0) {
+            throw new Error(`Invalid job categories: ${invalid.join(', ')}`);
+          }
+        }
+      }
+    },
+
+    rules: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      validate: {
+        hasRules(value: CancellationRule[]) {
+          if (!Array.isArray(value) || value.length === 0) {
+            throw new Error('A cancellation policy needs at least one rule');
+          }
+        }
+      }
+    },
+
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+
+    // Admin who published the version (null for built-in defaults)
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: true
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'CancellationPolicy',
+    tableName: 'cancellation_policies',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    // Only activation can change once a version is published
+    hooks: {
+      beforeUpdate: async (policy: CancellationPolicy) => {
+        const frozen = ['name', 'version', 'categories', 'rules'] as const;
+        if (frozen.some(field => policy.changed(field))) {
+          throw new Error('Published cancellation policies cannot be edited; publish a new version instead');
+        }
+      }
+    },
+
+    indexes: [
+      { unique: true, fields: ['name', 'version'] },
+      { fields: ['is_active'] }
+    ]
+  }
+);
+
+export default CancellationPolicy;
@@ -0,0 +1,355 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Why a party opened the dispute
+export const DISPUTE_REASONS = [
+  'work_not_completed',   // Worker left before finishing
+  'poor_quality',         // Work done but below expectations
+  'no_show',              // Party did not show up as scheduled
+  'property_damage',      // Damage during the job
+  'payment_issue',        // Amount or payment disagreement
+  'safety_concern',       // Harassment, unsafe behaviour
+  'other'
+] as const;
+
+export type DisputeReason = typeof DISPUTE_REASONS[number];
+
+export const DISPUTE_STATUS = [
+  'open',                 // Waiting for an admin to pick it up
+  'under_review',         // Assigned to an admin
+  'resolved'              // Outcome applied to the booking and escrow
+] as const;
+
+export type DisputeStatus = typeof DISPUTE_STATUS[number];
+
+// How the admin settled the money
+export const DISPUTE_RESOLUTIONS = [
+  'full_refund',          // Everything in escrow back to the client, booking cancelled
+  'partial_split',        // Part refunded, the rest released to the worker
+  'release_to_worker'     // Escrow released as if the client approved
+] as const;
+
+export type DisputeResolution = typeof DISPUTE_RESOLUTIONS[number];
+
+// Money actually moved by the resolution
+export interface DisputeSettlement {
+  client_refund: number;
+  worker_payout: number;
+  platform_commission: number;
+}
+
+// Dispute Interface for TypeScript
+export interface DisputeAttributes {
+  id: string;
+  booking_id: string;
+  job_id: string;
+  opened_by: string;
+  opened_by_role: 'client' | 'worker';
+  reason: DisputeReason;
+  description: string;
+  evidence_photos: string[];
+  status: DisputeStatus;
+  booking_status_at_open: string;
+  assigned_to?: string;
+  assigned_at?: Date;
+  first_response_at?: Date;
+  response_due_at: Date;
+  resolution_due_at: Date;
+  response_sla_breached: boolean;
+  resolution_sla_breached: boolean;
+  resolution?: DisputeResolution;
+  settlement?: DisputeSettlement;
+  resolution_notes?: string;
+  resolved_by?: string;
+  resolved_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Dispute Model Class
+class Dispute extends Model<DisputeAttributes> implements DisputeAttributes {
+  public id!: string;
+  public booking_id!: string;
+  public job_id!: string;
+  public opened_by!: string;
+  public opened_by_role!: 'client' | 'worker';
+  public reason!: DisputeReason;
+  public description!: string;
+  public evidence_photos!: string[];
+  public status!: DisputeStatus;
+  public booking_status_at_open!: string;
+  public assigned_to?: string;
+  public assigned_at?: Date;
+  public first_response_at?: Date;
+  public response_due_at!: Date;
+  public resolution_due_at!: Date;
+  public response_sla_breached!: boolean;
+  public resolution_sla_breached!: boolean;
+  public resolution?: DisputeResolution;
+  public settlement?: DisputeSettlement;
+  public resolution_notes?: string;
+  public resolved_by?: string;
+  public resolved_at?: Date;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Association properties (will be added by Sequelize)
+  public booking?: any;
+  public events?: any[];
+
+  // INSTANCE METHODS
+
+  /**
+   * Check if dispute is still waiting on an admin decision
+   */
+  public isActive(): boolean {
+    return this.status !== 'resolved';
+  }
+
+  /**
+   * Get SLA timers for first response and resolution
+   */
+  public getSlaStatus(now: Date = new Date()): {
+    response: { due_at: Date; met: boolean | null; hours_remaining: number | null; breached: boolean };
+    resolution: { due_at: Date; met: boolean | null; hours_remaining: number | null; breached: boolean };
+  } {
+    const hoursUntil = (date: Date) => Math.round(((new Date(date).getTime() - now.getTime()) / (1000 * 60 * 60)) * 10) / 10;
+
+    const responseMet = this.first_response_at
+      ? new Date(this.first_response_at) <= new Date(this.response_due_at)
+      : null;
+    const resolutionMet = this.resolved_at
+      ? new Date(this.resolved_at) <= new Date(this.resolution_due_at)
+      : null;
+
+    return {
+      response: {
+        due_at: this.response_due_at,
+        met: responseMet,
+        hours_remaining: this.first_response_at ? null : hoursUntil(this.response_due_at),
+        breached: this.response_sla_breached || responseMet === false
+      },
+      resolution: {
+        due_at: this.resolution_due_at,
+        met: resolutionMet,
+        hours_remaining: this.resolved_at ? null : hoursUntil(this.resolution_due_at),
+        breached: this.resolution_sla_breached || resolutionMet === false
+      }
+    };
+  }
+
+  /**
+   * Get dispute summary safe to show both parties
+   */
+  public getPublicInfo() {
+    return {
+      id: this.id,
+      booking_id: this.booking_id,
+      job_id: this.job_id,
+      opened_by_role: this.opened_by_role,
+      reason: this.reason,
+      description: this.description,
+      evidence_photos: this.evidence_photos,
+      status: this.status,
+      resolution: this.resolution,
+      settlement: this.settlement,
+      resolution_notes: this.resolution_notes,
+      resolved_at: this.resolved_at,
+      created_at: this.created_at
+    };
+  }
+}
+
+// Initialize Dispute Model
+Dispute.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    booking_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bookings',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    job_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'jobs',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    opened_by: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    opened_by_role: {
+      type: DataTypes.ENUM('client', 'worker'),
+      allowNull: false
+    },
+
+    reason: {
+      type: DataTypes.ENUM(...DISPUTE_REASONS),
+      allowNull: false
+    },
+
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      validate: {
+        len: {
+          args: [20, 2000],
+          msg: 'Dispute description must be between 20 and 2000 characters'
+        }
+      }
+    },
+
+    evidence_photos: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      validate: {
+        maxPhotos(value: string[]) {
+          if (value && value.length > 20) {
+            throw new Error('Maximum 20 evidence photos per dispute');
+          }
+        }
+      }
+    },
+
+    status: {
+      type: DataTypes.ENUM(...DISPUTE_STATUS),
+      allowNull: false,
+      defaultValue: 'open'
+    },
+
+    // Booking status before it moved to disputed
+    booking_status_at_open: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+
+    // Admin handling the dispute
+    assigned_to: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    },
+
+    assigned_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // SLA tracking
+    first_response_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    response_due_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    resolution_due_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    response_sla_breached: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+
+    resolution_sla_breached: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+
+    // Outcome
+    resolution: {
+      type: DataTypes.ENUM(...DISPUTE_RESOLUTIONS),
+      allowNull: true
+    },
+
+    settlement: {
+      type: DataTypes.JSONB,
+      allowNull: true
+    },
+
+    resolution_notes: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+
+    resolved_by: {
+      type: DataTypes.UUID,
+      allowNull: true
+    },
+
+    resolved_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'Dispute',
+    tableName: 'disputes',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['booking_id'] },
+      { fields: ['status'] },
+      { fields: ['assigned_to'] },
+      { fields: ['resolution_due_at'] },
+      { fields: ['opened_by'] }
+    ]
+  }
+);
+
+export default Dispute;
@@ -0,0 +1,145 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Everything that happens on a dispute, in order
+export const DISPUTE_EVENT_TYPES = [
+  'opened',
+  'message',              // Visible to both parties and admins
+  'evidence_added',
+  'assigned',
+  'internal_comment',     // Admin-only note
+  'sla_breached',
+  'resolved'
+] as const;
+
+export type DisputeEventType = typeof DISPUTE_EVENT_TYPES[number];
+
+// DisputeEvent Interface for TypeScript
+export interface DisputeEventAttributes {
+  id: string;
+  dispute_id: string;
+  actor_id?: string;
+  actor_role: 'client' | 'worker' | 'admin' | 'system';
+  event_type: DisputeEventType;
+  message?: string;
+  attachments: string[];
+  is_internal: boolean;
+  metadata?: Record<string, any>;
+  created_at: Date;
+}
+
+/**
+ * Append-only history of a dispute: messages, evidence, assignment,
+ * admin comments, SLA breaches and the final resolution.
+ */
+class DisputeEvent extends Model<DisputeEventAttributes> implements DisputeEventAttributes {
+  public id!: string;
+  public dispute_id!: string;
+  public actor_id?: string;
+  public actor_role!: 'client' | 'worker' | 'admin' | 'system';
+  public event_type!: DisputeEventType;
+  public message?: string;
+  public attachments!: string[];
+  public is_internal!: boolean;
+  public metadata?: Record<string, any>;
+  public created_at!: Date;
+}
+
+// Initialize DisputeEvent Model
+DisputeEvent.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    dispute_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'disputes',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    // Null for system events
+    actor_id: {
+      type: DataTypes.UUID,
+      allowNull: true
+    },
+
+    actor_role: {
+      type: DataTypes.ENUM('client', 'worker', 'admin', 'system'),
+      allowNull: false
+    },
+
+    event_type: {
+      type: DataTypes.ENUM(...DISPUTE_EVENT_TYPES),
+      allowNull: false
+    },
+
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      validate: {
+        len: {
+          args: [0, 2000],
+          msg: 'Message cannot exceed 2000 characters'
+        }
+      }
+    },
+
+    attachments: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: []
+    },
+
+    is_internal: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+
+    metadata: {
+      type: DataTypes.JSONB,
+      allowNull: true
+    },
+
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'DisputeEvent',
+    tableName: 'dispute_events',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+
+    // Dispute history is append-only
+    hooks: {
+      beforeUpdate: async () => {
+        throw new Error('Dispute history is immutable');
+      },
+      beforeDestroy: async () => {
+        throw new Error('Dispute history cannot be deleted');
+      }
+    },
+
+    indexes: [
+      { fields: ['dispute_id', 'created_at'] },
+      { fields: ['event_type'] }
+    ]
+  }
+);
+
+export default DisputeEvent;
@@ -0,0 +1,195 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Per-booking breakdown stored on a statement
+export interface EarningsStatementLineItem {
+  booking_id: string;
+  job_title?: string;
+  released_at: string;
+  gross: number;
+  commission: number;
+  net: number;
+}
+
+// EarningsStatement Interface for TypeScript
+export interface EarningsStatementAttributes {
+  id: string;
+  worker_id: string;
+  period: string;            // YYYY-MM (Asia/Manila)
+  period_start: Date;
+  period_end: Date;
+  gross_amount: number;
+  commission_amount: number;
+  net_amount: number;
+  commission_rate: number;
+  booking_count: number;
+  paid_out_amount: number;
+  line_items: EarningsStatementLineItem[];
+  generated_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Monthly earnings summary for a worker, derived from the escrow ledger.
+ * Regenerating a period overwrites the stored figures.
+ */
+class EarningsStatement extends Model<EarningsStatementAttributes> implements EarningsStatementAttributes {
+  public id!: string;
+  public worker_id!: string;
+  public period!: string;
+  public period_start!: Date;
+  public period_end!: Date;
+  public gross_amount!: number;
+  public commission_amount!: number;
+  public net_amount!: number;
+  public commission_rate!: number;
+  public booking_count!: number;
+  public paid_out_amount!: number;
+  public line_items!: EarningsStatementLineItem[];
+  public generated_at!: Date;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // INSTANCE METHODS
+
+  /**
+   * Get statement summary for API responses
+   */
+  public getSummary() {
+    return {
+      period: this.period,
+      period_start: this.period_start,
+      period_end: this.period_end,
+      gross_amount: Number(this.gross_amount),
+      commission_amount: Number(this.commission_amount),
+      commission_rate: Number(this.commission_rate),
+      net_amount: Number(this.net_amount),
+      paid_out_amount: Number(this.paid_out_amount),
+      booking_count: this.booking_count,
+      generated_at: this.generated_at
+    };
+  }
+}
+
+// Initialize EarningsStatement Model
+EarningsStatement.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    worker_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    period: {
+      type: DataTypes.STRING(7),
+      allowNull: false,
+      validate: {
+        is: {
+          args: /^\d{4}-(0[1-9]|1[0-2])$/,
+          msg: 'Statement period must be YYYY-MM'
+        }
+      }
+    },
+
+    period_start: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    period_end: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    gross_amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    commission_amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    net_amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    commission_rate: {
+      type: DataTypes.DECIMAL(4, 3),
+      allowNull: false,
+      defaultValue: 0.15
+    },
+
+    booking_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    // Earnings actually sent to the worker during the period
+    paid_out_amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    line_items: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+
+    generated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'EarningsStatement',
+    tableName: 'earnings_statements',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { unique: true, fields: ['worker_id', 'period'] },
+      { fields: ['period'] }
+    ]
+  }
+);
+
+export default EarningsStatement;
@@ -0,0 +1,169 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Registered transactional templates (see services/emailTemplates)
+export const EMAIL_TEMPLATES = [
+  'welcome',
+  'email_verification',
+  'password_reset',
+  'account_locked',
+  'new_device_login',
+  'booking_accepted',
+  'payment_released',
+  'review_received',
+  'nbi_clearance_approved',
+  'nbi_clearance_rejected',
+  'nbi_clearance_expiring',
+  'nbi_clearance_expired'
+] as const;
+
+export type EmailTemplateName = typeof EMAIL_TEMPLATES[number];
+
+// How mail leaves the server
+export const EMAIL_TRANSPORTS = ['smtp', 'outbox'] as const;
+
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number];
+
+export const EMAIL_STATUS = [
+  'queued',        // Created, not yet handed to the transport
+  'sent',          // Accepted by the SMTP server / written to the outbox
+  'failed',        // Transport refused it
+  'suppressed',    // Not sent: the address is marked undeliverable
+  'bounced',       // Bounce reported after sending
+  'complained'     // Recipient marked it as spam
+] as const;
+
+export type EmailStatus = typeof EMAIL_STATUS[number];
+
+// EmailMessage Interface for TypeScript
+export interface EmailMessageAttributes {
+  id: string;
+  user_id?: string;
+  to: string;
+  template: EmailTemplateName;
+  subject: string;
+  status: EmailStatus;
+  transport?: EmailTransportName;
+  provider_message_id?: string;
+  failure_reason?: string;
+  sent_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * An outgoing transactional email: template, transport and delivery
+ * status. Bodies are not stored since most carry tokens or links.
+ */
+class EmailMessage extends Model<EmailMessageAttributes> implements EmailMessageAttributes {
+  public id!: string;
+  public user_id?: string;
+  public to!: string;
+  public template!: EmailTemplateName;
+  public subject!: string;
+  public status!: EmailStatus;
+  public transport?: EmailTransportName;
+  public provider_message_id?: string;
+  public failure_reason?: string;
+  public sent_at?: Date;
+  public created_at!: Date;
+  public updated_at!: Date;
+}
+
+// Initialize EmailMessage Model
+EmailMessage.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    },
+
+    // Lowercased recipient address
+    to: {
+      type: DataTypes.STRING(255),
+      allowNull: false
+    },
+
+    template: {
+      type: DataTypes.ENUM(...EMAIL_TEMPLATES),
+      allowNull: false
+    },
+
+    subject: {
+      type: DataTypes.STRING(255),
+      allowNull: false
+    },
+
+    status: {
+      type: DataTypes.ENUM(...EMAIL_STATUS),
+      allowNull: false,
+      defaultValue: 'queued'
+    },
+
+    transport: {
+      type: DataTypes.ENUM(...EMAIL_TRANSPORTS),
+      allowNull: true
+    },
+
+    // Message-ID header (used to match bounce and complaint reports)
+    provider_message_id: {
+      type: DataTypes.STRING(255),
+      allowNull: true
+    },
+
+    failure_reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    sent_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'EmailMessage',
+    tableName: 'email_messages',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['user_id'] },
+      { fields: ['to'] },
+      { fields: ['status'] },
+      { fields: ['provider_message_id'] },
+      { fields: ['created_at'] }
+    ]
+  }
+);
+
+export default EmailMessage;
@@ -0,0 +1,126 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+export const EMAIL_SUPPRESSION_REASONS = [
+  'hard_bounce',   // Address or domain doesn't exist
+  'soft_bounce',   // Repeated temporary failures (mailbox full, etc.)
+  'complaint',     // Recipient reported our mail as spam
+  'manual'         // Added by an admin
+] as const;
+
+export type EmailSuppressionReason = typeof EMAIL_SUPPRESSION_REASONS[number];
+
+// EmailSuppression Interface for TypeScript
+export interface EmailSuppressionAttributes {
+  id: string;
+  email: string;
+  reason?: EmailSuppressionReason;
+  soft_bounce_count: number;
+  details?: string;
+  suppressed_at?: Date;
+  last_event_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Deliverability record for an address. Soft bounces are counted until
+ * they reach the limit; once suppressed_at is set nothing more is sent
+ * to the address until an admin lifts it.
+ */
+class EmailSuppression extends Model<EmailSuppressionAttributes> implements EmailSuppressionAttributes {
+  public id!: string;
+  public email!: string;
+  public reason?: EmailSuppressionReason;
+  public soft_bounce_count!: number;
+  public details?: string;
+  public suppressed_at?: Date;
+  public last_event_at!: Date;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // INSTANCE METHODS
+
+  /**
+   * Check if mail to this address is blocked
+   */
+  public isSuppressed(): boolean {
+    return !!this.suppressed_at;
+  }
+}
+
+// Initialize EmailSuppression Model
+EmailSuppression.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Lowercased address
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      unique: true
+    },
+
+    // Why the address is suppressed (null while only counting soft bounces)
+    reason: {
+      type: DataTypes.ENUM(...EMAIL_SUPPRESSION_REASONS),
+      allowNull: true
+    },
+
+    soft_bounce_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    // Last diagnostic from the receiving server
+    details: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    suppressed_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    last_event_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'EmailSuppression',
+    tableName: 'email_suppressions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { unique: true, fields: ['email'] },
+      { fields: ['suppressed_at'] }
+    ]
+  }
+);
+
+export default EmailSuppression;
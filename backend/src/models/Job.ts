@@ -96,6 +96,18 @@ export interface JobAttributes {
   updated_at: Date;
 }
 
+// Public browse filters
+export interface JobSearchFilters {
+  category?: JobCategory;
+  city?: string;
+  province?: string;
+  budget_min?: number;
+  budget_max?: number;
+  urgency_level?: UrgencyLevel;
+  location_type?: LocationType;
+  skills?: string[];
+}
+
 // Job Model Class
 class Job extends Model<JobAttributes> implements JobAttributes {
   public id!: string;
@@ -359,6 +371,67 @@ public countBookings!: () => Promise<number>;
     });
   }
 
+  /**
+   * Browse open jobs with combined filters and pagination
+   * @param filters - Category, location, budget, urgency, location type and skill filters
+   * @param page - 1-based page number
+   * @param limit - Page size
+   */
+  public static async searchJobs(filters: JobSearchFilters, page: number = 1, limit: number = 20): Promise<{
+    jobs: Job[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const whereCondition: any = { status: 'open' };
+
+    if (filters.category) whereCondition.category = filters.category;
+    if (filters.urgency_level) whereCondition.urgency_level = filters.urgency_level;
+    if (filters.location_type) whereCondition.location_type = filters.location_type;
+
+    if (filters.city) {
+      whereCondition.city = { [Op.iLike]: `%${filters.city}%` };
+    }
+    if (filters.province) {
+      whereCondition.province = { [Op.iLike]: `%${filters.province}%` };
+    }
+
+    // Budget range overlap: job range must intersect requested range
+    if (filters.budget_min !== undefined) {
+      whereCondition.budget_max = { [Op.gte]: filters.budget_min };
+    }
+    if (filters.budget_max !== undefined) {
+      whereCondition.budget_min = { [Op.lte]: filters.budget_max };
+    }
+
+    // Skills are stored title-cased by the model hooks
+    if (filters.skills && filters.skills.length > 0) {
+      whereCondition.required_skills = {
+        [Op.overlap]: filters.skills.map(skill =>
+          skill.trim().replace(/\w\S*/g, (txt) =>
+            txt.charAt(0).toUpperCase() + txt.substr(1).toLowerCase()
+          )
+        )
+      };
+    }
+
+    const { rows, count } = await Job.findAndCountAll({
+      where: whereCondition,
+      order: [['featured_until', 'DESC NULLS LAST'], ['created_at', 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    return {
+      jobs: rows,
+      total: count,
+      page,
+      limit,
+      totalPages: Math.ceil(count / limit)
+    };
+  }
+
   /**
    * Get job statistics for admin/analytics
    */
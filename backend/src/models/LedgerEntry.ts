@@ -0,0 +1,133 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Escrow events that produce a journal entry
+export const LEDGER_ENTRY_TYPES = [
+  'hold',          // Client funds moved into escrow
+  'release',       // Escrow paid out to worker payable and platform commission
+  'refund',        // Escrow returned to client wallet
+  'payout',        // Worker payable sent out in a payout batch
+  'payout_reversal' // Sent payout bounced back to worker payable
+] as const;
+
+export type LedgerEntryType = typeof LEDGER_ENTRY_TYPES[number];
+
+// LedgerEntry Interface for TypeScript
+export interface LedgerEntryAttributes {
+  id: string;
+  booking_id: string;
+  entry_type: LedgerEntryType;
+  description: string;
+  reference?: string;
+  created_by?: string;
+  created_at: Date;
+}
+
+/**
+ * Journal entry header. Each entry owns balanced LedgerLine rows
+ * (total debits = total credits) and is never updated or deleted;
+ * corrections are posted as new entries.
+ */
+class LedgerEntry extends Model<LedgerEntryAttributes> implements LedgerEntryAttributes {
+  public id!: string;
+  public booking_id!: string;
+  public entry_type!: LedgerEntryType;
+  public description!: string;
+  public reference?: string;
+  public created_by?: string;
+  public created_at!: Date;
+
+  // Association properties (will be added by Sequelize)
+  public lines?: any[];
+  public booking?: any;
+}
+
+// Initialize LedgerEntry Model
+LedgerEntry.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    booking_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bookings',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    entry_type: {
+      type: DataTypes.ENUM(...LEDGER_ENTRY_TYPES),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [LEDGER_ENTRY_TYPES],
+          msg: 'Invalid ledger entry type'
+        }
+      }
+    },
+
+    description: {
+      type: DataTypes.STRING(500),
+      allowNull: false
+    },
+
+    // External reference (payment provider transaction ID, dispute ID, etc.)
+    reference: {
+      type: DataTypes.STRING(200),
+      allowNull: true
+    },
+
+    // User who triggered the entry (null for system)
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: true
+    },
+
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'LedgerEntry',
+    tableName: 'ledger_entries',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+
+    // Journal entries are append-only
+    hooks: {
+      beforeUpdate: async () => {
+        throw new Error('Ledger entries are immutable');
+      },
+      beforeDestroy: async () => {
+        throw new Error('Ledger entries cannot be deleted');
+      },
+      beforeBulkUpdate: async () => {
+        throw new Error('Ledger entries are immutable');
+      },
+      beforeBulkDestroy: async () => {
+        throw new Error('Ledger entries cannot be deleted');
+      }
+    },
+
+    indexes: [
+      { fields: ['booking_id'] },
+      { fields: ['entry_type'] },
+      { fields: ['created_at'] }
+    ]
+  }
+);
+
+export default LedgerEntry;
@@ -0,0 +1,157 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Ledger accounts for the booking escrow flow
+export const LEDGER_ACCOUNTS = [
+  'client_wallet',        // Client funds (owner: client)
+  'escrow',               // Funds held for a booking
+  'platform_commission',  // HelpQo's 15% commission
+  'worker_payable',       // Earnings owed to the worker (owner: worker)
+  'worker_disbursed'      // Earnings paid out to the worker's wallet/bank (owner: worker)
+] as const;
+
+export type LedgerAccount = typeof LEDGER_ACCOUNTS[number];
+
+// LedgerLine Interface for TypeScript
+export interface LedgerLineAttributes {
+  id: string;
+  entry_id: string;
+  booking_id: string;
+  account: LedgerAccount;
+  owner_id?: string;
+  debit: number;
+  credit: number;
+  created_at: Date;
+}
+
+/**
+ * Single debit or credit line of a journal entry.
+ * Account balances are credits minus debits.
+ */
+class LedgerLine extends Model<LedgerLineAttributes> implements LedgerLineAttributes {
+  public id!: string;
+  public entry_id!: string;
+  public booking_id!: string;
+  public account!: LedgerAccount;
+  public owner_id?: string;
+  public debit!: number;
+  public credit!: number;
+  public created_at!: Date;
+}
+
+// Initialize LedgerLine Model
+LedgerLine.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    entry_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'ledger_entries',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    // Denormalized for per-booking balance queries
+    booking_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bookings',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    account: {
+      type: DataTypes.ENUM(...LEDGER_ACCOUNTS),
+      allowNull: false,
+      validate: {
+        isIn: {
+          args: [LEDGER_ACCOUNTS],
+          msg: 'Invalid ledger account'
+        }
+      }
+    },
+
+    // Client or worker the account belongs to (null for escrow/platform)
+    owner_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      }
+    },
+
+    debit: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+      validate: { min: 0 }
+    },
+
+    credit: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+        isSingleSided(value: number) {
+          const debit = Number((this as any).debit);
+          if ((debit > 0) === (Number(value) > 0)) {
+            throw new Error('A ledger line must have either a debit or a credit');
+          }
+        }
+      }
+    },
+
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'LedgerLine',
+    tableName: 'ledger_lines',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+
+    // Ledger lines are append-only
+    hooks: {
+      beforeUpdate: async () => {
+        throw new Error('Ledger lines are immutable');
+      },
+      beforeDestroy: async () => {
+        throw new Error('Ledger lines cannot be deleted');
+      },
+      beforeBulkUpdate: async () => {
+        throw new Error('Ledger lines are immutable');
+      },
+      beforeBulkDestroy: async () => {
+        throw new Error('Ledger lines cannot be deleted');
+      }
+    },
+
+    indexes: [
+      { fields: ['entry_id'] },
+      { fields: ['booking_id', 'account'] },
+      { fields: ['account', 'owner_id'] }
+    ]
+  }
+);
+
+export default LedgerLine;
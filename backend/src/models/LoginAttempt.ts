@@ -0,0 +1,140 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// How a login attempt ended
+export const LOGIN_ATTEMPT_OUTCOMES = [
+  'success',
+  'invalid_credentials',  // Wrong password for an existing account
+  'unknown_account',      // No active account for the identifier
+  'throttled',            // Tried again before the progressive delay passed
+  'locked',               // Account was locked, password not checked
+  'source_blocked'        // IP/device tried too many different accounts
+] as const;
+
+export type LoginAttemptOutcome = typeof LOGIN_ATTEMPT_OUTCOMES[number];
+
+// LoginAttempt Interface for TypeScript
+export interface LoginAttemptAttributes {
+  id: string;
+  user_id?: string;
+  identifier: string;
+  ip_address?: string;
+  device_id?: string;
+  user_agent?: string;
+  location?: string;
+  outcome: LoginAttemptOutcome;
+  triggered_lockout: boolean;
+  created_at: Date;
+}
+
+/**
+ * Append-only record of every login attempt. Drives per-account
+ * lockout, per-source credential-stuffing detection and the admin
+ * login history.
+ */
+class LoginAttempt extends Model<LoginAttemptAttributes> implements LoginAttemptAttributes {
+  public id!: string;
+  public user_id?: string;
+  public identifier!: string;
+  public ip_address?: string;
+  public device_id?: string;
+  public user_agent?: string;
+  public location?: string;
+  public outcome!: LoginAttemptOutcome;
+  public triggered_lockout!: boolean;
+  public created_at!: Date;
+}
+
+// Initialize LoginAttempt Model
+LoginAttempt.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Null when the identifier doesn't match an account
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    // Normalized email or +639XXXXXXXXX number as entered
+    identifier: {
+      type: DataTypes.STRING(255),
+      allowNull: false
+    },
+
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true
+    },
+
+    // Client-supplied X-Device-Id header
+    device_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+
+    user_agent: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    location: {
+      type: DataTypes.STRING(120),
+      allowNull: true,
+      comment: 'Approximate location from proxy geo headers'
+    },
+
+    outcome: {
+      type: DataTypes.ENUM(...LOGIN_ATTEMPT_OUTCOMES),
+      allowNull: false
+    },
+
+    // This failure locked the account
+    triggered_lockout: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'LoginAttempt',
+    tableName: 'login_attempts',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+
+    // Login history is append-only
+    hooks: {
+      beforeUpdate: async () => {
+        throw new Error('Login history is immutable');
+      }
+    },
+
+    indexes: [
+      { fields: ['user_id', 'created_at'] },
+      { fields: ['ip_address', 'created_at'] },
+      { fields: ['device_id', 'created_at'] },
+      { fields: ['outcome'] }
+    ]
+  }
+);
+
+export default LoginAttempt;
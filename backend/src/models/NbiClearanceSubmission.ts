@@ -0,0 +1,202 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+export const NBI_SUBMISSION_STATUS = [
+  'pending',       // Waiting in the admin review queue
+  'approved',
+  'rejected',
+  'superseded'     // Replaced by a newer submission before it was reviewed
+] as const;
+
+export type NbiSubmissionStatus = typeof NBI_SUBMISSION_STATUS[number];
+
+// Why an admin turned a clearance down (shown to the worker)
+export const NBI_REJECTION_REASONS = [
+  'unreadable_scan',
+  'number_mismatch',       // Number entered doesn't match the scan
+  'name_mismatch',         // Clearance is not in the worker's name
+  'expired',
+  'not_an_nbi_clearance',
+  'has_derogatory_record', // "HIT" result without a cleared annotation
+  'suspected_tampering',
+  'other'                  // Explained in review_notes
+] as const;
+
+export type NbiRejectionReason = typeof NBI_REJECTION_REASONS[number];
+
+// NbiClearanceSubmission Interface for TypeScript
+export interface NbiClearanceSubmissionAttributes {
+  id: string;
+  worker_id: string;
+  clearance_number: string;
+  expires_on: string;              // YYYY-MM-DD
+  scan_url: string;
+  status: NbiSubmissionStatus;
+  reviewed_by?: string;
+  reviewed_at?: Date;
+  rejection_reasons?: NbiRejectionReason[];
+  review_notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A worker's NBI clearance as submitted for review. Only an admin decision
+ * on a submission changes the worker's nbi_clearance_status; decided
+ * submissions are kept as the record of who decided what and why.
+ */
+class NbiClearanceSubmission extends Model<NbiClearanceSubmissionAttributes> implements NbiClearanceSubmissionAttributes {
+  public id!: string;
+  public worker_id!: string;
+  public clearance_number!: string;
+  public expires_on!: string;
+  public scan_url!: string;
+  public status!: NbiSubmissionStatus;
+  public reviewed_by?: string;
+  public reviewed_at?: Date;
+  public rejection_reasons?: NbiRejectionReason[];
+  public review_notes?: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Association properties
+  public worker?: any;
+  public reviewer?: any;
+
+  // INSTANCE METHODS
+
+  /**
+   * Check if the submission still awaits a decision
+   */
+  public isPending(): boolean {
+    return this.status === 'pending';
+  }
+
+  /**
+   * Check if the clearance has passed its validity date
+   */
+  public isExpired(now: Date = new Date()): boolean {
+    return new Date(`${this.expires_on}T23:59:59+08:00`) < now;
+  }
+}
+
+// Initialize NbiClearanceSubmission Model
+NbiClearanceSubmission.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    worker_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'workers',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    clearance_number: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        len: {
+          args: [5, 100],
+          msg: 'NBI clearance number must be 5-100 characters'
+        }
+      }
+    },
+
+    // Validity date printed on the clearance (Philippine date)
+    expires_on: {
+      type: DataTypes.DATEONLY,
+      allowNull: false
+    },
+
+    // Uploaded scan or photo of the clearance
+    scan_url: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+      validate: {
+        isUrl: {
+          msg: 'Scan must be a valid URL'
+        }
+      }
+    },
+
+    status: {
+      type: DataTypes.ENUM(...NBI_SUBMISSION_STATUS),
+      allowNull: false,
+      defaultValue: 'pending'
+    },
+
+    // Decision (null while pending or superseded)
+    reviewed_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    },
+
+    reviewed_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    rejection_reasons: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: true
+    },
+
+    review_notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      validate: {
+        len: {
+          args: [0, 1000],
+          msg: 'Review notes cannot exceed 1000 characters'
+        }
+      }
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'NbiClearanceSubmission',
+    tableName: 'nbi_clearance_submissions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['worker_id', 'created_at'] },
+      { fields: ['status', 'created_at'] },
+      { fields: ['clearance_number'] },
+      { fields: ['reviewed_by'] }
+    ]
+  }
+);
+
+export default NbiClearanceSubmission;
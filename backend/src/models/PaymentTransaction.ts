@@ -0,0 +1,203 @@
+import { DataTypes, Model, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+
+// Payment methods that can be routed through a provider
+export const PAYMENT_PROVIDERS = ['GCash', 'PayMaya'] as const;
+
+export type PaymentProviderName = typeof PAYMENT_PROVIDERS[number];
+
+// Kinds of provider-side money movement
+export const PAYMENT_TRANSACTION_TYPES = [
+  'checkout',      // Client pays into escrow
+  'refund',        // Escrow returned to client
+  'payout'         // Worker earnings sent out
+] as const;
+
+export type PaymentTransactionType = typeof PAYMENT_TRANSACTION_TYPES[number];
+
+export const PAYMENT_TRANSACTION_STATUS = [
+  'pending',       // Created at provider, awaiting customer/provider action
+  'succeeded',     // Provider confirmed the money moved
+  'failed',        // Provider declined or the customer abandoned
+  'cancelled'      // Cancelled on our side before completion
+] as const;
+
+export type PaymentTransactionStatus = typeof PAYMENT_TRANSACTION_STATUS[number];
+
+// PaymentTransaction Interface for TypeScript
+export interface PaymentTransactionAttributes {
+  id: string;
+  booking_id?: string;
+  user_id: string;
+  provider: PaymentProviderName;
+  type: PaymentTransactionType;
+  status: PaymentTransactionStatus;
+  amount: number;
+  provider_reference: string;
+  checkout_url?: string;
+  failure_reason?: string;
+  metadata?: Record<string, any>;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// PaymentTransaction Model Class
+class PaymentTransaction extends Model<PaymentTransactionAttributes> implements PaymentTransactionAttributes {
+  public id!: string;
+  public booking_id?: string;
+  public user_id!: string;
+  public provider!: PaymentProviderName;
+  public type!: PaymentTransactionType;
+  public status!: PaymentTransactionStatus;
+  public amount!: number;
+  public provider_reference!: string;
+  public checkout_url?: string;
+  public failure_reason?: string;
+  public metadata?: Record<string, any>;
+  public completed_at?: Date;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // INSTANCE METHODS
+
+  /**
+   * Mark the transaction as settled by the provider
+   */
+  public async markSucceeded(metadata?: Record<string, any>, options: { transaction?: Transaction } = {}): Promise<void> {
+    this.status = 'succeeded';
+    this.completed_at = new Date();
+    if (metadata) this.metadata = { ...(this.metadata || {}), ...metadata };
+    await this.save(options);
+  }
+
+  /**
+   * Mark the transaction as failed with a reason
+   */
+  public async markFailed(reason: string, options: { transaction?: Transaction } = {}): Promise<void> {
+    this.status = 'failed';
+    this.failure_reason = reason;
+    this.completed_at = new Date();
+    await this.save(options);
+  }
+}
+
+// Initialize PaymentTransaction Model
+PaymentTransaction.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    booking_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'bookings',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    provider: {
+      type: DataTypes.ENUM(...PAYMENT_PROVIDERS),
+      allowNull: false
+    },
+
+    type: {
+      type: DataTypes.ENUM(...PAYMENT_TRANSACTION_TYPES),
+      allowNull: false
+    },
+
+    status: {
+      type: DataTypes.ENUM(...PAYMENT_TRANSACTION_STATUS),
+      allowNull: false,
+      defaultValue: 'pending'
+    },
+
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      validate: {
+        min: {
+          args: [0.01],
+          msg: 'Payment amount must be positive'
+        }
+      }
+    },
+
+    // Provider's checkout/refund/payout ID (used to match webhooks)
+    provider_reference: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true
+    },
+
+    checkout_url: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    failure_reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    metadata: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      defaultValue: {}
+    },
+
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'PaymentTransaction',
+    tableName: 'payment_transactions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['booking_id'] },
+      { fields: ['user_id'] },
+      { fields: ['type', 'status'] },
+      { unique: true, fields: ['provider_reference'] }
+    ]
+  }
+);
+
+export default PaymentTransaction;
@@ -0,0 +1,238 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Methods a worker can be paid out through (Cash is settled on site, never batched)
+export const PAYOUT_METHODS = ['GCash', 'PayMaya', 'Bank Transfer'] as const;
+
+export type PayoutMethod = typeof PAYOUT_METHODS[number];
+
+export const PAYOUT_BATCH_STATUS = [
+  'queued',        // Grouped and waiting to be sent
+  'processing',    // Claimed for sending; the provider payout is in flight
+  'sent',          // Provider accepted the payout; ledger moved to worker_disbursed
+  'failed',        // Provider rejected before money moved; bookings return to the pool
+  'reversed'       // Sent payout bounced back; ledger reversed to worker_payable
+] as const;
+
+export type PayoutBatchStatus = typeof PAYOUT_BATCH_STATUS[number];
+
+// Batches whose bookings are spoken for until they are sent or fail
+export const UNSENT_PAYOUT_BATCH_STATUSES: PayoutBatchStatus[] = ['queued', 'processing'];
+
+// Allowed batch state changes
+export const PAYOUT_BATCH_TRANSITIONS: Record<PayoutBatchStatus, PayoutBatchStatus[]> = {
+  queued: ['processing', 'sent', 'failed'],
+  processing: ['sent', 'failed'],
+  sent: ['reversed'],
+  failed: [],
+  reversed: []
+};
+
+// PayoutBatch Interface for TypeScript
+export interface PayoutBatchAttributes {
+  id: string;
+  worker_id: string;
+  method: PayoutMethod;
+  status: PayoutBatchStatus;
+  total_amount: number;
+  booking_count: number;
+  account_number?: string;
+  provider_reference?: string;
+  payment_transaction_id?: string;
+  failure_reason?: string;
+  reversal_reason?: string;
+  processed_by?: string;
+  sent_at?: Date;
+  failed_at?: Date;
+  reversed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * One payout to one worker, covering every released booking
+ * that was payable when the batch was created (see PayoutItem).
+ */
+class PayoutBatch extends Model<PayoutBatchAttributes> implements PayoutBatchAttributes {
+  public id!: string;
+  public worker_id!: string;
+  public method!: PayoutMethod;
+  public status!: PayoutBatchStatus;
+  public total_amount!: number;
+  public booking_count!: number;
+  public account_number?: string;
+  public provider_reference?: string;
+  public payment_transaction_id?: string;
+  public failure_reason?: string;
+  public reversal_reason?: string;
+  public processed_by?: string;
+  public sent_at?: Date;
+  public failed_at?: Date;
+  public reversed_at?: Date;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Association properties (will be added by Sequelize)
+  public items?: any[];
+  public worker?: any;
+
+  // INSTANCE METHODS
+
+  /**
+   * Check whether the batch can move to a new status
+   */
+  public canTransitionTo(newStatus: PayoutBatchStatus): boolean {
+    return PAYOUT_BATCH_TRANSITIONS[this.status].includes(newStatus);
+  }
+
+  /**
+   * Check whether the batch is sent through a wallet provider (vs. manual bank transfer)
+   */
+  public isProviderPayout(): boolean {
+    return this.method === 'GCash' || this.method === 'PayMaya';
+  }
+
+  /**
+   * Get account number with all but the last 4 digits hidden
+   */
+  public getMaskedAccountNumber(): string | null {
+    if (!this.account_number) return null;
+    return this.account_number.slice(-4).padStart(this.account_number.length, '*');
+  }
+}
+
+// Initialize PayoutBatch Model
+PayoutBatch.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    worker_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    method: {
+      type: DataTypes.ENUM(...PAYOUT_METHODS),
+      allowNull: false
+    },
+
+    status: {
+      type: DataTypes.ENUM(...PAYOUT_BATCH_STATUS),
+      allowNull: false,
+      defaultValue: 'queued'
+    },
+
+    total_amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      validate: {
+        min: {
+          args: [0.01],
+          msg: 'Payout amount must be positive'
+        }
+      }
+    },
+
+    booking_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    // Wallet mobile number or bank account the payout goes to
+    account_number: {
+      type: DataTypes.STRING(50),
+      allowNull: true
+    },
+
+    // Provider payout ID or bank transfer reference
+    provider_reference: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+
+    payment_transaction_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'payment_transactions',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    },
+
+    failure_reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    reversal_reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    // Admin who sent or reversed the batch (null for the scheduler)
+    processed_by: {
+      type: DataTypes.UUID,
+      allowNull: true
+    },
+
+    sent_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    failed_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    reversed_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'PayoutBatch',
+    tableName: 'payout_batches',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['worker_id'] },
+      { fields: ['status'] },
+      { fields: ['method', 'status'] },
+      { fields: ['created_at'] }
+    ]
+  }
+);
+
+export default PayoutBatch;
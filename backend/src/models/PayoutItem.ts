@@ -0,0 +1,94 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// PayoutItem Interface for TypeScript
+export interface PayoutItemAttributes {
+  id: string;
+  batch_id: string;
+  booking_id: string;
+  amount: number;
+  created_at: Date;
+}
+
+/**
+ * A booking's worker earnings included in a payout batch.
+ * A booking is only in one queued or sent batch at a time.
+ */
+class PayoutItem extends Model<PayoutItemAttributes> implements PayoutItemAttributes {
+  public id!: string;
+  public batch_id!: string;
+  public booking_id!: string;
+  public amount!: number;
+  public created_at!: Date;
+
+  // Association properties (will be added by Sequelize)
+  public batch?: any;
+  public booking?: any;
+}
+
+// Initialize PayoutItem Model
+PayoutItem.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    batch_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'payout_batches',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    booking_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'bookings',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT'
+    },
+
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      validate: {
+        min: {
+          args: [0.01],
+          msg: 'Payout item amount must be positive'
+        }
+      }
+    },
+
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'PayoutItem',
+    tableName: 'payout_items',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+
+    indexes: [
+      { fields: ['batch_id'] },
+      { fields: ['booking_id'] }
+    ]
+  }
+);
+
+export default PayoutItem;
@@ -0,0 +1,107 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// RefreshToken Interface for TypeScript
+export interface RefreshTokenAttributes {
+  id: string;
+  session_id: string;
+  token_hash: string;
+  expires_at: Date;
+  rotated_at?: Date;
+  created_at: Date;
+}
+
+/**
+ * One refresh token in a session's rotation chain. Only the SHA-256 hash
+ * is stored; a token is good for a single refresh, after which it is
+ * marked rotated and presenting it again counts as reuse.
+ */
+class RefreshToken extends Model<RefreshTokenAttributes> implements RefreshTokenAttributes {
+  public id!: string;
+  public session_id!: string;
+  public token_hash!: string;
+  public expires_at!: Date;
+  public rotated_at?: Date;
+  public created_at!: Date;
+
+  // Association properties
+  public session?: any;
+
+  // INSTANCE METHODS
+
+  /**
+   * Check if the token was already exchanged for a new one
+   */
+  public isRotated(): boolean {
+    return !!this.rotated_at;
+  }
+
+  /**
+   * Check if the token has expired
+   */
+  public isExpired(now: Date = new Date()): boolean {
+    return this.expires_at <= now;
+  }
+}
+
+// Initialize RefreshToken Model
+RefreshToken.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    session_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'auth_sessions',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    // SHA-256 of the opaque token; the token itself is never stored
+    token_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    rotated_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'RefreshToken',
+    tableName: 'refresh_tokens',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+
+    indexes: [
+      { fields: ['session_id'] },
+      { fields: ['expires_at'] }
+    ]
+  }
+);
+
+export default RefreshToken;
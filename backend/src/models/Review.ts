@@ -1,5 +1,7 @@
-import { DataTypes, Model, Op } from 'sequelize';
+import { DataTypes, Model, Op, Transaction } from 'sequelize';
 import sequelize from '../config/database';
+import ReviewVote, { ReviewVoteType } from './ReviewVote';
+import ReviewModerationAction, { ReviewModerationActionType, ReviewModerationActorRole } from './ReviewModerationAction';
 
 // Category Ratings for detailed feedback
 export const RATING_CATEGORIES = [
@@ -13,16 +15,61 @@ export const RATING_CATEGORIES = [
 
 export type RatingCategory = typeof RATING_CATEGORIES[number];
 
+// Categories workers use when rating clients
+export const CLIENT_RATING_CATEGORIES = [
+  'communication',      // Clear instructions, responsive
+  'accuracy',           // Job matched its description
+  'payment_promptness', // Approved and paid without delay
+  'respectfulness',     // Courteous treatment of the worker
+  'work_environment'    // Safe, accessible work area
+] as const;
+
+export type ClientRatingCategory = typeof CLIENT_RATING_CATEGORIES[number];
+
+export type ReviewCategory = RatingCategory | ClientRatingCategory;
+
+// Each booking can be reviewed once in each direction
+export const REVIEW_DIRECTIONS = [
+  'client_to_worker',   // Client rates the worker (RATING_CATEGORIES)
+  'worker_to_client'    // Worker rates the client (CLIENT_RATING_CATEGORIES)
+] as const;
+
+export type ReviewDirection = typeof REVIEW_DIRECTIONS[number];
+
+// Text fields checked by automated screening
+export const SCREENED_FIELDS = ['review_title', 'review_text', 'response_text'] as const;
+
+export type ScreenedField = typeof SCREENED_FIELDS[number];
+
+// Outcome of automated screening, stored on the review
+export interface ReviewScreeningResult {
+  screened_at: string;
+  flagged: boolean;
+  categories: string[];                                   // e.g. profanity, contact_phone, duplicate
+  matches: { rule: string; category: string; field: ScreenedField }[];
+  masked: Partial<Record<ScreenedField, string>>;         // Public versions of fields with masked matches
+}
+
+// Who performed a moderation action (no id for system actions)
+export interface ReviewModerationActor {
+  id?: string;
+  role: ReviewModerationActorRole;
+}
+
+// Days a review stays hidden while waiting for the other party's review
+const BLIND_WINDOW_DAYS = Number(process.env.REVIEW_BLIND_WINDOW_DAYS || 14);
+
 // Review Interface for TypeScript
 export interface ReviewAttributes {
   id: string;
   booking_id: string;
   reviewer_id: string;
   reviewee_id: string;
+  review_direction: ReviewDirection;
   
   // Rating System
   overall_rating: number;
-  category_ratings?: Record<RatingCategory, number>;
+  category_ratings?: Partial<Record<ReviewCategory, number>>;
   
   // Review Content
   review_title?: string;
@@ -42,6 +89,17 @@ export interface ReviewAttributes {
   is_flagged: boolean;
   admin_notes?: string;
   is_public: boolean;
+  hidden_at?: Date;
+  moderation_assigned_to?: string;
+  moderation_assigned_at?: Date;
+
+  // Automated screening
+  content_fingerprint?: string;
+  screening_result?: ReviewScreeningResult;
+
+  // Double-blind publication
+  blind_until: Date;
+  published_at?: Date;
   
   // Timestamps
   created_at: Date;
@@ -54,9 +112,10 @@ class Review extends Model<ReviewAttributes> implements ReviewAttributes {
   public booking_id!: string;
   public reviewer_id!: string;
   public reviewee_id!: string;
+  public review_direction!: ReviewDirection;
   
   public overall_rating!: number;
-  public category_ratings?: Record<RatingCategory, number>;
+  public category_ratings?: Partial<Record<ReviewCategory, number>>;
   
   public review_title?: string;
   public review_text!: string;
@@ -72,6 +131,15 @@ class Review extends Model<ReviewAttributes> implements ReviewAttributes {
   public is_flagged!: boolean;
   public admin_notes?: string;
   public is_public!: boolean;
+  public hidden_at?: Date;
+  public moderation_assigned_to?: string;
+  public moderation_assigned_at?: Date;
+
+  public content_fingerprint?: string;
+  public screening_result?: ReviewScreeningResult;
+
+  public blind_until!: Date;
+  public published_at?: Date;
   
   public created_at!: Date;
   public updated_at!: Date;
@@ -80,9 +148,17 @@ class Review extends Model<ReviewAttributes> implements ReviewAttributes {
   public booking?: any;
   public reviewer?: any;
   public reviewee?: any;
+  public moderator?: any;
 
   // INSTANCE METHODS
 
+  /**
+   * Get a text field as the public sees it (screening masks applied)
+   */
+  public getDisplayText(field: ScreenedField): string | undefined {
+    return this.screening_result?.masked?.[field] ?? this[field];
+  }
+
   /**
    * Get review summary with key metrics
    */
@@ -98,7 +174,7 @@ class Review extends Model<ReviewAttributes> implements ReviewAttributes {
     is_verified: boolean;
   } {
     const categoryAverage = this.category_ratings 
-      ? Object.values(this.category_ratings).reduce((sum, rating) => sum + rating, 0) / Object.keys(this.category_ratings).length
+      ? Object.values(this.category_ratings).reduce((sum, rating) => sum + (rating || 0), 0) / Object.keys(this.category_ratings).length
       : this.overall_rating;
 
     const totalVotes = this.helpful_count + this.unhelpful_count;
@@ -108,8 +184,8 @@ class Review extends Model<ReviewAttributes> implements ReviewAttributes {
       id: this.id,
       overall_rating: this.overall_rating,
       category_average: Math.round(categoryAverage * 10) / 10,
-      title: this.review_title || 'Review',
-      excerpt: this.review_text.substring(0, 150) + (this.review_text.length > 150 ? '...' : ''),
+      title: this.getDisplayText('review_title') || 'Review',
+      excerpt: this.getDisplayText('review_text')!.substring(0, 150) + (this.review_text.length > 150 ? '...' : ''),
       has_photos: !!(this.review_photos && this.review_photos.length > 0),
       has_response: !!this.response_text,
       helpful_ratio: Math.round(helpfulRatio * 100) / 100,
@@ -120,50 +196,132 @@ class Review extends Model<ReviewAttributes> implements ReviewAttributes {
   /**
    * Add a response to the review
    */
-  public async addResponse(responseText: string): Promise<void> {
+  public async addResponse(responseText: string, transaction?: Transaction): Promise<void> {
     this.response_text = responseText.trim();
     this.response_date = new Date();
-    await this.save();
+    await this.save({ transaction });
+  }
+
+  /**
+   * Record a user's vote (one per user; voting again switches it)
+   */
+  public async castVote(userId: string, vote: ReviewVoteType, transaction?: Transaction): Promise<void> {
+    const [existing, created] = await ReviewVote.findOrCreate({
+      where: { review_id: this.id, user_id: userId },
+      defaults: { review_id: this.id, user_id: userId, vote } as any,
+      transaction
+    });
+
+    if (!created && existing.vote !== vote) {
+      existing.vote = vote;
+      await existing.save({ transaction });
+    }
+
+    await this.syncVoteCounts(transaction);
+  }
+
+  /**
+   * Withdraw a user's vote
+   */
+  public async removeVote(userId: string, transaction?: Transaction): Promise<void> {
+    await ReviewVote.destroy({ where: { review_id: this.id, user_id: userId }, transaction });
+    await this.syncVoteCounts(transaction);
+  }
+
+  /**
+   * Recount helpful/unhelpful totals from the vote table
+   */
+  public async syncVoteCounts(transaction?: Transaction): Promise<void> {
+    const [helpful, unhelpful] = await Promise.all([
+      ReviewVote.count({ where: { review_id: this.id, vote: 'helpful' }, transaction }),
+      ReviewVote.count({ where: { review_id: this.id, vote: 'unhelpful' }, transaction })
+    ]);
+
+    this.helpful_count = helpful;
+    this.unhelpful_count = unhelpful;
+    await this.save({ transaction });
   }
 
   /**
    * Mark review as helpful
    */
-  public async markHelpful(): Promise<void> {
-    this.helpful_count += 1;
-    await this.save();
+  public async markHelpful(userId: string): Promise<void> {
+    await this.castVote(userId, 'helpful');
   }
 
   /**
    * Mark review as unhelpful
    */
-  public async markUnhelpful(): Promise<void> {
-    this.unhelpful_count += 1;
-    await this.save();
+  public async markUnhelpful(userId: string): Promise<void> {
+    await this.castVote(userId, 'unhelpful');
+  }
+
+  /**
+   * Append a structured entry to the review's moderation history
+   */
+  public async recordModerationAction(
+    action: ReviewModerationActionType,
+    actor: ReviewModerationActor,
+    details: { reason?: string; metadata?: Record<string, any> } = {},
+    transaction?: Transaction
+  ): Promise<ReviewModerationAction> {
+    return await ReviewModerationAction.create({
+      review_id: this.id,
+      actor_id: actor.id,
+      actor_role: actor.role,
+      action,
+      reason: details.reason,
+      metadata: details.metadata
+    } as any, { transaction });
   }
 
   /**
    * Flag review for moderation
    */
-  public async flagForReview(reason?: string): Promise<void> {
+  public async flagForReview(
+    reason?: string,
+    actor: ReviewModerationActor = { role: 'system' },
+    metadata?: Record<string, any>,
+    transaction?: Transaction
+  ): Promise<void> {
     this.is_flagged = true;
-    if (reason) {
-      this.admin_notes = this.admin_notes 
-        ? `${this.admin_notes}\n[${new Date().toISOString()}] Flagged: ${reason}`
-        : `[${new Date().toISOString()}] Flagged: ${reason}`;
-    }
-    await this.save();
+    await this.save({ transaction });
+    await this.recordModerationAction('flagged', actor, { reason, metadata }, transaction);
   }
 
   /**
    * Verify review (admin function)
    */
-  public async verifyReview(adminId: string): Promise<void> {
+  public async verifyReview(adminId: string, reason?: string, transaction?: Transaction): Promise<void> {
     this.is_verified_review = true;
-    this.admin_notes = this.admin_notes 
-      ? `${this.admin_notes}\n[${new Date().toISOString()}] Verified by admin: ${adminId}`
-      : `[${new Date().toISOString()}] Verified by admin: ${adminId}`;
-    await this.save();
+    await this.save({ transaction });
+    await this.recordModerationAction('verified', { id: adminId, role: 'admin' }, { reason }, transaction);
+  }
+
+  /**
+   * Check if a moderator has hidden the review
+   */
+  public isHidden(): boolean {
+    return !!this.hidden_at;
+  }
+
+  /**
+   * Check if review is still hidden by the double-blind window
+   */
+  public isBlind(): boolean {
+    return !this.published_at;
+  }
+
+  /**
+   * Make the review public (ratings are recomputed by RatingService hooks)
+   */
+  public async publish(transaction?: Transaction): Promise<void> {
+    if (this.published_at) return;
+
+    // A review hidden by moderation stays hidden when its blind window ends
+    this.is_public = !this.hidden_at;
+    this.published_at = new Date();
+    await this.save({ transaction });
   }
 
   /**
@@ -172,16 +330,18 @@ class Review extends Model<ReviewAttributes> implements ReviewAttributes {
   public getPublicInfo(): Partial<ReviewAttributes> {
     return {
       id: this.id,
+      review_direction: this.review_direction,
       overall_rating: this.overall_rating,
       category_ratings: this.category_ratings,
-      review_title: this.review_title,
-      review_text: this.review_text,
+      review_title: this.getDisplayText('review_title'),
+      review_text: this.getDisplayText('review_text'),
       review_photos: this.review_photos,
-      response_text: this.response_text,
+      response_text: this.getDisplayText('response_text'),
       response_date: this.response_date,
       is_verified_review: this.is_verified_review,
       helpful_count: this.helpful_count,
       unhelpful_count: this.unhelpful_count,
+      published_at: this.published_at,
       created_at: this.created_at
     };
   }
@@ -189,61 +349,66 @@ class Review extends Model<ReviewAttributes> implements ReviewAttributes {
   // STATIC METHODS
 
   /**
-   * Calculate user's average rating
+   * Get the rating categories allowed for a review direction
+   */
+  public static getCategoriesForDirection(direction: ReviewDirection): readonly ReviewCategory[] {
+    return direction === 'worker_to_client' ? CLIENT_RATING_CATEGORIES : RATING_CATEGORIES;
+  }
+
+  /**
+   * Find the reviews that count towards a user's rating:
+   * published, not hidden and not waiting on moderation
    */
-  public static async calculateUserRating(userId: string): Promise<{
-    average_rating: number;
-    total_reviews: number;
-    rating_breakdown: Record<number, number>;
-    category_averages: Record<RatingCategory, number>;
-  }> {
-    const reviews = await Review.findAll({
-      where: { 
+  public static async findCountedReviews(
+    userId: string,
+    direction: ReviewDirection = 'client_to_worker',
+    transaction?: Transaction
+  ): Promise<Review[]> {
+    return await Review.findAll({
+      where: {
         reviewee_id: userId,
-        is_public: true 
-      }
+        review_direction: direction,
+        is_public: true,
+        is_flagged: false
+      },
+      transaction
     });
+  }
 
-    if (reviews.length === 0) {
-      return {
-        average_rating: 0,
-        total_reviews: 0,
-        rating_breakdown: {},
-        category_averages: {} as Record<RatingCategory, number>
-      };
-    }
+  /**
+   * Publish a booking's reviews once both directions are in
+   * @returns number - Reviews published
+   */
+  public static async publishForBooking(bookingId: string, transaction?: Transaction): Promise<number> {
+    const reviews = await Review.findAll({ where: { booking_id: bookingId }, transaction });
 
-    // Calculate overall average
-    const totalRating = reviews.reduce((sum, review) => sum + review.overall_rating, 0);
-    const averageRating = totalRating / reviews.length;
+    const directions = new Set(reviews.map(review => review.review_direction));
+    if (directions.size < REVIEW_DIRECTIONS.length) return 0;
 
-    // Rating breakdown (1-5 stars)
-    const ratingBreakdown: Record<number, number> = {};
-    for (let i = 1; i <= 5; i++) {
-      ratingBreakdown[i] = reviews.filter(review => review.overall_rating === i).length;
+    const pending = reviews.filter(review => review.isBlind());
+    for (const review of pending) {
+      await review.publish(transaction);
     }
+    return pending.length;
+  }
 
-    // Category averages
-    const categoryAverages: Record<RatingCategory, number> = {} as Record<RatingCategory, number>;
-    RATING_CATEGORIES.forEach(category => {
-      const categoryReviews = reviews.filter(review => 
-        review.category_ratings && review.category_ratings[category]
-      );
-      
-      if (categoryReviews.length > 0) {
-        const categoryTotal = categoryReviews.reduce((sum, review) => 
-          sum + (review.category_ratings![category] || 0), 0
-        );
-        categoryAverages[category] = Math.round((categoryTotal / categoryReviews.length) * 10) / 10;
-      }
+  /**
+   * Publish reviews whose blind window has closed without a counterpart
+   * @returns number - Reviews published
+   */
+  public static async publishExpiredReviews(now: Date = new Date()): Promise<number> {
+    const expired = await Review.findAll({
+      where: {
+        published_at: null,
+        blind_until: { [Op.lte]: now }
+      } as any,
+      order: [['blind_until', 'ASC']]
     });
 
-    return {
-      average_rating: Math.round(averageRating * 10) / 10,
-      total_reviews: reviews.length,
-      rating_breakdown: ratingBreakdown,
-      category_averages: categoryAverages
-    };
+    for (const review of expired) {
+      await review.publish();
+    }
+    return expired.length;
   }
 
   /**
@@ -388,7 +553,6 @@ Review.init(
     booking_id: {
       type: DataTypes.UUID,
       allowNull: false,
-      unique: true, // One review per booking
       references: {
         model: 'bookings',
         key: 'id'
@@ -419,6 +583,12 @@ Review.init(
       onDelete: 'CASCADE'
     },
 
+    review_direction: {
+      type: DataTypes.ENUM(...REVIEW_DIRECTIONS),
+      allowNull: false,
+      defaultValue: 'client_to_worker'
+    },
+
     // Rating System
     overall_rating: {
       type: DataTypes.INTEGER,
@@ -435,23 +605,10 @@ Review.init(
       }
     },
 
+    // Validated against the direction's category set (see model validate below)
     category_ratings: {
       type: DataTypes.JSONB,
-      allowNull: true,
-      validate: {
-        isValidCategoryRatings(value: any) {
-          if (value && typeof value === 'object') {
-            for (const [category, rating] of Object.entries(value)) {
-              if (!RATING_CATEGORIES.includes(category as RatingCategory)) {
-                throw new Error(`Invalid rating category: ${category}`);
-              }
-              if (typeof rating !== 'number' || rating < 1 || rating > 5) {
-                throw new Error(`Category rating must be between 1 and 5 for ${category}`);
-              }
-            }
-          }
-        }
-      }
+      allowNull: true
     },
 
     // Review Content
@@ -574,6 +731,50 @@ Review.init(
       defaultValue: true
     },
 
+    // Moderation state (history lives in review_moderation_actions)
+    hidden_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    moderation_assigned_to: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    },
+
+    moderation_assigned_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // Automated screening (see ReviewScreeningService)
+    content_fingerprint: {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    },
+
+    screening_result: {
+      type: DataTypes.JSONB,
+      allowNull: true
+    },
+
+    // Double-blind publication
+    blind_until: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    published_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
     // Timestamps
     created_at: {
       type: DataTypes.DATE,
@@ -595,8 +796,37 @@ Review.init(
     createdAt: 'created_at',
     updatedAt: 'updated_at',
 
+    // Model-wide validation
+    validate: {
+      isValidCategoryRatings(this: Review) {
+        const value = this.category_ratings;
+        if (value && typeof value === 'object') {
+          const allowed = Review.getCategoriesForDirection(this.review_direction || 'client_to_worker');
+          for (const [category, rating] of Object.entries(value)) {
+            if (!allowed.includes(category as ReviewCategory)) {
+              throw new Error(`Invalid rating category for ${this.review_direction}: ${category}`);
+            }
+            if (typeof rating !== 'number' || rating < 1 || rating > 5) {
+              throw new Error(`Category rating must be between 1 and 5 for ${category}`);
+            }
+          }
+        }
+      }
+    },
+
     // Hooks for data processing
     hooks: {
+      beforeValidate: (review: Review) => {
+        // Double-blind: new reviews stay hidden until the other side reviews or the window closes
+        if (review.isNewRecord) {
+          review.is_public = false;
+          review.published_at = undefined;
+          if (!review.blind_until) {
+            review.blind_until = new Date(Date.now() + BLIND_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+          }
+        }
+      },
+
       beforeCreate: async (review: Review) => {
         // Clean and validate review text
         review.review_text = review.review_text.trim();
@@ -613,6 +843,10 @@ Review.init(
         }
       },
 
+      afterCreate: async (review: Review, options: any) => {
+        await Review.publishForBooking(review.booking_id, options.transaction);
+      },
+
       beforeUpdate: async (review: Review) => {
         // Clean response text if being added
         if (review.changed('response_text') && review.response_text) {
@@ -626,14 +860,18 @@ Review.init(
 
     // Indexes for performance
     indexes: [
-      { unique: true, fields: ['booking_id'] },
+      { unique: true, fields: ['booking_id', 'review_direction'] },
+      { fields: ['booking_id'] },
       { fields: ['reviewer_id'] },
       { fields: ['reviewee_id'] },
       { fields: ['overall_rating'] },
       { fields: ['is_public'] },
       { fields: ['is_flagged'] },
+      { fields: ['moderation_assigned_to'] },
+      { fields: ['content_fingerprint'] },
       { fields: ['created_at'] },
-      { fields: ['helpful_count'] }
+      { fields: ['helpful_count'] },
+      { fields: ['published_at', 'blind_until'] }
     ],
 
     // Scopes for common queries
@@ -701,7 +939,7 @@ Review.init(
       // Public info only (exclude sensitive data)
       publicInfo: {
         attributes: {
-          exclude: ['admin_notes', 'is_flagged']
+          exclude: ['admin_notes', 'is_flagged', 'hidden_at', 'moderation_assigned_to', 'moderation_assigned_at', 'screening_result', 'content_fingerprint']
         }
       }
     }
@@ -0,0 +1,134 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Everything done to a review by users, moderators or automated checks
+export const REVIEW_MODERATION_ACTIONS = [
+  'flagged',          // Reported by a user or flagged by screening
+  'claimed',          // Moderator picked it up
+  'assigned',         // Assigned to a moderator by another admin
+  'hidden',           // Removed from public view
+  'restored',         // Made visible again
+  'text_redacted',    // Phrases masked in title/text
+  'photos_removed',
+  'verified',
+  'dismissed'         // Flag cleared without changes
+] as const;
+
+export type ReviewModerationActionType = typeof REVIEW_MODERATION_ACTIONS[number];
+
+export type ReviewModerationActorRole = 'user' | 'admin' | 'system';
+
+// ReviewModerationAction Interface for TypeScript
+export interface ReviewModerationActionAttributes {
+  id: string;
+  review_id: string;
+  actor_id?: string;
+  actor_role: ReviewModerationActorRole;
+  action: ReviewModerationActionType;
+  reason?: string;
+  metadata?: Record<string, any>;
+  created_at: Date;
+}
+
+/**
+ * Append-only moderation history of a review: reports, claims,
+ * visibility changes, redactions and verification.
+ */
+class ReviewModerationAction extends Model<ReviewModerationActionAttributes> implements ReviewModerationActionAttributes {
+  public id!: string;
+  public review_id!: string;
+  public actor_id?: string;
+  public actor_role!: ReviewModerationActorRole;
+  public action!: ReviewModerationActionType;
+  public reason?: string;
+  public metadata?: Record<string, any>;
+  public created_at!: Date;
+}
+
+// Initialize ReviewModerationAction Model
+ReviewModerationAction.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    review_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'reviews',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    // Null for system actions
+    actor_id: {
+      type: DataTypes.UUID,
+      allowNull: true
+    },
+
+    actor_role: {
+      type: DataTypes.ENUM('user', 'admin', 'system'),
+      allowNull: false
+    },
+
+    action: {
+      type: DataTypes.ENUM(...REVIEW_MODERATION_ACTIONS),
+      allowNull: false
+    },
+
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      validate: {
+        len: {
+          args: [0, 1000],
+          msg: 'Reason cannot exceed 1000 characters'
+        }
+      }
+    },
+
+    metadata: {
+      type: DataTypes.JSONB,
+      allowNull: true
+    },
+
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ReviewModerationAction',
+    tableName: 'review_moderation_actions',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: false,
+
+    // Moderation history is append-only
+    hooks: {
+      beforeUpdate: async () => {
+        throw new Error('Moderation history is immutable');
+      },
+      beforeDestroy: async () => {
+        throw new Error('Moderation history cannot be deleted');
+      }
+    },
+
+    indexes: [
+      { fields: ['review_id', 'created_at'] },
+      { fields: ['actor_id'] },
+      { fields: ['action'] }
+    ]
+  }
+);
+
+export default ReviewModerationAction;
@@ -0,0 +1,211 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// What a screening rule looks for
+export const SCREENING_CATEGORIES = [
+  'profanity',            // English, Tagalog and Taglish swearing/insults
+  'contact_phone',        // Phone numbers shared in reviews
+  'contact_email',        // Email addresses shared in reviews
+  'off_platform_payment', // "GCash me directly", taking deals off HelpQo
+  'spam_link'             // Links and promotions
+] as const;
+
+export type ScreeningCategory = typeof SCREENING_CATEGORIES[number];
+
+export const SCREENING_LANGUAGES = ['en', 'tl', 'taglish', 'any'] as const;
+
+export type ScreeningLanguage = typeof SCREENING_LANGUAGES[number];
+
+// keyword = literal words/phrase (whole-word, flexible spacing), regex = raw pattern
+export const SCREENING_MATCH_TYPES = ['keyword', 'regex'] as const;
+
+export type ScreeningMatchType = typeof SCREENING_MATCH_TYPES[number];
+
+// mask = hide the match in public text, flag = send the review to moderation
+export const SCREENING_ACTIONS = ['mask', 'flag', 'mask_and_flag'] as const;
+
+export type ScreeningAction = typeof SCREENING_ACTIONS[number];
+
+// ReviewScreeningRule Interface for TypeScript
+export interface ReviewScreeningRuleAttributes {
+  id: string;
+  name: string;
+  category: ScreeningCategory;
+  language: ScreeningLanguage;
+  match_type: ScreeningMatchType;
+  pattern: string;
+  action: ScreeningAction;
+  is_active: boolean;
+  is_system: boolean;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Data-driven rule used to screen review text.
+ * Built-in rules are seeded by ReviewScreeningService; moderators add more.
+ */
+class ReviewScreeningRule extends Model<ReviewScreeningRuleAttributes> implements ReviewScreeningRuleAttributes {
+  public id!: string;
+  public name!: string;
+  public category!: ScreeningCategory;
+  public language!: ScreeningLanguage;
+  public match_type!: ScreeningMatchType;
+  public pattern!: string;
+  public action!: ScreeningAction;
+  public is_active!: boolean;
+  public is_system!: boolean;
+  public created_by?: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // INSTANCE METHODS
+
+  /**
+   * Build the matcher for this rule (global, case-insensitive)
+   */
+  public toRegExp(): RegExp {
+    return ReviewScreeningRule.compilePattern(this.match_type, this.pattern);
+  }
+
+  /**
+   * Check if matches should be hidden from public text
+   */
+  public shouldMask(): boolean {
+    return this.action === 'mask' || this.action === 'mask_and_flag';
+  }
+
+  /**
+   * Check if matches should send the review to moderation
+   */
+  public shouldFlag(): boolean {
+    return this.action === 'flag' || this.action === 'mask_and_flag';
+  }
+
+  // STATIC METHODS
+
+  /**
+   * Compile a rule pattern; throws on an invalid regex
+   */
+  public static compilePattern(matchType: ScreeningMatchType, pattern: string): RegExp {
+    if (matchType === 'regex') {
+      return new RegExp(pattern, 'gi');
+    }
+
+    // Keywords match whole words with any spacing between them ("tang ina" = "tangina")
+    const words = pattern.trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`\\b${words.join('\\s*')}\\b`, 'gi');
+  }
+}
+
+// Initialize ReviewScreeningRule Model
+ReviewScreeningRule.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: {
+          msg: 'Rule name is required'
+        }
+      }
+    },
+
+    category: {
+      type: DataTypes.ENUM(...SCREENING_CATEGORIES),
+      allowNull: false
+    },
+
+    language: {
+      type: DataTypes.ENUM(...SCREENING_LANGUAGES),
+      allowNull: false,
+      defaultValue: 'any'
+    },
+
+    match_type: {
+      type: DataTypes.ENUM(...SCREENING_MATCH_TYPES),
+      allowNull: false,
+      defaultValue: 'keyword'
+    },
+
+    pattern: {
+      type: DataTypes.STRING(300),
+      allowNull: false,
+      validate: {
+        isCompilable(this: ReviewScreeningRule, value: string) {
+          try {
+            ReviewScreeningRule.compilePattern(this.match_type || 'keyword', value);
+          } catch {
+            throw new Error('Pattern is not a valid regular expression');
+          }
+        }
+      }
+    },
+
+    action: {
+      type: DataTypes.ENUM(...SCREENING_ACTIONS),
+      allowNull: false,
+      defaultValue: 'mask_and_flag'
+    },
+
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+
+    // Seeded built-in rule
+    is_system: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+
+    created_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ReviewScreeningRule',
+    tableName: 'review_screening_rules',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['is_active'] },
+      { fields: ['category'] }
+    ]
+  }
+);
+
+export default ReviewScreeningRule;
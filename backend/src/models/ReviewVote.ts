@@ -0,0 +1,97 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+export const REVIEW_VOTE_TYPES = ['helpful', 'unhelpful'] as const;
+
+export type ReviewVoteType = typeof REVIEW_VOTE_TYPES[number];
+
+// ReviewVote Interface for TypeScript
+export interface ReviewVoteAttributes {
+  id: string;
+  review_id: string;
+  user_id: string;
+  vote: ReviewVoteType;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * One helpful/unhelpful vote per user per review.
+ * Review.helpful_count and unhelpful_count are recounted from this table.
+ */
+class ReviewVote extends Model<ReviewVoteAttributes> implements ReviewVoteAttributes {
+  public id!: string;
+  public review_id!: string;
+  public user_id!: string;
+  public vote!: ReviewVoteType;
+  public created_at!: Date;
+  public updated_at!: Date;
+}
+
+// Initialize ReviewVote Model
+ReviewVote.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    review_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'reviews',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    vote: {
+      type: DataTypes.ENUM(...REVIEW_VOTE_TYPES),
+      allowNull: false
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'ReviewVote',
+    tableName: 'review_votes',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { unique: true, fields: ['review_id', 'user_id'] },
+      { fields: ['user_id'] }
+    ]
+  }
+);
+
+export default ReviewVote;
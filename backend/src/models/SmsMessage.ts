@@ -0,0 +1,206 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// SMS gateways messages can be routed through
+export const SMS_PROVIDERS = ['semaphore', 'twilio', 'fake'] as const;
+
+export type SmsProviderName = typeof SMS_PROVIDERS[number];
+
+// Philippine mobile networks, from the number prefix
+export const SMS_CARRIERS = ['globe', 'smart', 'dito', 'unknown'] as const;
+
+export type SmsCarrier = typeof SMS_CARRIERS[number];
+
+// Why the message was sent (messages are never stored with their text)
+export const SMS_PURPOSES = [
+  'phone_verification',
+  'two_factor',
+  'password_reset',
+  'notification'
+] as const;
+
+export type SmsPurpose = typeof SMS_PURPOSES[number];
+
+export const SMS_STATUS = [
+  'queued',        // Created, not yet accepted by any provider
+  'sent',          // Accepted by a provider
+  'delivered',     // Delivery receipt received
+  'failed'         // Every provider refused it, or the receipt reported failure
+] as const;
+
+export type SmsStatus = typeof SMS_STATUS[number];
+
+// One provider attempt (retries and failover are all recorded)
+export interface SmsProviderAttempt {
+  provider: SmsProviderName;
+  success: boolean;
+  error?: string;
+  at: string;
+}
+
+// SmsMessage Interface for TypeScript
+export interface SmsMessageAttributes {
+  id: string;
+  user_id?: string;
+  to: string;
+  carrier: SmsCarrier;
+  purpose: SmsPurpose;
+  segments: number;
+  status: SmsStatus;
+  provider?: SmsProviderName;
+  provider_message_id?: string;
+  attempts: SmsProviderAttempt[];
+  cost: number;
+  failure_reason?: string;
+  sent_at?: Date;
+  delivered_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * An outgoing text message: where it was routed, which providers were
+ * tried, its delivery status and what it cost.
+ */
+class SmsMessage extends Model<SmsMessageAttributes> implements SmsMessageAttributes {
+  public id!: string;
+  public user_id?: string;
+  public to!: string;
+  public carrier!: SmsCarrier;
+  public purpose!: SmsPurpose;
+  public segments!: number;
+  public status!: SmsStatus;
+  public provider?: SmsProviderName;
+  public provider_message_id?: string;
+  public attempts!: SmsProviderAttempt[];
+  public cost!: number;
+  public failure_reason?: string;
+  public sent_at?: Date;
+  public delivered_at?: Date;
+  public created_at!: Date;
+  public updated_at!: Date;
+}
+
+// Initialize SmsMessage Model
+SmsMessage.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    },
+
+    // Normalized +639XXXXXXXXX number
+    to: {
+      type: DataTypes.STRING(13),
+      allowNull: false
+    },
+
+    carrier: {
+      type: DataTypes.ENUM(...SMS_CARRIERS),
+      allowNull: false
+    },
+
+    purpose: {
+      type: DataTypes.ENUM(...SMS_PURPOSES),
+      allowNull: false
+    },
+
+    // Billed message parts (160 GSM-7 / 70 Unicode characters each)
+    segments: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1
+    },
+
+    status: {
+      type: DataTypes.ENUM(...SMS_STATUS),
+      allowNull: false,
+      defaultValue: 'queued'
+    },
+
+    // Provider that accepted the message
+    provider: {
+      type: DataTypes.ENUM(...SMS_PROVIDERS),
+      allowNull: true
+    },
+
+    // Provider's message ID (used to match delivery receipts)
+    provider_message_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+
+    attempts: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+
+    // Pesos charged by the accepting provider
+    cost: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    failure_reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    sent_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    delivered_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'SmsMessage',
+    tableName: 'sms_messages',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['user_id'] },
+      { fields: ['to'] },
+      { fields: ['status'] },
+      { fields: ['created_at'] },
+      { unique: true, fields: ['provider', 'provider_message_id'] }
+    ]
+  }
+);
+
+export default SmsMessage;
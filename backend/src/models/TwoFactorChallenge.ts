@@ -0,0 +1,153 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+import { TWO_FACTOR_METHODS, TwoFactorMethod } from './User';
+
+// TwoFactorChallenge Interface for TypeScript
+export interface TwoFactorChallengeAttributes {
+  id: string;
+  user_id: string;
+  method: TwoFactorMethod;
+  identifier: string;
+  expires_at: Date;
+  attempts: number;
+  completed_at?: Date;
+  ip_address?: string;
+  device_id?: string;
+  user_agent?: string;
+  location?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Login step-up: issued after a correct password for accounts with 2FA,
+ * and exchanged for tokens once the second factor passes.
+ */
+class TwoFactorChallenge extends Model<TwoFactorChallengeAttributes> implements TwoFactorChallengeAttributes {
+  public id!: string;
+  public user_id!: string;
+  public method!: TwoFactorMethod;
+  public identifier!: string;
+  public expires_at!: Date;
+  public attempts!: number;
+  public completed_at?: Date;
+  public ip_address?: string;
+  public device_id?: string;
+  public user_agent?: string;
+  public location?: string;
+  public created_at!: Date;
+  public updated_at!: Date;
+
+  // Wrong codes allowed per challenge
+  public static readonly MAX_ATTEMPTS = 5;
+
+  // INSTANCE METHODS
+
+  /**
+   * Check if the challenge can still be answered
+   */
+  public isOpen(now: Date = new Date()): boolean {
+    return !this.completed_at && this.expires_at > now && this.attempts < TwoFactorChallenge.MAX_ATTEMPTS;
+  }
+}
+
+// Initialize TwoFactorChallenge Model
+TwoFactorChallenge.init(
+  {
+    // Primary Key (returned to the client as challenge_id)
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    // Foreign Keys
+    user_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE'
+    },
+
+    method: {
+      type: DataTypes.ENUM(...TWO_FACTOR_METHODS),
+      allowNull: false
+    },
+
+    // Login identifier, kept for the login history entry on completion
+    identifier: {
+      type: DataTypes.STRING(255),
+      allowNull: false
+    },
+
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    // Where the password step came from
+    ip_address: {
+      type: DataTypes.STRING(45),
+      allowNull: true
+    },
+
+    device_id: {
+      type: DataTypes.STRING(100),
+      allowNull: true
+    },
+
+    user_agent: {
+      type: DataTypes.STRING(500),
+      allowNull: true
+    },
+
+    location: {
+      type: DataTypes.STRING(120),
+      allowNull: true,
+      comment: 'Approximate location from proxy geo headers'
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'TwoFactorChallenge',
+    tableName: 'two_factor_challenges',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { fields: ['user_id'] },
+      { fields: ['expires_at'] }
+    ]
+  }
+);
+
+export default TwoFactorChallenge;
@@ -2,6 +2,25 @@ import { DataTypes, Model, Optional, Op } from 'sequelize';
 import sequelize from '../config/database';
 import bcrypt from 'bcryptjs';
 
+export const TWO_FACTOR_METHODS = ['sms', 'totp'] as const;
+
+export type TwoFactorMethod = typeof TWO_FACTOR_METHODS[number];
+
+// Admin sub-roles; each grants a set of permissions (see AuthorizationService).
+// Admins without a sub-role have no admin permissions. The first super_admin is
+// seeded at startup from ADMIN_BOOTSTRAP_EMAIL (an existing admin account) while
+// no super_admin exists yet; after that, super admins assign sub-roles.
+export const ADMIN_ROLES = ['super_admin', 'support', 'finance', 'trust_safety'] as const;
+
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+// Never sent to clients, not even to the account owner
+export const SENSITIVE_USER_FIELDS = [
+  'password_hash', 'verification_token', 'password_reset_token', 'password_reset_expires',
+  'failed_login_count', 'last_failed_login_at', 'locked_until', 'lockout_count',
+  'two_factor_secret', 'two_factor_pending_secret', 'two_factor_recovery_codes', 'two_factor_last_totp_step'
+] as const;
+
 // Define User attributes interface
 export interface UserAttributes {
   id: string;
@@ -11,6 +30,7 @@ export interface UserAttributes {
   first_name: string;
   last_name: string;
   role: 'client' | 'worker' | 'admin';
+  admin_role?: AdminRole;
   is_verified: boolean;
   is_phone_verified: boolean;
   is_email_verified: boolean;
@@ -24,20 +44,34 @@ export interface UserAttributes {
   emergency_contact_phone?: string;
   last_login?: Date;
   is_active: boolean;
+  client_rating_average: number;
+  client_total_reviews: number;
   verification_token?: string;
   password_reset_token?: string;
   password_reset_expires?: Date;
+  failed_login_count: number;
+  last_failed_login_at?: Date;
+  locked_until?: Date;
+  lockout_count: number;
+  two_factor_method?: TwoFactorMethod;
+  two_factor_enabled_at?: Date;
+  two_factor_secret?: string;
+  two_factor_pending_secret?: string;
+  two_factor_recovery_codes: string[];
+  two_factor_last_totp_step?: number;
   created_at: Date;
   updated_at: Date;
 }
 
 // Define creation attributes (optional fields for creation)
 export interface UserCreationAttributes extends Optional<UserAttributes, 
-  'id' | 'is_verified' | 'is_phone_verified' | 'is_email_verified' | 
+  'id' | 'admin_role' | 'is_verified' | 'is_phone_verified' | 'is_email_verified' | 
   'profile_picture' | 'date_of_birth' | 'address' | 'city' | 'province' | 
   'postal_code' | 'emergency_contact_name' | 'emergency_contact_phone' | 
-  'last_login' | 'is_active' | 'verification_token' | 'password_reset_token' | 
-  'password_reset_expires' | 'created_at' | 'updated_at'
+  'last_login' | 'is_active' | 'client_rating_average' | 'client_total_reviews' | 'verification_token' | 'password_reset_token' | 
+  'password_reset_expires' | 'failed_login_count' | 'last_failed_login_at' | 'locked_until' | 'lockout_count' |
+  'two_factor_method' | 'two_factor_enabled_at' | 'two_factor_secret' | 'two_factor_pending_secret' |
+  'two_factor_recovery_codes' | 'two_factor_last_totp_step' | 'created_at' | 'updated_at'
 > {}
 
 // User Model Class
@@ -49,6 +83,7 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public first_name!: string;
   public last_name!: string;
   public role!: 'client' | 'worker' | 'admin';
+  public admin_role?: AdminRole;
   public is_verified!: boolean;
   public is_phone_verified!: boolean;
   public is_email_verified!: boolean;
@@ -62,9 +97,21 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public emergency_contact_phone?: string;
   public last_login?: Date;
   public is_active!: boolean;
+  public client_rating_average!: number;
+  public client_total_reviews!: number;
   public verification_token?: string;
   public password_reset_token?: string;
   public password_reset_expires?: Date;
+  public failed_login_count!: number;
+  public last_failed_login_at?: Date;
+  public locked_until?: Date;
+  public lockout_count!: number;
+  public two_factor_method?: TwoFactorMethod;
+  public two_factor_enabled_at?: Date;
+  public two_factor_secret?: string;
+  public two_factor_pending_secret?: string;
+  public two_factor_recovery_codes!: string[];
+  public two_factor_last_totp_step?: number;
   public created_at!: Date;
   public updated_at!: Date;
 
@@ -109,10 +156,47 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
       city: this.city,
       province: this.province,
       is_verified: this.is_verified,
+      client_rating_average: this.client_rating_average,
+      client_total_reviews: this.client_total_reviews,
       created_at: this.created_at
     };
   }
 
+  /**
+   * Get the account owner's own data (without secrets and security counters)
+   * @returns object - User data minus SENSITIVE_USER_FIELDS
+   */
+  public toSafeJSON(): Record<string, any> {
+    const userData: Record<string, any> = this.toJSON();
+    SENSITIVE_USER_FIELDS.forEach(field => delete userData[field]);
+    return userData;
+  }
+
+  /**
+   * Check if the account is temporarily locked after failed logins
+   * @returns boolean - True while locked_until is in the future
+   */
+  public isLocked(now: Date = new Date()): boolean {
+    return !!this.locked_until && this.locked_until > now;
+  }
+
+  /**
+   * Admin sub-role; an admin without a stored one has no admin permissions
+   * until a super admin assigns it
+   * @returns AdminRole | null - null for clients, workers and unassigned admins
+   */
+  public getAdminRole(): AdminRole | null {
+    if (this.role !== 'admin') return null;
+    return this.admin_role || null;
+  }
+
+  /**
+   * Check if a second factor is set up
+   */
+  public hasTwoFactor(): boolean {
+    return !!this.two_factor_method && !!this.two_factor_enabled_at;
+  }
+
   /**
    * Update last login timestamp
    */
@@ -677,6 +761,12 @@ password_hash: {
       }
     },
 
+    admin_role: {
+      type: DataTypes.ENUM(...ADMIN_ROLES),
+      allowNull: true,
+      comment: 'Admin sub-role (admins only; null = no admin permissions, super_admin must be stored explicitly)'
+    },
+
     // Verification Status
     is_verified: {
       type: DataTypes.BOOLEAN,
@@ -827,6 +917,31 @@ password_hash: {
       comment: 'Account active status'
     },
 
+    // Rating received from workers (published worker → client reviews)
+    client_rating_average: {
+      type: DataTypes.DECIMAL(3, 2),
+      allowNull: false,
+      defaultValue: 0.00,
+      validate: {
+        min: {
+          args: [0.00],
+          msg: 'Rating cannot be negative'
+        },
+        max: {
+          args: [5.00],
+          msg: 'Rating cannot exceed 5.00'
+        }
+      },
+      comment: 'Average rating given by workers'
+    },
+
+    client_total_reviews: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Number of published reviews from workers'
+    },
+
     // Security Tokens
     verification_token: {
       type: DataTypes.STRING(255),
@@ -846,6 +961,70 @@ password_hash: {
       comment: 'Password reset token expiration'
     },
 
+    // Login protection (see LoginProtectionService)
+    failed_login_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Consecutive failed logins since the last success or lockout'
+    },
+
+    last_failed_login_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Most recent failed login'
+    },
+
+    locked_until: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Temporary lockout end'
+    },
+
+    lockout_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Lockouts since the last successful login (each one lasts longer)'
+    },
+
+    // Two-factor authentication (see TwoFactorService)
+    two_factor_method: {
+      type: DataTypes.ENUM(...TWO_FACTOR_METHODS),
+      allowNull: true,
+      comment: 'Second factor used at login'
+    },
+
+    two_factor_enabled_at: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+
+    two_factor_secret: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Encrypted TOTP secret'
+    },
+
+    two_factor_pending_secret: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Encrypted TOTP secret awaiting confirmation'
+    },
+
+    two_factor_recovery_codes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      comment: 'SHA-256 hashes of unused recovery codes'
+    },
+
+    two_factor_last_totp_step: {
+      type: DataTypes.BIGINT,
+      allowNull: true,
+      comment: 'Last accepted TOTP time step (blocks code replay)'
+    },
+
     // Timestamps
     created_at: {
       type: DataTypes.DATE,
@@ -919,6 +1098,11 @@ password_hash: {
           }
           // Workers require manual document verification
         }
+
+        // Sub-roles only apply to admins
+        if (user.role !== 'admin' && user.admin_role) {
+          user.admin_role = null as any;
+        }
       }
     },
 
@@ -946,7 +1130,10 @@ password_hash: {
       },
       withoutPassword: {
         attributes: {
-          exclude: ['password_hash', 'verification_token', 'password_reset_token']
+          exclude: [
+            'password_hash', 'verification_token', 'password_reset_token',
+            'two_factor_secret', 'two_factor_pending_secret', 'two_factor_recovery_codes'
+          ]
         }
       }
     }
@@ -0,0 +1,131 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// What a code proves; codes of one purpose can never satisfy another
+export const VERIFICATION_CODE_PURPOSES = [
+  'phone_verification',   // SMS code confirming a mobile number
+  'two_factor',           // SMS login code
+  'email_verification'    // Token in the verification email link
+] as const;
+
+export type VerificationCodePurpose = typeof VERIFICATION_CODE_PURPOSES[number];
+
+// VerificationCode Interface for TypeScript
+export interface VerificationCodeAttributes {
+  id: string;
+  purpose: VerificationCodePurpose;
+  subject: string;
+  code_hash?: string;
+  expires_at: Date;
+  attempts: number;
+  send_count: number;
+  send_window_started_at: Date;
+  last_sent_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * The current code for one phone number or email and purpose. Only an
+ * HMAC of the code is stored. The row outlives the code itself (code_hash
+ * is cleared once used) so resend limits hold until cleanup removes it.
+ */
+class VerificationCode extends Model<VerificationCodeAttributes> implements VerificationCodeAttributes {
+  public id!: string;
+  public purpose!: VerificationCodePurpose;
+  public subject!: string;
+  public code_hash?: string;
+  public expires_at!: Date;
+  public attempts!: number;
+  public send_count!: number;
+  public send_window_started_at!: Date;
+  public last_sent_at!: Date;
+  public created_at!: Date;
+  public updated_at!: Date;
+}
+
+// Initialize VerificationCode Model
+VerificationCode.init(
+  {
+    // Primary Key
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+
+    purpose: {
+      type: DataTypes.ENUM(...VERIFICATION_CODE_PURPOSES),
+      allowNull: false
+    },
+
+    // Normalized +639XXXXXXXXX number or lowercase email
+    subject: {
+      type: DataTypes.STRING(255),
+      allowNull: false
+    },
+
+    code_hash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      comment: 'HMAC-SHA256 of the code (null once used or invalidated)'
+    },
+
+    expires_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    // Wrong codes entered against the current code
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+
+    // Codes sent in the current resend window
+    send_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1
+    },
+
+    send_window_started_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    last_sent_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+
+    // Timestamps
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    modelName: 'VerificationCode',
+    tableName: 'verification_codes',
+    timestamps: true,
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+
+    indexes: [
+      { unique: true, fields: ['purpose', 'subject'] },
+      { fields: ['expires_at'] }
+    ]
+  }
+);
+
+export default VerificationCode;
@@ -1,6 +1,15 @@
 import { DataTypes, Model, Optional, Op } from 'sequelize';
 import sequelize from '../config/database';
 
+// Today's date in the Philippines (YYYY-MM-DD), the calendar NBI validity dates use
+const getManilaDate = (now: Date = new Date()): string =>
+  new Date(now.getTime() + 8 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+// Clearance not past its validity date (covers the gap before the expiry job runs)
+const currentNbiClearance = () => ({
+  [Op.or]: { [Op.is]: null, [Op.gte]: getManilaDate() }
+});
+
 // Define Worker attributes interface
 export interface WorkerAttributes {
   id: string;
@@ -20,6 +29,7 @@ export interface WorkerAttributes {
   nbi_clearance_status: 'pending' | 'approved' | 'rejected' | 'expired';
   nbi_clearance_number?: string;
   nbi_clearance_expires?: Date;
+  nbi_expiry_reminder_days?: number;
   
   // Service Areas & Coverage
   service_areas: string[];
@@ -28,6 +38,8 @@ export interface WorkerAttributes {
   // Portfolio & Ratings
   portfolio_images: string[];
   rating_average: number;
+  rating_score: number;
+  category_ratings: Record<string, number>;
   total_jobs_completed: number;
   total_reviews: number;
   
@@ -48,9 +60,9 @@ export interface WorkerAttributes {
 // Define creation attributes (optional fields for creation)
 export interface WorkerCreationAttributes extends Optional<WorkerAttributes,
   'id' | 'hourly_rate' | 'bio' | 'availability' | 'nbi_clearance_number' | 
-  'nbi_clearance_expires' | 'experience_years' | 'is_available' | 
+  'nbi_clearance_expires' | 'nbi_expiry_reminder_days' | 'experience_years' | 'is_available' | 
   'nbi_clearance_status' | 'service_areas' | 'max_travel_distance' |
-  'portfolio_images' | 'rating_average' | 'total_jobs_completed' | 
+  'portfolio_images' | 'rating_average' | 'rating_score' | 'category_ratings' | 'total_jobs_completed' | 
   'total_reviews' | 'preferred_payment_methods' | 'bank_account_verified' |
   'profile_completion_percentage' | 'is_featured' | 'verification_level' |
   'created_at' | 'updated_at'
@@ -75,6 +87,7 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
   public nbi_clearance_status!: 'pending' | 'approved' | 'rejected' | 'expired';
   public nbi_clearance_number?: string;
   public nbi_clearance_expires?: Date;
+  public nbi_expiry_reminder_days?: number;
   
   // Service Areas & Coverage
   public service_areas!: string[];
@@ -83,6 +96,8 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
   // Portfolio & Ratings
   public portfolio_images!: string[];
   public rating_average!: number;
+  public rating_score!: number;
+  public category_ratings!: Record<string, number>;
   public total_jobs_completed!: number;
   public total_reviews!: number;
   
@@ -139,6 +154,18 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
            this.skills.length >= 3;
   }
 
+  /**
+   * Check if the NBI clearance is marked expired or past its validity date
+   * @param now - Time to check against
+   * @returns boolean
+   */
+  public isNbiClearanceExpired(now: Date = new Date()): boolean {
+    if (this.nbi_clearance_status === 'expired') return true;
+    if (!this.nbi_clearance_expires) return false;
+
+    return new Date(this.nbi_clearance_expires).toISOString().slice(0, 10) < getManilaDate(now);
+  }
+
   /**
    * Get worker's current availability status
    * @returns object - Availability status and next available time
@@ -150,6 +177,7 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
       profileComplete: this.profile_completion_percentage >= 60,
       canAcceptJobs: this.is_available && 
                      this.nbi_clearance_status === 'approved' &&
+                     !this.isNbiClearanceExpired() &&
                      this.profile_completion_percentage >= 60,
       nextAvailable: this.availability ? this.getNextAvailableSlot() : null
     };
@@ -180,6 +208,7 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
       experience_years: this.experience_years,
       bio: this.bio,
       rating_average: this.rating_average,
+      category_ratings: this.category_ratings,
       total_jobs_completed: this.total_jobs_completed,
       total_reviews: this.total_reviews,
       service_areas: this.service_areas,
@@ -193,24 +222,6 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
     };
   }
 
-  /**
-   * Update worker rating after job completion
-   * @param newRating - Rating from 1-5
-   * @param isNewReview - Whether this is a new review or update
-   */
-  public async updateRating(newRating: number, isNewReview: boolean = true): Promise<void> {
-    if (isNewReview) {
-      // Add new review
-      const totalScore = this.rating_average * this.total_reviews;
-      this.total_reviews += 1;
-      this.rating_average = (totalScore + newRating) / this.total_reviews;
-    }
-    
-    // Round to 2 decimal places
-    this.rating_average = Math.round(this.rating_average * 100) / 100;
-    await this.save();
-  }
-
   /**
    * Check if worker can serve a specific location
    * @param targetCity - City where job is located
@@ -250,7 +261,8 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
       where: {
         ...whereCondition,
         is_available: true,
-        nbi_clearance_status: 'approved'
+        nbi_clearance_status: 'approved',
+        nbi_clearance_expires: currentNbiClearance()
       },
       order: [['rating_average', 'DESC'], ['total_jobs_completed', 'DESC']]
     });
@@ -266,6 +278,7 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
     const whereCondition: any = {
       is_available: true,
       nbi_clearance_status: 'approved',
+      nbi_clearance_expires: currentNbiClearance(),
       service_areas: { [Op.contains]: [city] }
     };
 
@@ -281,6 +294,8 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
 
   /**
    * Find top-rated workers
+   * Ranked by rating_score (smoothed, time-decayed) so a handful of recent
+   * 5-star reviews can't outrank a long track record
    * @param limit - Number of workers to return
    * @param minimumJobs - Minimum completed jobs
    * @returns Promise<Worker[]>
@@ -290,11 +305,12 @@ class Worker extends Model<WorkerAttributes, WorkerCreationAttributes> implement
       where: {
         is_available: true,
         nbi_clearance_status: 'approved',
+        nbi_clearance_expires: currentNbiClearance(),
         total_jobs_completed: { [Op.gte]: minimumJobs },
-        rating_average: { [Op.gte]: 4.0 }
+        rating_score: { [Op.gte]: 4.0 }
       },
       order: [
-        ['rating_average', 'DESC'],
+        ['rating_score', 'DESC'],
         ['total_jobs_completed', 'DESC']
       ],
       limit
@@ -908,14 +924,21 @@ Worker.init(
       allowNull: true,
       validate: {
         isDate: true,
+        // Valid through its expiry date on the Manila calendar, like isNbiClearanceExpired
         isFutureDate(value: string) {
-          if (value && new Date(value) <= new Date()) {
-            throw new Error('NBI clearance expiration must be in the future');
+          if (value && new Date(value).toISOString().slice(0, 10) < getManilaDate()) {
+            throw new Error('NBI clearance expiration cannot be in the past');
           }
         }
       }
     },
 
+    // Smallest reminder (days before expiry) already sent for the current clearance
+    nbi_expiry_reminder_days: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+
     // Service Areas & Coverage
     service_areas: {
       type: DataTypes.ARRAY(DataTypes.TEXT),
@@ -1003,6 +1026,21 @@ Worker.init(
       comment: 'Average rating from 0.00 to 5.00'
     },
 
+    // Maintained by RatingService from the review store
+    rating_score: {
+      type: DataTypes.DECIMAL(4, 3),
+      allowNull: false,
+      defaultValue: 0.000,
+      comment: 'Bayesian-smoothed, time-decayed rating used for ranking'
+    },
+
+    category_ratings: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+      comment: 'Average per rating category'
+    },
+
     total_jobs_completed: {
       type: DataTypes.INTEGER,
       allowNull: false,
@@ -1117,6 +1155,9 @@ Worker.init(
       {
         fields: ['rating_average']
       },
+      {
+        fields: ['rating_score']
+      },
       {
         fields: ['total_jobs_completed']
       },
@@ -1152,6 +1193,11 @@ Worker.init(
             worker.profile_completion_percentage >= 90) {
           worker.verification_level = 'verified';
         }
+
+        // An expired clearance loses the verified tier; re-approval restores it above
+        if (worker.nbi_clearance_status === 'expired') {
+          worker.verification_level = 'basic';
+        }
       },
       
       afterCreate: async (worker: Worker) => {
@@ -1188,7 +1234,7 @@ Worker.init(
           rating_average: { [Op.gte]: 4.0 },
           total_reviews: { [Op.gte]: 5 }
         },
-        order: [['rating_average', 'DESC']]
+        order: [['rating_score', 'DESC']]
       },
       featured: {
         where: {
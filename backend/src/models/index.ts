@@ -4,6 +4,27 @@ import Worker from './Worker';
 import Job from './Job';
 import Booking from './Booking';
 import Review from './Review';
+import LedgerEntry from './LedgerEntry';
+import LedgerLine from './LedgerLine';
+import PaymentTransaction from './PaymentTransaction';
+import PayoutBatch from './PayoutBatch';
+import PayoutItem from './PayoutItem';
+import EarningsStatement from './EarningsStatement';
+import CancellationPolicy from './CancellationPolicy';
+import Dispute from './Dispute';
+import DisputeEvent from './DisputeEvent';
+import ReviewVote from './ReviewVote';
+import ReviewModerationAction from './ReviewModerationAction';
+import ReviewScreeningRule from './ReviewScreeningRule';
+import AuthSession from './AuthSession';
+import RefreshToken from './RefreshToken';
+import LoginAttempt from './LoginAttempt';
+import TwoFactorChallenge from './TwoFactorChallenge';
+import VerificationCode from './VerificationCode';
+import SmsMessage from './SmsMessage';
+import EmailMessage from './EmailMessage';
+import EmailSuppression from './EmailSuppression';
+import NbiClearanceSubmission from './NbiClearanceSubmission';
 
 // Define model associations/relationships
 const defineAssociations = () => {
@@ -93,10 +114,10 @@ const defineAssociations = () => {
 
   console.log('✅ User ↔ Bookings associations defined');
 
-  // Booking ↔ Review Relationship (One-to-One)
-  Booking.hasOne(Review, {
+  // Booking ↔ Reviews Relationship (One review per direction)
+  Booking.hasMany(Review, {
     foreignKey: 'booking_id',
-    as: 'review',
+    as: 'reviews',
     onUpdate: 'CASCADE',
     onDelete: 'CASCADE'
   });
@@ -142,6 +163,287 @@ const defineAssociations = () => {
   });
 
   console.log('✅ User ↔ Reviews associations defined');
+
+  // Booking → Ledger Entries → Ledger Lines (escrow bookkeeping)
+  Booking.hasMany(LedgerEntry, {
+    foreignKey: 'booking_id',
+    as: 'ledgerEntries'
+  });
+
+  LedgerEntry.belongsTo(Booking, {
+    foreignKey: 'booking_id',
+    as: 'booking'
+  });
+
+  LedgerEntry.hasMany(LedgerLine, {
+    foreignKey: 'entry_id',
+    as: 'lines'
+  });
+
+  LedgerLine.belongsTo(LedgerEntry, {
+    foreignKey: 'entry_id',
+    as: 'entry'
+  });
+
+  console.log('✅ Booking → Ledger associations defined');
+
+  // Booking/User → Payment Transactions (provider checkouts, refunds, payouts)
+  Booking.hasMany(PaymentTransaction, {
+    foreignKey: 'booking_id',
+    as: 'paymentTransactions'
+  });
+
+  PaymentTransaction.belongsTo(Booking, {
+    foreignKey: 'booking_id',
+    as: 'booking'
+  });
+
+  User.hasMany(PaymentTransaction, {
+    foreignKey: 'user_id',
+    as: 'paymentTransactions'
+  });
+
+  PaymentTransaction.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'user'
+  });
+
+  console.log('✅ Payment transaction associations defined');
+
+  // Worker payouts: batches of booking earnings and monthly statements
+  User.hasMany(PayoutBatch, {
+    foreignKey: 'worker_id',
+    as: 'payoutBatches'
+  });
+
+  PayoutBatch.belongsTo(User, {
+    foreignKey: 'worker_id',
+    as: 'worker'
+  });
+
+  PayoutBatch.hasMany(PayoutItem, {
+    foreignKey: 'batch_id',
+    as: 'items',
+    onDelete: 'CASCADE'
+  });
+
+  PayoutItem.belongsTo(PayoutBatch, {
+    foreignKey: 'batch_id',
+    as: 'batch'
+  });
+
+  PayoutItem.belongsTo(Booking, {
+    foreignKey: 'booking_id',
+    as: 'booking'
+  });
+
+  PayoutBatch.belongsTo(PaymentTransaction, {
+    foreignKey: 'payment_transaction_id',
+    as: 'paymentTransaction'
+  });
+
+  User.hasMany(EarningsStatement, {
+    foreignKey: 'worker_id',
+    as: 'earningsStatements'
+  });
+
+  EarningsStatement.belongsTo(User, {
+    foreignKey: 'worker_id',
+    as: 'worker'
+  });
+
+  console.log('✅ Payout associations defined');
+
+  // Cancellation Policy → Bookings (version pinned per booking)
+  CancellationPolicy.hasMany(Booking, {
+    foreignKey: 'cancellation_policy_id',
+    as: 'bookings'
+  });
+
+  Booking.belongsTo(CancellationPolicy, {
+    foreignKey: 'cancellation_policy_id',
+    as: 'cancellationPolicy'
+  });
+
+  console.log('✅ Cancellation policy associations defined');
+
+  // Booking → Disputes → Dispute Events (history)
+  Booking.hasMany(Dispute, {
+    foreignKey: 'booking_id',
+    as: 'disputes'
+  });
+
+  Dispute.belongsTo(Booking, {
+    foreignKey: 'booking_id',
+    as: 'booking'
+  });
+
+  Dispute.belongsTo(User, {
+    foreignKey: 'opened_by',
+    as: 'opener'
+  });
+
+  Dispute.belongsTo(User, {
+    foreignKey: 'assigned_to',
+    as: 'assignee'
+  });
+
+  Dispute.hasMany(DisputeEvent, {
+    foreignKey: 'dispute_id',
+    as: 'events',
+    onDelete: 'CASCADE'
+  });
+
+  DisputeEvent.belongsTo(Dispute, {
+    foreignKey: 'dispute_id',
+    as: 'dispute'
+  });
+
+  console.log('✅ Dispute associations defined');
+
+  // Review → Votes (one per user)
+  Review.hasMany(ReviewVote, {
+    foreignKey: 'review_id',
+    as: 'votes',
+    onDelete: 'CASCADE'
+  });
+
+  ReviewVote.belongsTo(Review, {
+    foreignKey: 'review_id',
+    as: 'review'
+  });
+
+  ReviewVote.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'voter'
+  });
+
+  console.log('✅ Review vote associations defined');
+
+  // Review → Moderation history, moderator assignment
+  Review.hasMany(ReviewModerationAction, {
+    foreignKey: 'review_id',
+    as: 'moderationActions',
+    onDelete: 'CASCADE'
+  });
+
+  ReviewModerationAction.belongsTo(Review, {
+    foreignKey: 'review_id',
+    as: 'review'
+  });
+
+  Review.belongsTo(User, {
+    foreignKey: 'moderation_assigned_to',
+    as: 'moderator'
+  });
+
+  console.log('✅ Review moderation associations defined');
+
+  // Screening rules → Moderator who added them
+  ReviewScreeningRule.belongsTo(User, {
+    foreignKey: 'created_by',
+    as: 'creator'
+  });
+
+  console.log('✅ Review screening associations defined');
+
+  // User → Sessions → Refresh token chain
+  User.hasMany(AuthSession, {
+    foreignKey: 'user_id',
+    as: 'sessions',
+    onDelete: 'CASCADE'
+  });
+
+  AuthSession.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'user'
+  });
+
+  AuthSession.hasMany(RefreshToken, {
+    foreignKey: 'session_id',
+    as: 'refreshTokens',
+    onDelete: 'CASCADE'
+  });
+
+  RefreshToken.belongsTo(AuthSession, {
+    foreignKey: 'session_id',
+    as: 'session'
+  });
+
+  console.log('✅ Auth session associations defined');
+
+  // User → Login history
+  User.hasMany(LoginAttempt, {
+    foreignKey: 'user_id',
+    as: 'loginAttempts',
+    onDelete: 'CASCADE'
+  });
+
+  LoginAttempt.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'user'
+  });
+
+  console.log('✅ Login attempt associations defined');
+
+  // User → Pending 2FA login challenges
+  User.hasMany(TwoFactorChallenge, {
+    foreignKey: 'user_id',
+    as: 'twoFactorChallenges',
+    onDelete: 'CASCADE'
+  });
+
+  TwoFactorChallenge.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'user'
+  });
+
+  console.log('✅ Two-factor challenge associations defined');
+
+  // User → Outgoing SMS log
+  User.hasMany(SmsMessage, {
+    foreignKey: 'user_id',
+    as: 'smsMessages'
+  });
+
+  SmsMessage.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'user'
+  });
+
+  console.log('✅ SMS message associations defined');
+
+  // User → Outgoing email log
+  User.hasMany(EmailMessage, {
+    foreignKey: 'user_id',
+    as: 'emailMessages'
+  });
+
+  EmailMessage.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'user'
+  });
+
+  console.log('✅ Email message associations defined');
+
+  // Worker → NBI clearance submissions (admin-reviewed)
+  Worker.hasMany(NbiClearanceSubmission, {
+    foreignKey: 'worker_id',
+    as: 'nbiSubmissions',
+    onDelete: 'CASCADE'
+  });
+
+  NbiClearanceSubmission.belongsTo(Worker, {
+    foreignKey: 'worker_id',
+    as: 'worker'
+  });
+
+  NbiClearanceSubmission.belongsTo(User, {
+    foreignKey: 'reviewed_by',
+    as: 'reviewer'
+  });
+
+  console.log('✅ NBI clearance submission associations defined');
   
   console.log('🎯 All 5 core marketplace models connected!');
 };
@@ -158,7 +460,7 @@ if (process.env.NODE_ENV === 'development') {
   console.log('   User.findAll({ include: ["reviewsGiven", "reviewsReceived"] })');
   console.log('   Worker.findAll({ include: "user" })');
   console.log('   Job.findAll({ include: ["client", "bookings"] })');
-  console.log('   Booking.findAll({ include: ["job", "worker", "client", "review"] })');
+  console.log('   Booking.findAll({ include: ["job", "worker", "client", "reviews"] })');
   console.log('   Review.findAll({ include: ["booking", "reviewer", "reviewee"] })');
   console.log('   user.createWorkerProfile(workerData)');
   console.log('   user.createJob(jobData)');
@@ -172,7 +474,7 @@ if (process.env.NODE_ENV === 'development') {
   console.log('   booking.getJob()');
   console.log('   booking.getWorker()');
   console.log('   booking.getClient()');
-  console.log('   booking.getReview()');
+  console.log('   booking.getReviews()');
   console.log('   booking.createReview(reviewData)');
   console.log('   review.getBooking()');
   console.log('   review.getReviewer()');
@@ -200,6 +502,27 @@ export {
   Job,
   Booking,
   Review,
+  LedgerEntry,
+  LedgerLine,
+  PaymentTransaction,
+  PayoutBatch,
+  PayoutItem,
+  EarningsStatement,
+  CancellationPolicy,
+  Dispute,
+  DisputeEvent,
+  ReviewVote,
+  ReviewModerationAction,
+  ReviewScreeningRule,
+  AuthSession,
+  RefreshToken,
+  LoginAttempt,
+  TwoFactorChallenge,
+  VerificationCode,
+  SmsMessage,
+  EmailMessage,
+  EmailSuppression,
+  NbiClearanceSubmission,
 };
 
 // Export default object with all models
@@ -210,4 +533,25 @@ export default {
   Job,
   Booking,
   Review,
+  LedgerEntry,
+  LedgerLine,
+  PaymentTransaction,
+  PayoutBatch,
+  PayoutItem,
+  EarningsStatement,
+  CancellationPolicy,
+  Dispute,
+  DisputeEvent,
+  ReviewVote,
+  ReviewModerationAction,
+  ReviewScreeningRule,
+  AuthSession,
+  RefreshToken,
+  LoginAttempt,
+  TwoFactorChallenge,
+  VerificationCode,
+  SmsMessage,
+  EmailMessage,
+  EmailSuppression,
+  NbiClearanceSubmission,
 };
\ No newline at end of file
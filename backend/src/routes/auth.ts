@@ -1,11 +1,18 @@
 import express, { Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import { body, param, query, validationResult } from 'express-validator';
 import rateLimit from 'express-rate-limit';
-import User from '../models/User';
+import User, { ADMIN_ROLES } from '../models/User';
 import Worker from '../models/Worker';
 import ValidationService from '../services/validation';
 import { EmailService } from '../services/email';
+import EmailDeliveryService from '../services/emailDelivery';
+import TokenService from '../services/tokens';
+import PasswordResetService from '../services/passwordReset';
+import LoginProtectionService, { LoginCheckResult } from '../services/loginProtection';
+import SessionService from '../services/sessions';
+import TwoFactorService from '../services/twoFactor';
+import AuthorizationService from '../services/authorization';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 
 const router = express.Router();
@@ -32,35 +39,43 @@ const loginLimiter = rateLimit({
   }
 });
 
-// Generate JWT token
-const generateToken = (user: any): string => {
-  const payload = {
-    id: user.id,
-    email: user.email,
-    role: user.role,
-    is_verified: user.is_verified
-  };
-
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error('JWT_SECRET is not defined');
+const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // 5 reset requests per IP
+  message: {
+    error: 'Too many password reset attempts. Please try again in 15 minutes.',
+    code: 'RATE_LIMIT_EXCEEDED'
   }
+});
 
-  return jwt.sign(
-    payload,
-    secret,
-    { 
-      expiresIn: '7d',  // Use literal string instead of env variable
-      issuer: 'helpqo-api',
-      audience: 'helpqo-app'
-    }
-  );
+const refreshLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 refreshes per IP
+  message: {
+    error: 'Too many token refresh attempts. Please try again in 15 minutes.',
+    code: 'RATE_LIMIT_EXCEEDED'
+  }
+});
+
+// Reject a login stopped by lockout, delay or source blocking
+const sendLoginBlocked = (res: Response, check: LoginCheckResult) => {
+  if (check.retry_after) {
+    res.set('Retry-After', String(check.retry_after));
+  }
+
+  return res.status(check.status || 429).json({
+    success: false,
+    error: check.message,
+    code: check.code,
+    retry_after: check.retry_after
+  });
 };
 
 // Sanitize user data for response
 const sanitizeUserResponse = (user: any) => {
-  const userData = user.toJSON ? user.toJSON() : user;
-  const { password_hash, verification_token, password_reset_token, ...safeUserData } = userData;
+  if (user.toSafeJSON) return user.toSafeJSON();
+
+  const { password_hash, verification_token, password_reset_token, ...safeUserData } = user;
   return safeUserData;
 };
 
@@ -101,9 +116,17 @@ router.post('/register', registrationLimiter, ValidationService.sanitizeInput ,r
       });
     }
 
-    const token = generateToken(user);
+    const tokens = await TokenService.createSession(user, SessionService.getRequestContext(req));
     await user.updateLastLogin();
 
+    const verificationToken = await EmailService.generateEmailVerificationToken(user.id);
+    EmailDeliveryService.sendInBackground({
+      to: user.email,
+      template: 'welcome',
+      data: { user, verificationLink: EmailService.getEmailVerificationLink(verificationToken) },
+      userId: user.id
+    });
+
     console.log(`✅ New ${role} registered: ${email}`);
 
     res.status(201).json({
@@ -111,7 +134,7 @@ router.post('/register', registrationLimiter, ValidationService.sanitizeInput ,r
       message: 'Registration successful',
       data: {
         user: sanitizeUserResponse(user),
-        token
+        ...tokens
       }
     });
 
@@ -136,24 +159,86 @@ router.post('/login', loginLimiter, loginValidation, async (req: Request, res: R
       });
     }
 
+    const context = SessionService.getRequestContext(req);
+
+    // One IP/device cycling through many accounts
+    const sourceCheck = await LoginProtectionService.checkSource(context);
+    if (!sourceCheck.allowed) {
+      await LoginProtectionService.recordAttempt(identifier, 'source_blocked', context);
+      return sendLoginBlocked(res, sourceCheck);
+    }
+
     const user = await User.findByEmailOrPhone(identifier);
     if (!user || !user.is_active) {
+      await LoginProtectionService.recordAttempt(identifier, 'unknown_account', context, user?.id);
       return res.status(401).json({
         success: false,
         error: 'Invalid credentials'
       });
     }
 
+    // Locked or still inside the progressive delay: don't check the password
+    const accountCheck = LoginProtectionService.checkAccount(user);
+    if (!accountCheck.allowed) {
+      await LoginProtectionService.recordAttempt(
+        identifier,
+        accountCheck.code === 'ACCOUNT_LOCKED' ? 'locked' : 'throttled',
+        context,
+        user.id
+      );
+      return sendLoginBlocked(res, accountCheck);
+    }
+
     const isPasswordValid = await user.comparePassword(password);
     if (!isPasswordValid) {
+      const lockedUntil = await LoginProtectionService.recordFailure(user, identifier, context);
+      if (lockedUntil) {
+        await user.reload();
+        return sendLoginBlocked(res, LoginProtectionService.checkAccount(user));
+      }
+
       return res.status(401).json({
         success: false,
         error: 'Invalid credentials'
       });
     }
 
+    // Step-up: no tokens until the second factor passes
+    if (user.hasTwoFactor()) {
+      const challenge = await TwoFactorService.createChallenge(user, identifier, context);
+
+      return res.json({
+        success: true,
+        message: challenge.method === 'sms'
+          ? 'Enter the login code sent to your mobile number'
+          : 'Enter the code from your authenticator app',
+        data: {
+          two_factor_required: true,
+          challenge_id: challenge.id,
+          method: challenge.method,
+          expires_at: challenge.expires_at
+        },
+        code: 'TWO_FACTOR_REQUIRED'
+      });
+    }
+
+    await LoginProtectionService.recordSuccess(user, identifier, context);
+
+    // Accounts that must use 2FA get a setup-only token until they enable it
+    if (await TwoFactorService.isRequired(user)) {
+      return res.json({
+        success: true,
+        message: 'Set up two-factor authentication to finish logging in',
+        data: {
+          two_factor_setup_required: true,
+          setup_token: TokenService.signSetupToken(user)
+        },
+        code: 'TWO_FACTOR_SETUP_REQUIRED'
+      });
+    }
+
     await user.updateLastLogin();
-    const token = generateToken(user);
+    const tokens = await TokenService.createSession(user, context);
 
     console.log(`✅ User logged in: ${user.email}`);
 
@@ -162,7 +247,7 @@ router.post('/login', loginLimiter, loginValidation, async (req: Request, res: R
       message: 'Login successful',
       data: {
         user: sanitizeUserResponse(user),
-        token
+        ...tokens
       }
     });
 
@@ -176,88 +261,149 @@ router.post('/login', loginLimiter, loginValidation, async (req: Request, res: R
 });
 
 /**
- * POST /api/v1/auth/refresh-token
- * Refresh JWT token
+ * POST /api/v1/auth/forgot-password
+ * Send a password reset link by email or SMS (same response whether or not the account exists)
  */
-router.post('/refresh-token', async (req: Request, res: Response) => {
-  try {
-    const { token } = req.body;
+router.post('/forgot-password',
+  passwordResetLimiter,
+  ValidationService.getForgotPasswordValidation(),
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      await PasswordResetService.requestReset(req.body.identifier);
+    } catch (error) {
+      // Logged only; the response must not differ for existing accounts
+      console.error('Password reset request error:', error);
+    }
 
-    if (!token) {
-      return res.status(400).json({
+    res.json({
+      success: true,
+      message: 'If an account matches, we have sent password reset instructions.',
+      code: 'PASSWORD_RESET_REQUESTED'
+    });
+  }
+);
+
+/**
+ * POST /api/v1/auth/reset-password
+ * Set a new password with a reset token; signs the user out everywhere
+ */
+router.post('/reset-password',
+  passwordResetLimiter,
+  ValidationService.getResetPasswordValidation(),
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await PasswordResetService.resetPassword(req.body.token, req.body.password);
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({
+          success: false,
+          error: result.message,
+          code: result.code
+        });
+      }
+
+      res.json({
+        success: true,
+        message: result.message,
+        code: result.code
+      });
+
+    } catch (error) {
+      console.error('Password reset error:', error);
+      res.status(500).json({
         success: false,
-        error: 'Token is required',
-        code: 'TOKEN_REQUIRED'
+        error: 'Internal server error during password reset',
+        code: 'PASSWORD_RESET_ERROR'
       });
     }
+  }
+);
 
-    // Verify the existing token (allowing expired tokens for refresh)
-    let decoded: any;
+/**
+ * POST /api/v1/auth/refresh-token
+ * Exchange a refresh token for a new access/refresh token pair (rotation)
+ */
+router.post('/refresh-token',
+  refreshLimiter,
+  [
+    body('refresh_token').isString().notEmpty().withMessage('Refresh token is required')
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
     try {
-      const secret = process.env.JWT_SECRET;
-      if (!secret) throw new Error('JWT_SECRET not defined');
-      decoded = jwt.verify(token, secret);
-    } catch (error: any) {
-      if (error.name === 'TokenExpiredError') {
-        // Allow expired tokens for refresh
-        decoded = jwt.decode(token);
-      } else {
-        return res.status(401).json({
+      const result = await TokenService.rotateRefreshToken(req.body.refresh_token, req.ip);
+
+      if (!result.success) {
+        return res.status(result.status || 401).json({
           success: false,
-          error: 'Invalid token',
-          code: 'INVALID_TOKEN'
+          error: result.message,
+          code: result.code
         });
       }
-    }
 
-    // Verify user still exists and is active
-    const user = await User.findByPk(decoded.id);
-    if (!user || !user.is_active) {
-      return res.status(401).json({
+      res.json({
+        success: true,
+        message: result.message,
+        data: result.tokens,
+        code: result.code
+      });
+
+    } catch (error) {
+      console.error('Token refresh error:', error);
+      res.status(500).json({
         success: false,
-        error: 'User not found or inactive',
-        code: 'USER_NOT_FOUND'
+        error: 'Internal server error during token refresh',
+        code: 'TOKEN_REFRESH_ERROR'
       });
     }
+  }
+);
+
+/**
+ * POST /api/v1/auth/logout
+ * End the current session (its access and refresh tokens stop working)
+ */
+router.post('/logout', authenticate, async (req: Request, res: Response) => {
+  try {
+    await TokenService.revokeSession(req.sessionId!, 'logout');
 
-    // Generate new token
-    const newToken = generateToken(user);
+    console.log(`👋 User logged out: ${req.user.email}`);
 
     res.json({
       success: true,
-      message: 'Token refreshed successfully',
-      data: {
-        token: newToken,
-        expires_in: '7d'
-      },
-      code: 'TOKEN_REFRESHED'
+      message: 'Logout successful',
+      code: 'LOGOUT_SUCCESS'
     });
 
   } catch (error) {
-    console.error('Token refresh error:', error);
+    console.error('Logout error:', error);
     res.status(500).json({
       success: false,
-      error: 'Internal server error during token refresh',
-      code: 'TOKEN_REFRESH_ERROR'
+      error: 'Internal server error during logout',
+      code: 'LOGOUT_ERROR'
     });
   }
 });
 
 /**
- * POST /api/v1/auth/logout
- * User logout (token invalidation would require token blacklist in production)
+ * POST /api/v1/auth/logout-all
+ * End every session of the current user on all devices
  */
-router.post('/logout', async (req: Request, res: Response) => {
+router.post('/logout-all', authenticate, async (req: Request, res: Response) => {
   try {
-    // In production, implement token blacklisting here
+    const revoked = await TokenService.revokeAllSessions(req.user.id, 'logout_all');
+
     res.json({
       success: true,
-      message: 'Logout successful',
-      code: 'LOGOUT_SUCCESS'
+      message: `Logged out of ${revoked} device(s)`,
+      data: { sessions_revoked: revoked },
+      code: 'LOGOUT_ALL_SUCCESS'
     });
 
   } catch (error) {
-    console.error('Logout error:', error);
+    console.error('Logout-all error:', error);
     res.status(500).json({
       success: false,
       error: 'Internal server error during logout',
@@ -267,28 +413,125 @@ router.post('/logout', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/v1/auth/me
- * Get current user profile with enhanced data
+ * GET /api/v1/auth/sessions
+ * Devices the current user is logged in on
  */
-router.get('/me', async (req: Request, res: Response) => {
+router.get('/sessions', authenticate, async (req: Request, res: Response) => {
   try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    
-    if (!token) {
-      return res.status(401).json({
+    const sessions = await SessionService.listActive(req.user.id);
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => SessionService.formatSession(session, req.sessionId))
+      },
+      code: 'SESSIONS_RETRIEVED'
+    });
+
+  } catch (error) {
+    console.error('Session list error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sessions',
+      code: 'SESSION_LIST_ERROR'
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/auth/sessions/:sessionId
+ * Log out one of the current user's devices
+ */
+router.delete('/sessions/:sessionId',
+  authenticate,
+  [
+    param('sessionId').isUUID().withMessage('Session ID must be a valid UUID')
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const revoked = await SessionService.revokeOwn(req.user.id, req.params.sessionId);
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          error: 'Session not found or already ended',
+          code: 'SESSION_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Device logged out',
+        data: {
+          session_id: req.params.sessionId,
+          current: req.params.sessionId === req.sessionId
+        },
+        code: 'SESSION_REVOKED'
+      });
+
+    } catch (error) {
+      console.error('Session revoke error:', error);
+      res.status(500).json({
         success: false,
-        error: 'Authorization token required',
-        code: 'TOKEN_REQUIRED'
+        error: 'Failed to end session',
+        code: 'SESSION_REVOKE_ERROR'
       });
     }
+  }
+);
 
-    // Verify token
-    const secret = process.env.JWT_SECRET;
-    if (!secret) throw new Error('JWT_SECRET not defined');
-    const decoded: any = jwt.verify(token, secret);
-    
+/**
+ * POST /api/v1/auth/admin/users/:userId/logout
+ * Force a user out of every session (admin)
+ */
+router.post('/admin/users/:userId/logout',
+  authenticate,
+  requirePermission('session:revoke'),
+  [
+    param('userId').isUUID().withMessage('User ID must be a valid UUID')
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const user = await User.findByPk(req.params.userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      const revoked = await TokenService.revokeAllSessions(user.id, 'admin_forced', req.user.id);
+
+      console.log(`🔒 Admin ${req.user.email} forced logout of ${user.email}`);
+
+      res.json({
+        success: true,
+        message: `User logged out of ${revoked} session(s)`,
+        data: { user_id: user.id, sessions_revoked: revoked },
+        code: 'FORCED_LOGOUT_SUCCESS'
+      });
+
+    } catch (error) {
+      console.error('Forced logout error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during forced logout',
+        code: 'FORCED_LOGOUT_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/auth/me
+ * Get current user profile with enhanced data
+ */
+router.get('/me', authenticate, async (req: Request, res: Response) => {
+  try {
     // Get user data with associations
-    const user = await User.findByPk(decoded.id, {
+    const user = await User.findByPk(req.user.id, {
       include: [{
         model: Worker,
         as: 'workerProfile',
@@ -331,6 +574,7 @@ try {
       success: true,
       data: {
         user: sanitizeUserResponse(user),
+        permissions: AuthorizationService.getPermissions(user),
         worker_profile: user.workerProfile ? {
           skills: user.workerProfile.skills,
           experience_years: user.workerProfile.experience_years,
@@ -351,14 +595,6 @@ try {
 
   } catch (error) {
     console.error('Profile retrieval error:', error);
-    if (error instanceof jwt.JsonWebTokenError) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid or expired token',
-        code: 'INVALID_TOKEN'
-      });
-    }
-    
     res.status(500).json({
       success: false,
       error: 'Internal server error',
@@ -367,6 +603,247 @@ try {
   }
 });
 
+/**
+ * GET /api/v1/auth/admin/lockouts
+ * Accounts currently locked after failed logins (admin)
+ */
+router.get('/admin/lockouts',
+  authenticate,
+  requirePermission('user:view_security'),
+  async (req: Request, res: Response) => {
+    try {
+      const accounts = await LoginProtectionService.getLockedAccounts();
+
+      res.json({
+        success: true,
+        data: { accounts },
+        code: 'LOCKOUTS_RETRIEVED'
+      });
+
+    } catch (error) {
+      console.error('Lockout list error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch locked accounts',
+        code: 'LOCKOUTS_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/auth/admin/users/:userId/login-history
+ * Lockout state and login attempts of a user (admin)
+ */
+router.get('/admin/users/:userId/login-history',
+  authenticate,
+  requirePermission('user:view_security'),
+  [
+    param('userId').isUUID().withMessage('User ID must be a valid UUID'),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const user = await User.findByPk(req.params.userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 50;
+      const { rows, count } = await LoginProtectionService.getLoginHistory(user.id, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          lockout: {
+            is_locked: user.isLocked(),
+            locked_until: user.locked_until,
+            failed_login_count: user.failed_login_count,
+            lockout_count: user.lockout_count,
+            last_failed_login_at: user.last_failed_login_at
+          },
+          attempts: rows,
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        },
+        code: 'LOGIN_HISTORY_RETRIEVED'
+      });
+
+    } catch (error) {
+      console.error('Login history error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch login history',
+        code: 'LOGIN_HISTORY_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/auth/admin/users/:userId/sessions
+ * Full session history of a user, including ended sessions (admin)
+ */
+router.get('/admin/users/:userId/sessions',
+  authenticate,
+  requirePermission('user:view_security'),
+  [
+    param('userId').isUUID().withMessage('User ID must be a valid UUID'),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const user = await User.findByPk(req.params.userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 50;
+      const { rows, count } = await SessionService.getHistory(user.id, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          sessions: rows.map(session => ({
+            ...session.toJSON(),
+            is_active: session.isActive()
+          })),
+          other_accounts_on_same_devices: await SessionService.countOtherAccountsOnDevices(user.id, rows),
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        },
+        code: 'SESSION_HISTORY_RETRIEVED'
+      });
+
+    } catch (error) {
+      console.error('Session history error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch session history',
+        code: 'SESSION_HISTORY_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/admin/users/:userId/unlock
+ * Lift a login lockout early (admin)
+ */
+router.post('/admin/users/:userId/unlock',
+  authenticate,
+  requirePermission('user:unlock'),
+  [
+    param('userId').isUUID().withMessage('User ID must be a valid UUID')
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const user = await LoginProtectionService.unlock(req.params.userId, req.user.id);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Account unlocked',
+        data: { user_id: user.id },
+        code: 'ACCOUNT_UNLOCKED'
+      });
+
+    } catch (error) {
+      console.error('Account unlock error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to unlock account',
+        code: 'ACCOUNT_UNLOCK_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/auth/admin/users/:userId/admin-role
+ * Change an admin's sub-role (super admin)
+ */
+router.put('/admin/users/:userId/admin-role',
+  authenticate,
+  requirePermission('admin:manage_roles'),
+  [
+    param('userId').isUUID().withMessage('User ID must be a valid UUID'),
+    body('admin_role')
+      .isIn(ADMIN_ROLES)
+      .withMessage(`Admin role must be one of: ${ADMIN_ROLES.join(', ')}`)
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      // Keep at least the caller's own super admin access
+      if (req.params.userId === req.user.id) {
+        return res.status(400).json({
+          success: false,
+          error: 'You cannot change your own admin role',
+          code: 'CANNOT_CHANGE_OWN_ROLE'
+        });
+      }
+
+      const user = await AuthorizationService.setAdminRole(req.params.userId, req.body.admin_role, req.user.id);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'Admin not found',
+          code: 'ADMIN_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Admin role updated',
+        data: {
+          user_id: user.id,
+          admin_role: user.admin_role,
+          permissions: AuthorizationService.getPermissions(user)
+        },
+        code: 'ADMIN_ROLE_UPDATED'
+      });
+
+    } catch (error) {
+      console.error('Admin role update error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update admin role',
+        code: 'ADMIN_ROLE_ERROR'
+      });
+    }
+  }
+);
+
 // Development endpoints
 if (process.env.NODE_ENV === 'development') {
   router.get('/dev/users', async (req, res) => {
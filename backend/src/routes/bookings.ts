@@ -0,0 +1,724 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Booking, { BOOKING_STATUS, BookingActor, BookingTransitionError } from '../models/Booking';
+import Job from '../models/Job';
+import { authenticate, requirePermission } from '../middleware/auth';
+import ApplicationService, { AUTO_REJECT_NOTE } from '../services/applications';
+import EscrowService from '../services/escrow';
+import CancellationPolicyService from '../services/cancellationPolicies';
+import NotificationService from '../services/notifications';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+// Work out whether the caller is this booking's client or worker
+const getParticipantRole = (booking: Booking, userId: string): 'client' | 'worker' | null => {
+  if (booking.client_id === userId) return 'client';
+  if (booking.worker_id === userId) return 'worker';
+  return null;
+};
+
+// Load a booking the caller participates in, or send the appropriate error.
+// Lifecycle changes pass their transaction so the row is locked and every
+// status check runs against the current state, not a copy read earlier.
+const findParticipantBooking = async (
+  req: Request,
+  res: Response,
+  requiredRole?: 'client' | 'worker',
+  transaction?: Transaction
+): Promise<{ booking: Booking; actor: 'client' | 'worker' } | null> => {
+  const booking = transaction
+    ? await Booking.findByPk(req.params.id, { transaction, lock: transaction.LOCK.UPDATE })
+    : await Booking.findByPk(req.params.id);
+
+  if (!booking) {
+    res.status(404).json({
+      success: false,
+      error: 'Booking not found',
+      code: 'BOOKING_NOT_FOUND'
+    });
+    return null;
+  }
+
+  const actor = getParticipantRole(booking, req.user.id);
+
+  if (!actor) {
+    res.status(403).json({
+      success: false,
+      error: 'You are not a participant in this booking',
+      code: 'BOOKING_ACCESS_DENIED'
+    });
+    return null;
+  }
+
+  if (requiredRole && actor !== requiredRole) {
+    res.status(403).json({
+      success: false,
+      error: `Only the booking's ${requiredRole} can perform this action`,
+      code: 'BOOKING_ROLE_REQUIRED'
+    });
+    return null;
+  }
+
+  return { booking, actor };
+};
+
+// Full booking view shared by all lifecycle responses
+const buildBookingResponse = (booking: Booking, actor: BookingActor) => ({
+  booking: {
+    ...booking.getPublicInfo(),
+    job_id: booking.job_id,
+    schedule_proposed_by: booking.schedule_proposed_by,
+    completion_photos: booking.completion_photos,
+    final_amount: booking.final_amount,
+    ...(actor === 'client' ? { client_notes: booking.client_notes } : { worker_notes: booking.worker_notes })
+  },
+  status_info: booking.getStatusInfo(),
+  timeline: booking.getTimeline(),
+  work_duration: booking.getWorkDuration(),
+  cancellation: booking.canCancel()
+});
+
+// Send a transition error as 409, anything else as 500
+const handleLifecycleError = (res: Response, error: any, logLabel: string, fallbackError: string, fallbackCode: string) => {
+  if (error instanceof BookingTransitionError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      details: { from: error.from, to: error.to, actor: error.actor }
+    });
+  }
+
+  console.error(`❌ ${logLabel}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackError,
+    code: fallbackCode
+  });
+};
+
+const bookingIdValidation = [
+  param('id').isUUID().withMessage('Booking ID must be a valid UUID')
+];
+
+/**
+ * GET /api/v1/bookings
+ * List the caller's bookings as client or worker
+ */
+router.get('/',
+  authenticate,
+  [
+    query('status').optional().isIn(BOOKING_STATUS).withMessage('Invalid booking status')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const whereCondition: any = {
+        [Op.or]: [{ client_id: req.user.id }, { worker_id: req.user.id }]
+      };
+      if (req.query.status) whereCondition.status = req.query.status;
+
+      const bookings = await Booking.findAll({
+        where: whereCondition,
+        include: [{
+          model: Job,
+          as: 'job',
+          attributes: ['id', 'title', 'category', 'city', 'province', 'status']
+        }],
+        order: [['updated_at', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          bookings: bookings.map(booking => ({
+            ...booking.getPublicInfo(),
+            role: getParticipantRole(booking, req.user.id),
+            status_info: booking.getStatusInfo(),
+            job: booking.job
+          }))
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Bookings fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch bookings',
+        code: 'BOOKINGS_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/bookings/:id
+ * Booking detail with status info, timeline and work duration
+ */
+router.get('/:id',
+  authenticate,
+  bookingIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const participant = await findParticipantBooking(req, res);
+      if (!participant) return;
+
+      res.json({
+        success: true,
+        data: buildBookingResponse(participant.booking, participant.actor)
+      });
+
+    } catch (error: any) {
+      console.error('❌ Booking detail error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch booking',
+        code: 'BOOKING_DETAIL_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/bookings/:id/cancellation
+ * Quote what cancelling now would refund, compensate and retain under the booking's policy
+ */
+router.get('/:id/cancellation',
+  authenticate,
+  bookingIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const participant = await findParticipantBooking(req, res);
+      if (!participant) return;
+
+      const { booking, actor } = participant;
+      const cancelCheck = booking.canCancel();
+      const outcome = await CancellationPolicyService.quote(booking, actor);
+
+      res.json({
+        success: true,
+        data: {
+          ...outcome,
+          allowed: cancelCheck.canCancel && outcome.allowed,
+          reason: cancelCheck.canCancel ? outcome.reason : cancelCheck.reason,
+          funds_held: booking.payment_status === 'held'
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Cancellation quote error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to quote cancellation',
+        code: 'CANCELLATION_QUOTE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/bookings/:id/accept
+ * Client accepts an application; other pending applications are auto-rejected
+ */
+router.post('/:id/accept',
+  authenticate,
+  bookingIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const accepted = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, 'client', transaction);
+        if (!participant) return null;
+
+        const { booking } = participant;
+
+        // Lock the job so two applications can't be accepted at once
+        const job = await Job.findByPk(booking.job_id, { transaction, lock: transaction.LOCK.UPDATE });
+        if (!job || job.status !== 'open') {
+          throw new BookingTransitionError(
+            'PRECONDITION_FAILED', booking.status, 'accepted', 'client',
+            'Applications can only be accepted while the job is open'
+          );
+        }
+
+        await booking.updateStatus('accepted', 'client', 'Client accepted the application', transaction);
+
+        const otherApplications = await Booking.findAll({
+          where: {
+            job_id: booking.job_id,
+            status: 'pending',
+            id: { [Op.ne]: booking.id }
+          },
+          transaction
+        });
+
+        for (const application of otherApplications) {
+          await application.updateStatus('rejected', 'system', AUTO_REJECT_NOTE, transaction);
+        }
+
+        if (otherApplications.length > 0) {
+          await ApplicationService.syncApplicationsCount(booking.job_id, transaction);
+        }
+
+        return { booking, autoRejected: otherApplications.length };
+      });
+      if (!accepted) return;
+
+      const { booking, autoRejected } = accepted;
+
+      console.log(`✅ Application accepted: ${booking.id} (${autoRejected} other applications auto-rejected)`);
+      NotificationService.bookingAccepted(booking);
+
+      res.json({
+        success: true,
+        message: 'Application accepted successfully',
+        data: {
+          ...buildBookingResponse(booking, 'client'),
+          auto_rejected_applications: autoRejected
+        }
+      });
+
+    } catch (error: any) {
+      handleLifecycleError(res, error, 'Application accept error', 'Failed to accept application', 'BOOKING_ACCEPT_ERROR');
+    }
+  }
+);
+
+/**
+ * POST /api/v1/bookings/:id/reject
+ * Client rejects a pending application
+ */
+router.post('/:id/reject',
+  authenticate,
+  [
+    ...bookingIdValidation,
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot exceed 500 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, 'client', transaction);
+        if (!participant) return null;
+
+        await participant.booking.updateStatus('rejected', 'client', req.body.reason || 'Client rejected the application', transaction);
+        await ApplicationService.syncApplicationsCount(participant.booking.job_id, transaction);
+        return participant.booking;
+      });
+      if (!booking) return;
+
+      res.json({
+        success: true,
+        message: 'Application rejected',
+        data: buildBookingResponse(booking, 'client')
+      });
+
+    } catch (error: any) {
+      handleLifecycleError(res, error, 'Application reject error', 'Failed to reject application', 'BOOKING_REJECT_ERROR');
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/bookings/:id/schedule
+ * Either party proposes scheduled_start/scheduled_end for an accepted booking
+ */
+router.put('/:id/schedule',
+  authenticate,
+  [
+    ...bookingIdValidation,
+    body('scheduled_start')
+      .isISO8601()
+      .withMessage('Scheduled start must be a valid date')
+      .custom((value: string) => {
+        if (new Date(value) <= new Date()) {
+          throw new Error('Scheduled start must be in the future');
+        }
+        return true;
+      }),
+    body('scheduled_end')
+      .isISO8601()
+      .withMessage('Scheduled end must be a valid date')
+      .custom((value: string, { req }) => {
+        if (new Date(value) <= new Date(req.body.scheduled_start)) {
+          throw new Error('Scheduled end must be after scheduled start');
+        }
+        return true;
+      })
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const participant = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, undefined, transaction);
+        if (!participant) return null;
+
+        if (participant.booking.status !== 'accepted') {
+          res.status(409).json({
+            success: false,
+            error: 'Schedules can only be proposed for accepted bookings',
+            code: 'SCHEDULE_NOT_EDITABLE'
+          });
+          return null;
+        }
+
+        await participant.booking.update({
+          scheduled_start: new Date(req.body.scheduled_start),
+          scheduled_end: new Date(req.body.scheduled_end),
+          schedule_proposed_by: participant.actor
+        }, { transaction });
+        return participant;
+      });
+      if (!participant) return;
+
+      const { booking, actor } = participant;
+
+      console.log(`📅 Schedule proposed for booking ${booking.id} by ${actor}`);
+
+      res.json({
+        success: true,
+        message: `Schedule proposed. Waiting for the ${actor === 'client' ? 'worker' : 'client'} to confirm.`,
+        data: buildBookingResponse(booking, actor)
+      });
+
+    } catch (error: any) {
+      console.error('❌ Schedule proposal error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to propose schedule',
+        code: 'SCHEDULE_PROPOSE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/bookings/:id/schedule/confirm
+ * The other party confirms the proposed schedule (accepted → confirmed)
+ */
+router.post('/:id/schedule/confirm',
+  authenticate,
+  bookingIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const participant = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, undefined, transaction);
+        if (!participant) return null;
+
+        const { booking, actor } = participant;
+
+        if (!booking.schedule_proposed_by) {
+          res.status(409).json({
+            success: false,
+            error: 'No schedule has been proposed yet',
+            code: 'SCHEDULE_NOT_PROPOSED'
+          });
+          return null;
+        }
+
+        if (booking.schedule_proposed_by === actor) {
+          res.status(409).json({
+            success: false,
+            error: 'The schedule must be confirmed by the other party',
+            code: 'SCHEDULE_SELF_CONFIRM'
+          });
+          return null;
+        }
+
+        await booking.updateStatus('confirmed', actor, `Schedule confirmed by ${actor}`, transaction);
+        return participant;
+      });
+      if (!participant) return;
+
+      const { booking, actor } = participant;
+
+      res.json({
+        success: true,
+        message: 'Schedule confirmed',
+        data: buildBookingResponse(booking, actor)
+      });
+
+    } catch (error: any) {
+      handleLifecycleError(res, error, 'Schedule confirm error', 'Failed to confirm schedule', 'SCHEDULE_CONFIRM_ERROR');
+    }
+  }
+);
+
+/**
+ * POST /api/v1/bookings/:id/start
+ * Worker starts work (confirmed → in_progress)
+ */
+router.post('/:id/start',
+  authenticate,
+  bookingIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, 'worker', transaction);
+        if (!participant) return null;
+
+        await participant.booking.updateStatus('in_progress', 'worker', 'Worker started the job', transaction);
+        return participant.booking;
+      });
+      if (!booking) return;
+
+      res.json({
+        success: true,
+        message: 'Work started',
+        data: buildBookingResponse(booking, 'worker')
+      });
+
+    } catch (error: any) {
+      handleLifecycleError(res, error, 'Work start error', 'Failed to start work', 'WORK_START_ERROR');
+    }
+  }
+);
+
+/**
+ * POST /api/v1/bookings/:id/complete
+ * Worker marks work complete with completion photos (in_progress → completed)
+ */
+router.post('/:id/complete',
+  authenticate,
+  [
+    ...bookingIdValidation,
+    body('completion_photos')
+      .isArray({ min: 1, max: 10 })
+      .withMessage('Provide 1-10 completion photos'),
+    body('completion_photos.*')
+      .isURL()
+      .withMessage('Each photo must be a valid URL'),
+    body('worker_notes')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Notes cannot exceed 1000 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, 'worker', transaction);
+        if (!participant) return null;
+
+        const { booking } = participant;
+        booking.completion_photos = req.body.completion_photos;
+        if (req.body.worker_notes !== undefined) booking.worker_notes = req.body.worker_notes;
+
+        await booking.updateStatus('completed', 'worker', 'Worker marked the job complete', transaction);
+        return booking;
+      });
+      if (!booking) return;
+
+      res.json({
+        success: true,
+        message: 'Work marked as complete. Waiting for client approval.',
+        data: buildBookingResponse(booking, 'worker')
+      });
+
+    } catch (error: any) {
+      handleLifecycleError(res, error, 'Work complete error', 'Failed to complete work', 'WORK_COMPLETE_ERROR');
+    }
+  }
+);
+
+/**
+ * POST /api/v1/bookings/:id/approve
+ * Client approves completed work (completed → approved)
+ */
+router.post('/:id/approve',
+  authenticate,
+  requirePermission('booking:approve'),
+  [
+    ...bookingIdValidation,
+    body('client_satisfaction')
+      .optional()
+      .isInt({ min: 1, max: 5 })
+      .withMessage('Satisfaction must be between 1 and 5')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, 'client', transaction);
+        if (!participant) return null;
+
+        const { booking } = participant;
+        if (req.body.client_satisfaction !== undefined) {
+          booking.client_satisfaction = req.body.client_satisfaction;
+        }
+
+        await booking.updateStatus('approved', 'client', 'Client approved the completed work', transaction);
+
+        // Settle escrow: worker payout and platform commission
+        if (booking.payment_status === 'held') {
+          await EscrowService.releaseFunds(booking, undefined, { createdBy: req.user.id, transaction });
+          await booking.updateStatus('paid', 'system', 'Escrow released to worker', transaction);
+        }
+        return booking;
+      });
+      if (!booking) return;
+
+      if (booking.status === 'paid') {
+        NotificationService.paymentReleased(booking);
+      }
+
+      res.json({
+        success: true,
+        message: booking.status === 'paid'
+          ? 'Work approved. Payment released to worker.'
+          : 'Work approved. Payment is being processed.',
+        data: buildBookingResponse(booking, 'client')
+      });
+
+    } catch (error: any) {
+      handleLifecycleError(res, error, 'Work approve error', 'Failed to approve work', 'WORK_APPROVE_ERROR');
+    }
+  }
+);
+
+/**
+ * POST /api/v1/bookings/:id/request-changes
+ * Client sends completed work back to the worker (completed → in_progress)
+ */
+router.post('/:id/request-changes',
+  authenticate,
+  [
+    ...bookingIdValidation,
+    body('reason')
+      .isString()
+      .isLength({ min: 10, max: 1000 })
+      .withMessage('Please describe the requested changes (10-1000 characters)')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, 'client', transaction);
+        if (!participant) return null;
+
+        const { booking } = participant;
+        booking.client_notes = booking.client_notes
+          ? `${booking.client_notes}\n${req.body.reason}`
+          : req.body.reason;
+
+        await booking.updateStatus('in_progress', 'client', `Changes requested: ${req.body.reason}`, transaction);
+        return booking;
+      });
+      if (!booking) return;
+
+      res.json({
+        success: true,
+        message: 'Changes requested. The worker has been asked to revise the work.',
+        data: buildBookingResponse(booking, 'client')
+      });
+
+    } catch (error: any) {
+      handleLifecycleError(res, error, 'Request changes error', 'Failed to request changes', 'REQUEST_CHANGES_ERROR');
+    }
+  }
+);
+
+/**
+ * POST /api/v1/bookings/:id/cancel
+ * Either party cancels a booking before work starts
+ */
+router.post('/:id/cancel',
+  authenticate,
+  [
+    ...bookingIdValidation,
+    body('reason')
+      .isString()
+      .isLength({ min: 5, max: 500 })
+      .withMessage('Cancellation reason must be 5-500 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const cancelled = await sequelize.transaction(async (transaction) => {
+        const participant = await findParticipantBooking(req, res, undefined, transaction);
+        if (!participant) return null;
+
+        const { booking, actor } = participant;
+
+        const cancelCheck = booking.canCancel();
+        if (!cancelCheck.canCancel) {
+          res.status(409).json({
+            success: false,
+            error: cancelCheck.reason,
+            code: 'BOOKING_NOT_CANCELLABLE'
+          });
+          return null;
+        }
+
+        const wasApplication = booking.status === 'pending';
+        const quote = await CancellationPolicyService.quote(booking, actor, transaction);
+        if (!quote.allowed) return { booking, actor, outcome: quote };
+
+        await booking.updateStatus('cancelled', actor, `Cancelled by ${actor}: ${req.body.reason}`, transaction);
+
+        // Split any escrowed funds between refund, worker compensation and fee
+        await CancellationPolicyService.applyOutcome(booking, quote, { createdBy: req.user.id, transaction });
+
+        // A cancelled application no longer counts toward the job's applications;
+        // a cancelled booking reopens the job to the applicants passed over for it
+        if (wasApplication) {
+          await ApplicationService.syncApplicationsCount(booking.job_id, transaction);
+        } else {
+          await ApplicationService.restoreAutoRejected(booking.job_id, transaction);
+        }
+        return { booking, actor, outcome: quote };
+      });
+      if (!cancelled) return;
+
+      const { booking, actor, outcome } = cancelled;
+
+      if (!outcome.allowed) {
+        return res.status(409).json({
+          success: false,
+          error: outcome.reason,
+          code: 'BOOKING_NOT_CANCELLABLE',
+          details: outcome
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Booking cancelled',
+        data: {
+          ...buildBookingResponse(booking, actor),
+          cancellation_outcome: outcome
+        }
+      });
+
+    } catch (error: any) {
+      handleLifecycleError(res, error, 'Booking cancel error', 'Failed to cancel booking', 'BOOKING_CANCEL_ERROR');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,195 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import CancellationPolicy from '../models/CancellationPolicy';
+import { JOB_CATEGORIES } from '../models/Job';
+import { authenticate, requirePermission } from '../middleware/auth';
+import CancellationPolicyService from '../services/cancellationPolicies';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+/**
+ * GET /api/v1/cancellation-policies
+ * Active cancellation policies and the categories they cover
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    await CancellationPolicyService.ensureDefaultPolicies();
+
+    const policies = await CancellationPolicy.findAll({
+      where: { is_active: true },
+      order: [['name', 'ASC']]
+    });
+
+    res.json({
+      success: true,
+      data: { policies: policies.map(policy => policy.getPublicInfo()) }
+    });
+
+  } catch (error: any) {
+    console.error('❌ Cancellation policies fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch cancellation policies',
+      code: 'POLICIES_FETCH_ERROR'
+    });
+  }
+});
+
+/**
+ * GET /api/v1/cancellation-policies/admin/all
+ * Every policy version, newest first (admin)
+ */
+router.get('/admin/all',
+  authenticate,
+  requirePermission('cancellation_policy:manage'),
+  async (req: Request, res: Response) => {
+    try {
+      const policies = await CancellationPolicy.findAll({
+        order: [['name', 'ASC'], ['version', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          policies: policies.map(policy => ({
+            ...policy.getPublicInfo(),
+            created_by: policy.created_by,
+            created_at: policy.created_at
+          }))
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Cancellation policy history error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch cancellation policy history',
+        code: 'POLICIES_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/cancellation-policies/admin
+ * Publish a new policy version (admin). Existing bookings keep their pinned version.
+ */
+router.post('/admin',
+  authenticate,
+  requirePermission('cancellation_policy:manage'),
+  [
+    body('name')
+      .matches(/^[a-z0-9_]{3,50}$/)
+      .withMessage('Policy name must be 3-50 lowercase letters, numbers or underscores'),
+    body('description').optional().isString().isLength({ max: 500 }),
+    body('categories')
+      .isArray()
+      .withMessage('Categories must be an array (empty for the default policy)'),
+    body('categories.*')
+      .isIn(JOB_CATEGORIES)
+      .withMessage('Invalid job category'),
+    body('rules')
+      .isArray({ min: 1 })
+      .withMessage('At least one rule is required')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await CancellationPolicyService.publishVersion({
+        name: req.body.name,
+        description: req.body.description,
+        categories: req.body.categories,
+        rules: req.body.rules
+      }, req.user.id);
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({
+          success: false,
+          error: result.message,
+          code: result.code
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: result.message,
+        data: result.policy!.getPublicInfo()
+      });
+
+    } catch (error: any) {
+      console.error('❌ Cancellation policy publish error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to publish cancellation policy',
+        code: 'POLICY_PUBLISH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/cancellation-policies/admin/:id/deactivate
+ * Retire a category policy so its categories fall back to the default (admin)
+ */
+router.post('/admin/:id/deactivate',
+  authenticate,
+  requirePermission('cancellation_policy:manage'),
+  [
+    param('id').isUUID().withMessage('Policy ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const policy = await CancellationPolicy.findByPk(req.params.id);
+
+      if (!policy) {
+        return res.status(404).json({
+          success: false,
+          error: 'Cancellation policy not found',
+          code: 'POLICY_NOT_FOUND'
+        });
+      }
+
+      if (policy.isDefault()) {
+        return res.status(409).json({
+          success: false,
+          error: 'The default policy cannot be deactivated; publish a new version instead',
+          code: 'DEFAULT_POLICY_REQUIRED'
+        });
+      }
+
+      policy.is_active = false;
+      await policy.save();
+
+      res.json({
+        success: true,
+        message: 'Cancellation policy deactivated',
+        data: policy.getPublicInfo()
+      });
+
+    } catch (error: any) {
+      console.error('❌ Cancellation policy deactivate error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate cancellation policy',
+        code: 'POLICY_DEACTIVATE_ERROR'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,487 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Op } from 'sequelize';
+import Booking from '../models/Booking';
+import User from '../models/User';
+import Dispute, { DISPUTE_REASONS, DISPUTE_RESOLUTIONS, DISPUTE_STATUS } from '../models/Dispute';
+import DisputeEvent from '../models/DisputeEvent';
+import { authenticate, requirePermission } from '../middleware/auth';
+import DisputeService, { DisputeActorRole, DisputeResult } from '../services/disputes';
+import AuthorizationService from '../services/authorization';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+const disputeIdValidation = [
+  param('id').isUUID().withMessage('Dispute ID must be a valid UUID')
+];
+
+const photoValidation = (field: string, required: boolean) => [
+  (required ? body(field) : body(field).optional())
+    .isArray({ min: required ? 1 : 0, max: 10 })
+    .withMessage('Provide up to 10 photo URLs'),
+  body(`${field}.*`)
+    .isURL()
+    .withMessage('Each photo must be a valid URL')
+];
+
+// Load a dispute the caller can see, or send the appropriate error
+const findDisputeForUser = async (
+  req: Request,
+  res: Response
+): Promise<{ dispute: Dispute; booking: Booking; role: DisputeActorRole } | null> => {
+  const dispute = await Dispute.findByPk(req.params.id);
+
+  if (!dispute) {
+    res.status(404).json({
+      success: false,
+      error: 'Dispute not found',
+      code: 'DISPUTE_NOT_FOUND'
+    });
+    return null;
+  }
+
+  const booking = await Booking.findByPk(dispute.booking_id);
+  const role = booking ? DisputeService.getViewerRole(booking, req.user) : null;
+
+  if (!booking || !role) {
+    res.status(403).json({
+      success: false,
+      error: 'You are not a party to this dispute',
+      code: 'DISPUTE_ACCESS_DENIED'
+    });
+    return null;
+  }
+
+  return { dispute, booking, role };
+};
+
+// Send a DisputeService result back to the client
+const sendDisputeResult = (res: Response, result: DisputeResult) => {
+  if (!result.success) {
+    return res.status(result.status || 400).json({
+      success: false,
+      error: result.message,
+      code: result.code
+    });
+  }
+
+  res.status(result.status || 200).json({
+    success: true,
+    message: result.message,
+    data: {
+      ...result.dispute!.getPublicInfo(),
+      sla: result.dispute!.getSlaStatus()
+    }
+  });
+};
+
+/**
+ * POST /api/v1/disputes
+ * Client or worker opens a dispute on a booking
+ */
+router.post('/',
+  authenticate,
+  [
+    body('booking_id').isUUID().withMessage('Booking ID must be a valid UUID'),
+    body('reason')
+      .isIn(DISPUTE_REASONS)
+      .withMessage(`Reason must be one of: ${DISPUTE_REASONS.join(', ')}`),
+    body('description')
+      .isString()
+      .trim()
+      .isLength({ min: 20, max: 2000 })
+      .withMessage('Please describe the issue in 20-2000 characters'),
+    ...photoValidation('evidence_photos', false)
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await DisputeService.openDispute(req.body.booking_id, req.user.id, {
+        reason: req.body.reason,
+        description: req.body.description,
+        evidence_photos: req.body.evidence_photos
+      });
+
+      sendDisputeResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Dispute open error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to open dispute',
+        code: 'DISPUTE_OPEN_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/disputes/mine
+ * Disputes on the caller's bookings (as client or worker)
+ */
+router.get('/mine',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const disputes = await Dispute.findAll({
+        include: [{
+          model: Booking,
+          as: 'booking',
+          attributes: ['id', 'status', 'payment_status'],
+          where: { [Op.or]: [{ client_id: req.user.id }, { worker_id: req.user.id }] }
+        }],
+        order: [['created_at', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          disputes: disputes.map(dispute => ({
+            ...dispute.getPublicInfo(),
+            opened_by_me: dispute.opened_by === req.user.id,
+            booking: dispute.booking
+          }))
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Disputes fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch disputes',
+        code: 'DISPUTES_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/disputes/admin/queue
+ * Active disputes ordered by resolution deadline (admin)
+ */
+router.get('/admin/queue',
+  authenticate,
+  requirePermission('dispute:manage'),
+  [
+    query('status').optional().isIn(DISPUTE_STATUS).withMessage('Invalid dispute status'),
+    query('assigned').optional().isIn(['me', 'unassigned', 'any']).withMessage('assigned must be me, unassigned or any'),
+    query('breached').optional().isBoolean().toBoolean()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const whereCondition: any = {
+        status: req.query.status || { [Op.ne]: 'resolved' }
+      };
+
+      if (req.query.assigned === 'me') whereCondition.assigned_to = req.user.id;
+      if (req.query.assigned === 'unassigned') whereCondition.assigned_to = null;
+      if (req.query.breached !== undefined) {
+        const breached = req.query.breached as unknown as boolean;
+        whereCondition[breached ? Op.or : Op.and] = breached
+          ? [{ response_sla_breached: true }, { resolution_sla_breached: true }]
+          : [{ response_sla_breached: false }, { resolution_sla_breached: false }];
+      }
+
+      const disputes = await Dispute.findAll({
+        where: whereCondition,
+        include: [{
+          model: Booking,
+          as: 'booking',
+          attributes: ['id', 'client_id', 'worker_id', 'status', 'payment_status', 'final_amount', 'proposed_rate', 'estimated_hours']
+        }],
+        order: [['resolution_due_at', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          disputes: disputes.map(dispute => ({
+            ...dispute.getPublicInfo(),
+            assigned_to: dispute.assigned_to,
+            sla: dispute.getSlaStatus(),
+            booking: dispute.booking
+          })),
+          total: disputes.length
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Dispute queue error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch dispute queue',
+        code: 'DISPUTE_QUEUE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/disputes/:id
+ * Dispute detail with SLA timers and history (admin comments hidden from parties)
+ */
+router.get('/:id',
+  authenticate,
+  disputeIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const access = await findDisputeForUser(req, res);
+      if (!access) return;
+
+      const { dispute, booking, role } = access;
+
+      const events = await DisputeEvent.findAll({
+        where: {
+          dispute_id: dispute.id,
+          ...(role !== 'admin' && { is_internal: false })
+        },
+        order: [['created_at', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...dispute.getPublicInfo(),
+          ...(role === 'admin' && {
+            assigned_to: dispute.assigned_to,
+            booking_status_at_open: dispute.booking_status_at_open
+          }),
+          booking: {
+            id: booking.id,
+            status: booking.status,
+            payment_status: booking.payment_status
+          },
+          sla: dispute.getSlaStatus(),
+          history: events
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Dispute detail error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch dispute',
+        code: 'DISPUTE_DETAIL_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/disputes/:id/messages
+ * Post a message to the dispute thread (parties and admins)
+ */
+router.post('/:id/messages',
+  authenticate,
+  [
+    ...disputeIdValidation,
+    body('message')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage('Message must be 1-2000 characters'),
+    ...photoValidation('attachments', false)
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const access = await findDisputeForUser(req, res);
+      if (!access) return;
+
+      const result = await DisputeService.addMessage(
+        access.dispute,
+        { id: req.user.id, role: access.role },
+        req.body.message,
+        req.body.attachments
+      );
+
+      sendDisputeResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Dispute message error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to post message',
+        code: 'DISPUTE_MESSAGE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/disputes/:id/evidence
+ * Add evidence photos (parties and admins)
+ */
+router.post('/:id/evidence',
+  authenticate,
+  [
+    ...disputeIdValidation,
+    ...photoValidation('photos', true),
+    body('note').optional().isString().isLength({ max: 500 })
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const access = await findDisputeForUser(req, res);
+      if (!access) return;
+
+      const result = await DisputeService.addEvidence(
+        access.dispute,
+        { id: req.user.id, role: access.role },
+        req.body.photos,
+        req.body.note
+      );
+
+      sendDisputeResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Dispute evidence error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add evidence',
+        code: 'DISPUTE_EVIDENCE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/disputes/:id/assign
+ * Assign the dispute to an admin (defaults to the caller)
+ */
+router.post('/:id/assign',
+  authenticate,
+  requirePermission('dispute:manage'),
+  [
+    ...disputeIdValidation,
+    body('assignee_id').optional().isUUID().withMessage('Assignee ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const access = await findDisputeForUser(req, res);
+      if (!access) return;
+
+      const assigneeId = req.body.assignee_id || req.user.id;
+      if (assigneeId !== req.user.id) {
+        const assignee = await User.findByPk(assigneeId);
+        if (!assignee || !AuthorizationService.hasPermission(assignee, 'dispute:manage')) {
+          return res.status(400).json({
+            success: false,
+            error: 'Disputes can only be assigned to admins who handle disputes',
+            code: 'INVALID_ASSIGNEE'
+          });
+        }
+      }
+
+      const result = await DisputeService.assign(access.dispute, req.user.id, assigneeId);
+      sendDisputeResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Dispute assign error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to assign dispute',
+        code: 'DISPUTE_ASSIGN_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/disputes/:id/comments
+ * Admin-only internal comment
+ */
+router.post('/:id/comments',
+  authenticate,
+  requirePermission('dispute:manage'),
+  [
+    ...disputeIdValidation,
+    body('comment')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage('Comment must be 1-2000 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const access = await findDisputeForUser(req, res);
+      if (!access) return;
+
+      const result = await DisputeService.addInternalComment(access.dispute, req.user.id, req.body.comment);
+      sendDisputeResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Dispute comment error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add comment',
+        code: 'DISPUTE_COMMENT_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/disputes/:id/resolve
+ * Resolve the dispute and settle escrow (admin)
+ */
+router.post('/:id/resolve',
+  authenticate,
+  requirePermission('dispute:manage'),
+  [
+    ...disputeIdValidation,
+    body('resolution')
+      .isIn(DISPUTE_RESOLUTIONS)
+      .withMessage(`Resolution must be one of: ${DISPUTE_RESOLUTIONS.join(', ')}`),
+    body('client_refund_amount')
+      .if(body('resolution').equals('partial_split'))
+      .isFloat({ gt: 0 })
+      .withMessage('client_refund_amount is required for a partial split')
+      .toFloat(),
+    body('notes')
+      .isString()
+      .trim()
+      .isLength({ min: 10, max: 2000 })
+      .withMessage('Resolution notes must be 10-2000 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await DisputeService.resolve(req.params.id, req.user.id, {
+        resolution: req.body.resolution,
+        client_refund_amount: req.body.client_refund_amount,
+        notes: req.body.notes
+      });
+
+      sendDisputeResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Dispute resolve error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to resolve dispute',
+        code: 'DISPUTE_RESOLVE_ERROR'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,290 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { EMAIL_STATUS, EMAIL_TEMPLATES } from '../models/EmailMessage';
+import { EMAIL_SUPPRESSION_REASONS } from '../models/EmailSuppression';
+import { authenticate, requirePermission } from '../middleware/auth';
+import EmailDeliveryService, { EmailDeliveryEvent, EmailEventVerificationError } from '../services/emailDelivery';
+import { getOutboxTransport } from '../services/emailTransports';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+const EVENT_TYPES = ['delivery', 'bounce', 'complaint'];
+
+const eventValidation = [
+  body('events').isArray({ min: 1, max: 100 }).withMessage('events must be a list of 1-100 events'),
+  body('events.*.type').isIn(EVENT_TYPES).withMessage(`Event type must be one of: ${EVENT_TYPES.join(', ')}`),
+  body('events.*.email').isEmail().withMessage('Event email must be a valid address'),
+  body('events.*.bounce_type').optional().isIn(['hard', 'soft']).withMessage('Bounce type must be hard or soft'),
+  body('events.*.message_id').optional().isString().isLength({ max: 255 }),
+  body('events.*.reason').optional().isString()
+];
+
+/**
+ * POST /api/v1/email/events
+ * Bounce, complaint and delivery reports (HMAC-signed with EMAIL_EVENTS_SECRET)
+ */
+router.post('/events',
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      EmailDeliveryService.verifyEventSignature((req as any).rawBody || '', req.get('X-HelpQo-Signature'));
+      next();
+    } catch (error: any) {
+      if (error instanceof EmailEventVerificationError) {
+        console.warn(`⚠️ Rejected email event callback: ${error.message}`);
+        return res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: 'EMAIL_EVENT_VERIFICATION_FAILED'
+        });
+      }
+      next(error);
+    }
+  },
+  eventValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const events = req.body.events as EmailDeliveryEvent[];
+      for (const event of events) {
+        await EmailDeliveryService.handleEvent(event);
+      }
+
+      res.json({
+        success: true,
+        data: { processed: events.length }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Email event error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to process email events',
+        code: 'EMAIL_EVENT_PROCESSING_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/email/admin/messages
+ * Outgoing email log with delivery status (admin)
+ */
+router.get('/admin/messages',
+  authenticate,
+  requirePermission('email:manage'),
+  [
+    query('to').optional().isEmail().withMessage('to must be a valid email'),
+    query('status').optional().isIn(EMAIL_STATUS).withMessage('Invalid email status'),
+    query('template').optional().isIn(EMAIL_TEMPLATES).withMessage('Invalid email template'),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 50;
+
+      const { rows, count } = await EmailDeliveryService.listMessages({
+        to: req.query.to as string | undefined,
+        status: req.query.status as any,
+        template: req.query.template as any
+      }, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          messages: rows,
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Email log error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch emails',
+        code: 'EMAIL_LOG_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/email/admin/suppressions
+ * Addresses marked undeliverable (admin)
+ */
+router.get('/admin/suppressions',
+  authenticate,
+  requirePermission('email:manage'),
+  [
+    query('email').optional().isEmail().withMessage('email must be a valid address'),
+    query('reason').optional().isIn(EMAIL_SUPPRESSION_REASONS).withMessage('Invalid suppression reason'),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 50;
+
+      const { rows, count } = await EmailDeliveryService.listSuppressions({
+        email: req.query.email as string | undefined,
+        reason: req.query.reason as any
+      }, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          suppressions: rows,
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Email suppression list error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch suppressions',
+        code: 'EMAIL_SUPPRESSION_LIST_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/email/admin/suppressions/:email
+ * Allow mail to an address again, e.g. after the user fixed their mailbox (admin)
+ */
+router.delete('/admin/suppressions/:email',
+  authenticate,
+  requirePermission('email:manage'),
+  [
+    param('email').isEmail().withMessage('Must be a valid email address')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const lifted = await EmailDeliveryService.liftSuppression(req.params.email, req.user.id);
+      if (!lifted) {
+        return res.status(404).json({
+          success: false,
+          error: 'Address is not suppressed',
+          code: 'EMAIL_SUPPRESSION_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Suppression lifted'
+      });
+
+    } catch (error: any) {
+      console.error('❌ Email suppression lift error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to lift suppression',
+        code: 'EMAIL_SUPPRESSION_LIFT_ERROR'
+      });
+    }
+  }
+);
+
+// Development endpoints
+if (process.env.NODE_ENV === 'development') {
+  // GET /api/v1/email/dev/outbox - Messages delivered to the local maildir
+  router.get('/dev/outbox',
+    [
+      query('to').optional().isEmail(),
+      query('limit').optional().isInt({ min: 1, max: 200 }).toInt()
+    ],
+    handleValidationErrors,
+    async (req: Request, res: Response) => {
+      try {
+        const messages = await getOutboxTransport().listMessages(
+          req.query.to as string | undefined,
+          (req.query.limit as unknown as number) || 20
+        );
+
+        res.json({
+          success: true,
+          data: { messages }
+        });
+
+      } catch (error: any) {
+        console.error('❌ Email outbox error:', error);
+        res.status(500).json({ success: false, error: 'Failed to read email outbox' });
+      }
+    }
+  );
+
+  // GET /api/v1/email/dev/outbox/:file - Raw source of one message
+  router.get('/dev/outbox/:file', async (req: Request, res: Response) => {
+    try {
+      const raw = await getOutboxTransport().readMessage(req.params.file);
+      if (raw === null) {
+        return res.status(404).json({ success: false, error: 'Message not found' });
+      }
+      res.type('message/rfc822').send(raw);
+
+    } catch (error: any) {
+      console.error('❌ Email outbox error:', error);
+      res.status(500).json({ success: false, error: 'Failed to read email' });
+    }
+  });
+
+  // DELETE /api/v1/email/dev/outbox - Empty the local maildir
+  router.delete('/dev/outbox', async (req: Request, res: Response) => {
+    try {
+      await getOutboxTransport().clear();
+      res.json({ success: true, message: 'Email outbox cleared' });
+
+    } catch (error: any) {
+      console.error('❌ Email outbox error:', error);
+      res.status(500).json({ success: false, error: 'Failed to clear email outbox' });
+    }
+  });
+
+  // POST /api/v1/email/dev/events - Simulate bounce/complaint reports without a signature
+  router.post('/dev/events', eventValidation, handleValidationErrors, async (req: Request, res: Response) => {
+    try {
+      const events = req.body.events as EmailDeliveryEvent[];
+      for (const event of events) {
+        await EmailDeliveryService.handleEvent(event);
+      }
+
+      res.json({ success: true, data: { processed: events.length } });
+
+    } catch (error: any) {
+      console.error('❌ Email event simulation error:', error);
+      res.status(500).json({ success: false, error: 'Failed to simulate email events' });
+    }
+  });
+}
+
+export default router;
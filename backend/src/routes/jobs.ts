@@ -0,0 +1,710 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import Job, { JOB_CATEGORIES, URGENCY_LEVELS, LOCATION_TYPES, JobSearchFilters } from '../models/Job';
+import Booking from '../models/Booking';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import { authenticate, requirePermission } from '../middleware/auth';
+import ApplicationService from '../services/applications';
+
+const router = express.Router();
+
+// Rate limiting for job posting operations
+const jobPostingLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30, // 30 job create/update requests per window
+  message: {
+    error: 'Too many job posting requests. Please try again in 15 minutes.',
+    code: 'JOB_RATE_LIMIT_EXCEEDED'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+const applicationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 20, // 20 applications per hour
+  message: {
+    error: 'Too many job applications. Please try again in an hour.',
+    code: 'APPLICATION_RATE_LIMIT_EXCEEDED'
+  }
+});
+
+// Fields a client may set when creating or editing a job
+const EDITABLE_JOB_FIELDS = [
+  'title', 'description', 'category', 'required_skills', 'budget_min', 'budget_max',
+  'budget_type', 'estimated_duration', 'urgency_level', 'location_type', 'address',
+  'city', 'province', 'postal_code', 'coordinates', 'start_date', 'end_date',
+  'requirements', 'preferred_worker_rating', 'client_rating_required', 'max_applications',
+  'auto_accept_applications', 'questions_for_workers', 'materials_provided', 'materials_description'
+] as const;
+
+// Jobs can only be edited before a worker is assigned
+const EDITABLE_JOB_STATUSES = ['draft', 'open'];
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+// Pick only client-editable fields from the request body
+const pickJobFields = (source: any): any => {
+  const jobData: any = {};
+  EDITABLE_JOB_FIELDS.forEach(field => {
+    if (source[field] !== undefined) jobData[field] = source[field];
+  });
+  return jobData;
+};
+
+// Load a job owned by the current client, or send the appropriate error
+const findOwnedJob = async (req: Request, res: Response): Promise<Job | null> => {
+  const job = await Job.findByPk(req.params.id);
+
+  if (!job) {
+    res.status(404).json({
+      success: false,
+      error: 'Job not found',
+      code: 'JOB_NOT_FOUND'
+    });
+    return null;
+  }
+
+  if (job.client_id !== req.user.id) {
+    res.status(403).json({
+      success: false,
+      error: 'You can only manage your own job postings',
+      code: 'JOB_ACCESS_DENIED'
+    });
+    return null;
+  }
+
+  return job;
+};
+
+// Shared validation for job body fields (create requires the core fields)
+const jobBodyValidation = (isCreate: boolean) => {
+  const field = (name: string) => isCreate ? body(name) : body(name).optional();
+
+  return [
+    field('title')
+      .isString()
+      .isLength({ min: 5, max: 200 })
+      .withMessage('Job title must be between 5 and 200 characters'),
+    field('description')
+      .isString()
+      .isLength({ min: 20, max: 5000 })
+      .withMessage('Job description must be between 20 and 5000 characters'),
+    field('category')
+      .isIn(JOB_CATEGORIES)
+      .withMessage('Invalid job category'),
+    field('required_skills')
+      .isArray({ min: 1, max: 10 })
+      .withMessage('Must provide 1-10 required skills'),
+    field('budget_min')
+      .isFloat({ min: 50, max: 50000 })
+      .withMessage('Minimum budget must be between ₱50 and ₱50,000'),
+    field('budget_max')
+      .isFloat({ min: 50, max: 50000 })
+      .withMessage('Maximum budget must be between ₱50 and ₱50,000'),
+    field('estimated_duration')
+      .isInt({ min: 1, max: 2000 })
+      .withMessage('Estimated duration must be between 1 and 2000 hours'),
+    field('city')
+      .isString()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('City must be between 2 and 100 characters'),
+    field('province')
+      .isString()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Province must be between 2 and 100 characters'),
+    body('budget_type')
+      .optional()
+      .isIn(['fixed', 'hourly'])
+      .withMessage('Budget type must be either fixed or hourly'),
+    body('urgency_level')
+      .optional()
+      .isIn(URGENCY_LEVELS)
+      .withMessage('Invalid urgency level'),
+    body('location_type')
+      .optional()
+      .isIn(LOCATION_TYPES)
+      .withMessage('Invalid location type'),
+    body('start_date')
+      .optional()
+      .isISO8601()
+      .withMessage('Start date must be a valid date'),
+    body('end_date')
+      .optional()
+      .isISO8601()
+      .withMessage('End date must be a valid date'),
+    body('max_applications')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Maximum applications must be between 1 and 100'),
+    body('preferred_worker_rating')
+      .optional()
+      .isFloat({ min: 0, max: 5 })
+      .withMessage('Preferred worker rating must be between 0 and 5'),
+    body('questions_for_workers')
+      .optional()
+      .isArray({ max: 10 })
+      .withMessage('Maximum 10 questions allowed')
+  ];
+};
+
+/**
+ * GET /api/v1/jobs
+ * Public paginated browse of open jobs with combined filters
+ */
+router.get('/',
+  [
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+    query('category').optional().isIn(JOB_CATEGORIES).withMessage('Invalid job category'),
+    query('urgency_level').optional().isIn(URGENCY_LEVELS).withMessage('Invalid urgency level'),
+    query('location_type').optional().isIn(LOCATION_TYPES).withMessage('Invalid location type'),
+    query('budget_min').optional().isFloat({ min: 0 }).toFloat(),
+    query('budget_max').optional().isFloat({ min: 0 }).toFloat(),
+    query('city').optional().isString().trim(),
+    query('province').optional().isString().trim(),
+    query('skills').optional().isString()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+
+      const filters: JobSearchFilters = {
+        category: req.query.category as any,
+        city: req.query.city as string | undefined,
+        province: req.query.province as string | undefined,
+        budget_min: req.query.budget_min as unknown as number | undefined,
+        budget_max: req.query.budget_max as unknown as number | undefined,
+        urgency_level: req.query.urgency_level as any,
+        location_type: req.query.location_type as any,
+        skills: req.query.skills
+          ? (req.query.skills as string).split(',').map(skill => skill.trim()).filter(Boolean)
+          : undefined
+      };
+
+      const result = await Job.searchJobs(filters, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          jobs: result.jobs.map(job => job.getPublicInfo()),
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            total_pages: result.totalPages
+          }
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Job browse error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch jobs',
+        code: 'JOB_BROWSE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/jobs/mine
+ * List the current client's job postings (all statuses)
+ */
+router.get('/mine',
+  authenticate,
+  requirePermission('job:manage'),
+  async (req: Request, res: Response) => {
+    try {
+      const jobs = await Job.findAll({
+        where: { client_id: req.user.id },
+        order: [['created_at', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: { jobs }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Client jobs fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch your jobs',
+        code: 'CLIENT_JOBS_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/jobs/applications/mine
+ * List the current worker's applications
+ */
+router.get('/applications/mine',
+  authenticate,
+  requirePermission('job:apply'),
+  async (req: Request, res: Response) => {
+    try {
+      const applications = await Booking.findAll({
+        where: { worker_id: req.user.id },
+        include: [{
+          model: Job,
+          as: 'job',
+          attributes: ['id', 'title', 'category', 'city', 'province', 'budget_min', 'budget_max', 'status']
+        }],
+        order: [['applied_at', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          applications: applications.map(application => ({
+            ...application.getPublicInfo(),
+            job: application.job
+          }))
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Worker applications fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch your applications',
+        code: 'WORKER_APPLICATIONS_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/jobs/:id
+ * Public job detail view (drafts are hidden); increments view count
+ */
+router.get('/:id',
+  [
+    param('id').isUUID().withMessage('Job ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await Job.findByPk(req.params.id);
+
+      if (!job || job.status === 'draft') {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+          code: 'JOB_NOT_FOUND'
+        });
+      }
+
+      await job.incrementViews();
+
+      res.json({
+        success: true,
+        data: {
+          job: {
+            ...job.getPublicInfo(),
+            start_date: job.start_date,
+            end_date: job.end_date,
+            requirements: job.requirements,
+            questions_for_workers: job.questions_for_workers,
+            materials_description: job.materials_description,
+            max_applications: job.max_applications,
+            preferred_worker_rating: job.preferred_worker_rating
+          },
+          budget_range: job.getBudgetRange(),
+          urgency: job.getUrgencyIndicator(),
+          is_accepting_applications: job.isAcceptingApplications()
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Job detail error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch job',
+        code: 'JOB_DETAIL_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/jobs
+ * Create a new job posting (saved as draft)
+ */
+router.post('/',
+  jobPostingLimiter,
+  authenticate,
+  requirePermission('job:manage'),
+  jobBodyValidation(true),
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await Job.create({
+        ...pickJobFields(req.body),
+        client_id: req.user.id,
+        status: 'draft'
+      } as any);
+
+      console.log(`✅ Job draft created: ${job.id} by ${req.user.email}`);
+
+      res.status(201).json({
+        success: true,
+        message: 'Job draft created successfully',
+        data: { job }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Job creation error:', error);
+
+      if (error.name === 'SequelizeValidationError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.errors.map((e: any) => ({ field: e.path, message: e.message })),
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create job',
+        code: 'JOB_CREATE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/jobs/:id
+ * Update a draft or open job posting
+ */
+router.put('/:id',
+  jobPostingLimiter,
+  authenticate,
+  requirePermission('job:manage'),
+  [
+    param('id').isUUID().withMessage('Job ID must be a valid UUID'),
+    ...jobBodyValidation(false)
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await findOwnedJob(req, res);
+      if (!job) return;
+
+      if (!EDITABLE_JOB_STATUSES.includes(job.status)) {
+        return res.status(409).json({
+          success: false,
+          error: `Jobs with status '${job.status}' can no longer be edited`,
+          code: 'JOB_NOT_EDITABLE'
+        });
+      }
+
+      const updateData = pickJobFields(req.body);
+      await job.update(updateData);
+
+      console.log(`✅ Job updated: ${job.id}`);
+
+      res.json({
+        success: true,
+        message: 'Job updated successfully',
+        data: {
+          job,
+          updated_fields: Object.keys(updateData)
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Job update error:', error);
+
+      if (error.name === 'SequelizeValidationError') {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: error.errors.map((e: any) => ({ field: e.path, message: e.message })),
+          code: 'VALIDATION_ERROR'
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update job',
+        code: 'JOB_UPDATE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/jobs/:id/publish
+ * Publish a draft job (draft → open)
+ */
+router.post('/:id/publish',
+  authenticate,
+  requirePermission('job:manage'),
+  [
+    param('id').isUUID().withMessage('Job ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await findOwnedJob(req, res);
+      if (!job) return;
+
+      if (job.status !== 'draft') {
+        return res.status(409).json({
+          success: false,
+          error: 'Only draft jobs can be published',
+          code: 'JOB_NOT_DRAFT'
+        });
+      }
+
+      await job.update({ status: 'open' });
+
+      console.log(`📢 Job published: ${job.id}`);
+
+      res.json({
+        success: true,
+        message: 'Job published successfully',
+        data: { job: job.getPublicInfo() }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Job publish error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to publish job',
+        code: 'JOB_PUBLISH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/jobs/:id/close
+ * Close a draft or open job before a worker is assigned (→ cancelled)
+ */
+router.post('/:id/close',
+  authenticate,
+  requirePermission('job:manage'),
+  [
+    param('id').isUUID().withMessage('Job ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await findOwnedJob(req, res);
+      if (!job) return;
+
+      if (!EDITABLE_JOB_STATUSES.includes(job.status)) {
+        return res.status(409).json({
+          success: false,
+          error: `Jobs with status '${job.status}' cannot be closed`,
+          code: 'JOB_NOT_CLOSABLE'
+        });
+      }
+
+      await job.update({ status: 'cancelled' });
+
+      console.log(`🔒 Job closed: ${job.id}`);
+
+      res.json({
+        success: true,
+        message: 'Job closed successfully',
+        data: { job: job.getPublicInfo() }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Job close error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to close job',
+        code: 'JOB_CLOSE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/jobs/:id/apply
+ * Worker applies to an open job (creates a pending booking)
+ */
+router.post('/:id/apply',
+  applicationLimiter,
+  authenticate,
+  requirePermission('job:apply'),
+  [
+    param('id').isUUID().withMessage('Job ID must be a valid UUID'),
+    body('proposed_rate')
+      .isFloat({ min: 50, max: 50000 })
+      .withMessage('Proposed rate must be between ₱50 and ₱50,000'),
+    body('estimated_hours')
+      .isInt({ min: 1, max: 2000 })
+      .withMessage('Estimated hours must be between 1 and 2000'),
+    body('application_message')
+      .optional()
+      .isString()
+      .isLength({ max: 2000 })
+      .withMessage('Application message cannot exceed 2000 characters'),
+    body('questions_responses')
+      .optional()
+      .isObject()
+      .withMessage('Question responses must be an object keyed by question')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ApplicationService.apply(req.params.id, req.user.id, {
+        application_message: req.body.application_message,
+        proposed_rate: req.body.proposed_rate,
+        estimated_hours: req.body.estimated_hours,
+        questions_responses: req.body.questions_responses
+      });
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({
+          success: false,
+          error: result.message,
+          code: result.code
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        message: result.message,
+        data: {
+          application: result.booking!.getPublicInfo()
+        },
+        code: result.code
+      });
+
+    } catch (error: any) {
+      console.error('❌ Job application error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to submit application',
+        code: 'APPLICATION_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/jobs/:id/applications
+ * Client views applications received for their job
+ */
+router.get('/:id/applications',
+  authenticate,
+  requirePermission('job:manage'),
+  [
+    param('id').isUUID().withMessage('Job ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await findOwnedJob(req, res);
+      if (!job) return;
+
+      const applications = await Booking.findAll({
+        where: { job_id: job.id },
+        include: [{
+          model: User,
+          as: 'worker',
+          attributes: ['id', 'first_name', 'last_name', 'city', 'province', 'profile_picture'],
+          include: [{
+            model: Worker,
+            as: 'workerProfile',
+            attributes: ['skills', 'experience_years', 'rating_average', 'total_reviews', 'total_jobs_completed', 'verification_level']
+          }]
+        }],
+        order: [['applied_at', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          job: job.getPublicInfo(),
+          applications: applications.map(application => ({
+            ...application.getPublicInfo(),
+            application_message: application.application_message,
+            questions_responses: application.questions_responses,
+            worker: application.worker
+          }))
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Job applications fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch applications',
+        code: 'JOB_APPLICATIONS_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/jobs/applications/:bookingId/withdraw
+ * Worker withdraws a pending application
+ */
+router.post('/applications/:bookingId/withdraw',
+  authenticate,
+  requirePermission('job:apply'),
+  [
+    param('bookingId').isUUID().withMessage('Application ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ApplicationService.withdraw(req.params.bookingId, req.user.id);
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({
+          success: false,
+          error: result.message,
+          code: result.code
+        });
+      }
+
+      res.json({
+        success: true,
+        message: result.message,
+        data: {
+          application: result.booking!.getPublicInfo()
+        },
+        code: result.code
+      });
+
+    } catch (error: any) {
+      console.error('❌ Application withdraw error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to withdraw application',
+        code: 'APPLICATION_WITHDRAW_ERROR'
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,313 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { NBI_REJECTION_REASONS, NBI_SUBMISSION_STATUS } from '../models/NbiClearanceSubmission';
+import { authenticate, requirePermission } from '../middleware/auth';
+import NbiClearanceService, { NBI_REJECTION_REASON_LABELS, NbiReviewResult } from '../services/nbiClearance';
+import NbiExpiryService from '../services/nbiExpiry';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+const submissionIdValidation = [
+  param('id').isUUID().withMessage('Submission ID must be a valid UUID')
+];
+
+const sendReviewResult = (res: Response, result: NbiReviewResult) => {
+  if (!result.success) {
+    return res.status(result.status || 400).json({
+      success: false,
+      error: result.message,
+      code: result.code
+    });
+  }
+
+  res.json({
+    success: true,
+    message: result.message,
+    data: { submission: result.submission }
+  });
+};
+
+/**
+ * GET /api/v1/nbi-clearances/admin/reasons
+ * Rejection reasons and the message the worker sees (admin)
+ */
+router.get('/admin/reasons',
+  authenticate,
+  requirePermission('nbi:review'),
+  (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: {
+        reasons: NBI_REJECTION_REASONS.map(code => ({ code, message: NBI_REJECTION_REASON_LABELS[code] }))
+      }
+    });
+  }
+);
+
+/**
+ * GET /api/v1/nbi-clearances/admin/queue
+ * Submissions by status; pending ones oldest first (admin)
+ */
+router.get('/admin/queue',
+  authenticate,
+  requirePermission('nbi:review'),
+  [
+    query('status').optional().isIn(NBI_SUBMISSION_STATUS).withMessage('Invalid submission status'),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+
+      const { rows, count } = await NbiClearanceService.getQueue(req.query.status as any, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          submissions: rows,
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ NBI queue error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch NBI review queue',
+        code: 'NBI_QUEUE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/nbi-clearances/admin/expiry-report
+ * Clearances expiring soon and bookings flagged after an expiry (admin)
+ */
+router.get('/admin/expiry-report',
+  authenticate,
+  requirePermission('nbi:review'),
+  [
+    query('days').optional().isInt({ min: 1, max: 90 }).withMessage('days must be 1-90').toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const report = await NbiExpiryService.getExpiryReport((req.query.days as unknown as number) || 30);
+
+      res.json({
+        success: true,
+        data: report
+      });
+
+    } catch (error: any) {
+      console.error('❌ NBI expiry report error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to build NBI expiry report',
+        code: 'NBI_EXPIRY_REPORT_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/nbi-clearances/admin/expiry-check
+ * Send due reminders and expire lapsed clearances now (admin)
+ */
+router.post('/admin/expiry-check',
+  authenticate,
+  requirePermission('nbi:review'),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await NbiExpiryService.runExpiryCheck();
+      if (!result) {
+        return res.status(409).json({
+          success: false,
+          error: 'An expiry check is already running',
+          code: 'NBI_EXPIRY_CHECK_IN_PROGRESS'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: `${result.workers_expired} clearances expired, ${result.reminders_sent} reminders sent`,
+        data: result
+      });
+
+    } catch (error: any) {
+      console.error('❌ NBI expiry check error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to run NBI expiry check',
+        code: 'NBI_EXPIRY_CHECK_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/nbi-clearances/admin/flagged-bookings/:id/resolve
+ * Clear an expiry flag after following up with the client and worker (admin)
+ */
+router.post('/admin/flagged-bookings/:id/resolve',
+  authenticate,
+  requirePermission('nbi:review'),
+  [
+    param('id').isUUID().withMessage('Booking ID must be a valid UUID'),
+    body('notes')
+      .isString()
+      .trim()
+      .isLength({ min: 3, max: 500 })
+      .withMessage('Describe how the booking was handled (3-500 characters)')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await NbiExpiryService.resolveFlag(req.params.id, req.user.id, req.body.notes);
+      if (!result.success) {
+        return res.status(result.status || 400).json({
+          success: false,
+          error: result.message,
+          code: result.code
+        });
+      }
+
+      res.json({
+        success: true,
+        message: result.message,
+        data: { booking_id: req.params.id }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Booking flag resolve error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to resolve booking flag',
+        code: 'BOOKING_FLAG_RESOLVE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/nbi-clearances/admin/:id
+ * Submission with the worker, their earlier submissions and reuse of the number (admin)
+ */
+router.get('/admin/:id',
+  authenticate,
+  requirePermission('nbi:review'),
+  submissionIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const review = await NbiClearanceService.getForReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({
+          success: false,
+          error: 'NBI clearance submission not found',
+          code: 'NBI_SUBMISSION_NOT_FOUND'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: review
+      });
+
+    } catch (error: any) {
+      console.error('❌ NBI submission fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch NBI clearance submission',
+        code: 'NBI_SUBMISSION_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/nbi-clearances/admin/:id/approve
+ * Approve a pending clearance; the worker becomes NBI-verified (admin)
+ */
+router.post('/admin/:id/approve',
+  authenticate,
+  requirePermission('nbi:review'),
+  [
+    ...submissionIdValidation,
+    body('notes').optional().isString().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await NbiClearanceService.approve(req.params.id, req.user.id, req.body.notes);
+      sendReviewResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ NBI approve error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to approve NBI clearance',
+        code: 'NBI_APPROVE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/nbi-clearances/admin/:id/reject
+ * Reject a pending clearance with reasons shown to the worker (admin)
+ */
+router.post('/admin/:id/reject',
+  authenticate,
+  requirePermission('nbi:review'),
+  [
+    ...submissionIdValidation,
+    body('reasons')
+      .isArray({ min: 1 })
+      .withMessage('Select at least one rejection reason'),
+    body('reasons.*')
+      .isIn(NBI_REJECTION_REASONS)
+      .withMessage(`Reasons must be: ${NBI_REJECTION_REASONS.join(', ')}`),
+    body('notes').optional().isString().isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await NbiClearanceService.reject(req.params.id, req.user.id, req.body.reasons, req.body.notes);
+      sendReviewResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ NBI reject error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reject NBI clearance',
+        code: 'NBI_REJECT_ERROR'
+      });
+    }
+  }
+);
+
+export default router;
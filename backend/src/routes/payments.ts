@@ -0,0 +1,369 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Op } from 'sequelize';
+import Booking, { PAYMENT_STATUS } from '../models/Booking';
+import LedgerEntry from '../models/LedgerEntry';
+import LedgerLine from '../models/LedgerLine';
+import PaymentTransaction, { PAYMENT_PROVIDERS } from '../models/PaymentTransaction';
+import { authenticate, requirePermission } from '../middleware/auth';
+import AuthorizationService from '../services/authorization';
+import EscrowService from '../services/escrow';
+import PaymentGatewayService from '../services/paymentGateway';
+import { getPaymentSimulator, isPaymentProviderName, WebhookVerificationError } from '../services/paymentProviders';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+/**
+ * GET /api/v1/payments/bookings/:id/ledger
+ * Journal entries and reconciliation for a booking (participants and admins)
+ */
+router.get('/bookings/:id/ledger',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Booking ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await Booking.findByPk(req.params.id);
+
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          error: 'Booking not found',
+          code: 'BOOKING_NOT_FOUND'
+        });
+      }
+
+      if (!AuthorizationService.canAccess(req.user, [booking.client_id, booking.worker_id], 'payment:view_any')) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a participant in this booking',
+          code: 'BOOKING_ACCESS_DENIED'
+        });
+      }
+
+      const entries = await LedgerEntry.findAll({
+        where: { booking_id: booking.id },
+        include: [{
+          model: LedgerLine,
+          as: 'lines',
+          attributes: ['account', 'owner_id', 'debit', 'credit']
+        }],
+        order: [['created_at', 'ASC']]
+      });
+
+      const reconciliation = await EscrowService.reconcileBooking(booking);
+
+      res.json({
+        success: true,
+        data: {
+          booking_id: booking.id,
+          payment_status: booking.payment_status,
+          entries,
+          reconciliation
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Booking ledger error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch booking ledger',
+        code: 'LEDGER_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/payments/bookings/:id/checkout
+ * Client starts a GCash/PayMaya checkout to fund escrow for a booking
+ */
+router.post('/bookings/:id/checkout',
+  authenticate,
+  requirePermission('payment:checkout'),
+  [
+    param('id').isUUID().withMessage('Booking ID must be a valid UUID'),
+    body('method')
+      .isIn(PAYMENT_PROVIDERS)
+      .withMessage(`Payment method must be one of: ${PAYMENT_PROVIDERS.join(', ')}`)
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await Booking.findByPk(req.params.id);
+
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          error: 'Booking not found',
+          code: 'BOOKING_NOT_FOUND'
+        });
+      }
+
+      const result = await PaymentGatewayService.startCheckout(booking, req.body.method, req.user.id);
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({
+          success: false,
+          error: result.message,
+          code: result.code
+        });
+      }
+
+      res.status(result.status || 201).json({
+        success: true,
+        message: result.message,
+        data: {
+          payment_id: result.payment!.id,
+          provider: result.payment!.provider,
+          checkout_id: result.payment!.provider_reference,
+          checkout_url: result.payment!.checkout_url,
+          amount: Number(result.payment!.amount),
+          expires_at: result.payment!.metadata?.expires_at
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Checkout start error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start checkout',
+        code: 'CHECKOUT_START_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/payments/bookings/:id/transactions
+ * Provider checkouts and refunds for a booking (participants and admins)
+ */
+router.get('/bookings/:id/transactions',
+  authenticate,
+  [
+    param('id').isUUID().withMessage('Booking ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await Booking.findByPk(req.params.id);
+
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          error: 'Booking not found',
+          code: 'BOOKING_NOT_FOUND'
+        });
+      }
+
+      if (!AuthorizationService.canAccess(req.user, [booking.client_id, booking.worker_id], 'payment:view_any')) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a participant in this booking',
+          code: 'BOOKING_ACCESS_DENIED'
+        });
+      }
+
+      const transactions = await PaymentTransaction.findAll({
+        where: { booking_id: booking.id },
+        attributes: ['id', 'provider', 'type', 'status', 'amount', 'provider_reference', 'failure_reason', 'completed_at', 'created_at'],
+        order: [['created_at', 'ASC']]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          booking_id: booking.id,
+          payment_status: booking.payment_status,
+          transactions
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Payment transactions error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch payment transactions',
+        code: 'PAYMENT_TRANSACTIONS_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/payments/webhooks/:provider
+ * Provider callbacks (signature-verified, idempotent)
+ */
+router.post('/webhooks/:provider', async (req: Request, res: Response) => {
+  try {
+    const providerName = req.params.provider;
+    if (!isPaymentProviderName(providerName)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Unknown payment provider',
+        code: 'UNKNOWN_PAYMENT_PROVIDER'
+      });
+    }
+
+    const rawBody = (req as any).rawBody;
+    if (!rawBody) {
+      return res.status(400).json({
+        success: false,
+        error: 'Webhook body is required',
+        code: 'WEBHOOK_BODY_MISSING'
+      });
+    }
+
+    const result = await PaymentGatewayService.handleWebhook(providerName, rawBody, req.headers);
+
+    res.json({
+      success: true,
+      data: {
+        event_id: result.event.id,
+        type: result.event.type,
+        duplicate: result.duplicate
+      }
+    });
+
+  } catch (error: any) {
+    if (error instanceof WebhookVerificationError) {
+      console.warn(`⚠️ Rejected ${req.params.provider} webhook: ${error.message}`);
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        code: 'WEBHOOK_VERIFICATION_FAILED'
+      });
+    }
+
+    console.error('❌ Payment webhook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process webhook',
+      code: 'WEBHOOK_PROCESSING_ERROR'
+    });
+  }
+});
+
+/**
+ * GET /api/v1/payments/admin/reconciliation
+ * Reconcile every funded booking's ledger against calculatePayments()
+ */
+router.get('/admin/reconciliation',
+  authenticate,
+  requirePermission('payment:reconcile'),
+  [
+    query('payment_status').optional().isIn(PAYMENT_STATUS).withMessage('Invalid payment status'),
+    query('limit').optional().isInt({ min: 1, max: 500 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const whereCondition: any = { payment_status: { [Op.ne]: 'pending' } };
+      if (req.query.payment_status) whereCondition.payment_status = req.query.payment_status;
+
+      const bookings = await Booking.findAll({
+        where: whereCondition,
+        order: [['updated_at', 'DESC']],
+        limit: (req.query.limit as unknown as number) || 100
+      });
+
+      const results = [];
+      for (const booking of bookings) {
+        results.push(await EscrowService.reconcileBooking(booking));
+      }
+
+      const unreconciled = results.filter(result => !result.reconciled);
+
+      console.log(`📊 Ledger reconciliation: ${results.length - unreconciled.length}/${results.length} bookings reconciled`);
+
+      res.json({
+        success: true,
+        data: {
+          checked: results.length,
+          reconciled: results.length - unreconciled.length,
+          unreconciled: unreconciled.length,
+          discrepancies: unreconciled
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Ledger reconciliation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reconcile ledger',
+        code: 'LEDGER_RECONCILIATION_ERROR'
+      });
+    }
+  }
+);
+
+// Development endpoints
+if (process.env.NODE_ENV === 'development') {
+  // POST /api/v1/payments/dev/bookings/:id/hold - Simulate client funding escrow
+  router.post('/dev/bookings/:id/hold', async (req: Request, res: Response) => {
+    try {
+      const booking = await Booking.findByPk(req.params.id);
+      if (!booking) {
+        return res.status(404).json({ success: false, error: 'Booking not found' });
+      }
+
+      const entry = await EscrowService.holdFunds(booking, { reference: 'dev-simulated-hold' });
+
+      res.json({
+        success: true,
+        data: {
+          entry_id: entry.id,
+          payment_status: booking.payment_status,
+          balances: await EscrowService.getBookingBalances(booking.id)
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // POST /api/v1/payments/dev/checkouts/:provider/:checkoutId/simulate - Simulate the customer paying in the wallet app
+  router.post('/dev/checkouts/:provider/:checkoutId/simulate', async (req: Request, res: Response) => {
+    try {
+      const providerName = req.params.provider;
+      if (!isPaymentProviderName(providerName)) {
+        return res.status(404).json({ success: false, error: 'Unknown payment provider' });
+      }
+
+      const outcome = req.body.outcome === 'failed' ? 'failed' : 'paid';
+      const webhook = getPaymentSimulator(providerName).simulateCustomerPayment(req.params.checkoutId, outcome);
+
+      // Deliver the signed webhook through the same path the provider would use
+      const result = await PaymentGatewayService.handleWebhook(providerName, webhook.body, webhook.headers);
+
+      res.json({
+        success: true,
+        data: {
+          event: result.event,
+          duplicate: result.duplicate,
+          payment_status: result.payment?.status
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+}
+
+export default router;
@@ -0,0 +1,410 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Op } from 'sequelize';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import LedgerLine from '../models/LedgerLine';
+import PayoutBatch, { PAYOUT_BATCH_STATUS, PAYOUT_METHODS, UNSENT_PAYOUT_BATCH_STATUSES } from '../models/PayoutBatch';
+import PayoutItem from '../models/PayoutItem';
+import EarningsStatement from '../models/EarningsStatement';
+import { authenticate, requirePermission } from '../middleware/auth';
+import PayoutService, { PayoutActionResult } from '../services/payouts';
+import { toCentavos, toPesos } from '../services/escrow';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+const periodValidation = (location: typeof param | typeof body) =>
+  location('period')
+    .matches(/^\d{4}-(0[1-9]|1[0-2])$/)
+    .withMessage('Period must be in YYYY-MM format');
+
+// Batch fields safe to return (account number masked)
+const formatBatch = (batch: PayoutBatch) => ({
+  id: batch.id,
+  worker_id: batch.worker_id,
+  method: batch.method,
+  status: batch.status,
+  total_amount: Number(batch.total_amount),
+  booking_count: batch.booking_count,
+  account_number: batch.getMaskedAccountNumber(),
+  provider_reference: batch.provider_reference,
+  failure_reason: batch.failure_reason,
+  reversal_reason: batch.reversal_reason,
+  sent_at: batch.sent_at,
+  failed_at: batch.failed_at,
+  reversed_at: batch.reversed_at,
+  created_at: batch.created_at,
+  ...(batch.items && {
+    items: batch.items.map((item: PayoutItem) => ({
+      booking_id: item.booking_id,
+      amount: Number(item.amount)
+    }))
+  })
+});
+
+// Send a PayoutService result back to the client
+const sendActionResult = (res: Response, result: PayoutActionResult) => {
+  if (!result.success) {
+    return res.status(result.status || 400).json({
+      success: false,
+      error: result.message,
+      code: result.code,
+      ...(result.batch && { data: formatBatch(result.batch) })
+    });
+  }
+
+  res.json({
+    success: true,
+    message: result.message,
+    data: formatBatch(result.batch!)
+  });
+};
+
+/**
+ * GET /api/v1/payouts/mine
+ * Worker's payout batches
+ */
+router.get('/mine',
+  authenticate,
+  requirePermission('payout:view_own'),
+  async (req: Request, res: Response) => {
+    try {
+      const batches = await PayoutBatch.findAll({
+        where: { worker_id: req.user.id },
+        include: [{ model: PayoutItem, as: 'items' }],
+        order: [['created_at', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: { batches: batches.map(formatBatch) }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Worker payouts fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch your payouts',
+        code: 'WORKER_PAYOUTS_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/payouts/mine/balance
+ * Worker's unpaid, queued and paid-out earnings with the payout method that will be used
+ */
+router.get('/mine/balance',
+  authenticate,
+  requirePermission('payout:view_own'),
+  async (req: Request, res: Response) => {
+    try {
+      const [lines, queuedBatches, worker] = await Promise.all([
+        LedgerLine.findAll({
+          where: { owner_id: req.user.id, account: { [Op.in]: ['worker_payable', 'worker_disbursed'] } }
+        }),
+        PayoutBatch.findAll({ where: { worker_id: req.user.id, status: UNSENT_PAYOUT_BATCH_STATUSES } }),
+        Worker.findOne({ where: { user_id: req.user.id } })
+      ]);
+
+      const balanceOf = (account: string) => toPesos(lines
+        .filter(line => line.account === account)
+        .reduce((sum, line) => sum + toCentavos(line.credit) - toCentavos(line.debit), 0));
+
+      const queued = toPesos(queuedBatches.reduce((sum, batch) => sum + toCentavos(batch.total_amount), 0));
+      const payoutMethod = worker ? PayoutService.resolvePayoutMethod(worker, req.user as User) : null;
+
+      res.json({
+        success: true,
+        data: {
+          unpaid: balanceOf('worker_payable'),
+          queued,
+          available_for_next_payout: toPesos(toCentavos(balanceOf('worker_payable')) - toCentavos(queued)),
+          paid_out: balanceOf('worker_disbursed'),
+          payout_method: payoutMethod?.method || null,
+          ...(!payoutMethod && {
+            payout_method_issue: 'Add GCash or PayMaya to your payment methods, or verify your bank account'
+          })
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Worker payout balance error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch payout balance',
+        code: 'PAYOUT_BALANCE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/payouts/statements
+ * Worker's monthly earnings statements
+ */
+router.get('/statements',
+  authenticate,
+  requirePermission('payout:view_own'),
+  async (req: Request, res: Response) => {
+    try {
+      const statements = await EarningsStatement.findAll({
+        where: { worker_id: req.user.id },
+        order: [['period', 'DESC']]
+      });
+
+      res.json({
+        success: true,
+        data: { statements: statements.map(statement => statement.getSummary()) }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Earnings statements fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch earnings statements',
+        code: 'STATEMENTS_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/payouts/statements/:period
+ * Worker's statement for a month (YYYY-MM), regenerated from the ledger
+ */
+router.get('/statements/:period',
+  authenticate,
+  requirePermission('payout:view_own'),
+  [periodValidation(param)],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      if (req.params.period > PayoutService.getPeriod()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Statements are not available for future months',
+          code: 'STATEMENT_PERIOD_IN_FUTURE'
+        });
+      }
+
+      const statement = await PayoutService.generateStatement(req.user.id, req.params.period);
+
+      res.json({
+        success: true,
+        data: {
+          ...statement.getSummary(),
+          line_items: statement.line_items
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Earnings statement error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate earnings statement',
+        code: 'STATEMENT_GENERATION_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/payouts/admin/batches
+ * Payout batches by status/method (admin)
+ */
+router.get('/admin/batches',
+  authenticate,
+  requirePermission('payout:manage'),
+  [
+    query('status').optional().isIn(PAYOUT_BATCH_STATUS).withMessage('Invalid payout status'),
+    query('method').optional().isIn(PAYOUT_METHODS).withMessage('Invalid payout method'),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+
+      const whereCondition: any = {};
+      if (req.query.status) whereCondition.status = req.query.status;
+      if (req.query.method) whereCondition.method = req.query.method;
+
+      const { rows, count } = await PayoutBatch.findAndCountAll({
+        where: whereCondition,
+        include: [{ model: User, as: 'worker', attributes: ['id', 'first_name', 'last_name', 'phone'] }],
+        order: [['created_at', 'DESC']],
+        limit,
+        offset: (page - 1) * limit
+      });
+
+      res.json({
+        success: true,
+        data: {
+          batches: rows.map(batch => ({ ...formatBatch(batch), worker: batch.worker })),
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Payout batches fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch payout batches',
+        code: 'PAYOUT_BATCHES_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/payouts/admin/run
+ * Run the payout schedule now (admin)
+ */
+router.post('/admin/run',
+  authenticate,
+  requirePermission('payout:manage'),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await PayoutService.runScheduledPayouts();
+
+      res.json({
+        success: true,
+        message: `${result.batches.length} payout batches created`,
+        data: {
+          batches: result.batches.map(formatBatch),
+          sent: result.sent,
+          failed: result.failed,
+          skipped: result.skipped
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Payout run error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to run payouts',
+        code: 'PAYOUT_RUN_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/payouts/admin/batches/:id/send
+ * Send a queued batch; bank transfers require the transfer reference (admin)
+ */
+router.post('/admin/batches/:id/send',
+  authenticate,
+  requirePermission('payout:manage'),
+  [
+    param('id').isUUID().withMessage('Batch ID must be a valid UUID'),
+    body('reference').optional().isString().trim().isLength({ min: 3, max: 100 })
+      .withMessage('Transfer reference must be 3-100 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await PayoutService.sendBatch(req.params.id, {
+        reference: req.body.reference,
+        processedBy: req.user.id
+      });
+
+      sendActionResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Payout send error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send payout',
+        code: 'PAYOUT_SEND_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/payouts/admin/batches/:id/reverse
+ * Reverse a sent batch; earnings return to the worker's unpaid balance (admin)
+ */
+router.post('/admin/batches/:id/reverse',
+  authenticate,
+  requirePermission('payout:manage'),
+  [
+    param('id').isUUID().withMessage('Batch ID must be a valid UUID'),
+    body('reason').isString().trim().isLength({ min: 5, max: 500 })
+      .withMessage('Reversal reason must be 5-500 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await PayoutService.reverseBatch(req.params.id, req.body.reason, {
+        processedBy: req.user.id
+      });
+
+      sendActionResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Payout reversal error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reverse payout',
+        code: 'PAYOUT_REVERSE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/payouts/admin/statements/generate
+ * Generate every worker's statement for a month (admin)
+ */
+router.post('/admin/statements/generate',
+  authenticate,
+  requirePermission('payout:manage'),
+  [periodValidation(body)],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const generated = await PayoutService.generateMonthlyStatements(req.body.period);
+
+      res.json({
+        success: true,
+        message: `Generated ${generated} earnings statements for ${req.body.period}`,
+        data: { period: req.body.period, generated }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Statement generation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to generate statements',
+        code: 'STATEMENT_GENERATION_ERROR'
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,24 +1,15 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { body, param, validationResult } from 'express-validator';
-import jwt, { JwtPayload } from 'jsonwebtoken';
 import rateLimit from 'express-rate-limit';
 import User from '../models/User';
 import Worker from '../models/Worker';
 import ValidationService from '../services/validation';
 import { EmailService } from '../services/email';
+import { authenticate } from '../middleware/auth';
+import NbiClearanceService, { NBI_REJECTION_REASON_LABELS } from '../services/nbiClearance';
 
 const router = express.Router();
 
-// Extend Request interface to include user
-interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    role: string;
-    is_verified: boolean;
-  };
-}
-
 // Rate limiting for profile operations
 const profileUpdateLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -40,64 +31,6 @@ const portfolioUploadLimiter = rateLimit({
   }
 });
 
-// JWT Authentication Middleware
-const authenticateToken = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
-
-    if (!token) {
-      return res.status(401).json({
-        success: false,
-        error: 'Access token required',
-        code: 'TOKEN_REQUIRED'
-      });
-    }
-
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new Error('JWT_SECRET not configured');
-    }
-
-    const decoded = jwt.verify(token, secret) as JwtPayload;
-    
-    // Verify user still exists and is active
-    const user = await User.findByPk(decoded.id);
-    if (!user || !user.is_active) {
-      return res.status(401).json({
-        success: false,
-        error: 'User not found or inactive',
-        code: 'INVALID_USER'
-      });
-    }
-
-    req.user = {
-      id: decoded.id,
-      email: decoded.email,
-      role: decoded.role,
-      is_verified: decoded.is_verified
-    };
-
-    next();
-  } catch (error: any) {
-    console.error('🔒 Authentication error:', error);
-    
-    if (error.name === 'TokenExpiredError') {
-      return res.status(401).json({
-        success: false,
-        error: 'Token expired',
-        code: 'TOKEN_EXPIRED'
-      });
-    }
-    
-    return res.status(401).json({
-      success: false,
-      error: 'Invalid token',
-      code: 'INVALID_TOKEN'
-    });
-  }
-};
-
 // Validation helper
 const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
   const errors = validationResult(req);
@@ -235,7 +168,7 @@ const calculateProfileCompletion = (user: any, workerProfile?: any): {
  */
 router.put('/', 
   profileUpdateLimiter,
-  authenticateToken,
+  authenticate,
   [
     ...ValidationService.validatePhilippineAddress(),
     ...ValidationService.validateEmergencyContact(),
@@ -246,9 +179,9 @@ router.put('/',
       .withMessage('Profile picture must be a valid URL'),
   ],
   handleValidationErrors,
-  async (req: AuthenticatedRequest, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = req.user.id;
       const {
         first_name,
         last_name,
@@ -344,7 +277,7 @@ router.put('/',
  */
 router.put('/worker',
   profileUpdateLimiter,
-  authenticateToken,
+  authenticate,
   [
     body('hourly_rate')
       .optional()
@@ -372,9 +305,9 @@ router.put('/worker',
       .withMessage('Payment methods must be an array'),
   ],
   handleValidationErrors,
-  async (req: AuthenticatedRequest, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = req.user.id;
 
       // Verify user is a worker
       const user = await User.findByPk(userId);
@@ -465,7 +398,7 @@ router.put('/worker',
  */
 router.post('/skills',
   profileUpdateLimiter,
-  authenticateToken,
+  authenticate,
   [
     body('skills')
       .isArray({ min: 1, max: 20 })
@@ -480,9 +413,9 @@ router.post('/skills',
       .withMessage('Action must be either "replace" or "add"')
   ],
   handleValidationErrors,
-  async (req: AuthenticatedRequest, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = req.user.id;
       const { skills, action = 'replace' } = req.body;
 
       // Verify user is a worker
@@ -568,38 +501,96 @@ router.post('/skills',
   }
 );
 
+/**
+ * GET /api/v1/profile/nbi-clearance
+ * NBI clearance status and my submissions with review decisions
+ */
+router.get('/nbi-clearance',
+  authenticate,
+  async (req: Request, res: Response) => {
+    try {
+      const workerProfile = await Worker.findOne({ where: { user_id: req.user.id } });
+      if (!workerProfile) {
+        return res.status(404).json({
+          success: false,
+          error: 'Worker profile not found',
+          code: 'WORKER_PROFILE_NOT_FOUND'
+        });
+      }
+
+      const submissions = await NbiClearanceService.getHistory(workerProfile.id);
+
+      res.json({
+        success: true,
+        data: {
+          nbi_clearance: {
+            status: workerProfile.nbi_clearance_status,
+            number: workerProfile.nbi_clearance_number,
+            expires: workerProfile.nbi_clearance_expires,
+            verification_level: workerProfile.verification_level
+          },
+          pending_submission: submissions.find(submission => submission.isPending()) || null,
+          submissions: submissions.map(submission => ({
+            id: submission.id,
+            clearance_number: submission.clearance_number,
+            expires_on: submission.expires_on,
+            status: submission.status,
+            submitted_at: submission.created_at,
+            reviewed_at: submission.reviewed_at,
+            rejection_reasons: (submission.rejection_reasons || []).map(reason => ({
+              code: reason,
+              message: NBI_REJECTION_REASON_LABELS[reason]
+            })),
+            review_notes: submission.status === 'rejected' ? submission.review_notes : undefined
+          }))
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ NBI clearance fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch NBI clearance',
+        code: 'NBI_FETCH_ERROR'
+      });
+    }
+  }
+);
+
 /**
  * PUT /api/v1/profile/nbi-clearance
- * Update NBI clearance information
+ * Submit NBI clearance for admin review (number, validity date and scan)
  */
 router.put('/nbi-clearance',
   profileUpdateLimiter,
-  authenticateToken,
+  authenticate,
   [
     body('nbi_clearance_number')
-      .optional()
+      .isString()
+      .trim()
       .isLength({ min: 5, max: 100 })
       .withMessage('NBI clearance number must be 5-100 characters'),
     body('nbi_clearance_expires')
-      .optional()
-      .isISO8601()
+      .isISO8601({ strict: true })
       .withMessage('NBI clearance expiry must be a valid date (YYYY-MM-DD)')
       .custom((value: string) => {
-        if (value && new Date(value) <= new Date()) {
+        if (new Date(value) <= new Date()) {
           throw new Error('NBI clearance expiry must be in the future');
         }
         return true;
       }),
+    body('nbi_clearance_scan_url')
+      .isURL()
+      .withMessage('Upload a scan or photo of your NBI clearance'),
     body('nbi_clearance_status')
-      .optional()
-      .isIn(['pending', 'approved', 'rejected', 'expired'])
-      .withMessage('NBI status must be: pending, approved, rejected, or expired')
+      .not().exists()
+      .withMessage('NBI clearance status is set by HelpQo after review')
   ],
   handleValidationErrors,
-  async (req: AuthenticatedRequest, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
-      const { nbi_clearance_number, nbi_clearance_expires, nbi_clearance_status } = req.body;
+      const userId = req.user.id;
+      const { nbi_clearance_number, nbi_clearance_expires, nbi_clearance_scan_url } = req.body;
 
       // Verify user is a worker
       const user = await User.findByPk(userId);
@@ -611,60 +602,45 @@ router.put('/nbi-clearance',
         });
       }
 
-      // Find worker profile
-      const workerProfile = await Worker.findOne({ where: { user_id: userId } });
-      if (!workerProfile) {
-        return res.status(404).json({
+      const result = await NbiClearanceService.submit(userId, {
+        clearance_number: nbi_clearance_number,
+        expires_on: String(nbi_clearance_expires).slice(0, 10),
+        scan_url: nbi_clearance_scan_url
+      });
+
+      if (!result.success) {
+        return res.status(result.status || 400).json({
           success: false,
-          error: 'Worker profile not found',
-          code: 'WORKER_PROFILE_NOT_FOUND'
+          error: result.message,
+          code: result.code
         });
       }
 
-      // Update NBI clearance information
-      const updateData: any = {};
-      if (nbi_clearance_number !== undefined) updateData.nbi_clearance_number = nbi_clearance_number;
-      if (nbi_clearance_expires !== undefined) updateData.nbi_clearance_expires = nbi_clearance_expires;
-      if (nbi_clearance_status !== undefined) updateData.nbi_clearance_status = nbi_clearance_status;
-
-      await workerProfile.update(updateData);
-
-      // Check if worker can be auto-verified
-      const updatedWorker = await Worker.findByPk(workerProfile.id);
-      if (updatedWorker!.nbi_clearance_status === 'approved' && 
-          updatedWorker!.profile_completion_percentage >= 80) {
-        await updatedWorker!.update({ verification_level: 'verified' });
-      }
-
-      // Recalculate profile completion
-      const profileAnalysis = calculateProfileCompletion(user, updatedWorker);
-
-      console.log(`🛡️ NBI clearance updated for worker: ${user.email} - Status: ${nbi_clearance_status}`);
+      const workerProfile = await Worker.findOne({ where: { user_id: userId } });
 
-      res.json({
+      res.status(201).json({
         success: true,
-        message: 'NBI clearance information updated successfully',
+        message: result.message,
         data: {
-          nbi_clearance: {
-            status: updatedWorker!.nbi_clearance_status,
-            number: updatedWorker!.nbi_clearance_number,
-            expires: updatedWorker!.nbi_clearance_expires,
-            verification_level: updatedWorker!.verification_level
+          submission: {
+            id: result.submission!.id,
+            clearance_number: result.submission!.clearance_number,
+            expires_on: result.submission!.expires_on,
+            status: result.submission!.status,
+            submitted_at: result.submission!.created_at
           },
-          profile_completion: profileAnalysis,
-          compliance_status: {
-            nbi_compliant: updatedWorker!.nbi_clearance_status === 'approved',
-            can_accept_premium_jobs: updatedWorker!.nbi_clearance_status === 'approved' && profileAnalysis.percentage >= 80,
-            verification_level: updatedWorker!.verification_level
+          nbi_clearance: {
+            status: workerProfile!.nbi_clearance_status,
+            verification_level: workerProfile!.verification_level
           }
         }
       });
 
     } catch (error: any) {
-      console.error('❌ NBI clearance update error:', error);
+      console.error('❌ NBI clearance submit error:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to update NBI clearance',
+        error: 'Failed to submit NBI clearance',
         code: 'NBI_UPDATE_ERROR'
       });
     }
@@ -676,10 +652,10 @@ router.put('/nbi-clearance',
  * Get detailed profile completion analytics
  */
 router.get('/completion',
-  authenticateToken,
-  async (req: AuthenticatedRequest, res: Response) => {
+  authenticate,
+  async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = req.user.id;
 
       // Get user with worker profile
       const user = await User.findByPk(userId, {
@@ -807,7 +783,7 @@ router.get('/completion',
  */
 router.post('/portfolio',
   portfolioUploadLimiter,
-  authenticateToken,
+  authenticate,
   [
     body('images')
       .isArray({ min: 1, max: 10 })
@@ -821,9 +797,9 @@ router.post('/portfolio',
       .withMessage('Action must be either "replace" or "add"')
   ],
   handleValidationErrors,
-  async (req: AuthenticatedRequest, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = req.user.id;
       const { images, action = 'add' } = req.body;
 
       // Verify user is a worker
@@ -908,7 +884,7 @@ router.post('/portfolio',
  */
 router.put('/availability',
   profileUpdateLimiter,
-  authenticateToken,
+  authenticate,
   [
     body('is_available')
       .isBoolean()
@@ -923,9 +899,9 @@ router.put('/availability',
       .withMessage('Availability note must be less than 500 characters')
   ],
   handleValidationErrors,
-  async (req: AuthenticatedRequest, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = req.user.id;
       const { is_available, availability_schedule, availability_note } = req.body;
 
       // Verify user is a worker
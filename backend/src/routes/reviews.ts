@@ -0,0 +1,1010 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import Booking from '../models/Booking';
+import User from '../models/User';
+import Review, { REVIEW_DIRECTIONS, ReviewDirection } from '../models/Review';
+import ReviewVote, { REVIEW_VOTE_TYPES } from '../models/ReviewVote';
+import { authenticate, requirePermission } from '../middleware/auth';
+import ReviewService, { ReviewResult } from '../services/reviews';
+import RatingService from '../services/ratings';
+import ReviewModerationService from '../services/reviewModeration';
+import ReviewScreeningService, { ScreeningRuleResult } from '../services/reviewScreening';
+import NotificationService from '../services/notifications';
+import {
+  SCREENING_ACTIONS,
+  SCREENING_CATEGORIES,
+  SCREENING_LANGUAGES,
+  SCREENING_MATCH_TYPES
+} from '../models/ReviewScreeningRule';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+const reviewIdValidation = [
+  param('id').isUUID().withMessage('Review ID must be a valid UUID')
+];
+
+const reviewerAttributes = ['id', 'first_name', 'last_name', 'profile_picture'];
+
+// Send a ReviewService result back to the client
+const sendReviewResult = (res: Response, result: ReviewResult) => {
+  if (!result.success) {
+    return res.status(result.status || 400).json({
+      success: false,
+      error: result.message,
+      code: result.code
+    });
+  }
+
+  res.status(result.status || 200).json({
+    success: true,
+    message: result.message,
+    data: {
+      ...result.review!.getPublicInfo(),
+      is_published: !result.review!.isBlind(),
+      blind_until: result.review!.blind_until
+    }
+  });
+};
+
+// Review as moderators see it
+const buildModerationView = (review: Review) => ({
+  ...review.getPublicInfo(),
+  booking_id: review.booking_id,
+  reviewer_id: review.reviewer_id,
+  reviewee_id: review.reviewee_id,
+  is_public: review.is_public,
+  is_flagged: review.is_flagged,
+  hidden_at: review.hidden_at,
+  moderation_assigned_to: review.moderation_assigned_to,
+  moderation_assigned_at: review.moderation_assigned_at,
+  screening_result: review.screening_result
+});
+
+// Send a ReviewModerationService result back to the admin
+const sendModerationResult = (res: Response, result: ReviewResult) => {
+  if (!result.success) {
+    return res.status(result.status || 400).json({
+      success: false,
+      error: result.message,
+      code: result.code
+    });
+  }
+
+  res.json({
+    success: true,
+    message: result.message,
+    data: buildModerationView(result.review!)
+  });
+};
+
+// Send a ReviewScreeningService rule result back to the admin
+const sendScreeningRuleResult = (res: Response, result: ScreeningRuleResult) => {
+  if (!result.success) {
+    return res.status(result.status || 400).json({
+      success: false,
+      error: result.message,
+      code: result.code
+    });
+  }
+
+  res.status(result.status || 200).json({
+    success: true,
+    message: result.message,
+    data: result.rule
+  });
+};
+
+const ruleIdValidation = [
+  param('ruleId').isUUID().withMessage('Rule ID must be a valid UUID')
+];
+
+const reasonValidation = (required: boolean) => [
+  (required ? body('reason') : body('reason').optional())
+    .isString()
+    .trim()
+    .isLength({ min: 5, max: 1000 })
+    .withMessage('Please give a reason in 5-1000 characters')
+];
+
+/**
+ * POST /api/v1/reviews
+ * Client or worker reviews the other party on an approved/paid booking
+ */
+router.post('/',
+  authenticate,
+  [
+    body('booking_id').isUUID().withMessage('Booking ID must be a valid UUID'),
+    body('overall_rating')
+      .isInt({ min: 1, max: 5 })
+      .toInt()
+      .withMessage('Rating must be between 1 and 5 stars'),
+    body('category_ratings')
+      .optional()
+      .isObject()
+      .withMessage('Category ratings must be an object'),
+    body('category_ratings.*')
+      .isInt({ min: 1, max: 5 })
+      .toInt()
+      .withMessage('Category ratings must be between 1 and 5'),
+    body('review_title')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage('Review title cannot exceed 200 characters'),
+    body('review_text')
+      .isString()
+      .trim()
+      .isLength({ min: 10, max: 2000 })
+      .withMessage('Review text must be between 10 and 2000 characters'),
+    body('review_photos')
+      .optional()
+      .isArray({ max: 5 })
+      .withMessage('Maximum 5 review photos allowed'),
+    body('review_photos.*')
+      .isURL()
+      .withMessage('Each photo must be a valid URL')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewService.submitReview(req.body.booking_id, req.user.id, {
+        overall_rating: req.body.overall_rating,
+        category_ratings: req.body.category_ratings,
+        review_title: req.body.review_title,
+        review_text: req.body.review_text,
+        review_photos: req.body.review_photos
+      });
+
+      if (result.success && result.review) {
+        NotificationService.reviewReceived(result.review);
+      }
+
+      sendReviewResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review submit error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to submit review',
+        code: 'REVIEW_SUBMIT_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/reviews/search
+ * Search published reviews by text
+ */
+router.get('/search',
+  [
+    query('q')
+      .isString()
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Search term must be 2-100 characters'),
+    query('rating').optional().isInt({ min: 1, max: 5 }).toInt(),
+    query('verified_only').optional().isBoolean().toBoolean(),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const reviews = await Review.searchReviews(req.query.q as string, {
+        rating: req.query.rating as unknown as number,
+        verified_only: req.query.verified_only as unknown as boolean,
+        limit: req.query.limit as unknown as number
+      });
+
+      res.json({
+        success: true,
+        data: {
+          reviews: reviews.map(review => review.getPublicInfo())
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Review search error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to search reviews',
+        code: 'REVIEW_SEARCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/reviews/booking/:bookingId
+ * Both reviews on a booking as the caller may see them (counterpart only once published)
+ */
+router.get('/booking/:bookingId',
+  authenticate,
+  [
+    param('bookingId').isUUID().withMessage('Booking ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const booking = await Booking.findByPk(req.params.bookingId);
+
+      if (!booking) {
+        return res.status(404).json({
+          success: false,
+          error: 'Booking not found',
+          code: 'BOOKING_NOT_FOUND'
+        });
+      }
+
+      const direction = ReviewService.getReviewDirection(booking, req.user.id);
+      if (!direction) {
+        return res.status(403).json({
+          success: false,
+          error: 'You are not a participant in this booking',
+          code: 'BOOKING_ACCESS_DENIED'
+        });
+      }
+
+      const reviews = await Review.findAll({ where: { booking_id: booking.id } });
+      const mine = reviews.find(review => review.review_direction === direction);
+      const theirs = reviews.find(review => review.review_direction !== direction);
+
+      res.json({
+        success: true,
+        data: {
+          my_review: mine
+            ? { ...mine.getPublicInfo(), is_published: !mine.isBlind(), blind_until: mine.blind_until }
+            : null,
+          // Double-blind: only say whether the other party has reviewed until it is published
+          their_review: theirs && !theirs.isBlind() ? theirs.getPublicInfo() : null,
+          their_review_submitted: !!theirs
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Booking reviews fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch booking reviews',
+        code: 'BOOKING_REVIEWS_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/reviews/users/:userId
+ * Published reviews a user received, with rating summary
+ */
+router.get('/users/:userId',
+  [
+    param('userId').isUUID().withMessage('User ID must be a valid UUID'),
+    query('direction')
+      .optional()
+      .isIn(REVIEW_DIRECTIONS)
+      .withMessage(`Direction must be one of: ${REVIEW_DIRECTIONS.join(', ')}`),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const user = await User.findByPk(req.params.userId);
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      const direction = (req.query.direction as ReviewDirection)
+        || (user.role === 'worker' ? 'client_to_worker' : 'worker_to_client');
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+
+      const [{ rows, count }, rating] = await Promise.all([
+        Review.findAndCountAll({
+          where: { reviewee_id: user.id, review_direction: direction, is_public: true },
+          include: [{ model: User, as: 'reviewer', attributes: reviewerAttributes }],
+          order: [['published_at', 'DESC']],
+          limit,
+          offset: (page - 1) * limit
+        }),
+        RatingService.getRatingSummary(user.id, direction)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          direction,
+          rating,
+          reviews: rows.map(review => ({
+            ...review.getPublicInfo(),
+            reviewer: review.reviewer
+          })),
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ User reviews fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch reviews',
+        code: 'USER_REVIEWS_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/:id/response
+ * Reviewee responds once to a published review
+ */
+router.post('/:id/response',
+  authenticate,
+  [
+    ...reviewIdValidation,
+    body('response_text')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 1000 })
+      .withMessage('Response must be between 1 and 1000 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewService.respond(req.params.id, req.user.id, req.body.response_text);
+      sendReviewResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review response error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to respond to review',
+        code: 'REVIEW_RESPONSE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/:id/vote
+ * Vote a published review helpful or unhelpful (one vote per user, can be switched)
+ */
+router.post('/:id/vote',
+  authenticate,
+  [
+    ...reviewIdValidation,
+    body('vote')
+      .isIn(REVIEW_VOTE_TYPES)
+      .withMessage(`Vote must be one of: ${REVIEW_VOTE_TYPES.join(', ')}`)
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewService.vote(req.params.id, req.user.id, req.body.vote);
+      sendReviewResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review vote error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to record vote',
+        code: 'REVIEW_VOTE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/reviews/:id/vote
+ * Withdraw the caller's vote
+ */
+router.delete('/:id/vote',
+  authenticate,
+  reviewIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewService.vote(req.params.id, req.user.id, null);
+      sendReviewResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review vote removal error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove vote',
+        code: 'REVIEW_VOTE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/reviews/:id/vote
+ * The caller's current vote on a review
+ */
+router.get('/:id/vote',
+  authenticate,
+  reviewIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const vote = await ReviewVote.findOne({
+        where: { review_id: req.params.id, user_id: req.user.id }
+      });
+
+      res.json({
+        success: true,
+        data: { vote: vote ? vote.vote : null }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Review vote fetch error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch vote',
+        code: 'REVIEW_VOTE_FETCH_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/:id/report
+ * Report a review for moderation
+ */
+router.post('/:id/report',
+  authenticate,
+  [
+    ...reviewIdValidation,
+    body('reason')
+      .isString()
+      .trim()
+      .isLength({ min: 5, max: 500 })
+      .withMessage('Please give a reason in 5-500 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewService.report(req.params.id, req.user.id, req.body.reason);
+
+      if (!result.success) {
+        return sendReviewResult(res, result);
+      }
+
+      res.json({
+        success: true,
+        message: result.message
+      });
+
+    } catch (error: any) {
+      console.error('❌ Review report error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to report review',
+        code: 'REVIEW_REPORT_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/reviews/admin/queue
+ * Moderation queue with filters (admin)
+ */
+router.get('/admin/queue',
+  authenticate,
+  requirePermission('review:moderate'),
+  [
+    query('status').optional().isIn(['flagged', 'hidden', 'all']).withMessage('status must be flagged, hidden or all'),
+    query('assigned').optional().isIn(['me', 'unassigned', 'any']).withMessage('assigned must be me, unassigned or any'),
+    query('direction')
+      .optional()
+      .isIn(REVIEW_DIRECTIONS)
+      .withMessage(`Direction must be one of: ${REVIEW_DIRECTIONS.join(', ')}`),
+    query('rating').optional().isInt({ min: 1, max: 5 }).toInt(),
+    query('q').optional().isString().trim().isLength({ max: 100 }),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 20;
+      const assigned = req.query.assigned as string | undefined;
+
+      const { rows, count } = await ReviewModerationService.getQueue({
+        status: req.query.status as any,
+        assigned_to: assigned === 'me' ? req.user.id : assigned === 'unassigned' ? 'unassigned' : undefined,
+        direction: req.query.direction as ReviewDirection,
+        rating: req.query.rating as unknown as number,
+        search: req.query.q as string
+      }, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          reviews: rows.map(review => ({
+            ...buildModerationView(review),
+            reviewer: review.reviewer,
+            reviewee: review.reviewee,
+            moderator: review.moderator
+          })),
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Moderation queue error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch moderation queue',
+        code: 'MODERATION_QUEUE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/reviews/admin/screening-rules
+ * Screening rules, built-in and moderator-added (admin)
+ */
+router.get('/admin/screening-rules',
+  authenticate,
+  requirePermission('review:manage_rules'),
+  async (req: Request, res: Response) => {
+    try {
+      const rules = await ReviewScreeningService.listRules();
+
+      res.json({
+        success: true,
+        data: {
+          rules,
+          categories: SCREENING_CATEGORIES,
+          languages: SCREENING_LANGUAGES,
+          actions: SCREENING_ACTIONS
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Screening rules error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch screening rules',
+        code: 'SCREENING_RULES_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/screening-rules
+ * Add a keyword or regex screening rule (admin)
+ */
+router.post('/admin/screening-rules',
+  authenticate,
+  requirePermission('review:manage_rules'),
+  [
+    body('name').isString().trim().isLength({ min: 3, max: 100 }).withMessage('Rule name must be 3-100 characters'),
+    body('category')
+      .isIn(SCREENING_CATEGORIES)
+      .withMessage(`Category must be one of: ${SCREENING_CATEGORIES.join(', ')}`),
+    body('language')
+      .optional()
+      .isIn(SCREENING_LANGUAGES)
+      .withMessage(`Language must be one of: ${SCREENING_LANGUAGES.join(', ')}`),
+    body('match_type')
+      .isIn(SCREENING_MATCH_TYPES)
+      .withMessage(`Match type must be one of: ${SCREENING_MATCH_TYPES.join(', ')}`),
+    body('pattern').isString().trim().isLength({ min: 2, max: 300 }).withMessage('Pattern must be 2-300 characters'),
+    body('action')
+      .optional()
+      .isIn(SCREENING_ACTIONS)
+      .withMessage(`Action must be one of: ${SCREENING_ACTIONS.join(', ')}`)
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewScreeningService.createRule({
+        name: req.body.name,
+        category: req.body.category,
+        language: req.body.language,
+        match_type: req.body.match_type,
+        pattern: req.body.pattern,
+        action: req.body.action
+      }, req.user.id);
+
+      sendScreeningRuleResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Screening rule creation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create screening rule',
+        code: 'SCREENING_RULE_CREATE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/screening-rules/:ruleId/activate
+ * Turn a screening rule on (admin)
+ */
+router.post('/admin/screening-rules/:ruleId/activate',
+  authenticate,
+  requirePermission('review:manage_rules'),
+  ruleIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewScreeningService.setRuleActive(req.params.ruleId, true);
+      sendScreeningRuleResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Screening rule activation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to activate screening rule',
+        code: 'SCREENING_RULE_UPDATE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/screening-rules/:ruleId/deactivate
+ * Turn a screening rule off (admin)
+ */
+router.post('/admin/screening-rules/:ruleId/deactivate',
+  authenticate,
+  requirePermission('review:manage_rules'),
+  ruleIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewScreeningService.setRuleActive(req.params.ruleId, false);
+      sendScreeningRuleResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Screening rule deactivation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate screening rule',
+        code: 'SCREENING_RULE_UPDATE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/screening/test
+ * Preview how the active rules treat sample text (admin)
+ */
+router.post('/admin/screening/test',
+  authenticate,
+  requirePermission('review:manage_rules'),
+  [
+    body('text').isString().isLength({ min: 1, max: 2000 }).withMessage('Text must be 1-2000 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const preview = await ReviewScreeningService.previewText(req.body.text);
+
+      res.json({
+        success: true,
+        data: preview
+      });
+
+    } catch (error: any) {
+      console.error('❌ Screening preview error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to preview screening',
+        code: 'SCREENING_PREVIEW_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/reviews/admin/:id
+ * Review with full moderation history (admin)
+ */
+router.get('/admin/:id',
+  authenticate,
+  requirePermission('review:moderate'),
+  reviewIdValidation,
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const review = await Review.findByPk(req.params.id);
+
+      if (!review) {
+        return res.status(404).json({
+          success: false,
+          error: 'Review not found',
+          code: 'REVIEW_NOT_FOUND'
+        });
+      }
+
+      const history = await ReviewModerationService.getHistory(review.id);
+
+      res.json({
+        success: true,
+        data: {
+          ...buildModerationView(review),
+          moderation_history: history
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ Moderation detail error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch review',
+        code: 'MODERATION_DETAIL_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/:id/claim
+ * Take a review from the queue; force takes it over from another moderator (admin)
+ */
+router.post('/admin/:id/claim',
+  authenticate,
+  requirePermission('review:moderate'),
+  [
+    ...reviewIdValidation,
+    body('force').optional().isBoolean().toBoolean()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewModerationService.claim(req.params.id, req.user.id, !!req.body.force);
+      sendModerationResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review claim error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to claim review',
+        code: 'REVIEW_CLAIM_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/:id/assign
+ * Assign a review to a moderator (admin)
+ */
+router.post('/admin/:id/assign',
+  authenticate,
+  requirePermission('review:moderate'),
+  [
+    ...reviewIdValidation,
+    body('admin_id').isUUID().withMessage('Admin ID must be a valid UUID')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewModerationService.assign(req.params.id, req.user.id, req.body.admin_id);
+      sendModerationResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review assign error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to assign review',
+        code: 'REVIEW_ASSIGN_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/:id/hide
+ * Remove a review from public view (admin)
+ */
+router.post('/admin/:id/hide',
+  authenticate,
+  requirePermission('review:moderate'),
+  [...reviewIdValidation, ...reasonValidation(true)],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewModerationService.hide(req.params.id, req.user.id, req.body.reason);
+      sendModerationResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review hide error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to hide review',
+        code: 'REVIEW_HIDE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/:id/restore
+ * Make a hidden review visible again (admin)
+ */
+router.post('/admin/:id/restore',
+  authenticate,
+  requirePermission('review:moderate'),
+  [...reviewIdValidation, ...reasonValidation(true)],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewModerationService.restore(req.params.id, req.user.id, req.body.reason);
+      sendModerationResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review restore error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to restore review',
+        code: 'REVIEW_RESTORE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/:id/redact
+ * Mask phrases in the review title, text and response (admin)
+ */
+router.post('/admin/:id/redact',
+  authenticate,
+  requirePermission('review:moderate'),
+  [
+    ...reviewIdValidation,
+    ...reasonValidation(true),
+    body('phrases')
+      .isArray({ min: 1, max: 20 })
+      .withMessage('Provide 1-20 phrases to redact'),
+    body('phrases.*')
+      .isString()
+      .trim()
+      .isLength({ min: 2, max: 200 })
+      .withMessage('Each phrase must be 2-200 characters')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewModerationService.redact(req.params.id, req.user.id, req.body.phrases, req.body.reason);
+      sendModerationResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review redact error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to redact review',
+        code: 'REVIEW_REDACT_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/:id/photos/remove
+ * Remove listed photos, or all photos when none are listed (admin)
+ */
+router.post('/admin/:id/photos/remove',
+  authenticate,
+  requirePermission('review:moderate'),
+  [
+    ...reviewIdValidation,
+    ...reasonValidation(true),
+    body('photo_urls')
+      .optional()
+      .isArray({ min: 1, max: 5 })
+      .withMessage('Provide 1-5 photo URLs'),
+    body('photo_urls.*')
+      .isURL()
+      .withMessage('Each photo must be a valid URL')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewModerationService.removePhotos(req.params.id, req.user.id, req.body.reason, req.body.photo_urls);
+      sendModerationResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review photo removal error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove photos',
+        code: 'REVIEW_PHOTOS_REMOVE_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/:id/verify
+ * Mark a review as verified (admin)
+ */
+router.post('/admin/:id/verify',
+  authenticate,
+  requirePermission('review:moderate'),
+  [...reviewIdValidation, ...reasonValidation(false)],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewModerationService.verify(req.params.id, req.user.id, req.body.reason);
+      sendModerationResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review verify error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify review',
+        code: 'REVIEW_VERIFY_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/reviews/admin/:id/dismiss
+ * Clear a flag without changing the review (admin)
+ */
+router.post('/admin/:id/dismiss',
+  authenticate,
+  requirePermission('review:moderate'),
+  [...reviewIdValidation, ...reasonValidation(true)],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await ReviewModerationService.dismiss(req.params.id, req.user.id, req.body.reason);
+      sendModerationResult(res, result);
+
+    } catch (error: any) {
+      console.error('❌ Review dismiss error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to dismiss flag',
+        code: 'REVIEW_DISMISS_ERROR'
+      });
+    }
+  }
+);
+
+export default router;
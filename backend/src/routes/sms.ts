@@ -0,0 +1,222 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { SMS_PURPOSES, SMS_STATUS } from '../models/SmsMessage';
+import { authenticate, requirePermission } from '../middleware/auth';
+import SmsService from '../services/sms';
+import {
+  SmsReceiptVerificationError,
+  getCarrier,
+  getFakeSmsProvider,
+  getSmsProvider,
+  isSmsProviderName
+} from '../services/smsProviders';
+
+const router = express.Router();
+
+// Validation helper
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+      code: 'VALIDATION_ERROR'
+    });
+  }
+  next();
+};
+
+/**
+ * POST /api/v1/sms/receipts/:provider
+ * Delivery receipt callbacks (signature-verified where the provider signs them)
+ */
+router.post('/receipts/:provider', async (req: Request, res: Response) => {
+  try {
+    const providerName = req.params.provider;
+    if (!isSmsProviderName(providerName) || !getSmsProvider(providerName).isConfigured()) {
+      return res.status(404).json({
+        success: false,
+        error: 'Unknown SMS provider',
+        code: 'UNKNOWN_SMS_PROVIDER'
+      });
+    }
+
+    const message = await SmsService.handleReceipt(providerName, {
+      headers: req.headers,
+      body: req.body,
+      url: req.originalUrl
+    });
+
+    // Acknowledge unknown messages too, so providers stop retrying
+    res.json({
+      success: true,
+      data: {
+        message_id: message?.id || null,
+        status: message?.status || null
+      }
+    });
+
+  } catch (error: any) {
+    if (error instanceof SmsReceiptVerificationError) {
+      console.warn(`⚠️ Rejected ${req.params.provider} SMS receipt: ${error.message}`);
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+        code: 'SMS_RECEIPT_VERIFICATION_FAILED'
+      });
+    }
+
+    console.error('❌ SMS receipt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process delivery receipt',
+      code: 'SMS_RECEIPT_PROCESSING_ERROR'
+    });
+  }
+});
+
+/**
+ * GET /api/v1/sms/admin/messages
+ * Outgoing SMS log with delivery status and provider attempts (admin)
+ */
+router.get('/admin/messages',
+  authenticate,
+  requirePermission('sms:view'),
+  [
+    query('to').optional().matches(/^\+639\d{9}$/).withMessage('Number must be in +639XXXXXXXXX format'),
+    query('status').optional().isIn(SMS_STATUS).withMessage('Invalid SMS status'),
+    query('purpose').optional().isIn(SMS_PURPOSES).withMessage('Invalid SMS purpose'),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const page = (req.query.page as unknown as number) || 1;
+      const limit = (req.query.limit as unknown as number) || 50;
+
+      const { rows, count } = await SmsService.listMessages({
+        to: req.query.to as string | undefined,
+        status: req.query.status as any,
+        purpose: req.query.purpose as any
+      }, page, limit);
+
+      res.json({
+        success: true,
+        data: {
+          messages: rows,
+          pagination: {
+            page,
+            limit,
+            total: count,
+            total_pages: Math.ceil(count / limit)
+          }
+        }
+      });
+
+    } catch (error: any) {
+      console.error('❌ SMS log error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch SMS messages',
+        code: 'SMS_LOG_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/sms/admin/costs
+ * Message counts, delivery and cost per provider and network (admin, default: last 30 days)
+ */
+router.get('/admin/costs',
+  authenticate,
+  requirePermission('sms:view'),
+  [
+    query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+    query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date')
+  ],
+  handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const to = req.query.to ? new Date(req.query.to as string) : new Date();
+      const from = req.query.from
+        ? new Date(req.query.from as string)
+        : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      const summary = await SmsService.getCostSummary(from, to);
+
+      res.json({
+        success: true,
+        data: summary
+      });
+
+    } catch (error: any) {
+      console.error('❌ SMS cost summary error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to summarize SMS costs',
+        code: 'SMS_COST_SUMMARY_ERROR'
+      });
+    }
+  }
+);
+
+// Development endpoints
+if (process.env.NODE_ENV === 'development') {
+  // GET /api/v1/sms/dev/outbox - Messages "sent" through the fake provider
+  router.get('/dev/outbox',
+    [
+      query('to').optional().isString(),
+      query('limit').optional().isInt({ min: 1, max: 200 }).toInt()
+    ],
+    handleValidationErrors,
+    async (req: Request, res: Response) => {
+      try {
+        const messages = await getFakeSmsProvider().readOutbox(
+          req.query.to as string | undefined,
+          (req.query.limit as unknown as number) || 20
+        );
+
+        res.json({
+          success: true,
+          data: { messages }
+        });
+
+      } catch (error: any) {
+        console.error('❌ Fake SMS outbox error:', error);
+        res.status(500).json({ success: false, error: 'Failed to read SMS outbox' });
+      }
+    }
+  );
+
+  // DELETE /api/v1/sms/dev/outbox - Empty the fake provider's outbox
+  router.delete('/dev/outbox', async (req: Request, res: Response) => {
+    try {
+      await getFakeSmsProvider().clearOutbox();
+      res.json({ success: true, message: 'SMS outbox cleared' });
+
+    } catch (error: any) {
+      console.error('❌ Fake SMS outbox error:', error);
+      res.status(500).json({ success: false, error: 'Failed to clear SMS outbox' });
+    }
+  });
+
+  // GET /api/v1/sms/dev/route/:number - Providers that would be tried for a number
+  router.get('/dev/route/:number',
+    [
+      param('number').matches(/^\+639\d{9}$/).withMessage('Number must be in +639XXXXXXXXX format')
+    ],
+    handleValidationErrors,
+    (req: Request, res: Response) => {
+      const carrier = getCarrier(req.params.number);
+      res.json({
+        success: true,
+        data: { carrier, route: SmsService.getRoute(carrier) }
+      });
+    }
+  );
+}
+
+export default router;
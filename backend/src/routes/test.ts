@@ -3,6 +3,7 @@ import { User, Worker, Job, Booking, Review, syncDatabase } from '../models';
 import { Op } from 'sequelize';
 import { Request, Response } from 'express'; // Add this line
 import ValidationService from '../services/validation'; // Add this line
+import RatingService from '../services/ratings';
 
 const router = express.Router();
 
@@ -136,8 +137,9 @@ router.post('/worker', async (req, res) => {
     const canServeManila = worker.canServeLocation('Manila');
     const canServeTagaytay = worker.canServeLocation('Tagaytay');
     
-    // Test rating update
-    await worker.updateRating(4.8, true);
+    // Test rating recomputation from the review store
+    await RatingService.recomputeWorkerRating(worker.user_id);
+    await worker.reload();
 
     res.status(200).json({
       status: 'success',
@@ -398,8 +400,8 @@ router.post('/booking', async (req, res) => {
     const publicInfo = booking.getPublicInfo();
 
     // Test status update
-    await booking.updateStatus('accepted', 'Client approved the application');
-    await booking.updateStatus('confirmed', 'Work schedule confirmed');
+    await booking.updateStatus('accepted', 'client', 'Client approved the application');
+    await booking.updateStatus('confirmed', 'client', 'Work schedule confirmed');
 
     res.status(200).json({
       status: 'success',
@@ -488,7 +490,7 @@ router.post('/workflow', async (req, res) => {
     });
 
     // Step 2: Client accepts
-    await workflowBooking.updateStatus('accepted', 'Client accepted the application');
+    await workflowBooking.updateStatus('accepted', 'client', 'Client accepted the application');
     workflowSteps.push({
       step: 2,
       action: 'Application accepted',
@@ -499,7 +501,7 @@ router.post('/workflow', async (req, res) => {
     // Step 3: Schedule confirmed
     workflowBooking.scheduled_start = new Date(Date.now() + 2 * 60 * 60 * 1000); // 2 hours from now
     workflowBooking.scheduled_end = new Date(Date.now() + 7 * 60 * 60 * 1000); // 7 hours from now
-    await workflowBooking.updateStatus('confirmed', 'Work schedule confirmed');
+    await workflowBooking.updateStatus('confirmed', 'client', 'Work schedule confirmed');
     workflowSteps.push({
       step: 3,
       action: 'Schedule confirmed',
@@ -507,8 +509,9 @@ router.post('/workflow', async (req, res) => {
       scheduledStart: workflowBooking.scheduled_start
     });
 
-    // Step 4: Work started
-    await workflowBooking.updateStatus('in_progress', 'Worker started the job');
+    // Step 4: Work started (payment must be held in escrow first)
+    workflowBooking.payment_status = 'held';
+    await workflowBooking.updateStatus('in_progress', 'worker', 'Worker started the job');
     workflowSteps.push({
       step: 4,
       action: 'Work started',
@@ -522,7 +525,7 @@ router.post('/workflow', async (req, res) => {
       'https://example.com/after.jpg'
     ];
     workflowBooking.worker_notes = 'Completed all cleaning tasks. Kitchen and bathrooms are spotless!';
-    await workflowBooking.updateStatus('completed', 'Worker completed all tasks');
+    await workflowBooking.updateStatus('completed', 'worker', 'Worker completed all tasks');
     workflowSteps.push({
       step: 5,
       action: 'Work completed',
@@ -534,7 +537,7 @@ router.post('/workflow', async (req, res) => {
     // Step 6: Client approval
     workflowBooking.client_satisfaction = 5;
     workflowBooking.final_amount = 1200.00;
-    await workflowBooking.updateStatus('approved', 'Client approved the completed work');
+    await workflowBooking.updateStatus('approved', 'client', 'Client approved the completed work');
     workflowSteps.push({
       step: 6,
       action: 'Work approved',
@@ -545,7 +548,7 @@ router.post('/workflow', async (req, res) => {
 
     // Step 7: Payment processed
     workflowBooking.payment_status = 'released';
-    await workflowBooking.updateStatus('paid', 'Payment released to worker');
+    await workflowBooking.updateStatus('paid', 'system', 'Payment released to worker');
     workflowSteps.push({
       step: 7,
       action: 'Payment completed',
@@ -640,7 +643,7 @@ const review = await Review.create({
 
     // Test your sophisticated methods
     const reviewSummary = review.getReviewSummary();
-    const userRating = await Review.calculateUserRating(testUser2.id);
+    const userRating = await RatingService.getRatingSummary(testUser2.id);
     const platformStats = await Review.getPlatformStats();
     
     // Test associations
@@ -649,7 +652,7 @@ const review = await Review.create({
     });
 
     // Test instance methods
-    await review.markHelpful();
+    await review.markHelpful(testUser1.id);
     await review.addResponse('Thank you for the great review! Happy to work with you again.');
 
     console.log('📊 Review testing results:');
@@ -745,7 +748,7 @@ router.get('/reviews', async (req, res) => {
 
     // Test user-specific queries
     const testUser = await User.findOne({ where: { email: 'worker@helpqo.com' } });
-    const userRating = testUser ? await Review.calculateUserRating(testUser.id) : null;
+    const userRating = testUser ? await RatingService.getRatingSummary(testUser.id) : null;
 
     console.log('📊 Review query test results:');
     console.log(`   Total Reviews: ${totalReviews}`);
@@ -0,0 +1,267 @@
+import express, { Request, Response } from 'express';
+import { body } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import ValidationService from '../services/validation';
+import TwoFactorService, { TwoFactorResult } from '../services/twoFactor';
+import TokenService from '../services/tokens';
+import SessionService from '../services/sessions';
+import { authenticate, authenticateTwoFactorSetup } from '../middleware/auth';
+import { TWO_FACTOR_METHODS, TwoFactorMethod } from '../models/User';
+
+const router = express.Router();
+
+// Rate limiting for second-factor codes
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // 20 code submissions per IP
+  message: {
+    error: 'Too many two-factor attempts. Please try again in 15 minutes.',
+    code: 'RATE_LIMIT_EXCEEDED'
+  }
+});
+
+// 6-digit code, or a recovery code where allowed
+const codeValidation = (allowRecovery: boolean) =>
+  body('code')
+    .trim()
+    .matches(allowRecovery ? /^(\d{6}|[0-9a-fA-F]{4}-?[0-9a-fA-F]{4})$/ : /^\d{6}$/)
+    .withMessage(allowRecovery ? 'Enter the 6-digit code or a recovery code' : 'Enter the 6-digit code');
+
+// Send a TwoFactorService result back to the client
+const sendTwoFactorResult = (res: Response, result: TwoFactorResult) => {
+  if (!result.success) {
+    return res.status(result.status || 400).json({
+      success: false,
+      error: result.message,
+      code: result.code
+    });
+  }
+
+  res.status(result.status || 200).json({
+    success: true,
+    message: result.message,
+    data: result.data,
+    code: result.code
+  });
+};
+
+/**
+ * GET /api/v1/auth/2fa/status
+ * Current 2FA settings and whether they are required
+ */
+router.get('/status', authenticateTwoFactorSetup, async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await TwoFactorService.getStatus(req.user),
+      code: 'TWO_FACTOR_STATUS'
+    });
+
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch two-factor status',
+      code: 'TWO_FACTOR_ERROR'
+    });
+  }
+});
+
+/**
+ * POST /api/v1/auth/2fa/:method/setup
+ * Start enrolling an authenticator app (totp) or SMS codes (sms)
+ */
+router.post('/:method/setup',
+  authenticateTwoFactorSetup,
+  async (req: Request, res: Response) => {
+    try {
+      const method = req.params.method as TwoFactorMethod;
+      if (!TWO_FACTOR_METHODS.includes(method)) {
+        return res.status(404).json({
+          success: false,
+          error: `Method must be one of: ${TWO_FACTOR_METHODS.join(', ')}`,
+          code: 'INVALID_TWO_FACTOR_METHOD'
+        });
+      }
+
+      const result = method === 'totp'
+        ? await TwoFactorService.startTotpSetup(req.user)
+        : await TwoFactorService.startSmsSetup(req.user);
+
+      sendTwoFactorResult(res, result);
+
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start two-factor setup',
+        code: 'TWO_FACTOR_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/2fa/:method/confirm
+ * Finish enrollment with a first code; returns recovery codes
+ * (and a session when completing a login that required 2FA)
+ */
+router.post('/:method/confirm',
+  twoFactorLimiter,
+  authenticateTwoFactorSetup,
+  [codeValidation(false)],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const method = req.params.method as TwoFactorMethod;
+      if (!TWO_FACTOR_METHODS.includes(method)) {
+        return res.status(404).json({
+          success: false,
+          error: `Method must be one of: ${TWO_FACTOR_METHODS.join(', ')}`,
+          code: 'INVALID_TWO_FACTOR_METHOD'
+        });
+      }
+
+      const result = await TwoFactorService.confirmSetup(req.user, method, req.body.code);
+
+      // Enrolled during login: open the session now
+      if (result.success && req.twoFactorSetup) {
+        await req.user.updateLastLogin();
+        result.data = { ...result.data, ...(await TokenService.createSession(req.user, SessionService.getRequestContext(req))) };
+      }
+
+      sendTwoFactorResult(res, result);
+
+    } catch (error) {
+      console.error('Two-factor confirm error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to confirm two-factor setup',
+        code: 'TWO_FACTOR_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/2fa/recovery-codes
+ * Replace recovery codes (requires a current code)
+ */
+router.post('/recovery-codes',
+  twoFactorLimiter,
+  authenticate,
+  [codeValidation(true)],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await TwoFactorService.regenerateRecoveryCodes(req.user, req.body.code);
+      sendTwoFactorResult(res, result);
+
+    } catch (error) {
+      console.error('Recovery code error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to regenerate recovery codes',
+        code: 'TWO_FACTOR_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/2fa/disable
+ * Turn 2FA off with password and a current code (not allowed where required)
+ */
+router.post('/disable',
+  twoFactorLimiter,
+  authenticate,
+  [
+    body('password').notEmpty().withMessage('Password is required'),
+    codeValidation(true)
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await TwoFactorService.disable(req.user, req.body.password, req.body.code);
+      sendTwoFactorResult(res, result);
+
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to disable two-factor authentication',
+        code: 'TWO_FACTOR_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/2fa/challenge
+ * Answer the login challenge with a second-factor or recovery code
+ */
+router.post('/challenge',
+  twoFactorLimiter,
+  [
+    body('challenge_id').isUUID().withMessage('Challenge ID must be a valid UUID'),
+    codeValidation(true)
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await TwoFactorService.completeChallenge(req.body.challenge_id, req.body.code);
+
+      if (!result.success) {
+        return sendTwoFactorResult(res, result);
+      }
+
+      console.log(`✅ User logged in with 2FA: ${result.user!.email}`);
+
+      res.json({
+        success: true,
+        message: result.message,
+        data: {
+          user: result.user!.toSafeJSON(),
+          ...result.tokens
+        },
+        code: result.code
+      });
+
+    } catch (error) {
+      console.error('Two-factor challenge error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify login code',
+        code: 'TWO_FACTOR_ERROR'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/2fa/challenge/resend
+ * Send the SMS login code again
+ */
+router.post('/challenge/resend',
+  twoFactorLimiter,
+  [
+    body('challenge_id').isUUID().withMessage('Challenge ID must be a valid UUID')
+  ],
+  ValidationService.handleValidationErrors,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await TwoFactorService.resendChallenge(req.body.challenge_id);
+      sendTwoFactorResult(res, result);
+
+    } catch (error) {
+      console.error('Two-factor resend error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to resend login code',
+        code: 'TWO_FACTOR_ERROR'
+      });
+    }
+  }
+);
+
+export default router;
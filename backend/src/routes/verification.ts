@@ -3,8 +3,17 @@ import rateLimit from 'express-rate-limit';
 import { body, param, validationResult } from 'express-validator';
 import User from '../models/User';
 import Worker from '../models/Worker';
+import { EMAIL_TEMPLATES, EmailTemplateName } from '../models/EmailMessage';
 import verificationService from '../services/verification';
 import EmailService from '../services/email';
+import EmailDeliveryService from '../services/emailDelivery';
+import {
+  EMAIL_PREVIEW_ROLES,
+  EmailPreviewRole,
+  getEmailTemplateSample,
+  listEmailTemplates,
+  renderEmailTemplate
+} from '../services/emailTemplates';
 import ValidationService from '../services/validation';
 
 const router = express.Router();
@@ -160,11 +169,26 @@ router.post('/resend-email',
       // Generate new verification token and send email
       const verificationToken = await EmailService.generateEmailVerificationToken(user.id);
       
-      // Generate welcome email content
-      const emailContent = EmailService.generateWelcomeEmailContent(user, verificationToken);
+      const verificationLink = EmailService.getEmailVerificationLink(verificationToken);
+      const sent = await EmailDeliveryService.send({
+        to: user.email,
+        template: 'welcome',
+        data: { user, verificationLink },
+        userId: user.id
+      });
+
+      if (!sent.success) {
+        return res.status(sent.status === 'suppressed' ? 422 : 502).json({
+          success: false,
+          error: sent.status === 'suppressed'
+            ? 'Emails to this address could not be delivered. Please update your email address.'
+            : 'Failed to send verification email',
+          code: sent.status === 'suppressed' ? 'EMAIL_UNDELIVERABLE' : 'EMAIL_SEND_FAILED'
+        });
+      }
 
       console.log(`📧 Verification email resent for: ${email}`);
-      console.log(`🔗 New verification link: ${emailContent.verificationLink}`);
+      console.log(`🔗 New verification link: ${verificationLink}`);
 
       res.json({
         success: true,
@@ -173,8 +197,8 @@ router.post('/resend-email',
           email: user.email,
           verification_token: verificationToken, // In production, don't return this
           email_content_preview: process.env.NODE_ENV === 'development' ? {
-            subject: emailContent.subject,
-            verification_link: emailContent.verificationLink
+            message_id: sent.message_id,
+            verification_link: verificationLink
           } : undefined
         }
       });
@@ -489,46 +513,55 @@ router.get('/onboarding/:userId',
 // Development-only endpoints
 if (process.env.NODE_ENV === 'development') {
   
-  // GET /api/v1/verification/preview/:template/:role - Preview email templates
+  // GET /api/v1/verification/preview - List registered email templates
+  router.get('/preview', (req: Request, res: Response) => {
+    const templates = listEmailTemplates().map(template => ({
+      ...template,
+      preview_urls: EMAIL_PREVIEW_ROLES.map(role => `/api/v1/verification/preview/${template.name}/${role}`)
+    }));
+
+    res.json({
+      success: true,
+      data: { templates }
+    });
+  });
+
+  // GET /api/v1/verification/preview/:template/:role - Render a template with sample data (?format=html for the page itself)
   router.get('/preview/:template/:role',
     [
-      param('template').isIn(['welcome']).withMessage('Template must be: welcome'),
-      param('role').isIn(['client', 'worker']).withMessage('Role must be: client, worker')
+      param('template').isIn(EMAIL_TEMPLATES).withMessage(`Template must be one of: ${EMAIL_TEMPLATES.join(', ')}`),
+      param('role').isIn(EMAIL_PREVIEW_ROLES).withMessage('Role must be: client, worker')
     ],
     handleValidationErrors,
     async (req: Request, res: Response) => {
       try {
-        const { template, role } = req.params;
-
-        if (template === 'welcome') {
-          // Create mock user data for preview
-          const mockUser = {
-            id: 'preview-user-id',
-            first_name: role === 'worker' ? 'Maria' : 'Juan',
-            last_name: role === 'worker' ? 'Santos' : 'Dela Cruz',
-            email: `${role}@example.com`,
-            role: role as 'client' | 'worker'
-          };
-
-          const mockToken = 'preview-verification-token-1234567890abcdef';
-          const emailContent = EmailService.generateWelcomeEmailContent(mockUser, mockToken);
-
-          console.log(`📧 Email template preview: ${template} for ${role}`);
-
-          res.json({
-            success: true,
-            template_name: `${template}_${role}`,
-            preview_data: {
-              subject: emailContent.subject,
-              html_content: emailContent.htmlContent,
-              text_content: emailContent.textContent,
-              verification_link: emailContent.verificationLink
-            },
-            mock_user: mockUser,
-            note: 'This is a development preview with mock data'
-          });
+        const template = req.params.template as EmailTemplateName;
+        const role = req.params.role as EmailPreviewRole;
+
+        const sampleData = getEmailTemplateSample(template, role);
+        const emailContent = renderEmailTemplate(template, sampleData);
+
+        console.log(`📧 Email template preview: ${template} for ${role}`);
+
+        if (req.query.format === 'html') {
+          return res.type('html').send(emailContent.htmlContent);
+        }
+        if (req.query.format === 'text') {
+          return res.type('text').send(emailContent.textContent);
         }
 
+        res.json({
+          success: true,
+          template_name: `${template}_${role}`,
+          preview_data: {
+            subject: emailContent.subject,
+            html_content: emailContent.htmlContent,
+            text_content: emailContent.textContent
+          },
+          sample_data: sampleData,
+          note: 'This is a development preview with mock data'
+        });
+
       } catch (error: any) {
         console.error('❌ Email preview error:', error);
         res.status(500).json({
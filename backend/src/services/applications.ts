@@ -0,0 +1,268 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Job from '../models/Job';
+import User from '../models/User';
+import Booking from '../models/Booking';
+import Worker from '../models/Worker';
+import CancellationPolicyService from './cancellationPolicies';
+
+/**
+ * Job Application Service
+ * A Booking in 'pending' status represents a worker's application to a job
+ */
+
+export interface ApplicationInput {
+  application_message?: string;
+  proposed_rate: number;
+  estimated_hours: number;
+  questions_responses?: Record<string, string>;
+}
+
+export interface ApplicationResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  booking?: Booking;
+}
+
+// A worker with an application in any other status can't apply to the job again
+const WITHDRAWN_STATUSES = ['cancelled'];
+
+// Bookings in these statuses no longer take up a place under max_applications
+const NOT_COUNTED_STATUSES = ['cancelled', 'rejected'];
+
+// Note on applications rejected because another one was accepted
+export const AUTO_REJECT_NOTE = 'Another application was accepted for this job';
+
+export class ApplicationService {
+
+  /**
+   * Recount the job's live applications and store it on the job
+   * @param jobId - Job to resync
+   * @param transaction - Transaction the count should run in
+   * @returns Promise<number> - Updated applications_count
+   */
+  public static async syncApplicationsCount(jobId: string, transaction?: Transaction): Promise<number> {
+    const count = await Booking.count({
+      where: {
+        job_id: jobId,
+        status: { [Op.notIn]: NOT_COUNTED_STATUSES }
+      },
+      transaction
+    });
+
+    await Job.update(
+      { applications_count: count },
+      { where: { id: jobId }, transaction }
+    );
+
+    return count;
+  }
+
+  /**
+   * Put applications auto-rejected when another was accepted back in the
+   * queue, for when that accepted booking is cancelled and the job reopens
+   * @param jobId - Job that reopened
+   * @param transaction - Transaction the cancellation runs in
+   * @returns Promise<number> - Applications restored
+   */
+  public static async restoreAutoRejected(jobId: string, transaction: Transaction): Promise<number> {
+    const rejected = await Booking.findAll({
+      where: { job_id: jobId, status: 'rejected' },
+      transaction,
+      lock: transaction.LOCK.UPDATE
+    });
+
+    // Only those whose latest status change was the auto-reject; the client rejected the rest
+    const autoRejected = rejected.filter(application => {
+      const statusNotes = (application.admin_notes || '').split('\n').filter(line => line.includes('Status changed'));
+      return statusNotes.length > 0 && statusNotes[statusNotes.length - 1].endsWith(`by system: ${AUTO_REJECT_NOTE}`);
+    });
+
+    const note = `[${new Date().toISOString()}] Status changed from rejected to pending by system: Accepted booking was cancelled, application restored`;
+    for (const application of autoRejected) {
+      application.status = 'pending';
+      application.admin_notes = `${application.admin_notes}\n${note}`;
+      await application.save({ transaction, fields: ['status', 'admin_notes'] });
+    }
+
+    await this.syncApplicationsCount(jobId, transaction);
+    return autoRejected.length;
+  }
+
+  /**
+   * Check that every client question has a non-empty answer
+   * @param questions - Job questions_for_workers
+   * @param responses - Answers keyed by question text
+   * @returns string[] - Questions left unanswered
+   */
+  public static findUnansweredQuestions(
+    questions: string[] | undefined,
+    responses: Record<string, string> | undefined
+  ): string[] {
+    if (!questions || questions.length === 0) return [];
+
+    return questions.filter(question => {
+      const answer = responses?.[question];
+      return typeof answer !== 'string' || answer.trim().length === 0;
+    });
+  }
+
+  /**
+   * Submit a worker application to an open job
+   * @param jobId - Job being applied to
+   * @param workerUserId - User ID of the applying worker
+   * @param input - Application details
+   * @returns Promise<ApplicationResult>
+   */
+  public static async apply(jobId: string, workerUserId: string, input: ApplicationInput): Promise<ApplicationResult> {
+    const workerProfile = await Worker.findOne({ where: { user_id: workerUserId } });
+    if (!workerProfile) {
+      return { success: false, status: 404, message: 'Worker profile not found', code: 'WORKER_PROFILE_NOT_FOUND' };
+    }
+
+    if (workerProfile.isNbiClearanceExpired()) {
+      return {
+        success: false,
+        status: 403,
+        message: 'Your NBI clearance has expired. Submit your renewed clearance to apply for jobs again.',
+        code: 'NBI_CLEARANCE_EXPIRED'
+      };
+    }
+
+    const availability = workerProfile.getAvailabilityStatus();
+    if (!availability.canAcceptJobs) {
+      return {
+        success: false,
+        status: 403,
+        message: 'Your profile cannot accept jobs yet. Be available, have an approved NBI clearance and at least 60% profile completion.',
+        code: 'WORKER_CANNOT_ACCEPT_JOBS'
+      };
+    }
+
+    return await sequelize.transaction(async (transaction) => {
+      // Lock the job row so concurrent applications respect max_applications
+      const job = await Job.findByPk(jobId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!job || job.status === 'draft') {
+        return { success: false, status: 404, message: 'Job not found', code: 'JOB_NOT_FOUND' };
+      }
+
+      if (job.client_id === workerUserId) {
+        return { success: false, status: 403, message: 'You cannot apply to your own job', code: 'OWN_JOB' };
+      }
+
+      if (!job.isAcceptingApplications()) {
+        return {
+          success: false,
+          status: 409,
+          message: job.max_applications && job.applications_count >= job.max_applications
+            ? 'This job has reached its maximum number of applications'
+            : 'This job is no longer accepting applications',
+          code: 'JOB_NOT_ACCEPTING_APPLICATIONS'
+        };
+      }
+
+      if (job.preferred_worker_rating && Number(workerProfile.rating_average) < Number(job.preferred_worker_rating)) {
+        return {
+          success: false,
+          status: 403,
+          message: `This job requires a worker rating of at least ${Number(job.preferred_worker_rating).toFixed(1)}`,
+          code: 'WORKER_RATING_TOO_LOW'
+        };
+      }
+
+      if (job.client_rating_required) {
+        // Clients without published worker reviews yet are not held to the minimum
+        const client = await User.findByPk(job.client_id, { transaction });
+        if (client && client.client_total_reviews > 0 && Number(client.client_rating_average) < Number(job.client_rating_required)) {
+          return {
+            success: false,
+            status: 403,
+            message: `This job requires a client rating of at least ${Number(job.client_rating_required).toFixed(1)}`,
+            code: 'CLIENT_RATING_TOO_LOW'
+          };
+        }
+      }
+
+      const unanswered = this.findUnansweredQuestions(job.questions_for_workers, input.questions_responses);
+      if (unanswered.length > 0) {
+        return {
+          success: false,
+          status: 400,
+          message: `Please answer all client questions (${unanswered.length} unanswered)`,
+          code: 'QUESTIONS_UNANSWERED'
+        };
+      }
+
+      const existing = await Booking.findOne({
+        where: {
+          job_id: job.id,
+          worker_id: workerUserId,
+          status: { [Op.notIn]: WITHDRAWN_STATUSES }
+        },
+        transaction
+      });
+
+      if (existing) {
+        return { success: false, status: 409, message: 'You have already applied to this job', code: 'ALREADY_APPLIED' };
+      }
+
+      const booking = await Booking.create({
+        job_id: job.id,
+        worker_id: workerUserId,
+        client_id: job.client_id,
+        application_message: input.application_message,
+        proposed_rate: input.proposed_rate,
+        estimated_hours: input.estimated_hours,
+        questions_responses: input.questions_responses,
+        status: 'pending',
+        applied_at: new Date(),
+        // Pin the policy in force now so later policy changes don't apply retroactively
+        cancellation_policy_id: (await CancellationPolicyService.resolvePolicyForCategory(job.category, transaction)).id
+      } as any, { transaction });
+
+      await this.syncApplicationsCount(job.id, transaction);
+
+      console.log(`📝 Application submitted: worker ${workerUserId} → job ${job.id}`);
+
+      return { success: true, status: 201, message: 'Application submitted successfully', code: 'APPLICATION_SUBMITTED', booking };
+    });
+  }
+
+  /**
+   * Withdraw a pending application
+   * @param bookingId - Application booking ID
+   * @param workerUserId - User ID of the worker withdrawing
+   * @returns Promise<ApplicationResult>
+   */
+  public static async withdraw(bookingId: string, workerUserId: string): Promise<ApplicationResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const booking = await Booking.findByPk(bookingId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!booking || booking.worker_id !== workerUserId) {
+        return { success: false, status: 404, message: 'Application not found', code: 'APPLICATION_NOT_FOUND' };
+      }
+
+      if (booking.status !== 'pending') {
+        return {
+          success: false,
+          status: 409,
+          message: `Applications with status '${booking.status}' cannot be withdrawn`,
+          code: 'APPLICATION_NOT_WITHDRAWABLE'
+        };
+      }
+
+      await booking.updateStatus('cancelled', 'worker', 'Application withdrawn by worker', transaction);
+
+      await this.syncApplicationsCount(booking.job_id, transaction);
+
+      console.log(`↩️ Application withdrawn: ${booking.id}`);
+
+      return { success: true, status: 200, message: 'Application withdrawn successfully', code: 'APPLICATION_WITHDRAWN', booking };
+    });
+  }
+}
+
+export default ApplicationService;
@@ -0,0 +1,139 @@
+import User, { AdminRole } from '../models/User';
+
+/**
+ * Authorization Service
+ * Maps roles and admin sub-roles to permission strings, and answers
+ * "may this user do X" / "may this user touch this resource" for routes
+ * and services. Authentication itself lives in middleware/auth.
+ */
+
+export const PERMISSIONS = [
+  // Marketplace
+  'job:manage',                   // Post jobs and handle their applications
+  'job:apply',                    // Apply to jobs and withdraw applications
+  'booking:approve',              // Approve completed work
+  'payment:checkout',             // Fund escrow for a booking
+  'payout:view_own',              // Own payouts and earnings statements
+
+  // Money
+  'payment:view_any',             // Ledger and transactions of any booking
+  'payment:reconcile',
+  'payout:manage',                // Run, send and reverse payout batches
+  'cancellation_policy:manage',
+  'sms:view',                     // Outgoing SMS log, delivery and costs
+  'email:manage',                 // Outgoing email log and bounce suppressions
+
+  // Trust & safety
+  'review:moderate',
+  'review:manage_rules',          // Automated screening rules
+  'dispute:manage',
+  'nbi:review',                   // Approve or reject workers' NBI clearances
+
+  // Accounts
+  'user:view_security',           // Lockouts and login history
+  'user:unlock',
+  'session:revoke',               // Force-logout another user
+  'admin:manage_roles'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const CLIENT_PERMISSIONS: Permission[] = ['job:manage', 'booking:approve', 'payment:checkout'];
+const WORKER_PERMISSIONS: Permission[] = ['job:apply', 'payout:view_own'];
+
+const ADMIN_ROLE_PERMISSIONS: Record<Exclude<AdminRole, 'super_admin'>, Permission[]> = {
+  support: [
+    'payment:view_any', 'dispute:manage', 'sms:view', 'email:manage',
+    'user:view_security', 'user:unlock', 'session:revoke'
+  ],
+  finance: [
+    'payment:view_any', 'payment:reconcile', 'payout:manage', 'cancellation_policy:manage', 'sms:view'
+  ],
+  trust_safety: [
+    'review:moderate', 'review:manage_rules', 'dispute:manage', 'nbi:review',
+    'user:view_security', 'session:revoke'
+  ]
+};
+
+// Super admins hold every admin permission, plus sub-role management
+const SUPER_ADMIN_PERMISSIONS: Permission[] = [
+  ...new Set([...Object.values(ADMIN_ROLE_PERMISSIONS).flat(), 'admin:manage_roles' as Permission])
+];
+
+export class AuthorizationService {
+
+  /**
+   * All permissions granted to a user by role and admin sub-role
+   */
+  public static getPermissions(user: User): Permission[] {
+    if (user.role === 'client') return CLIENT_PERMISSIONS;
+    if (user.role === 'worker') return WORKER_PERMISSIONS;
+
+    const adminRole = user.getAdminRole();
+    if (!adminRole) return [];
+    return adminRole === 'super_admin' ? SUPER_ADMIN_PERMISSIONS : ADMIN_ROLE_PERMISSIONS[adminRole];
+  }
+
+  /**
+   * Check that a user holds every listed permission
+   */
+  public static hasPermission(user: User, ...permissions: Permission[]): boolean {
+    const granted = this.getPermissions(user);
+    return permissions.every(permission => granted.includes(permission));
+  }
+
+  /**
+   * Resource ownership check: the user owns the resource, or holds a
+   * permission that covers everyone's (e.g. payment:view_any)
+   * @param ownerIds - User IDs that own the resource (e.g. a booking's client and worker)
+   * @param bypassPermission - Permission that grants access without ownership
+   */
+  public static canAccess(
+    user: User,
+    ownerIds: string | Array<string | null | undefined>,
+    bypassPermission?: Permission
+  ): boolean {
+    const owners = Array.isArray(ownerIds) ? ownerIds : [ownerIds];
+    if (owners.includes(user.id)) return true;
+    return !!bypassPermission && this.hasPermission(user, bypassPermission);
+  }
+
+  /**
+   * Change an admin's sub-role
+   * @returns User | null - null when the user is not an admin
+   */
+  public static async setAdminRole(userId: string, adminRole: AdminRole, changedBy: string): Promise<User | null> {
+    const user = await User.findByPk(userId);
+    if (!user || user.role !== 'admin') return null;
+
+    user.admin_role = adminRole;
+    await user.save();
+
+    console.log(`🛡️ Admin ${user.id} is now ${adminRole} (changed by ${changedBy})`);
+    return user;
+  }
+
+  /**
+   * Make the ADMIN_BOOTSTRAP_EMAIL admin the first super_admin
+   * Does nothing once any super_admin exists, so the variable can't be
+   * used later to take over role management
+   * @returns User | null - The promoted admin, if one was promoted
+   */
+  public static async bootstrapSuperAdmin(): Promise<User | null> {
+    const email = process.env.ADMIN_BOOTSTRAP_EMAIL?.trim().toLowerCase();
+    if (!email) return null;
+
+    const superAdmins = await User.count({ where: { role: 'admin', admin_role: 'super_admin' } });
+    if (superAdmins > 0) return null;
+
+    const user = await User.findOne({ where: { email } });
+    if (!user || user.role !== 'admin') {
+      console.warn(`⚠️ ADMIN_BOOTSTRAP_EMAIL ${email} is not an admin account; no super_admin seeded`);
+      return null;
+    }
+
+    return this.setAdminRole(user.id, 'super_admin', 'ADMIN_BOOTSTRAP_EMAIL');
+  }
+}
+
+export default AuthorizationService;
@@ -0,0 +1,431 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Booking, { BookingActor } from '../models/Booking';
+import Job, { JobCategory } from '../models/Job';
+import CancellationPolicy, { CancellationOutcome, CancellationRule } from '../models/CancellationPolicy';
+import EscrowService, { toCentavos, toPesos } from './escrow';
+import PaymentGatewayService from './paymentGateway';
+
+/**
+ * Cancellation Policy Engine
+ * Decides what happens to a booking's money when it is cancelled: how much
+ * the client gets back, how much the worker is compensated and what the
+ * platform keeps, based on who cancels, the booking status and the time
+ * left before scheduled_start.
+ */
+
+export interface PolicyPublishInput {
+  name: string;
+  description?: string;
+  categories: JobCategory[];
+  rules: CancellationRule[];
+}
+
+export interface PolicyPublishResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  policy?: CancellationPolicy;
+}
+
+const RULE_ACTORS = ['client', 'worker', 'admin', 'system'];
+const RULE_STATUSES = ['pending', 'accepted', 'confirmed', 'in_progress'];
+
+// Built-in version 1 policies, created on first use
+const DEFAULT_POLICIES: Array<PolicyPublishInput> = [
+  {
+    name: 'standard',
+    description: 'Free cancellation until 24 hours before start; late client cancellations compensate the worker',
+    categories: [],
+    rules: [
+      {
+        cancelled_by: ['client', 'worker', 'admin', 'system'],
+        statuses: ['pending'],
+        allowed: true,
+        client_refund_percent: 100,
+        worker_compensation_percent: 0,
+        reason: 'Application withdrawn before acceptance'
+      },
+      {
+        cancelled_by: ['worker', 'admin', 'system'],
+        statuses: ['accepted', 'confirmed'],
+        allowed: true,
+        client_refund_percent: 100,
+        worker_compensation_percent: 0,
+        reason: 'Cancelled by worker or HelpQo - full refund to client'
+      },
+      {
+        cancelled_by: ['client'],
+        statuses: ['accepted', 'confirmed'],
+        min_hours_before_start: 24,
+        allowed: true,
+        client_refund_percent: 100,
+        worker_compensation_percent: 0,
+        reason: 'Cancelled 24 hours or more before start - full refund'
+      },
+      {
+        cancelled_by: ['client'],
+        statuses: ['accepted', 'confirmed'],
+        min_hours_before_start: 2,
+        max_hours_before_start: 24,
+        allowed: true,
+        client_refund_percent: 90,
+        worker_compensation_percent: 5,
+        reason: 'Cancelled 2-24 hours before start - 10% late cancellation fee'
+      },
+      {
+        cancelled_by: ['client'],
+        statuses: ['accepted', 'confirmed'],
+        max_hours_before_start: 2,
+        allowed: true,
+        client_refund_percent: 50,
+        worker_compensation_percent: 40,
+        reason: 'Cancelled less than 2 hours before start - 50% refund'
+      }
+    ]
+  },
+  {
+    name: 'care_and_events',
+    description: 'Care and event bookings reserve the worker\'s whole day; cancellations need 72 hours notice',
+    categories: ['Childcare & Babysitting', 'Elderly Care', 'Event Planning', 'Photography & Videography'],
+    rules: [
+      {
+        cancelled_by: ['client', 'worker', 'admin', 'system'],
+        statuses: ['pending'],
+        allowed: true,
+        client_refund_percent: 100,
+        worker_compensation_percent: 0,
+        reason: 'Application withdrawn before acceptance'
+      },
+      {
+        cancelled_by: ['worker', 'admin', 'system'],
+        statuses: ['accepted', 'confirmed'],
+        allowed: true,
+        client_refund_percent: 100,
+        worker_compensation_percent: 0,
+        reason: 'Cancelled by worker or HelpQo - full refund to client'
+      },
+      {
+        cancelled_by: ['client'],
+        statuses: ['accepted', 'confirmed'],
+        min_hours_before_start: 72,
+        allowed: true,
+        client_refund_percent: 100,
+        worker_compensation_percent: 0,
+        reason: 'Cancelled 72 hours or more before start - full refund'
+      },
+      {
+        cancelled_by: ['client'],
+        statuses: ['accepted', 'confirmed'],
+        min_hours_before_start: 24,
+        max_hours_before_start: 72,
+        allowed: true,
+        client_refund_percent: 50,
+        worker_compensation_percent: 40,
+        reason: 'Cancelled 24-72 hours before start - 50% refund'
+      },
+      {
+        cancelled_by: ['client'],
+        statuses: ['accepted', 'confirmed'],
+        min_hours_before_start: 2,
+        max_hours_before_start: 24,
+        allowed: true,
+        client_refund_percent: 0,
+        worker_compensation_percent: 85,
+        reason: 'Cancelled less than 24 hours before start - no refund'
+      },
+      {
+        cancelled_by: ['client'],
+        statuses: ['accepted', 'confirmed'],
+        max_hours_before_start: 2,
+        allowed: false,
+        client_refund_percent: 0,
+        worker_compensation_percent: 0,
+        reason: 'Cannot cancel less than 2 hours before scheduled start - contact support'
+      }
+    ]
+  }
+];
+
+export class CancellationPolicyService {
+
+  /**
+   * Validate a rule list before publishing
+   * @returns string[] - Problems found (empty when valid)
+   */
+  public static validateRules(rules: CancellationRule[]): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(rules) || rules.length === 0) {
+      return ['At least one rule is required'];
+    }
+
+    rules.forEach((rule, index) => {
+      const label = `Rule ${index + 1}`;
+
+      if (!Array.isArray(rule.cancelled_by) || rule.cancelled_by.length === 0 ||
+          rule.cancelled_by.some(actor => !RULE_ACTORS.includes(actor))) {
+        errors.push(`${label}: cancelled_by must list client, worker, admin and/or system`);
+      }
+
+      if (!Array.isArray(rule.statuses) || rule.statuses.length === 0 ||
+          rule.statuses.some(status => !RULE_STATUSES.includes(status))) {
+        errors.push(`${label}: statuses must list ${RULE_STATUSES.join(', ')}`);
+      }
+
+      const { min_hours_before_start: min, max_hours_before_start: max } = rule;
+      if ((min !== undefined && typeof min !== 'number') || (max !== undefined && typeof max !== 'number')) {
+        errors.push(`${label}: hour bounds must be numbers`);
+      } else if (min !== undefined && max !== undefined && min >= max) {
+        errors.push(`${label}: min_hours_before_start must be below max_hours_before_start`);
+      }
+
+      const refund = rule.client_refund_percent;
+      const compensation = rule.worker_compensation_percent;
+      if (typeof refund !== 'number' || typeof compensation !== 'number' ||
+          refund < 0 || compensation < 0 || refund + compensation > 100) {
+        errors.push(`${label}: refund and compensation must be 0-100% and total at most 100%`);
+      }
+
+      if (typeof rule.allowed !== 'boolean') {
+        errors.push(`${label}: allowed must be true or false`);
+      }
+
+      if (!rule.reason || typeof rule.reason !== 'string') {
+        errors.push(`${label}: reason is required`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Create the built-in policies if no policy has been published yet
+   */
+  public static async ensureDefaultPolicies(transaction?: Transaction): Promise<void> {
+    const existing = await CancellationPolicy.count({ transaction });
+    if (existing > 0) return;
+
+    // Concurrent first calls can both get here: the unique (name, version)
+    // index makes findOrCreate keep a single copy of each policy
+    let created = 0;
+    for (const policy of DEFAULT_POLICIES) {
+      const [, wasCreated] = await CancellationPolicy.findOrCreate({
+        where: { name: policy.name, version: 1 },
+        defaults: { ...policy, version: 1, is_active: true } as any,
+        transaction
+      });
+      if (wasCreated) created++;
+    }
+
+    if (created > 0) {
+      console.log(`📜 Created ${created} default cancellation policies`);
+    }
+  }
+
+  /**
+   * Get the active policy for a job category (falls back to the default policy)
+   * @param category - Job category
+   * @returns Promise<CancellationPolicy>
+   */
+  public static async resolvePolicyForCategory(category: JobCategory, transaction?: Transaction): Promise<CancellationPolicy> {
+    await this.ensureDefaultPolicies(transaction);
+
+    const activePolicies = await CancellationPolicy.findAll({
+      where: { is_active: true },
+      order: [['created_at', 'DESC']],
+      transaction
+    });
+
+    const policy = activePolicies.find(candidate => candidate.categories.includes(category))
+      || activePolicies.find(candidate => candidate.isDefault());
+
+    if (!policy) {
+      throw new Error(`No active cancellation policy covers category '${category}'`);
+    }
+    return policy;
+  }
+
+  /**
+   * Get the policy pinned to a booking, pinning the current one for older bookings
+   * @param booking - Booking being cancelled
+   * @returns Promise<CancellationPolicy>
+   */
+  public static async getPolicyForBooking(booking: Booking, transaction?: Transaction): Promise<CancellationPolicy> {
+    if (booking.cancellation_policy_id) {
+      const pinned = await CancellationPolicy.findByPk(booking.cancellation_policy_id, { transaction });
+      if (pinned) return pinned;
+    }
+
+    const job = await Job.findByPk(booking.job_id, { attributes: ['id', 'category'], transaction });
+    if (!job) throw new Error(`Job ${booking.job_id} not found for booking ${booking.id}`);
+
+    const policy = await this.resolvePolicyForCategory(job.category, transaction);
+    booking.cancellation_policy_id = policy.id;
+    await booking.save({ transaction });
+
+    return policy;
+  }
+
+  /**
+   * Apply a policy to a cancellation request (no side effects)
+   * @param booking - Booking being cancelled
+   * @param actor - Who is cancelling
+   * @param policy - Policy to apply
+   * @param at - Time of cancellation (defaults to now)
+   * @returns CancellationOutcome
+   */
+  public static evaluate(booking: Booking, actor: BookingActor, policy: CancellationPolicy, at: Date = new Date()): CancellationOutcome {
+    const hoursUntilStart = booking.getHoursUntilStart(at);
+    // Unscheduled bookings are treated as far from starting
+    const hours = hoursUntilStart === null ? Infinity : hoursUntilStart;
+
+    const ruleIndex = policy.rules.findIndex(rule =>
+      (rule.cancelled_by as string[]).includes(actor) &&
+      (rule.statuses as string[]).includes(booking.status) &&
+      (rule.min_hours_before_start === undefined || hours >= rule.min_hours_before_start) &&
+      (rule.max_hours_before_start === undefined || hours < rule.max_hours_before_start)
+    );
+    const rule = ruleIndex >= 0 ? policy.rules[ruleIndex] : null;
+
+    const totalCentavos = toCentavos(booking.calculatePayments().totalAmount);
+    const refundCentavos = rule && rule.allowed ? Math.round(totalCentavos * rule.client_refund_percent / 100) : 0;
+    const compensationCentavos = rule && rule.allowed ? Math.round(totalCentavos * rule.worker_compensation_percent / 100) : 0;
+    // The platform keeps whatever is left, including rounding
+    const feeCentavos = rule && rule.allowed ? totalCentavos - refundCentavos - compensationCentavos : 0;
+
+    return {
+      allowed: rule ? rule.allowed : false,
+      reason: rule ? rule.reason : `No cancellation rule allows a ${actor} to cancel a ${booking.status} booking`,
+      policy_id: policy.id,
+      policy_name: policy.name,
+      policy_version: policy.version,
+      rule_index: rule ? ruleIndex : null,
+      cancelled_by: actor,
+      booking_status: booking.status,
+      hours_until_start: hoursUntilStart === null ? null : Math.round(hoursUntilStart * 10) / 10,
+      total_amount: toPesos(totalCentavos),
+      client_refund: toPesos(refundCentavos),
+      worker_compensation: toPesos(compensationCentavos),
+      platform_fee: toPesos(feeCentavos),
+      evaluated_at: at.toISOString()
+    };
+  }
+
+  /**
+   * Quote the outcome of cancelling a booking now
+   * @param booking - Booking being cancelled
+   * @param actor - Who would cancel
+   * @returns Promise<CancellationOutcome>
+   */
+  public static async quote(booking: Booking, actor: BookingActor, transaction?: Transaction): Promise<CancellationOutcome> {
+    const policy = await this.getPolicyForBooking(booking, transaction);
+    return this.evaluate(booking, actor, policy);
+  }
+
+  /**
+   * Move escrowed funds according to a cancellation outcome
+   * Worker compensation and platform fee are released first, then the
+   * client's share is refunded through the wallet that paid
+   * @param booking - Cancelled booking
+   * @param outcome - Outcome from quote()/evaluate()
+   */
+  public static async applyOutcome(
+    booking: Booking,
+    outcome: CancellationOutcome,
+    options: { createdBy?: string; transaction: Transaction }
+  ): Promise<void> {
+    booking.cancellation_outcome = outcome;
+    await booking.save({ transaction: options.transaction });
+
+    if (booking.payment_status !== 'held') return;
+
+    const balances = await EscrowService.getBookingBalances(booking.id, options.transaction);
+    const escrowCentavos = toCentavos(balances.escrow);
+
+    // Outcome amounts are based on the booking total; scale if escrow holds less
+    const scale = toCentavos(outcome.total_amount) > 0 ? escrowCentavos / toCentavos(outcome.total_amount) : 0;
+    const compensationCentavos = Math.round(toCentavos(outcome.worker_compensation) * scale);
+    const refundCentavos = Math.round(toCentavos(outcome.client_refund) * scale);
+    const feeCentavos = escrowCentavos - compensationCentavos - refundCentavos;
+
+    if (compensationCentavos + feeCentavos > 0) {
+      await EscrowService.releaseFunds(booking, {
+        workerPayout: toPesos(compensationCentavos),
+        commission: toPesos(feeCentavos)
+      }, {
+        reference: `cancellation:${outcome.policy_name}:v${outcome.policy_version}`,
+        createdBy: options.createdBy,
+        transaction: options.transaction
+      });
+    }
+
+    if (refundCentavos > 0) {
+      await PaymentGatewayService.refundToClient(booking, toPesos(refundCentavos), {
+        createdBy: options.createdBy,
+        transaction: options.transaction
+      });
+    }
+  }
+
+  /**
+   * Publish a new version of a policy; earlier versions stay pinned to their bookings
+   * @param input - Policy name, categories and rules
+   * @param createdBy - Admin publishing the policy
+   * @returns Promise<PolicyPublishResult>
+   */
+  public static async publishVersion(input: PolicyPublishInput, createdBy: string): Promise<PolicyPublishResult> {
+    const ruleErrors = this.validateRules(input.rules);
+    if (ruleErrors.length > 0) {
+      return { success: false, status: 400, message: ruleErrors.join('; '), code: 'INVALID_POLICY_RULES' };
+    }
+
+    return await sequelize.transaction(async (transaction) => {
+      await this.ensureDefaultPolicies(transaction);
+
+      const otherActive = await CancellationPolicy.findAll({
+        where: { is_active: true, name: { [Op.ne]: input.name } },
+        transaction
+      });
+
+      const conflict = otherActive.find(policy => input.categories.length === 0
+        ? policy.isDefault()
+        : policy.categories.some(category => input.categories.includes(category)));
+
+      if (conflict) {
+        return {
+          success: false,
+          status: 409,
+          message: input.categories.length === 0
+            ? `'${conflict.name}' is already the default policy`
+            : `Categories already covered by active policy '${conflict.name}'`,
+          code: 'POLICY_CATEGORY_CONFLICT'
+        };
+      }
+
+      const latestVersion = await CancellationPolicy.max('version', { where: { name: input.name }, transaction }) as number | null;
+
+      await CancellationPolicy.update(
+        { is_active: false },
+        { where: { name: input.name, is_active: true }, transaction, individualHooks: true }
+      );
+
+      const policy = await CancellationPolicy.create({
+        name: input.name,
+        description: input.description,
+        categories: input.categories,
+        rules: input.rules,
+        version: (latestVersion || 0) + 1,
+        is_active: true,
+        created_by: createdBy
+      } as any, { transaction });
+
+      console.log(`📜 Cancellation policy ${policy.name} v${policy.version} published`);
+
+      return { success: true, status: 201, message: 'Cancellation policy published', code: 'POLICY_PUBLISHED', policy };
+    });
+  }
+}
+
+export default CancellationPolicyService;
@@ -0,0 +1,434 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Booking from '../models/Booking';
+import Dispute, { DisputeReason, DisputeResolution, DisputeSettlement } from '../models/Dispute';
+import DisputeEvent, { DisputeEventType } from '../models/DisputeEvent';
+import User from '../models/User';
+import AuthorizationService from './authorization';
+import EscrowService, { toCentavos, toPesos } from './escrow';
+import PaymentGatewayService from './paymentGateway';
+
+/**
+ * Dispute Resolution Service
+ * Either booking party can open a dispute; admins pick it up, talk to both
+ * sides and settle the escrow with a full refund, a split or a release.
+ */
+
+export type DisputeActorRole = 'client' | 'worker' | 'admin' | 'system';
+
+export interface OpenDisputeInput {
+  reason: DisputeReason;
+  description: string;
+  evidence_photos?: string[];
+}
+
+export interface ResolveDisputeInput {
+  resolution: DisputeResolution;
+  client_refund_amount?: number;   // Required for partial_split
+  notes: string;
+}
+
+export interface DisputeResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  dispute?: Dispute;
+}
+
+// SLA targets (hours from opening)
+const RESPONSE_SLA_HOURS = Number(process.env.DISPUTE_RESPONSE_SLA_HOURS || 24);
+const RESOLUTION_SLA_HOURS = Number(process.env.DISPUTE_RESOLUTION_SLA_HOURS || 72);
+
+const MAX_EVIDENCE_PHOTOS = 20;
+
+export class DisputeService {
+
+  /**
+   * Append an event to a dispute's history
+   */
+  private static async recordEvent(
+    disputeId: string,
+    eventType: DisputeEventType,
+    actor: { id?: string; role: DisputeActorRole },
+    details: { message?: string; attachments?: string[]; isInternal?: boolean; metadata?: Record<string, any> } = {},
+    transaction?: Transaction
+  ): Promise<DisputeEvent> {
+    return await DisputeEvent.create({
+      dispute_id: disputeId,
+      actor_id: actor.id,
+      actor_role: actor.role,
+      event_type: eventType,
+      message: details.message,
+      attachments: details.attachments || [],
+      is_internal: details.isInternal || false,
+      metadata: details.metadata
+    } as any, { transaction });
+  }
+
+  /**
+   * Record the first admin touch for the response SLA
+   */
+  private static markFirstResponse(dispute: Dispute): void {
+    if (!dispute.first_response_at) {
+      dispute.first_response_at = new Date();
+      if (dispute.first_response_at > new Date(dispute.response_due_at)) {
+        dispute.response_sla_breached = true;
+      }
+    }
+  }
+
+  /**
+   * Work out the caller's role on a disputed booking (null = no access)
+   * @param booking - Disputed booking
+   * @param user - Authenticated user
+   */
+  public static getViewerRole(booking: Booking, user: User): DisputeActorRole | null {
+    if (AuthorizationService.hasPermission(user, 'dispute:manage')) return 'admin';
+    if (booking.client_id === user.id) return 'client';
+    if (booking.worker_id === user.id) return 'worker';
+    return null;
+  }
+
+  /**
+   * Open a dispute on a booking the caller participates in
+   * @param bookingId - Disputed booking
+   * @param userId - Client or worker opening the dispute
+   * @returns Promise<DisputeResult>
+   */
+  public static async openDispute(bookingId: string, userId: string, input: OpenDisputeInput): Promise<DisputeResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const booking = await Booking.findByPk(bookingId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!booking) {
+        return { success: false, status: 404, message: 'Booking not found', code: 'BOOKING_NOT_FOUND' };
+      }
+
+      const role = booking.client_id === userId ? 'client' : booking.worker_id === userId ? 'worker' : null;
+      if (!role) {
+        return { success: false, status: 403, message: 'You are not a participant in this booking', code: 'BOOKING_ACCESS_DENIED' };
+      }
+
+      const existing = await Dispute.findOne({
+        where: { booking_id: booking.id, status: { [Op.ne]: 'resolved' } },
+        transaction
+      });
+      if (existing) {
+        return { success: false, status: 409, message: 'This booking already has an open dispute', code: 'DISPUTE_ALREADY_OPEN', dispute: existing };
+      }
+
+      const check = booking.canTransitionTo('disputed', role);
+      if (!check.allowed) {
+        return { success: false, status: 409, message: check.reason || 'This booking cannot be disputed', code: 'BOOKING_NOT_DISPUTABLE' };
+      }
+
+      const statusAtOpen = booking.status;
+      await booking.updateStatus('disputed', role, `Dispute opened (${input.reason})`, transaction);
+
+      // Freeze escrow until an admin decides
+      booking.issues_reported = true;
+      if (booking.payment_status === 'held') booking.payment_status = 'disputed';
+      await booking.save({ transaction });
+
+      const now = Date.now();
+      const dispute = await Dispute.create({
+        booking_id: booking.id,
+        job_id: booking.job_id,
+        opened_by: userId,
+        opened_by_role: role,
+        reason: input.reason,
+        description: input.description,
+        evidence_photos: input.evidence_photos || [],
+        status: 'open',
+        booking_status_at_open: statusAtOpen,
+        response_due_at: new Date(now + RESPONSE_SLA_HOURS * 60 * 60 * 1000),
+        resolution_due_at: new Date(now + RESOLUTION_SLA_HOURS * 60 * 60 * 1000)
+      } as any, { transaction });
+
+      await this.recordEvent(dispute.id, 'opened', { id: userId, role }, {
+        message: input.description,
+        attachments: input.evidence_photos,
+        metadata: { reason: input.reason, booking_status: statusAtOpen }
+      }, transaction);
+
+      console.log(`⚖️ Dispute ${dispute.id} opened by ${role} on booking ${booking.id}`);
+
+      return { success: true, status: 201, message: 'Dispute opened', code: 'DISPUTE_OPENED', dispute };
+    });
+  }
+
+  /**
+   * Post a message visible to both parties and admins
+   */
+  public static async addMessage(
+    dispute: Dispute,
+    actor: { id: string; role: DisputeActorRole },
+    message: string,
+    attachments: string[] = []
+  ): Promise<DisputeResult> {
+    if (!dispute.isActive()) {
+      return { success: false, status: 409, message: 'This dispute has been resolved', code: 'DISPUTE_ALREADY_RESOLVED' };
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await this.recordEvent(dispute.id, 'message', actor, { message, attachments }, transaction);
+
+      if (actor.role === 'admin') {
+        this.markFirstResponse(dispute);
+        await dispute.save({ transaction });
+      }
+    });
+
+    return { success: true, status: 201, message: 'Message posted', code: 'DISPUTE_MESSAGE_POSTED', dispute };
+  }
+
+  /**
+   * Add evidence photos to an open dispute
+   */
+  public static async addEvidence(
+    dispute: Dispute,
+    actor: { id: string; role: DisputeActorRole },
+    photos: string[],
+    note?: string
+  ): Promise<DisputeResult> {
+    if (!dispute.isActive()) {
+      return { success: false, status: 409, message: 'This dispute has been resolved', code: 'DISPUTE_ALREADY_RESOLVED' };
+    }
+
+    if (dispute.evidence_photos.length + photos.length > MAX_EVIDENCE_PHOTOS) {
+      return {
+        success: false,
+        status: 400,
+        message: `A dispute can have at most ${MAX_EVIDENCE_PHOTOS} evidence photos`,
+        code: 'TOO_MANY_EVIDENCE_PHOTOS'
+      };
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      dispute.evidence_photos = [...dispute.evidence_photos, ...photos];
+      await dispute.save({ transaction });
+      await this.recordEvent(dispute.id, 'evidence_added', actor, { message: note, attachments: photos }, transaction);
+    });
+
+    return { success: true, status: 201, message: 'Evidence added', code: 'DISPUTE_EVIDENCE_ADDED', dispute };
+  }
+
+  /**
+   * Assign a dispute to an admin (moves it under review)
+   * @param dispute - Dispute to assign
+   * @param adminId - Admin making the assignment
+   * @param assigneeId - Admin who will handle it
+   */
+  public static async assign(dispute: Dispute, adminId: string, assigneeId: string): Promise<DisputeResult> {
+    if (!dispute.isActive()) {
+      return { success: false, status: 409, message: 'This dispute has been resolved', code: 'DISPUTE_ALREADY_RESOLVED' };
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      const previousAssignee = dispute.assigned_to;
+
+      dispute.assigned_to = assigneeId;
+      dispute.assigned_at = new Date();
+      dispute.status = 'under_review';
+      this.markFirstResponse(dispute);
+      await dispute.save({ transaction });
+
+      await this.recordEvent(dispute.id, 'assigned', { id: adminId, role: 'admin' }, {
+        metadata: { assigned_to: assigneeId, previous_assignee: previousAssignee || null }
+      }, transaction);
+    });
+
+    return { success: true, status: 200, message: 'Dispute assigned', code: 'DISPUTE_ASSIGNED', dispute };
+  }
+
+  /**
+   * Add an admin-only comment
+   */
+  public static async addInternalComment(dispute: Dispute, adminId: string, comment: string): Promise<DisputeResult> {
+    await this.recordEvent(dispute.id, 'internal_comment', { id: adminId, role: 'admin' }, {
+      message: comment,
+      isInternal: true
+    });
+
+    return { success: true, status: 201, message: 'Comment added', code: 'DISPUTE_COMMENT_ADDED', dispute };
+  }
+
+  /**
+   * Split a released amount between worker and platform commission in the
+   * same proportion as booking.calculatePayments(), so a full release posts
+   * exactly what a normal approval would
+   */
+  private static splitRelease(booking: Booking, amountCentavos: number): { workerPayout: number; commission: number } {
+    const payments = booking.calculatePayments();
+    const commissionCentavos = payments.totalAmount > 0
+      ? Math.round(amountCentavos * payments.commission / payments.totalAmount)
+      : 0;
+    return {
+      workerPayout: toPesos(amountCentavos - commissionCentavos),
+      commission: toPesos(commissionCentavos)
+    };
+  }
+
+  /**
+   * Resolve a dispute and apply the outcome to the booking and escrow
+   *   full_refund       → escrow refunded to client, booking cancelled
+   *   partial_split     → client_refund_amount refunded, remainder released, booking paid
+   *   release_to_worker → escrow released to worker, booking paid
+   * @param disputeId - Dispute to resolve
+   * @param adminId - Admin deciding the outcome
+   * @returns Promise<DisputeResult>
+   */
+  public static async resolve(disputeId: string, adminId: string, input: ResolveDisputeInput): Promise<DisputeResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const dispute = await Dispute.findByPk(disputeId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!dispute) {
+        return { success: false, status: 404, message: 'Dispute not found', code: 'DISPUTE_NOT_FOUND' };
+      }
+
+      if (!dispute.isActive()) {
+        return { success: false, status: 409, message: 'This dispute has already been resolved', code: 'DISPUTE_ALREADY_RESOLVED', dispute };
+      }
+
+      const booking = await Booking.findByPk(dispute.booking_id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!booking || booking.status !== 'disputed') {
+        return { success: false, status: 409, message: 'Booking is no longer in dispute', code: 'BOOKING_NOT_DISPUTED', dispute };
+      }
+
+      const balances = await EscrowService.getBookingBalances(booking.id, transaction);
+      const escrowCentavos = toCentavos(balances.escrow);
+      const settlement: DisputeSettlement = { client_refund: 0, worker_payout: 0, platform_commission: 0 };
+      const reference = `dispute:${dispute.id}`;
+      const note = `Dispute resolved (${input.resolution}): ${input.notes}`;
+
+      switch (input.resolution) {
+        case 'full_refund':
+          if (escrowCentavos > 0) {
+            await PaymentGatewayService.refundToClient(booking, undefined, { createdBy: adminId, transaction });
+            settlement.client_refund = toPesos(escrowCentavos);
+          }
+          await booking.updateStatus('cancelled', 'admin', note, transaction);
+          break;
+
+        case 'partial_split': {
+          const refundCentavos = toCentavos(input.client_refund_amount || 0);
+          if (refundCentavos <= 0 || refundCentavos >= escrowCentavos) {
+            return {
+              success: false,
+              status: 400,
+              message: `Client refund must be between ₱0 and the escrow balance of ₱${balances.escrow}`,
+              code: 'INVALID_SPLIT_AMOUNT',
+              dispute
+            };
+          }
+
+          // Refund first so the final release empties escrow and marks it released
+          await PaymentGatewayService.refundToClient(booking, toPesos(refundCentavos), { createdBy: adminId, transaction });
+          const split = this.splitRelease(booking, escrowCentavos - refundCentavos);
+          await EscrowService.releaseFunds(booking, split, { reference, createdBy: adminId, transaction });
+
+          settlement.client_refund = toPesos(refundCentavos);
+          settlement.worker_payout = split.workerPayout;
+          settlement.platform_commission = split.commission;
+          await booking.updateStatus('paid', 'admin', note, transaction);
+          break;
+        }
+
+        case 'release_to_worker':
+          if (escrowCentavos > 0) {
+            const split = this.splitRelease(booking, escrowCentavos);
+            await EscrowService.releaseFunds(booking, split, { reference, createdBy: adminId, transaction });
+
+            settlement.worker_payout = split.workerPayout;
+            settlement.platform_commission = split.commission;
+            await booking.updateStatus('paid', 'admin', note, transaction);
+          } else {
+            // Nothing funded yet: treat the work as approved so the client pays normally
+            await booking.updateStatus('approved', 'admin', note, transaction);
+          }
+          break;
+      }
+
+      dispute.status = 'resolved';
+      dispute.resolution = input.resolution;
+      dispute.settlement = settlement;
+      dispute.resolution_notes = input.notes;
+      dispute.resolved_by = adminId;
+      dispute.resolved_at = new Date();
+      this.markFirstResponse(dispute);
+      if (dispute.resolved_at > new Date(dispute.resolution_due_at)) {
+        dispute.resolution_sla_breached = true;
+      }
+      await dispute.save({ transaction });
+
+      await this.recordEvent(dispute.id, 'resolved', { id: adminId, role: 'admin' }, {
+        message: input.notes,
+        metadata: { resolution: input.resolution, settlement, booking_status: booking.status, payment_status: booking.payment_status }
+      }, transaction);
+
+      console.log(`⚖️ Dispute ${dispute.id} resolved: ${input.resolution}`);
+
+      return { success: true, status: 200, message: 'Dispute resolved', code: 'DISPUTE_RESOLVED', dispute };
+    });
+  }
+
+  /**
+   * Flag disputes that missed their response or resolution SLA
+   * @returns Promise<{ response: number; resolution: number }> - Newly breached counts
+   */
+  public static async checkSlaBreaches(now: Date = new Date()): Promise<{ response: number; resolution: number }> {
+    const active = { status: { [Op.ne]: 'resolved' } };
+
+    const responseBreaches = await Dispute.findAll({
+      where: { ...active, first_response_at: null, response_sla_breached: false, response_due_at: { [Op.lt]: now } } as any
+    });
+    const resolutionBreaches = await Dispute.findAll({
+      where: { ...active, resolution_sla_breached: false, resolution_due_at: { [Op.lt]: now } } as any
+    });
+
+    for (const dispute of responseBreaches) {
+      dispute.response_sla_breached = true;
+      await dispute.save();
+      await this.recordEvent(dispute.id, 'sla_breached', { role: 'system' }, {
+        isInternal: true,
+        metadata: { sla: 'response', due_at: dispute.response_due_at }
+      });
+    }
+
+    for (const dispute of resolutionBreaches) {
+      dispute.resolution_sla_breached = true;
+      await dispute.save();
+      await this.recordEvent(dispute.id, 'sla_breached', { role: 'system' }, {
+        isInternal: true,
+        metadata: { sla: 'resolution', due_at: dispute.resolution_due_at }
+      });
+    }
+
+    if (responseBreaches.length + resolutionBreaches.length > 0) {
+      console.warn(`⏰ Dispute SLA breaches: ${responseBreaches.length} response, ${resolutionBreaches.length} resolution`);
+    }
+
+    return { response: responseBreaches.length, resolution: resolutionBreaches.length };
+  }
+
+  /**
+   * Start the recurring SLA check (every DISPUTE_SLA_CHECK_MINUTES, default 15)
+   */
+  public static startSlaMonitor(): NodeJS.Timeout {
+    const intervalMinutes = Number(process.env.DISPUTE_SLA_CHECK_MINUTES || 15);
+
+    const timer = setInterval(async () => {
+      try {
+        await this.checkSlaBreaches();
+      } catch (error) {
+        console.error('❌ Dispute SLA check failed:', error);
+      }
+    }, intervalMinutes * 60 * 1000);
+    timer.unref();
+
+    console.log(`⏰ Dispute SLA monitor running every ${intervalMinutes}m`);
+    return timer;
+  }
+}
+
+export default DisputeService;
@@ -264,112 +264,21 @@ export class EmailService {
   }
 
   /**
-   * Send welcome email content (placeholder for actual email service)
-   * @param user - User object
+   * Link for the welcome / verification email
    * @param verificationToken - Email verification token
-   * @returns WelcomeEmailContent
    */
-  public static generateWelcomeEmailContent(user: any, verificationToken: string): {
-    subject: string;
-    htmlContent: string;
-    textContent: string;
-    verificationLink: string;
-  } {
+  public static getEmailVerificationLink(verificationToken: string): string {
     const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    const verificationLink = `${baseUrl}/verify-email?token=${verificationToken}`;
-
-    const subject = `Welcome to HelpQo! Please verify your email`;
-
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <title>Welcome to HelpQo</title>
-      </head>
-      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
-        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h1 style="color: #2563eb;">Welcome to HelpQo, ${user.first_name}!</h1>
-          
-          <p>Thank you for joining HelpQo, the Philippines' trusted marketplace for skilled professionals.</p>
-          
-          <p>To complete your registration as a <strong>${user.role}</strong>, please verify your email address:</p>
-          
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${verificationLink}" 
-               style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
-              Verify Email Address
-            </a>
-          </div>
-          
-          <p>Or copy and paste this link in your browser:</p>
-          <p style="word-break: break-all; background-color: #f3f4f6; padding: 10px; border-radius: 5px;">
-            ${verificationLink}
-          </p>
-          
-          <h3>What's Next?</h3>
-          <ul>
-            ${user.role === 'worker' ? `
-              <li>Complete your worker profile with skills and experience</li>
-              <li>Upload your portfolio and set your rates</li>
-              <li>Submit NBI clearance for verification</li>
-              <li>Start receiving job opportunities!</li>
-            ` : `
-              <li>Complete your profile information</li>
-              <li>Browse skilled professionals in your area</li>
-              <li>Post your first job request</li>
-              <li>Experience secure, quality service!</li>
-            `}
-          </ul>
-          
-          <p style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 14px;">
-            If you didn't create this account, please ignore this email.<br>
-            Need help? Contact us at support@helpqo.ph
-          </p>
-          
-          <p style="color: #6b7280; font-size: 14px;">
-            Best regards,<br>
-            The HelpQo Team
-          </p>
-        </div>
-      </body>
-      </html>
-    `;
-
-    const textContent = `
-      Welcome to HelpQo, ${user.first_name}!
-      
-      Thank you for joining HelpQo, the Philippines' trusted marketplace for skilled professionals.
-      
-      To complete your registration as a ${user.role}, please verify your email address by visiting:
-      ${verificationLink}
-      
-      What's Next?
-      ${user.role === 'worker' ? `
-      - Complete your worker profile with skills and experience
-      - Upload your portfolio and set your rates  
-      - Submit NBI clearance for verification
-      - Start receiving job opportunities!
-      ` : `
-      - Complete your profile information
-      - Browse skilled professionals in your area
-      - Post your first job request
-      - Experience secure, quality service!
-      `}
-      
-      If you didn't create this account, please ignore this email.
-      Need help? Contact us at support@helpqo.ph
-      
-      Best regards,
-      The HelpQo Team
-    `;
-
-    return {
-      subject,
-      htmlContent,
-      textContent,
-      verificationLink
-    };
+    return `${baseUrl}/verify-email?token=${verificationToken}`;
+  }
+
+  /**
+   * Link for the password reset email / SMS
+   * @param resetToken - Plain reset token (only its hash is stored)
+   */
+  public static getPasswordResetLink(resetToken: string): string {
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    return `${baseUrl}/reset-password?token=${resetToken}`;
   }
 }
 
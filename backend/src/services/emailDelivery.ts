@@ -0,0 +1,293 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import EmailMessage, { EmailStatus, EmailTemplateName } from '../models/EmailMessage';
+import EmailSuppression, { EmailSuppressionReason } from '../models/EmailSuppression';
+import { EmailTemplateDataMap, renderEmailTemplate } from './emailTemplates';
+import { EmailSendError, getEmailTransport } from './emailTransports';
+
+/**
+ * Email Delivery Service
+ * Renders a registered template, sends it through the configured transport
+ * and logs the outcome. Bounce and complaint reports mark addresses
+ * undeliverable; nothing is sent to a suppressed address until an admin
+ * lifts the suppression.
+ */
+
+export interface EmailSendInput<T extends EmailTemplateName> {
+  to: string;
+  template: T;
+  data: EmailTemplateDataMap[T];
+  userId?: string;
+}
+
+export interface EmailSendOutcome {
+  success: boolean;
+  message_id: string;
+  status: EmailStatus;
+  error?: string;
+}
+
+// Bounce/complaint report, normalized by whatever relays the provider's notifications
+export interface EmailDeliveryEvent {
+  type: 'delivery' | 'bounce' | 'complaint';
+  email: string;
+  bounce_type?: 'hard' | 'soft';
+  message_id?: string;            // Message-ID header of the original message
+  reason?: string;
+}
+
+export class EmailEventVerificationError extends Error {
+  public readonly status = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailEventVerificationError';
+  }
+}
+
+// Soft bounces in a row before an address is suppressed
+const SOFT_BOUNCE_LIMIT = Number(process.env.EMAIL_SOFT_BOUNCE_LIMIT || 3);
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export class EmailDeliveryService {
+
+  /**
+   * Render and send a template
+   */
+  public static async send<T extends EmailTemplateName>(input: EmailSendInput<T>): Promise<EmailSendOutcome> {
+    const to = normalizeEmail(input.to);
+    const content = renderEmailTemplate(input.template, input.data);
+
+    const message = await EmailMessage.create({
+      user_id: input.userId,
+      to,
+      template: input.template,
+      subject: content.subject,
+      status: 'queued'
+    } as any);
+
+    if (await this.isSuppressed(to)) {
+      message.status = 'suppressed';
+      await message.save();
+
+      console.warn(`⚠️ Email ${message.id} (${input.template}) not sent: ${to} is suppressed`);
+      return { success: false, message_id: message.id, status: 'suppressed', error: 'Address is marked undeliverable' };
+    }
+
+    const transport = getEmailTransport();
+    message.transport = transport.name;
+
+    if (!transport.isConfigured()) {
+      message.status = 'failed';
+      message.failure_reason = `Email transport ${transport.name} is not configured`;
+      await message.save();
+
+      console.error(`❌ Email ${message.id} not sent: ${message.failure_reason}`);
+      return { success: false, message_id: message.id, status: 'failed', error: message.failure_reason };
+    }
+
+    try {
+      const result = await transport.send({
+        to,
+        subject: content.subject,
+        html: content.htmlContent,
+        text: content.textContent,
+        headers: { 'X-HelpQo-Message-Id': message.id }
+      });
+
+      message.status = 'sent';
+      message.provider_message_id = result.providerMessageId;
+      message.sent_at = new Date();
+      await message.save();
+
+      console.log(`📧 Email ${message.id} (${input.template}) sent to ${to} via ${transport.name}`);
+      return { success: true, message_id: message.id, status: 'sent' };
+
+    } catch (error: any) {
+      message.status = 'failed';
+      message.failure_reason = String(error.message).slice(0, 500);
+      await message.save();
+
+      // The relay rejected the recipient outright: treat it as a hard bounce
+      if (error instanceof EmailSendError && error.permanent) {
+        await this.recordBounce(to, 'hard', error.message);
+      }
+
+      console.error(`❌ Email ${message.id} (${input.template}) to ${to} failed: ${error.message}`);
+      return { success: false, message_id: message.id, status: 'failed', error: message.failure_reason };
+    }
+  }
+
+  /**
+   * Send without making the caller wait (notifications that shouldn't fail a request)
+   */
+  public static sendInBackground<T extends EmailTemplateName>(input: EmailSendInput<T>): void {
+    this.send(input).catch(error => {
+      console.error(`❌ Background email (${input.template}) error:`, error);
+    });
+  }
+
+  /**
+   * Check if an address is marked undeliverable
+   */
+  public static async isSuppressed(email: string): Promise<boolean> {
+    const suppression = await EmailSuppression.findOne({ where: { email: normalizeEmail(email) } });
+    return !!suppression?.isSuppressed();
+  }
+
+  /**
+   * Verify a signed event callback: X-HelpQo-Signature is the hex
+   * HMAC-SHA256 of the raw body with EMAIL_EVENTS_SECRET
+   * @throws EmailEventVerificationError
+   */
+  public static verifyEventSignature(rawBody: string, signature?: string): void {
+    const secret = process.env.EMAIL_EVENTS_SECRET;
+    if (!secret) {
+      throw new EmailEventVerificationError('Email event callbacks are not configured');
+    }
+    if (!signature) {
+      throw new EmailEventVerificationError('Missing event signature');
+    }
+
+    const expected = Buffer.from(crypto.createHmac('sha256', secret).update(rawBody).digest('hex'), 'hex');
+    const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new EmailEventVerificationError('Invalid event signature');
+    }
+  }
+
+  /**
+   * Apply a delivery, bounce or complaint report
+   */
+  public static async handleEvent(event: EmailDeliveryEvent): Promise<void> {
+    const email = normalizeEmail(event.email);
+
+    if (event.message_id) {
+      const status: EmailStatus | null = event.type === 'bounce'
+        ? (event.bounce_type === 'soft' ? null : 'bounced')
+        : event.type === 'complaint' ? 'complained' : null;
+
+      if (status) {
+        await EmailMessage.update(
+          { status, failure_reason: event.reason?.slice(0, 500) },
+          { where: { provider_message_id: event.message_id, to: email } }
+        );
+      }
+    }
+
+    if (event.type === 'bounce') {
+      await this.recordBounce(email, event.bounce_type || 'hard', event.reason);
+    } else if (event.type === 'complaint') {
+      await this.suppress(email, 'complaint', event.reason);
+    } else {
+      // A successful delivery ends a run of soft bounces
+      await EmailSuppression.update(
+        { soft_bounce_count: 0 },
+        { where: { email, suppressed_at: null as any, soft_bounce_count: { [Op.gt]: 0 } } }
+      );
+    }
+  }
+
+  /**
+   * Count a bounce; hard bounces suppress at once, soft ones after SOFT_BOUNCE_LIMIT in a row
+   */
+  public static async recordBounce(email: string, bounceType: 'hard' | 'soft', reason?: string): Promise<void> {
+    if (bounceType === 'hard') {
+      await this.suppress(email, 'hard_bounce', reason);
+      return;
+    }
+
+    const [suppression] = await EmailSuppression.findOrCreate({
+      where: { email: normalizeEmail(email) },
+      defaults: { email: normalizeEmail(email) } as any
+    });
+    if (suppression.isSuppressed()) return;
+
+    suppression.soft_bounce_count += 1;
+    suppression.details = reason?.slice(0, 500);
+    suppression.last_event_at = new Date();
+
+    if (suppression.soft_bounce_count >= SOFT_BOUNCE_LIMIT) {
+      suppression.reason = 'soft_bounce';
+      suppression.suppressed_at = new Date();
+      console.warn(`🚫 ${suppression.email} suppressed after ${suppression.soft_bounce_count} soft bounces`);
+    }
+
+    await suppression.save();
+  }
+
+  /**
+   * Mark an address undeliverable
+   */
+  public static async suppress(email: string, reason: EmailSuppressionReason, details?: string): Promise<EmailSuppression> {
+    const [suppression] = await EmailSuppression.findOrCreate({
+      where: { email: normalizeEmail(email) },
+      defaults: { email: normalizeEmail(email) } as any
+    });
+
+    suppression.reason = reason;
+    suppression.details = details?.slice(0, 500);
+    suppression.last_event_at = new Date();
+    if (!suppression.suppressed_at) suppression.suppressed_at = new Date();
+    await suppression.save();
+
+    console.warn(`🚫 ${suppression.email} suppressed (${reason})`);
+    return suppression;
+  }
+
+  /**
+   * Allow mail to an address again (admin)
+   * @returns boolean - false when the address wasn't suppressed
+   */
+  public static async liftSuppression(email: string, liftedBy: string): Promise<boolean> {
+    const removed = await EmailSuppression.destroy({ where: { email: normalizeEmail(email) } });
+    if (removed > 0) {
+      console.log(`✅ Email suppression lifted for ${normalizeEmail(email)} by ${liftedBy}`);
+    }
+    return removed > 0;
+  }
+
+  /**
+   * Suppressed addresses, most recent first (admin)
+   */
+  public static async listSuppressions(
+    filters: { email?: string; reason?: EmailSuppressionReason },
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ rows: EmailSuppression[]; count: number }> {
+    const where: any = { suppressed_at: { [Op.ne]: null } };
+    if (filters.email) where.email = normalizeEmail(filters.email);
+    if (filters.reason) where.reason = filters.reason;
+
+    return await EmailSuppression.findAndCountAll({
+      where,
+      order: [['suppressed_at', 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+  }
+
+  /**
+   * Sent emails, newest first (admin)
+   */
+  public static async listMessages(
+    filters: { to?: string; status?: EmailStatus; template?: EmailTemplateName },
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ rows: EmailMessage[]; count: number }> {
+    const where: any = {};
+    if (filters.to) where.to = normalizeEmail(filters.to);
+    if (filters.status) where.status = filters.status;
+    if (filters.template) where.template = filters.template;
+
+    return await EmailMessage.findAndCountAll({
+      where,
+      order: [['created_at', 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+  }
+}
+
+export default EmailDeliveryService;
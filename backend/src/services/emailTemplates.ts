@@ -0,0 +1,501 @@
+import { EMAIL_TEMPLATES, EmailTemplateName } from '../models/EmailMessage';
+
+/**
+ * Email Template Registry
+ * Every transactional email has a subject, an HTML body and a plain-text
+ * body, rendered from typed data. Bodies share one layout and footer.
+ * Each template also carries sample data so the development preview can
+ * render it without a database.
+ */
+
+export interface EmailContent {
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+}
+
+// Preview recipients come in both marketplace roles
+export const EMAIL_PREVIEW_ROLES = ['client', 'worker'] as const;
+
+export type EmailPreviewRole = typeof EMAIL_PREVIEW_ROLES[number];
+
+export interface EmailRecipient {
+  first_name: string;
+  role?: string;
+}
+
+// Data each template renders from
+export interface EmailTemplateDataMap {
+  welcome: { user: EmailRecipient; verificationLink: string };
+  email_verification: { user: EmailRecipient; verificationLink: string; expiresAt: Date };
+  password_reset: { user: EmailRecipient; resetLink: string; expiresAt: Date };
+  account_locked: { user: EmailRecipient; lockedUntil: Date; ipAddress?: string };
+  new_device_login: {
+    user: EmailRecipient;
+    device: string;
+    location?: string;
+    ip_address?: string;
+    logged_in_at: Date;
+  };
+  booking_accepted: {
+    user: EmailRecipient;
+    clientName: string;
+    jobTitle: string;
+    bookingId: string;
+    scheduledStart?: Date;
+  };
+  payment_released: {
+    user: EmailRecipient;
+    jobTitle: string;
+    bookingId: string;
+    amount: number;
+  };
+  review_received: {
+    user: EmailRecipient;
+    reviewerName: string;
+    jobTitle: string;
+    bookingId: string;
+    publishedNow: boolean;       // false while the review is blind
+  };
+  nbi_clearance_approved: { user: EmailRecipient; expiresOn: string };
+  nbi_clearance_rejected: { user: EmailRecipient; reasons: string[]; notes?: string };
+  nbi_clearance_expiring: { user: EmailRecipient; expiresOn: string; daysLeft: number };
+  nbi_clearance_expired: { user: EmailRecipient; expiredOn: string; flaggedBookings: number };
+}
+
+interface EmailTemplate<T extends EmailTemplateName> {
+  description: string;
+  subject(data: EmailTemplateDataMap[T]): string;
+  html(data: EmailTemplateDataMap[T]): string;
+  text(data: EmailTemplateDataMap[T]): string;
+  sample(role: EmailPreviewRole): EmailTemplateDataMap[T];
+}
+
+const SUPPORT_EMAIL = 'support@helpqo.ph';
+
+const frontendUrl = (path: string) => `${process.env.FRONTEND_URL || 'http://localhost:3000'}${path}`;
+
+// Everything interpolated into HTML goes through this (names and job titles are user input)
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatManilaTime = (date: Date) => date.toLocaleString('en-PH', { timeZone: 'Asia/Manila' });
+
+const formatPesos = (amount: number) =>
+  `₱${amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const button = (link: string, label: string) => `
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="${escapeHtml(link)}"
+       style="background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+      ${escapeHtml(label)}
+    </a>
+  </div>`;
+
+const sampleUser = (role: EmailPreviewRole): EmailRecipient => ({
+  first_name: role === 'worker' ? 'Maria' : 'Juan',
+  role
+});
+
+const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+const WORKER_NEXT_STEPS = [
+  'Complete your worker profile with skills and experience',
+  'Upload your portfolio and set your rates',
+  'Submit NBI clearance for verification',
+  'Start receiving job opportunities!'
+];
+
+const CLIENT_NEXT_STEPS = [
+  'Complete your profile information',
+  'Browse skilled professionals in your area',
+  'Post your first job request',
+  'Experience secure, quality service!'
+];
+
+const describeLocation = (location?: string, ipAddress?: string) =>
+  [location, ipAddress].filter(Boolean).join(' · ') || 'Unknown location';
+
+const TEMPLATES: { [T in EmailTemplateName]: EmailTemplate<T> } = {
+  welcome: {
+    description: 'Sent after registration, with the email verification link',
+    subject: () => 'Welcome to HelpQo! Please verify your email',
+    html: ({ user, verificationLink }) => `
+      <h1 style="color: #2563eb;">Welcome to HelpQo, ${escapeHtml(user.first_name)}!</h1>
+      <p>Thank you for joining HelpQo, the Philippines' trusted marketplace for skilled professionals.</p>
+      <p>To complete your registration as a <strong>${escapeHtml(user.role || 'member')}</strong>, please verify your email address:</p>
+      ${button(verificationLink, 'Verify Email Address')}
+      <p>Or copy and paste this link in your browser:</p>
+      <p style="word-break: break-all; background-color: #f3f4f6; padding: 10px; border-radius: 5px;">${escapeHtml(verificationLink)}</p>
+      <h3>What's Next?</h3>
+      <ul>
+        ${(user.role === 'worker' ? WORKER_NEXT_STEPS : CLIENT_NEXT_STEPS).map(step => `<li>${step}</li>`).join('\n        ')}
+      </ul>
+      <p style="color: #6b7280; font-size: 14px;">If you didn't create this account, please ignore this email.</p>`,
+    text: ({ user, verificationLink }) => [
+      `Welcome to HelpQo, ${user.first_name}!`,
+      '',
+      "Thank you for joining HelpQo, the Philippines' trusted marketplace for skilled professionals.",
+      '',
+      `To complete your registration as a ${user.role || 'member'}, please verify your email address by visiting:`,
+      verificationLink,
+      '',
+      "What's Next?",
+      ...(user.role === 'worker' ? WORKER_NEXT_STEPS : CLIENT_NEXT_STEPS).map(step => `- ${step}`),
+      '',
+      "If you didn't create this account, please ignore this email."
+    ].join('\n'),
+    sample: (role) => ({
+      user: sampleUser(role),
+      verificationLink: frontendUrl('/verify-email?token=preview-verification-token-1234567890abcdef')
+    })
+  },
+
+  email_verification: {
+    description: 'Email address verification link (resends and address changes)',
+    subject: () => 'Verify your HelpQo email address',
+    html: ({ user, verificationLink, expiresAt }) => `
+      <h1 style="color: #2563eb;">Hi ${escapeHtml(user.first_name)},</h1>
+      <p>Please confirm this is your email address so we can send you booking and payment updates.</p>
+      ${button(verificationLink, 'Verify Email Address')}
+      <p>This link expires on ${formatManilaTime(expiresAt)}.</p>
+      <p style="color: #6b7280; font-size: 14px;">If you didn't ask for this, you can ignore this email.</p>`,
+    text: ({ user, verificationLink, expiresAt }) => [
+      `Hi ${user.first_name},`,
+      '',
+      'Please confirm this is your email address so we can send you booking and payment updates:',
+      verificationLink,
+      '',
+      `This link expires on ${formatManilaTime(expiresAt)}.`,
+      '',
+      "If you didn't ask for this, you can ignore this email."
+    ].join('\n'),
+    sample: (role) => ({
+      user: sampleUser(role),
+      verificationLink: frontendUrl('/verify-email?token=preview-token&email=preview%40example.com'),
+      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+    })
+  },
+
+  password_reset: {
+    description: 'Single-use password reset link',
+    subject: () => 'Reset your HelpQo password',
+    html: ({ user, resetLink, expiresAt }) => `
+      <h1 style="color: #2563eb;">Hi ${escapeHtml(user.first_name)},</h1>
+      <p>We received a request to reset the password for your HelpQo account.</p>
+      ${button(resetLink, 'Reset Password')}
+      <p>This link can be used once and expires on ${formatManilaTime(expiresAt)}. Resetting your password signs you out of all devices.</p>
+      <p style="color: #6b7280; font-size: 14px;">If you didn't ask for this, you can ignore this email; your password won't change.</p>`,
+    text: ({ user, resetLink, expiresAt }) => [
+      `Hi ${user.first_name},`,
+      '',
+      'We received a request to reset the password for your HelpQo account.',
+      `Reset it here: ${resetLink}`,
+      '',
+      `This link can be used once and expires on ${formatManilaTime(expiresAt)}. Resetting your password signs you out of all devices.`,
+      '',
+      "If you didn't ask for this, you can ignore this email; your password won't change."
+    ].join('\n'),
+    sample: (role) => ({
+      user: sampleUser(role),
+      resetLink: frontendUrl('/reset-password?token=preview-reset-token'),
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000)
+    })
+  },
+
+  account_locked: {
+    description: 'Login lockout after repeated failed attempts',
+    subject: () => 'Your HelpQo account was temporarily locked',
+    html: ({ user, lockedUntil, ipAddress }) => `
+      <h1 style="color: #2563eb;">Hi ${escapeHtml(user.first_name)},</h1>
+      <p>There were too many failed login attempts on your account${ipAddress ? ` (last attempt from ${escapeHtml(ipAddress)})` : ''}, so we locked it until <strong>${formatManilaTime(lockedUntil)}</strong>.</p>
+      <p>If this wasn't you, someone may know your email or mobile number. We recommend <a href="${escapeHtml(frontendUrl('/forgot-password'))}">resetting your password</a>.</p>`,
+    text: ({ user, lockedUntil, ipAddress }) => [
+      `Hi ${user.first_name},`,
+      '',
+      `There were too many failed login attempts on your account${ipAddress ? ` (last attempt from ${ipAddress})` : ''}, so we locked it until ${formatManilaTime(lockedUntil)}.`,
+      '',
+      `If this wasn't you, someone may know your email or mobile number. We recommend resetting your password: ${frontendUrl('/forgot-password')}`
+    ].join('\n'),
+    sample: (role) => ({
+      user: sampleUser(role),
+      lockedUntil: inOneHour(),
+      ipAddress: '203.0.113.24'
+    })
+  },
+
+  new_device_login: {
+    description: 'Login from a device not seen on the account before',
+    subject: () => 'New login to your HelpQo account',
+    html: ({ user, device, location, ip_address, logged_in_at }) => `
+      <h1 style="color: #2563eb;">Hi ${escapeHtml(user.first_name)},</h1>
+      <p>Your account was just used to log in on a device we haven't seen before:</p>
+      <ul>
+        <li><strong>Device:</strong> ${escapeHtml(device)}</li>
+        <li><strong>Location:</strong> ${escapeHtml(describeLocation(location, ip_address))}</li>
+        <li><strong>Time:</strong> ${formatManilaTime(logged_in_at)}</li>
+      </ul>
+      <p>If this was you, there's nothing to do. If not, <a href="${escapeHtml(frontendUrl('/settings/sessions'))}">end that session</a> and change your password right away.</p>`,
+    text: ({ user, device, location, ip_address, logged_in_at }) => [
+      `Hi ${user.first_name},`,
+      '',
+      "Your account was just used to log in on a device we haven't seen before:",
+      '',
+      `Device: ${device}`,
+      `Location: ${describeLocation(location, ip_address)}`,
+      `Time: ${formatManilaTime(logged_in_at)}`,
+      '',
+      `If this was you, there's nothing to do. If not, end that session and change your password right away: ${frontendUrl('/settings/sessions')}`
+    ].join('\n'),
+    sample: (role) => ({
+      user: sampleUser(role),
+      device: 'Chrome on Android',
+      location: 'Quezon City, PH',
+      ip_address: '203.0.113.24',
+      logged_in_at: new Date()
+    })
+  },
+
+  booking_accepted: {
+    description: "Worker's application was accepted by the client",
+    subject: ({ jobTitle }) => `You're booked: ${jobTitle}`,
+    html: ({ user, clientName, jobTitle, bookingId, scheduledStart }) => `
+      <h1 style="color: #2563eb;">Good news, ${escapeHtml(user.first_name)}!</h1>
+      <p>${escapeHtml(clientName)} accepted your application for <strong>${escapeHtml(jobTitle)}</strong>.</p>
+      ${scheduledStart
+        ? `<p>The work is scheduled to start on <strong>${formatManilaTime(scheduledStart)}</strong>.</p>`
+        : '<p>Agree on a schedule with the client in the booking.</p>'}
+      ${button(frontendUrl(`/bookings/${bookingId}`), 'View Booking')}
+      <p>Payment is held in escrow and released to you once the client approves the completed work.</p>`,
+    text: ({ user, clientName, jobTitle, bookingId, scheduledStart }) => [
+      `Good news, ${user.first_name}!`,
+      '',
+      `${clientName} accepted your application for "${jobTitle}".`,
+      scheduledStart
+        ? `The work is scheduled to start on ${formatManilaTime(scheduledStart)}.`
+        : 'Agree on a schedule with the client in the booking.',
+      '',
+      `View the booking: ${frontendUrl(`/bookings/${bookingId}`)}`,
+      '',
+      'Payment is held in escrow and released to you once the client approves the completed work.'
+    ].join('\n'),
+    sample: () => ({
+      user: sampleUser('worker'),
+      clientName: 'Juan D.',
+      jobTitle: 'Fix leaking kitchen faucet',
+      bookingId: 'preview-booking-id',
+      scheduledStart: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)
+    })
+  },
+
+  payment_released: {
+    description: 'Escrow released to the worker after the client approved the work',
+    subject: ({ amount }) => `${formatPesos(amount)} released to you`,
+    html: ({ user, jobTitle, bookingId, amount }) => `
+      <h1 style="color: #2563eb;">Payment released, ${escapeHtml(user.first_name)}!</h1>
+      <p>The client approved your work on <strong>${escapeHtml(jobTitle)}</strong> and <strong>${formatPesos(amount)}</strong> (after the platform commission) was released to your earnings.</p>
+      <p>It will be included in your next payout.</p>
+      ${button(frontendUrl(`/bookings/${bookingId}`), 'View Booking')}`,
+    text: ({ user, jobTitle, bookingId, amount }) => [
+      `Payment released, ${user.first_name}!`,
+      '',
+      `The client approved your work on "${jobTitle}" and ${formatPesos(amount)} (after the platform commission) was released to your earnings.`,
+      'It will be included in your next payout.',
+      '',
+      `View the booking: ${frontendUrl(`/bookings/${bookingId}`)}`
+    ].join('\n'),
+    sample: () => ({
+      user: sampleUser('worker'),
+      jobTitle: 'Fix leaking kitchen faucet',
+      bookingId: 'preview-booking-id',
+      amount: 1275
+    })
+  },
+
+  review_received: {
+    description: 'The other party reviewed a booking',
+    subject: ({ reviewerName }) => `${reviewerName} left you a review`,
+    html: ({ user, reviewerName, jobTitle, bookingId, publishedNow }) => `
+      <h1 style="color: #2563eb;">Hi ${escapeHtml(user.first_name)},</h1>
+      <p>${escapeHtml(reviewerName)} reviewed you for <strong>${escapeHtml(jobTitle)}</strong>.</p>
+      ${publishedNow
+        ? '<p>Both reviews are now published on your profiles.</p>'
+        : "<p>Reviews stay hidden until you both review each other or the review window closes, so leave yours to see what they wrote.</p>"}
+      ${button(frontendUrl(`/bookings/${bookingId}/review`), publishedNow ? 'Read Review' : 'Leave Your Review')}`,
+    text: ({ user, reviewerName, jobTitle, bookingId, publishedNow }) => [
+      `Hi ${user.first_name},`,
+      '',
+      `${reviewerName} reviewed you for "${jobTitle}".`,
+      publishedNow
+        ? 'Both reviews are now published on your profiles.'
+        : 'Reviews stay hidden until you both review each other or the review window closes, so leave yours to see what they wrote.',
+      '',
+      frontendUrl(`/bookings/${bookingId}/review`)
+    ].join('\n'),
+    sample: (role) => ({
+      user: sampleUser(role),
+      reviewerName: role === 'worker' ? 'Juan D.' : 'Maria S.',
+      jobTitle: 'Fix leaking kitchen faucet',
+      bookingId: 'preview-booking-id',
+      publishedNow: false
+    })
+  },
+
+  nbi_clearance_approved: {
+    description: "Admin verified the worker's NBI clearance",
+    subject: () => 'Your NBI clearance is verified',
+    html: ({ user, expiresOn }) => `
+      <h1 style="color: #2563eb;">You're verified, ${escapeHtml(user.first_name)}!</h1>
+      <p>We checked your NBI clearance and it's approved. Clients now see the NBI verified badge on your profile.</p>
+      <p>Your clearance is valid until <strong>${escapeHtml(expiresOn)}</strong>. We'll remind you before it expires so you can submit a renewed one.</p>
+      ${button(frontendUrl('/jobs'), 'Find Jobs')}`,
+    text: ({ user, expiresOn }) => [
+      `You're verified, ${user.first_name}!`,
+      '',
+      "We checked your NBI clearance and it's approved. Clients now see the NBI verified badge on your profile.",
+      '',
+      `Your clearance is valid until ${expiresOn}. We'll remind you before it expires so you can submit a renewed one.`,
+      '',
+      `Find jobs: ${frontendUrl('/jobs')}`
+    ].join('\n'),
+    sample: () => ({
+      user: sampleUser('worker'),
+      expiresOn: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+    })
+  },
+
+  nbi_clearance_rejected: {
+    description: "Admin couldn't verify the worker's NBI clearance",
+    subject: () => "We couldn't verify your NBI clearance",
+    html: ({ user, reasons, notes }) => `
+      <h1 style="color: #2563eb;">Hi ${escapeHtml(user.first_name)},</h1>
+      <p>We reviewed the NBI clearance you submitted but couldn't approve it:</p>
+      <ul>
+        ${reasons.map(reason => `<li>${escapeHtml(reason)}</li>`).join('\n        ')}
+      </ul>
+      ${notes ? `<p><strong>Reviewer's note:</strong> ${escapeHtml(notes)}</p>` : ''}
+      <p>You can submit your clearance again once the issue is fixed.</p>
+      ${button(frontendUrl('/profile/nbi-clearance'), 'Submit Again')}`,
+    text: ({ user, reasons, notes }) => [
+      `Hi ${user.first_name},`,
+      '',
+      "We reviewed the NBI clearance you submitted but couldn't approve it:",
+      ...reasons.map(reason => `- ${reason}`),
+      ...(notes ? ['', `Reviewer's note: ${notes}`] : []),
+      '',
+      `You can submit your clearance again once the issue is fixed: ${frontendUrl('/profile/nbi-clearance')}`
+    ].join('\n'),
+    sample: () => ({
+      user: sampleUser('worker'),
+      reasons: ['The scan is too blurry to read'],
+      notes: 'Please retake the photo in good light with all four corners visible.'
+    })
+  },
+
+  nbi_clearance_expiring: {
+    description: 'Reminder 30, 14 and 3 days before the NBI clearance expires',
+    subject: ({ daysLeft }) => daysLeft === 0
+      ? 'Your NBI clearance expires today'
+      : `Your NBI clearance expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`,
+    html: ({ user, expiresOn }) => `
+      <h1 style="color: #2563eb;">Hi ${escapeHtml(user.first_name)},</h1>
+      <p>Your NBI clearance is valid until <strong>${escapeHtml(expiresOn)}</strong>.</p>
+      <p>Once it expires you won't appear in job searches and can't apply for new jobs until we've verified a renewed clearance. You can renew online through the NBI Clearance website and submit it here.</p>
+      ${button(frontendUrl('/profile/nbi-clearance'), 'Submit Renewed Clearance')}`,
+    text: ({ user, expiresOn }) => [
+      `Hi ${user.first_name},`,
+      '',
+      `Your NBI clearance is valid until ${expiresOn}.`,
+      '',
+      "Once it expires you won't appear in job searches and can't apply for new jobs until we've verified a renewed clearance. You can renew online through the NBI Clearance website and submit it here:",
+      frontendUrl('/profile/nbi-clearance')
+    ].join('\n'),
+    sample: () => ({
+      user: sampleUser('worker'),
+      expiresOn: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+      daysLeft: 14
+    })
+  },
+
+  nbi_clearance_expired: {
+    description: "The worker's NBI clearance expired and they were removed from job search",
+    subject: () => 'Your NBI clearance has expired',
+    html: ({ user, expiredOn, flaggedBookings }) => `
+      <h1 style="color: #2563eb;">Hi ${escapeHtml(user.first_name)},</h1>
+      <p>Your NBI clearance expired on <strong>${escapeHtml(expiredOn)}</strong>. Until we verify a renewed clearance, you won't appear in job searches and can't apply for new jobs. Your pending applications were withdrawn.</p>
+      ${flaggedBookings > 0 ? `<p>Our team will contact you about your ${flaggedBookings} active booking${flaggedBookings === 1 ? '' : 's'}.</p>` : ''}
+      ${button(frontendUrl('/profile/nbi-clearance'), 'Submit Renewed Clearance')}`,
+    text: ({ user, expiredOn, flaggedBookings }) => [
+      `Hi ${user.first_name},`,
+      '',
+      `Your NBI clearance expired on ${expiredOn}. Until we verify a renewed clearance, you won't appear in job searches and can't apply for new jobs. Your pending applications were withdrawn.`,
+      ...(flaggedBookings > 0
+        ? ['', `Our team will contact you about your ${flaggedBookings} active booking${flaggedBookings === 1 ? '' : 's'}.`]
+        : []),
+      '',
+      `Submit your renewed clearance: ${frontendUrl('/profile/nbi-clearance')}`
+    ].join('\n'),
+    sample: () => ({
+      user: sampleUser('worker'),
+      expiredOn: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+      flaggedBookings: 1
+    })
+  }
+};
+
+const wrapHtml = (subject: string, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    ${body.trim()}
+    <p style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 14px;">
+      Need help? Contact us at ${SUPPORT_EMAIL}<br>
+      Best regards,<br>
+      The HelpQo Team
+    </p>
+  </div>
+</body>
+</html>`;
+
+const wrapText = (body: string) =>
+  `${body}\n\nNeed help? Contact us at ${SUPPORT_EMAIL}\n\nBest regards,\nThe HelpQo Team\n`;
+
+/**
+ * Render a template's subject, HTML and text
+ */
+export const renderEmailTemplate = <T extends EmailTemplateName>(
+  name: T,
+  data: EmailTemplateDataMap[T]
+): EmailContent => {
+  const template = TEMPLATES[name] as EmailTemplate<T>;
+  const subject = template.subject(data);
+
+  return {
+    subject,
+    htmlContent: wrapHtml(subject, template.html(data)),
+    textContent: wrapText(template.text(data))
+  };
+};
+
+/**
+ * Sample data for previewing a template
+ */
+export const getEmailTemplateSample = <T extends EmailTemplateName>(name: T, role: EmailPreviewRole): EmailTemplateDataMap[T] =>
+  (TEMPLATES[name] as EmailTemplate<T>).sample(role);
+
+/**
+ * Registered templates with their descriptions
+ */
+export const listEmailTemplates = (): Array<{ name: EmailTemplateName; description: string }> =>
+  EMAIL_TEMPLATES.map(name => ({ name, description: TEMPLATES[name].description }));
+
+export const isEmailTemplateName = (value: string): value is EmailTemplateName =>
+  (EMAIL_TEMPLATES as readonly string[]).includes(value);
@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { EmailTransportName } from '../models/EmailMessage';
+
+/**
+ * Email Transport Abstraction
+ * SMTP delivers through the configured relay (SES, SendGrid, Postmark, ...
+ * all speak SMTP). The outbox transport writes each message as a file in
+ * a local maildir instead, so development and tests never send real mail
+ * and any mail client can open what would have been sent.
+ */
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+  providerMessageId: string;      // Message-ID header
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+
+  /**
+   * Whether this transport can be used in the current environment
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Deliver a message
+   * @throws EmailSendError
+   */
+  send(email: OutgoingEmail): Promise<EmailSendResult>;
+}
+
+// Transport refused the message; `permanent` = the recipient address was rejected (5xx)
+export class EmailSendError extends Error {
+  constructor(message: string, public readonly permanent: boolean) {
+    super(message);
+    this.name = 'EmailSendError';
+  }
+}
+
+const getFromAddress = () => process.env.EMAIL_FROM || 'HelpQo <no-reply@helpqo.ph>';
+
+/**
+ * SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS; port 465 uses TLS)
+ */
+class SmtpTransport implements EmailTransport {
+  public readonly name = 'smtp' as const;
+  private transporter?: nodemailer.Transporter;
+
+  isConfigured(): boolean {
+    return !!process.env.SMTP_HOST;
+  }
+
+  private getTransporter(): nodemailer.Transporter {
+    if (!this.transporter) {
+      const port = Number(process.env.SMTP_PORT || 587);
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+        pool: true,
+        connectionTimeout: 10000
+      });
+    }
+    return this.transporter;
+  }
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: getFromAddress(),
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: email.headers
+      });
+
+      return { providerMessageId: info.messageId };
+
+    } catch (error: any) {
+      const permanent = typeof error.responseCode === 'number' && error.responseCode >= 500;
+      throw new EmailSendError(`SMTP ${error.responseCode || error.code || 'error'}: ${error.message}`, permanent);
+    }
+  }
+}
+
+export interface OutboxEmailSummary {
+  file: string;
+  message_id?: string;
+  to?: string;
+  subject?: string;
+  date?: string;
+}
+
+/**
+ * Local maildir (EMAIL_OUTBOX_DIR, default tmp/maildir). Messages are
+ * written to tmp/ and moved into new/ so readers never see partial files.
+ */
+export class OutboxTransport implements EmailTransport {
+  public readonly name = 'outbox' as const;
+  private readonly builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  private get maildir(): string {
+    return path.resolve(process.env.EMAIL_OUTBOX_DIR || 'tmp/maildir');
+  }
+
+  isConfigured(): boolean {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  async send(email: OutgoingEmail): Promise<EmailSendResult> {
+    const info = await this.builder.sendMail({
+      from: getFromAddress(),
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: email.headers
+    });
+
+    const fileName = `${Date.now()}.${crypto.randomBytes(6).toString('hex')}.${os.hostname()}.eml`;
+    const tmpPath = path.join(this.maildir, 'tmp', fileName);
+
+    await fs.promises.mkdir(path.join(this.maildir, 'tmp'), { recursive: true });
+    await fs.promises.mkdir(path.join(this.maildir, 'new'), { recursive: true });
+    await fs.promises.writeFile(tmpPath, info.message as Buffer);
+    await fs.promises.rename(tmpPath, path.join(this.maildir, 'new', fileName));
+
+    console.log(`📬 [outbox] ${email.to}: ${email.subject} (${fileName})`);
+    return { providerMessageId: info.messageId };
+  }
+
+  /**
+   * Delivered messages, newest first, with their main headers
+   * @param to - Only messages to this address
+   */
+  async listMessages(to?: string, limit: number = 20): Promise<OutboxEmailSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(path.join(this.maildir, 'new'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const summaries: OutboxEmailSummary[] = [];
+    for (const file of files.sort().reverse()) {
+      if (summaries.length >= limit) break;
+
+      const raw = await fs.promises.readFile(path.join(this.maildir, 'new', file), 'utf8');
+      const headers = parseHeaders(raw);
+      if (to && headers.to?.toLowerCase() !== to.toLowerCase()) continue;
+
+      summaries.push({
+        file,
+        message_id: headers['message-id'],
+        to: headers.to,
+        subject: headers.subject,
+        date: headers.date
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Raw RFC 822 source of one message
+   */
+  async readMessage(file: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(path.join(this.maildir, 'new', path.basename(file)), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Empty the maildir
+   */
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.maildir, { recursive: true, force: true });
+  }
+}
+
+// Top-level headers of a raw message (folded lines joined, lowercase names)
+const parseHeaders = (raw: string): Record<string, string> => {
+  const headerBlock = raw.split(/\r?\n\r?\n/, 1)[0];
+  const headers: Record<string, string> = {};
+  let current: string | null = null;
+
+  for (const line of headerBlock.split(/\r?\n/)) {
+    if (/^\s/.test(line) && current) {
+      headers[current] += ' ' + line.trim();
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    current = line.slice(0, separator).trim().toLowerCase();
+    headers[current] = line.slice(separator + 1).trim();
+  }
+
+  return headers;
+};
+
+const outboxTransport = new OutboxTransport();
+
+const transports: Record<EmailTransportName, EmailTransport> = {
+  smtp: new SmtpTransport(),
+  outbox: outboxTransport
+};
+
+/**
+ * Transport selected by EMAIL_TRANSPORT ('smtp' in production, 'outbox' otherwise)
+ */
+export const getEmailTransport = (): EmailTransport => {
+  const name = process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'outbox');
+
+  if (name !== 'smtp' && name !== 'outbox') {
+    throw new Error(`Unknown EMAIL_TRANSPORT: ${name}`);
+  }
+
+  return transports[name];
+};
+
+/**
+ * Access the local maildir (development tooling and tests only)
+ */
+export const getOutboxTransport = (): OutboxTransport => outboxTransport;
@@ -0,0 +1,341 @@
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Booking from '../models/Booking';
+import LedgerEntry, { LedgerEntryType } from '../models/LedgerEntry';
+import LedgerLine, { LedgerAccount, LEDGER_ACCOUNTS } from '../models/LedgerLine';
+
+/**
+ * Escrow Ledger Service
+ * Double-entry bookkeeping for booking payments. Every money movement is a
+ * balanced journal entry; balances are always derived from ledger lines.
+ */
+
+export interface LedgerLineInput {
+  account: LedgerAccount;
+  owner_id?: string;
+  debit?: number;
+  credit?: number;
+}
+
+export interface PostEntryOptions {
+  reference?: string;
+  createdBy?: string;
+  transaction?: Transaction;
+}
+
+export type BookingLedgerBalances = Record<LedgerAccount, number>;
+
+export interface ReconciliationResult {
+  booking_id: string;
+  reconciled: boolean;
+  expected: {
+    total_amount: number;
+    commission: number;
+    worker_payout: number;
+  };
+  balances: BookingLedgerBalances;
+  totals: {
+    held: number;
+    released_to_worker: number;
+    paid_out_to_worker: number;
+    commission_earned: number;
+    refunded: number;
+  };
+  discrepancies: string[];
+}
+
+// Escrow can only be released or refunded while funds are held for the booking
+const ESCROWED_PAYMENT_STATUSES = ['held', 'disputed'];
+
+// Work in centavos so debits and credits balance exactly
+export const toCentavos = (amount: number | string): number => Math.round(Number(amount) * 100);
+export const toPesos = (centavos: number): number => centavos / 100;
+
+export class EscrowService {
+
+  /**
+   * Post a balanced journal entry for a booking
+   * @param bookingId - Booking the money movement belongs to
+   * @param entryType - hold, release or refund
+   * @param description - Human readable description
+   * @param lines - Debit/credit lines (must balance)
+   * @returns Promise<LedgerEntry>
+   */
+  public static async postEntry(
+    bookingId: string,
+    entryType: LedgerEntryType,
+    description: string,
+    lines: LedgerLineInput[],
+    options: PostEntryOptions = {}
+  ): Promise<LedgerEntry> {
+    const nonZeroLines = lines.filter(line => toCentavos(line.debit || 0) > 0 || toCentavos(line.credit || 0) > 0);
+
+    const totalDebits = nonZeroLines.reduce((sum, line) => sum + toCentavos(line.debit || 0), 0);
+    const totalCredits = nonZeroLines.reduce((sum, line) => sum + toCentavos(line.credit || 0), 0);
+
+    if (nonZeroLines.length < 2 || totalDebits !== totalCredits) {
+      throw new Error(`Unbalanced ledger entry for booking ${bookingId}: debits ${toPesos(totalDebits)} ≠ credits ${toPesos(totalCredits)}`);
+    }
+
+    const write = async (transaction: Transaction) => {
+      const entry = await LedgerEntry.create({
+        booking_id: bookingId,
+        entry_type: entryType,
+        description,
+        reference: options.reference,
+        created_by: options.createdBy
+      } as any, { transaction });
+
+      await LedgerLine.bulkCreate(nonZeroLines.map(line => ({
+        entry_id: entry.id,
+        booking_id: bookingId,
+        account: line.account,
+        owner_id: line.owner_id,
+        debit: toPesos(toCentavos(line.debit || 0)),
+        credit: toPesos(toCentavos(line.credit || 0))
+      })) as any[], { transaction, validate: true });
+
+      return entry;
+    };
+
+    const entry = options.transaction
+      ? await write(options.transaction)
+      : await sequelize.transaction(write);
+
+    console.log(`📒 Ledger ${entryType} posted for booking ${bookingId}: ₱${toPesos(totalDebits).toLocaleString()}`);
+    return entry;
+  }
+
+  /**
+   * Get per-account balances (credits − debits) for a booking
+   * @param bookingId - Booking to total
+   * @returns Promise<BookingLedgerBalances>
+   */
+  public static async getBookingBalances(bookingId: string, transaction?: Transaction): Promise<BookingLedgerBalances> {
+    const lines = await LedgerLine.findAll({ where: { booking_id: bookingId }, transaction });
+
+    const centavos = LEDGER_ACCOUNTS.reduce((acc, account) => {
+      acc[account] = 0;
+      return acc;
+    }, {} as Record<LedgerAccount, number>);
+
+    lines.forEach(line => {
+      centavos[line.account] += toCentavos(line.credit) - toCentavos(line.debit);
+    });
+
+    return LEDGER_ACCOUNTS.reduce((acc, account) => {
+      acc[account] = toPesos(centavos[account]);
+      return acc;
+    }, {} as BookingLedgerBalances);
+  }
+
+  /**
+   * Lock the booking row and check escrow can be paid out of it
+   * @throws Error when the booking is gone or its funds aren't in escrow
+   */
+  private static async lockEscrowedBooking(bookingId: string, action: string, transaction: Transaction): Promise<Booking> {
+    const locked = await Booking.findByPk(bookingId, { transaction, lock: transaction.LOCK.UPDATE });
+    if (!locked) {
+      throw new Error(`Booking ${bookingId} not found`);
+    }
+    if (!ESCROWED_PAYMENT_STATUSES.includes(locked.payment_status)) {
+      throw new Error(`Cannot ${action} funds for booking ${bookingId} with payment status '${locked.payment_status}'`);
+    }
+    return locked;
+  }
+
+  /**
+   * Move the booking's full amount from the client wallet into escrow
+   * @param booking - Booking being funded
+   * @returns Promise<LedgerEntry>
+   */
+  public static async holdFunds(booking: Booking, options: PostEntryOptions = {}): Promise<LedgerEntry> {
+    const run = async (transaction: Transaction) => {
+      // Check the locked row, not the caller's copy: a webhook and a manual hold can race
+      const locked = await Booking.findByPk(booking.id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!locked) {
+        throw new Error(`Booking ${booking.id} not found`);
+      }
+      if (locked.payment_status !== 'pending') {
+        throw new Error(`Cannot hold funds for booking ${booking.id} with payment status '${locked.payment_status}'`);
+      }
+
+      const { totalAmount } = locked.calculatePayments();
+
+      const entry = await this.postEntry(locked.id, 'hold', `Client funds held in escrow for booking ${locked.id}`, [
+        { account: 'client_wallet', owner_id: locked.client_id, debit: totalAmount },
+        { account: 'escrow', credit: totalAmount }
+      ], { ...options, transaction });
+
+      locked.payment_status = 'held';
+      await locked.save({ transaction });
+
+      booking.payment_status = 'held';
+      return entry;
+    };
+
+    return options.transaction ? run(options.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * Release escrow to the worker and platform commission
+   * Defaults to calculatePayments(); pass amounts for partial settlements
+   * @param booking - Booking being settled
+   * @param amounts - Optional worker/commission split (must not exceed escrow balance)
+   * @returns Promise<LedgerEntry>
+   */
+  public static async releaseFunds(
+    booking: Booking,
+    amounts?: { workerPayout: number; commission: number },
+    options: PostEntryOptions = {}
+  ): Promise<LedgerEntry> {
+    const run = async (transaction: Transaction) => {
+      // Balances are only read under the row lock so two settlements can't both spend the same escrow
+      const locked = await this.lockEscrowedBooking(booking.id, 'release', transaction);
+      const balances = await this.getBookingBalances(locked.id, transaction);
+      const payments = locked.calculatePayments();
+      const workerPayout = amounts ? amounts.workerPayout : payments.workerPayout;
+      const commission = amounts ? amounts.commission : payments.commission;
+      const releaseTotal = toPesos(toCentavos(workerPayout) + toCentavos(commission));
+
+      if (toCentavos(releaseTotal) > toCentavos(balances.escrow)) {
+        throw new Error(`Escrow balance ₱${balances.escrow} is insufficient to release ₱${releaseTotal} for booking ${locked.id}`);
+      }
+
+      const entry = await this.postEntry(locked.id, 'release', `Escrow released for booking ${locked.id}`, [
+        { account: 'escrow', debit: releaseTotal },
+        { account: 'worker_payable', owner_id: locked.worker_id, credit: workerPayout },
+        { account: 'platform_commission', credit: commission }
+      ], { ...options, transaction });
+
+      if (toCentavos(balances.escrow) === toCentavos(releaseTotal)) {
+        locked.payment_status = 'released';
+        await locked.save({ transaction, fields: ['payment_status'] });
+        booking.payment_status = 'released';
+      }
+      return entry;
+    };
+
+    return options.transaction ? run(options.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * Return escrow to the client wallet
+   * @param booking - Booking being refunded
+   * @param amount - Optional partial amount (defaults to the full escrow balance)
+   * @returns Promise<LedgerEntry>
+   */
+  public static async refundFunds(booking: Booking, amount?: number, options: PostEntryOptions = {}): Promise<LedgerEntry> {
+    const run = async (transaction: Transaction) => {
+      const locked = await this.lockEscrowedBooking(booking.id, 'refund', transaction);
+      const balances = await this.getBookingBalances(locked.id, transaction);
+      const refundAmount = amount !== undefined ? amount : balances.escrow;
+
+      if (toCentavos(refundAmount) <= 0 || toCentavos(refundAmount) > toCentavos(balances.escrow)) {
+        throw new Error(`Cannot refund ₱${refundAmount} from escrow balance ₱${balances.escrow} for booking ${locked.id}`);
+      }
+
+      const entry = await this.postEntry(locked.id, 'refund', `Escrow refunded to client for booking ${locked.id}`, [
+        { account: 'escrow', debit: refundAmount },
+        { account: 'client_wallet', owner_id: locked.client_id, credit: refundAmount }
+      ], { ...options, transaction });
+
+      if (toCentavos(balances.escrow) === toCentavos(refundAmount)) {
+        locked.payment_status = 'refunded';
+        await locked.save({ transaction, fields: ['payment_status'] });
+        booking.payment_status = 'refunded';
+      }
+      return entry;
+    };
+
+    return options.transaction ? run(options.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * Reconcile a booking's ledger against calculatePayments()
+   * @param booking - Booking to check
+   * @returns Promise<ReconciliationResult>
+   */
+  public static async reconcileBooking(booking: Booking): Promise<ReconciliationResult> {
+    const payments = booking.calculatePayments();
+    const balances = await this.getBookingBalances(booking.id);
+    const entries = await LedgerEntry.findAll({
+      where: { booking_id: booking.id },
+      include: [{ model: LedgerLine, as: 'lines' }]
+    });
+
+    let held = 0;
+    let refunded = 0;
+    entries.forEach(entry => {
+      (entry.lines || []).forEach((line: LedgerLine) => {
+        if (line.account !== 'escrow') return;
+        if (entry.entry_type === 'hold') held += toCentavos(line.credit);
+        if (entry.entry_type === 'refund') refunded += toCentavos(line.debit);
+      });
+    });
+
+    const discrepancies: string[] = [];
+    const totalCentavos = toCentavos(payments.totalAmount);
+    const escrowCentavos = toCentavos(balances.escrow);
+    // Released worker earnings, whether still payable or already paid out
+    const workerCentavos = toCentavos(balances.worker_payable) + toCentavos(balances.worker_disbursed);
+    const commissionCentavos = toCentavos(balances.platform_commission);
+
+    if (held > 0 && held !== totalCentavos) {
+      discrepancies.push(`Held ₱${toPesos(held)} does not match booking total ₱${payments.totalAmount}`);
+    }
+
+    // Every peso held is either still in escrow, released or refunded
+    if (held !== escrowCentavos + workerCentavos + commissionCentavos + refunded) {
+      discrepancies.push('Escrow movements do not balance against funds held');
+    }
+
+    switch (booking.payment_status) {
+      case 'pending':
+        if (held > 0) discrepancies.push('Funds are held but payment status is pending');
+        break;
+      case 'held':
+      case 'processing':
+      case 'disputed':
+        if (escrowCentavos !== totalCentavos - workerCentavos - commissionCentavos - refunded) {
+          discrepancies.push(`Escrow balance ₱${balances.escrow} does not match outstanding amount`);
+        }
+        break;
+      case 'released':
+        if (escrowCentavos !== 0) discrepancies.push(`Escrow still holds ₱${balances.escrow} after release`);
+        if (refunded === 0) {
+          if (workerCentavos !== toCentavos(payments.workerPayout)) {
+            discrepancies.push(`Worker earnings ₱${toPesos(workerCentavos)} ≠ expected ₱${payments.workerPayout}`);
+          }
+          if (commissionCentavos !== toCentavos(payments.commission)) {
+            discrepancies.push(`Platform commission ₱${balances.platform_commission} ≠ expected ₱${payments.commission}`);
+          }
+        }
+        break;
+      case 'refunded':
+        if (escrowCentavos !== 0) discrepancies.push(`Escrow still holds ₱${balances.escrow} after refund`);
+        break;
+    }
+
+    return {
+      booking_id: booking.id,
+      reconciled: discrepancies.length === 0,
+      expected: {
+        total_amount: Number(payments.totalAmount),
+        commission: Number(payments.commission),
+        worker_payout: Number(payments.workerPayout)
+      },
+      balances,
+      totals: {
+        held: toPesos(held),
+        released_to_worker: toPesos(workerCentavos),
+        paid_out_to_worker: balances.worker_disbursed,
+        commission_earned: balances.platform_commission,
+        refunded: toPesos(refunded)
+      },
+      discrepancies
+    };
+  }
+}
+
+export default EscrowService;
@@ -0,0 +1,256 @@
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import User from '../models/User';
+import LoginAttempt, { LoginAttemptOutcome } from '../models/LoginAttempt';
+import EmailDeliveryService from './emailDelivery';
+
+/**
+ * Login Protection Service
+ * Per-account progressive delays and temporary lockout, plus detection of
+ * one IP or device trying many accounts. State lives in the users table
+ * and login_attempts, so it survives restarts and is shared by instances.
+ */
+
+export interface LoginContext {
+  ip_address?: string;
+  device_id?: string;
+  user_agent?: string;
+  location?: string;              // Approximate, from proxy geo headers
+}
+
+export interface LoginCheckResult {
+  allowed: boolean;
+  status?: number;
+  message?: string;
+  code?: string;
+  retry_after?: number;           // Seconds until the next attempt is accepted
+}
+
+// Failures before delays start, and before the account locks
+const DELAY_AFTER_FAILURES = Number(process.env.LOGIN_DELAY_AFTER_FAILURES || 3);
+const LOCKOUT_THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD || 10);
+const MAX_DELAY_SECONDS = 5 * 60;
+
+// First lockout length; doubles with each lockout before a successful login (max 24h)
+const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15);
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+// More distinct accounts than this failing from one IP/device within the window = stuffing
+const SOURCE_WINDOW_MINUTES = Number(process.env.LOGIN_SOURCE_WINDOW_MINUTES || 15);
+const SOURCE_MAX_ACCOUNTS = Number(process.env.LOGIN_SOURCE_MAX_ACCOUNTS || 8);
+
+const FAILED_OUTCOMES: LoginAttemptOutcome[] = ['invalid_credentials', 'unknown_account'];
+
+export class LoginProtectionService {
+
+  /**
+   * Wait required after a number of consecutive failures
+   * @returns number - Seconds (0 = no delay)
+   */
+  public static getDelaySeconds(failures: number): number {
+    if (failures < DELAY_AFTER_FAILURES) return 0;
+    return Math.min(MAX_DELAY_SECONDS, 2 ** (failures - DELAY_AFTER_FAILURES));
+  }
+
+  /**
+   * Length of the next lockout
+   * @param lockoutCount - Lockouts so far, including this one
+   */
+  public static getLockoutMinutes(lockoutCount: number): number {
+    return Math.min(MAX_LOCKOUT_MINUTES, LOCKOUT_MINUTES * 2 ** Math.max(0, lockoutCount - 1));
+  }
+
+  /**
+   * Block IPs/devices that are cycling through many accounts
+   */
+  public static async checkSource(context: LoginContext): Promise<LoginCheckResult> {
+    const sources: any[] = [];
+    if (context.ip_address) sources.push({ ip_address: context.ip_address });
+    if (context.device_id) sources.push({ device_id: context.device_id });
+    if (sources.length === 0) return { allowed: true };
+
+    const accountsTried = await LoginAttempt.count({
+      distinct: true,
+      col: 'identifier',
+      where: {
+        [Op.or]: sources,
+        outcome: { [Op.in]: FAILED_OUTCOMES },
+        created_at: { [Op.gt]: new Date(Date.now() - SOURCE_WINDOW_MINUTES * 60 * 1000) }
+      }
+    });
+
+    if (accountsTried > SOURCE_MAX_ACCOUNTS) {
+      console.warn(`⚠️ Possible credential stuffing: ${accountsTried} accounts tried from ${context.ip_address || context.device_id}`);
+      return {
+        allowed: false,
+        status: 429,
+        message: 'Too many failed logins from this network or device. Please try again later.',
+        code: 'LOGIN_SOURCE_BLOCKED',
+        retry_after: SOURCE_WINDOW_MINUTES * 60
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Check lockout and progressive delay before the password is verified
+   */
+  public static checkAccount(user: User, now: Date = new Date()): LoginCheckResult {
+    if (user.isLocked(now)) {
+      return {
+        allowed: false,
+        status: 423,
+        message: 'This account is temporarily locked after too many failed logins. Try again later or reset your password.',
+        code: 'ACCOUNT_LOCKED',
+        retry_after: Math.ceil((user.locked_until!.getTime() - now.getTime()) / 1000)
+      };
+    }
+
+    const delay = this.getDelaySeconds(user.failed_login_count);
+    if (delay > 0 && user.last_failed_login_at) {
+      const waitUntil = user.last_failed_login_at.getTime() + delay * 1000;
+      if (waitUntil > now.getTime()) {
+        return {
+          allowed: false,
+          status: 429,
+          message: 'Please wait before trying again.',
+          code: 'LOGIN_THROTTLED',
+          retry_after: Math.ceil((waitUntil - now.getTime()) / 1000)
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Record an attempt that was stopped or didn't match an account
+   */
+  public static async recordAttempt(
+    identifier: string,
+    outcome: LoginAttemptOutcome,
+    context: LoginContext,
+    userId?: string
+  ): Promise<void> {
+    await LoginAttempt.create({
+      user_id: userId,
+      identifier,
+      outcome,
+      triggered_lockout: false,
+      ...context
+    } as any);
+  }
+
+  /**
+   * Record a wrong password; locks the account once the threshold is reached
+   * @returns Date | null - Lockout end when this failure locked the account
+   */
+  public static async recordFailure(user: User, identifier: string, context: LoginContext): Promise<Date | null> {
+    const lockedUntil = await sequelize.transaction(async (transaction) => {
+      const account = await User.findByPk(user.id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!account) return null;
+
+      account.failed_login_count += 1;
+      account.last_failed_login_at = new Date();
+
+      let until: Date | null = null;
+      if (account.failed_login_count >= LOCKOUT_THRESHOLD) {
+        account.lockout_count += 1;
+        until = new Date(Date.now() + this.getLockoutMinutes(account.lockout_count) * 60 * 1000);
+        account.locked_until = until;
+        account.failed_login_count = 0;     // Fresh set of attempts once the lock ends
+      }
+
+      await account.save({ transaction });
+
+      await LoginAttempt.create({
+        user_id: account.id,
+        identifier,
+        outcome: 'invalid_credentials',
+        triggered_lockout: !!until,
+        ...context
+      } as any, { transaction });
+
+      return until;
+    });
+
+    if (lockedUntil) {
+      console.warn(`🔒 Account ${user.id} locked until ${lockedUntil.toISOString()}`);
+      this.notifyLocked(user, lockedUntil, context);
+    }
+
+    return lockedUntil;
+  }
+
+  /**
+   * Record a successful login and clear failure state
+   */
+  public static async recordSuccess(user: User, identifier: string, context: LoginContext): Promise<void> {
+    if (user.failed_login_count > 0 || user.lockout_count > 0 || user.locked_until) {
+      user.failed_login_count = 0;
+      user.lockout_count = 0;
+      user.locked_until = null as any;
+      await user.save();
+    }
+
+    await this.recordAttempt(identifier, 'success', context, user.id);
+  }
+
+  /**
+   * Lift a lockout early (admin)
+   */
+  public static async unlock(userId: string, adminId: string): Promise<User | null> {
+    const user = await User.findByPk(userId);
+    if (!user) return null;
+
+    user.failed_login_count = 0;
+    user.lockout_count = 0;
+    user.locked_until = null as any;
+    await user.save();
+
+    console.log(`🔓 Account ${user.id} unlocked by admin ${adminId}`);
+    return user;
+  }
+
+  /**
+   * Accounts currently locked, soonest to unlock first
+   */
+  public static async getLockedAccounts(): Promise<User[]> {
+    return await User.findAll({
+      where: { locked_until: { [Op.gt]: new Date() } },
+      attributes: ['id', 'email', 'phone', 'first_name', 'last_name', 'role', 'failed_login_count', 'lockout_count', 'locked_until', 'last_failed_login_at'],
+      order: [['locked_until', 'ASC']]
+    });
+  }
+
+  /**
+   * Login history of one account, newest first
+   */
+  public static async getLoginHistory(
+    userId: string,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ rows: LoginAttempt[]; count: number }> {
+    return await LoginAttempt.findAndCountAll({
+      where: { user_id: userId },
+      order: [['created_at', 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+  }
+
+  /**
+   * Tell the account owner it was locked
+   */
+  private static notifyLocked(user: User, lockedUntil: Date, context: LoginContext): void {
+    EmailDeliveryService.sendInBackground({
+      to: user.email,
+      template: 'account_locked',
+      data: { user, lockedUntil, ipAddress: context.ip_address },
+      userId: user.id
+    });
+  }
+}
+
+export default LoginProtectionService;
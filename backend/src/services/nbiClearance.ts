@@ -0,0 +1,310 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import NbiClearanceSubmission, {
+  NbiRejectionReason,
+  NbiSubmissionStatus
+} from '../models/NbiClearanceSubmission';
+import EmailDeliveryService from './emailDelivery';
+
+/**
+ * NBI Clearance Review Service
+ * Workers submit their clearance number, validity date and a scan; admins
+ * approve or reject it from a queue. An approval is the only way a
+ * worker's nbi_clearance_status becomes 'approved'.
+ */
+
+export interface NbiSubmissionInput {
+  clearance_number: string;
+  expires_on: string;             // YYYY-MM-DD
+  scan_url: string;
+}
+
+export interface NbiReviewResult {
+  success: boolean;
+  status?: number;
+  message: string;
+  code: string;
+  submission?: NbiClearanceSubmission;
+}
+
+// What the worker is told for each rejection reason
+export const NBI_REJECTION_REASON_LABELS: Record<NbiRejectionReason, string> = {
+  unreadable_scan: 'The scan is too blurry or cropped to read',
+  number_mismatch: "The clearance number doesn't match the scan",
+  name_mismatch: "The clearance isn't issued in your registered name",
+  expired: 'The clearance has expired',
+  not_an_nbi_clearance: "The document isn't an NBI clearance",
+  has_derogatory_record: 'The clearance shows a record that has not been cleared',
+  suspected_tampering: 'The document appears to have been altered',
+  other: 'See the reviewer\'s note'
+};
+
+const reviewerAttributes = ['id', 'first_name', 'last_name'];
+
+export class NbiClearanceService {
+
+  /**
+   * Load and lock a submission, run a review step and return its result
+   */
+  private static async withSubmission(
+    submissionId: string,
+    step: (submission: NbiClearanceSubmission, worker: Worker, transaction: Transaction) => Promise<NbiReviewResult>
+  ): Promise<NbiReviewResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const submission = await NbiClearanceSubmission.findByPk(submissionId, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!submission) {
+        return { success: false, status: 404, message: 'NBI clearance submission not found', code: 'NBI_SUBMISSION_NOT_FOUND' };
+      }
+
+      if (!submission.isPending()) {
+        return {
+          success: false,
+          status: 409,
+          message: `This submission was already ${submission.status}`,
+          code: 'NBI_SUBMISSION_ALREADY_DECIDED',
+          submission
+        };
+      }
+
+      const worker = await Worker.findByPk(submission.worker_id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!worker) {
+        return { success: false, status: 404, message: 'Worker profile not found', code: 'WORKER_PROFILE_NOT_FOUND' };
+      }
+
+      return await step(submission, worker, transaction);
+    });
+  }
+
+  /**
+   * Submit a clearance for review. A pending earlier submission is
+   * superseded; an approved clearance stays approved until this one is decided.
+   */
+  public static async submit(userId: string, input: NbiSubmissionInput): Promise<NbiReviewResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const worker = await Worker.findOne({ where: { user_id: userId }, transaction, lock: transaction.LOCK.UPDATE });
+      if (!worker) {
+        return { success: false, status: 404, message: 'Worker profile not found', code: 'WORKER_PROFILE_NOT_FOUND' };
+      }
+
+      const superseded = await NbiClearanceSubmission.update(
+        { status: 'superseded' },
+        { where: { worker_id: worker.id, status: 'pending' }, transaction }
+      );
+
+      const submission = await NbiClearanceSubmission.create({
+        worker_id: worker.id,
+        clearance_number: input.clearance_number.trim().toUpperCase(),
+        expires_on: input.expires_on,
+        scan_url: input.scan_url,
+        status: 'pending'
+      } as any, { transaction });
+
+      if (worker.nbi_clearance_status !== 'approved') {
+        worker.nbi_clearance_status = 'pending';
+        await worker.save({ transaction, fields: ['nbi_clearance_status', 'profile_completion_percentage', 'verification_level'] });
+      }
+
+      console.log(`🛡️ NBI clearance submitted for review by worker ${worker.id}${superseded[0] > 0 ? ' (replaces pending submission)' : ''}`);
+
+      return {
+        success: true,
+        status: 201,
+        message: 'NBI clearance submitted. We will review it within 2 business days.',
+        code: 'NBI_SUBMITTED',
+        submission
+      };
+    });
+  }
+
+  /**
+   * A worker's submissions, newest first
+   */
+  public static async getHistory(workerId: string): Promise<NbiClearanceSubmission[]> {
+    return await NbiClearanceSubmission.findAll({
+      where: { worker_id: workerId },
+      order: [['created_at', 'DESC']]
+    });
+  }
+
+  /**
+   * Review queue, oldest first
+   */
+  public static async getQueue(
+    status: NbiSubmissionStatus = 'pending',
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ rows: NbiClearanceSubmission[]; count: number }> {
+    return await NbiClearanceSubmission.findAndCountAll({
+      where: { status },
+      include: [
+        {
+          model: Worker,
+          as: 'worker',
+          attributes: ['id', 'user_id', 'nbi_clearance_status', 'verification_level'],
+          include: [{ model: User, as: 'user', attributes: ['id', 'first_name', 'last_name', 'email', 'phone', 'city', 'province'] }]
+        },
+        { model: User, as: 'reviewer', attributes: reviewerAttributes }
+      ],
+      order: [['created_at', status === 'pending' ? 'ASC' : 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+  }
+
+  /**
+   * One submission with the worker's earlier submissions and any other
+   * worker who used the same clearance number
+   */
+  public static async getForReview(submissionId: string) {
+    const submission = await NbiClearanceSubmission.findByPk(submissionId, {
+      include: [
+        {
+          model: Worker,
+          as: 'worker',
+          include: [{ model: User, as: 'user', attributes: ['id', 'first_name', 'last_name', 'email', 'phone', 'city', 'province', 'created_at'] }]
+        },
+        { model: User, as: 'reviewer', attributes: reviewerAttributes }
+      ]
+    });
+    if (!submission) return null;
+
+    const [history, sameNumber] = await Promise.all([
+      NbiClearanceSubmission.findAll({
+        where: { worker_id: submission.worker_id, id: { [Op.ne]: submission.id } },
+        include: [{ model: User, as: 'reviewer', attributes: reviewerAttributes }],
+        order: [['created_at', 'DESC']]
+      }),
+      NbiClearanceSubmission.findAll({
+        where: { clearance_number: submission.clearance_number, worker_id: { [Op.ne]: submission.worker_id } },
+        attributes: ['id', 'worker_id', 'status', 'created_at']
+      })
+    ]);
+
+    return { submission, history, same_number_other_workers: sameNumber };
+  }
+
+  /**
+   * Approve a pending submission: the worker becomes NBI-verified
+   */
+  public static async approve(submissionId: string, adminId: string, notes?: string): Promise<NbiReviewResult> {
+    const result = await this.withSubmission(submissionId, async (submission, worker, transaction) => {
+      if (submission.isExpired()) {
+        return {
+          success: false,
+          status: 409,
+          message: 'This clearance has already expired; reject it as expired instead',
+          code: 'NBI_CLEARANCE_EXPIRED'
+        };
+      }
+
+      // One clearance belongs to one person
+      const usedElsewhere = await NbiClearanceSubmission.count({
+        where: {
+          clearance_number: submission.clearance_number,
+          status: 'approved',
+          worker_id: { [Op.ne]: worker.id }
+        },
+        transaction
+      });
+      if (usedElsewhere > 0) {
+        return {
+          success: false,
+          status: 409,
+          message: 'This clearance number is already approved for another worker',
+          code: 'NBI_NUMBER_IN_USE'
+        };
+      }
+
+      submission.status = 'approved';
+      submission.reviewed_by = adminId;
+      submission.reviewed_at = new Date();
+      submission.review_notes = notes;
+      await submission.save({ transaction });
+
+      worker.nbi_clearance_status = 'approved';
+      worker.nbi_clearance_number = submission.clearance_number;
+      worker.nbi_clearance_expires = new Date(submission.expires_on);
+      worker.nbi_expiry_reminder_days = null as any;     // Reminders start over for the new clearance
+      await worker.save({ transaction });
+
+      console.log(`✅ NBI clearance ${submission.id} approved for worker ${worker.id} by ${adminId}`);
+
+      return { success: true, message: 'NBI clearance approved', code: 'NBI_APPROVED', submission };
+    });
+
+    if (result.success) this.notifyWorker(result.submission!);
+    return result;
+  }
+
+  /**
+   * Reject a pending submission with reasons shown to the worker
+   */
+  public static async reject(
+    submissionId: string,
+    adminId: string,
+    reasons: NbiRejectionReason[],
+    notes?: string
+  ): Promise<NbiReviewResult> {
+    if (reasons.includes('other') && !notes?.trim()) {
+      return { success: false, status: 400, message: "Add a note explaining the 'other' reason", code: 'NBI_REJECTION_NOTE_REQUIRED' };
+    }
+
+    const result = await this.withSubmission(submissionId, async (submission, worker, transaction) => {
+      submission.status = 'rejected';
+      submission.reviewed_by = adminId;
+      submission.reviewed_at = new Date();
+      submission.rejection_reasons = [...new Set(reasons)];
+      submission.review_notes = notes;
+      await submission.save({ transaction });
+
+      // A rejected renewal doesn't revoke a clearance that is still approved
+      if (worker.nbi_clearance_status !== 'approved') {
+        worker.nbi_clearance_status = 'rejected';
+        await worker.save({ transaction, fields: ['nbi_clearance_status', 'profile_completion_percentage', 'verification_level'] });
+      }
+
+      console.log(`🚫 NBI clearance ${submission.id} rejected for worker ${worker.id} by ${adminId}: ${reasons.join(', ')}`);
+
+      return { success: true, message: 'NBI clearance rejected', code: 'NBI_REJECTED', submission };
+    });
+
+    if (result.success) this.notifyWorker(result.submission!);
+    return result;
+  }
+
+  /**
+   * Email the worker the decision
+   */
+  private static notifyWorker(submission: NbiClearanceSubmission): void {
+    Worker.findByPk(submission.worker_id, { include: [{ model: User, as: 'user' }] })
+      .then(worker => {
+        const user = worker?.user as User | undefined;
+        if (!user) return;
+
+        if (submission.status === 'approved') {
+          EmailDeliveryService.sendInBackground({
+            to: user.email,
+            template: 'nbi_clearance_approved',
+            data: { user, expiresOn: submission.expires_on },
+            userId: user.id
+          });
+        } else {
+          EmailDeliveryService.sendInBackground({
+            to: user.email,
+            template: 'nbi_clearance_rejected',
+            data: {
+              user,
+              reasons: (submission.rejection_reasons || []).map(reason => NBI_REJECTION_REASON_LABELS[reason]),
+              notes: submission.review_notes
+            },
+            userId: user.id
+          });
+        }
+      })
+      .catch(error => console.error('❌ NBI decision notification error:', error));
+  }
+}
+
+export default NbiClearanceService;
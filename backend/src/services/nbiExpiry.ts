@@ -0,0 +1,341 @@
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import Job from '../models/Job';
+import Booking from '../models/Booking';
+import NbiClearanceSubmission from '../models/NbiClearanceSubmission';
+import ApplicationService from './applications';
+import EmailDeliveryService from './emailDelivery';
+import SmsService from './sms';
+
+/**
+ * NBI Clearance Expiry Service
+ * Reminds workers before their clearance expires and, once it has, marks
+ * it expired: the worker drops out of job search, pending applications are
+ * withdrawn and active bookings are flagged for an admin to follow up.
+ */
+
+// Days before expiry a reminder goes out (the last one also goes by SMS)
+export const NBI_REMINDER_DAYS = [30, 14, 3];
+
+// Validity dates are Philippine calendar dates
+const MANILA_UTC_OFFSET_HOURS = 8;
+
+const ACTIVE_BOOKING_STATUSES = ['accepted', 'confirmed', 'in_progress'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const workerUserAttributes = ['id', 'first_name', 'last_name', 'email', 'phone'];
+
+export interface NbiExpiryCheckResult {
+  reminders_sent: number;
+  workers_expired: number;
+  applications_withdrawn: number;
+  bookings_flagged: number;
+}
+
+let expiryCheckInProgress = false;
+
+export class NbiExpiryService {
+
+  /**
+   * Get the YYYY-MM-DD date in Manila for a moment
+   */
+  public static getManilaDate(date: Date = new Date()): string {
+    return new Date(date.getTime() + MANILA_UTC_OFFSET_HOURS * 60 * 60 * 1000).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Whole days from one YYYY-MM-DD date to another
+   */
+  public static daysBetween(from: string, to: string): number {
+    return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+  }
+
+  /**
+   * Send the most urgent reminder each approved worker hasn't had yet
+   * @returns Promise<number> - Reminders sent
+   */
+  public static async sendReminders(now: Date = new Date()): Promise<number> {
+    const today = this.getManilaDate(now);
+    const horizon = this.getManilaDate(new Date(now.getTime() + Math.max(...NBI_REMINDER_DAYS) * DAY_MS));
+
+    const workers = await Worker.findAll({
+      where: {
+        nbi_clearance_status: 'approved',
+        nbi_clearance_expires: { [Op.gte]: today, [Op.lte]: horizon }
+      } as any,
+      include: [{ model: User, as: 'user', attributes: workerUserAttributes }]
+    });
+
+    let sent = 0;
+    for (const worker of workers) {
+      const expiresOn = String(worker.nbi_clearance_expires);
+      const daysLeft = this.daysBetween(today, expiresOn);
+      const reminderDays = Math.min(...NBI_REMINDER_DAYS.filter(days => daysLeft <= days));
+
+      if (worker.nbi_expiry_reminder_days != null && worker.nbi_expiry_reminder_days <= reminderDays) continue;
+
+      // A worker whose renewal is waiting for review skips this reminder but still gets the later ones
+      const pendingRenewal = await NbiClearanceSubmission.count({ where: { worker_id: worker.id, status: 'pending' } });
+
+      await Worker.update({ nbi_expiry_reminder_days: reminderDays }, { where: { id: worker.id } });
+      if (pendingRenewal > 0) continue;
+
+      const user = worker.user as User | undefined;
+      if (!user) continue;
+
+      EmailDeliveryService.sendInBackground({
+        to: user.email,
+        template: 'nbi_clearance_expiring',
+        data: { user, expiresOn, daysLeft },
+        userId: user.id
+      });
+
+      if (reminderDays === Math.min(...NBI_REMINDER_DAYS)) {
+        this.sendSms(user, `HelpQo: Your NBI clearance expires on ${expiresOn}. Submit your renewed clearance in the app to keep getting jobs.`);
+      }
+
+      sent++;
+    }
+
+    if (sent > 0) {
+      console.log(`🔔 NBI expiry reminders sent: ${sent}`);
+    }
+
+    return sent;
+  }
+
+  /**
+   * Mark approved clearances past their validity date as expired
+   */
+  public static async expireClearances(now: Date = new Date()): Promise<Omit<NbiExpiryCheckResult, 'reminders_sent'>> {
+    const today = this.getManilaDate(now);
+
+    const workers = await Worker.findAll({
+      where: {
+        nbi_clearance_status: 'approved',
+        nbi_clearance_expires: { [Op.lt]: today }
+      } as any,
+      attributes: ['id']
+    });
+
+    const result = { workers_expired: 0, applications_withdrawn: 0, bookings_flagged: 0 };
+
+    for (const { id } of workers) {
+      const outcome = await this.expireWorker(id, now);
+      if (!outcome) continue;
+
+      result.workers_expired++;
+      result.applications_withdrawn += outcome.applicationsWithdrawn;
+      result.bookings_flagged += outcome.bookingsFlagged;
+    }
+
+    if (result.workers_expired > 0) {
+      console.warn(`🛡️ NBI clearances expired: ${result.workers_expired} workers, ${result.applications_withdrawn} applications withdrawn, ${result.bookings_flagged} bookings flagged`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Expire one worker's clearance, withdraw their pending applications and
+   * flag their active bookings
+   */
+  private static async expireWorker(
+    workerId: string,
+    now: Date
+  ): Promise<{ applicationsWithdrawn: number; bookingsFlagged: number } | null> {
+    const outcome = await sequelize.transaction(async (transaction) => {
+      const worker = await Worker.findByPk(workerId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      // Re-approved with a new clearance since the worker was selected
+      if (!worker || worker.nbi_clearance_status !== 'approved' || !worker.isNbiClearanceExpired(now)) return null;
+
+      // The beforeSave hook drops verification_level to 'basic'; approving a renewal restores it
+      worker.nbi_clearance_status = 'expired';
+      await worker.save({ transaction, fields: ['nbi_clearance_status', 'profile_completion_percentage', 'verification_level'] });
+
+      const applications = await Booking.findAll({
+        where: { worker_id: worker.user_id, status: 'pending' },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      for (const application of applications) {
+        await application.updateStatus('cancelled', 'system', "Withdrawn: worker's NBI clearance expired", transaction);
+        await ApplicationService.syncApplicationsCount(application.job_id, transaction);
+      }
+
+      const [bookingsFlagged] = await Booking.update(
+        { flagged_at: now, flag_reason: 'worker_nbi_expired' },
+        {
+          where: {
+            worker_id: worker.user_id,
+            status: ACTIVE_BOOKING_STATUSES,
+            flagged_at: null
+          } as any,
+          transaction
+        }
+      );
+
+      return { worker, applicationsWithdrawn: applications.length, bookingsFlagged };
+    });
+
+    if (!outcome) return null;
+
+    const { worker, applicationsWithdrawn, bookingsFlagged } = outcome;
+    this.notifyExpired(worker, bookingsFlagged);
+
+    return { applicationsWithdrawn, bookingsFlagged };
+  }
+
+  /**
+   * Send reminders, then expire lapsed clearances
+   */
+  public static async runExpiryCheck(now: Date = new Date()): Promise<NbiExpiryCheckResult | null> {
+    if (expiryCheckInProgress) {
+      console.warn('⚠️ NBI expiry check already in progress, skipping');
+      return null;
+    }
+
+    expiryCheckInProgress = true;
+    try {
+      const remindersSent = await this.sendReminders(now);
+      const expired = await this.expireClearances(now);
+
+      return { reminders_sent: remindersSent, ...expired };
+    } finally {
+      expiryCheckInProgress = false;
+    }
+  }
+
+  /**
+   * Upcoming expirations and bookings flagged because a clearance expired
+   * @param days - How far ahead to look
+   */
+  public static async getExpiryReport(days: number = 30, now: Date = new Date()) {
+    const today = this.getManilaDate(now);
+    const horizon = this.getManilaDate(new Date(now.getTime() + days * DAY_MS));
+
+    const [expiring, expiredCount, flaggedBookings] = await Promise.all([
+      Worker.findAll({
+        where: {
+          nbi_clearance_status: 'approved',
+          nbi_clearance_expires: { [Op.lte]: horizon }
+        } as any,
+        attributes: ['id', 'user_id', 'nbi_clearance_number', 'nbi_clearance_expires', 'nbi_expiry_reminder_days', 'is_available'],
+        include: [
+          { model: User, as: 'user', attributes: workerUserAttributes },
+          {
+            model: NbiClearanceSubmission,
+            as: 'nbiSubmissions',
+            where: { status: 'pending' },
+            required: false,
+            attributes: ['id', 'expires_on', 'created_at']
+          }
+        ],
+        order: [['nbi_clearance_expires', 'ASC']]
+      }),
+      Worker.count({ where: { nbi_clearance_status: 'expired' } }),
+      Booking.findAll({
+        where: { flag_reason: 'worker_nbi_expired', flagged_at: { [Op.ne]: null } } as any,
+        include: [
+          { model: Job, as: 'job', attributes: ['id', 'title', 'city'] },
+          { model: User, as: 'worker', attributes: workerUserAttributes },
+          { model: User, as: 'client', attributes: ['id', 'first_name', 'last_name', 'email', 'phone'] }
+        ],
+        order: [['flagged_at', 'ASC']]
+      })
+    ]);
+
+    return {
+      as_of: today,
+      window_days: days,
+      expiring: expiring.map(worker => {
+        const expiresOn = String(worker.nbi_clearance_expires);
+        const pendingRenewal = (worker as any).nbiSubmissions?.[0] || null;
+        return {
+          worker_id: worker.id,
+          user: worker.user,
+          clearance_number: worker.nbi_clearance_number,
+          expires_on: expiresOn,
+          days_left: this.daysBetween(today, expiresOn),   // Negative: lapsed, not yet processed
+          last_reminder_days: worker.nbi_expiry_reminder_days ?? null,
+          pending_renewal: pendingRenewal
+        };
+      }),
+      expired_workers: expiredCount,
+      flagged_bookings: flaggedBookings
+    };
+  }
+
+  /**
+   * Clear an expiry flag once an admin has followed up on the booking
+   */
+  public static async resolveFlag(bookingId: string, adminId: string, notes: string) {
+    const booking = await Booking.findByPk(bookingId);
+    if (!booking || !booking.flagged_at) {
+      return { success: false, status: 404, message: 'Flagged booking not found', code: 'FLAGGED_BOOKING_NOT_FOUND' };
+    }
+
+    const note = `[${new Date().toISOString()}] Flag ${booking.flag_reason} resolved by admin ${adminId}: ${notes}`;
+    booking.admin_notes = booking.admin_notes ? `${booking.admin_notes}\n${note}` : note;
+    booking.flagged_at = null as any;
+    booking.flag_reason = null as any;
+    await booking.save({ fields: ['admin_notes', 'flagged_at', 'flag_reason'] });
+
+    console.log(`✅ Booking ${booking.id} expiry flag resolved by ${adminId}`);
+
+    return { success: true, message: 'Flag resolved', code: 'FLAG_RESOLVED', booking };
+  }
+
+  /**
+   * Tell the worker their clearance expired
+   */
+  private static notifyExpired(worker: Worker, flaggedBookings: number): void {
+    User.findByPk(worker.user_id, { attributes: workerUserAttributes })
+      .then(user => {
+        if (!user) return;
+
+        const expiredOn = String(worker.nbi_clearance_expires);
+        EmailDeliveryService.sendInBackground({
+          to: user.email,
+          template: 'nbi_clearance_expired',
+          data: { user, expiredOn, flaggedBookings },
+          userId: user.id
+        });
+        this.sendSms(user, 'HelpQo: Your NBI clearance has expired. Submit your renewed clearance in the app to apply for jobs again.');
+      })
+      .catch(error => console.error('❌ NBI expiry notification error:', error));
+  }
+
+  private static sendSms(user: User, body: string): void {
+    if (!user.phone) return;
+
+    SmsService.send({ to: user.phone, body, purpose: 'notification', userId: user.id })
+      .catch(error => console.error('❌ NBI expiry SMS error:', error));
+  }
+
+  /**
+   * Start the recurring expiry check (every NBI_EXPIRY_CHECK_HOURS, default 6)
+   */
+  public static startExpiryMonitor(): NodeJS.Timeout {
+    const intervalHours = Number(process.env.NBI_EXPIRY_CHECK_HOURS || 6);
+
+    const timer = setInterval(async () => {
+      try {
+        await this.runExpiryCheck();
+      } catch (error) {
+        console.error('❌ NBI expiry check failed:', error);
+      }
+    }, intervalHours * 60 * 60 * 1000);
+    timer.unref();
+
+    console.log(`⏰ NBI expiry monitor running every ${intervalHours}h`);
+    return timer;
+  }
+}
+
+export default NbiExpiryService;
@@ -0,0 +1,107 @@
+import Booking from '../models/Booking';
+import Job from '../models/Job';
+import Review from '../models/Review';
+import User from '../models/User';
+import EmailDeliveryService from './emailDelivery';
+
+/**
+ * Marketplace Notification Service
+ * Emails the other party when something happens on a booking. Sent after
+ * the change is committed and never fails the request that triggered it.
+ */
+
+// "Juan D." - other parties only ever see a first name and initial
+const shortName = (user: User) => `${user.first_name} ${user.last_name.charAt(0)}.`;
+
+export class NotificationService {
+
+  /**
+   * Tell the worker their application was accepted
+   */
+  public static bookingAccepted(booking: Booking): void {
+    this.run('booking_accepted', async () => {
+      const [worker, client, job] = await Promise.all([
+        User.findByPk(booking.worker_id),
+        User.findByPk(booking.client_id),
+        Job.findByPk(booking.job_id)
+      ]);
+      if (!worker || !client || !job) return;
+
+      await EmailDeliveryService.send({
+        to: worker.email,
+        template: 'booking_accepted',
+        data: {
+          user: worker,
+          clientName: shortName(client),
+          jobTitle: job.title,
+          bookingId: booking.id,
+          scheduledStart: booking.scheduled_start
+        },
+        userId: worker.id
+      });
+    });
+  }
+
+  /**
+   * Tell the worker escrow was released to their earnings
+   */
+  public static paymentReleased(booking: Booking): void {
+    this.run('payment_released', async () => {
+      const [worker, job] = await Promise.all([
+        User.findByPk(booking.worker_id),
+        Job.findByPk(booking.job_id)
+      ]);
+      if (!worker || !job) return;
+
+      await EmailDeliveryService.send({
+        to: worker.email,
+        template: 'payment_released',
+        data: {
+          user: worker,
+          jobTitle: job.title,
+          bookingId: booking.id,
+          amount: Number(booking.calculatePayments().workerPayout)
+        },
+        userId: worker.id
+      });
+    });
+  }
+
+  /**
+   * Tell the reviewee they were reviewed (and whether they can read it yet)
+   */
+  public static reviewReceived(review: Review): void {
+    this.run('review_received', async () => {
+      const [reviewee, reviewer, booking] = await Promise.all([
+        User.findByPk(review.reviewee_id),
+        User.findByPk(review.reviewer_id),
+        Booking.findByPk(review.booking_id)
+      ]);
+      if (!reviewee || !reviewer || !booking) return;
+
+      const job = await Job.findByPk(booking.job_id);
+      if (!job) return;
+
+      await EmailDeliveryService.send({
+        to: reviewee.email,
+        template: 'review_received',
+        data: {
+          user: reviewee,
+          reviewerName: shortName(reviewer),
+          jobTitle: job.title,
+          bookingId: booking.id,
+          publishedNow: !review.isBlind()
+        },
+        userId: reviewee.id
+      });
+    });
+  }
+
+  private static run(name: string, task: () => Promise<void>): void {
+    task().catch(error => {
+      console.error(`❌ ${name} notification error:`, error);
+    });
+  }
+}
+
+export default NotificationService;
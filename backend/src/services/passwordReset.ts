@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import User from '../models/User';
+import AuthSession from '../models/AuthSession';
+import EmailService from './email';
+import EmailDeliveryService from './emailDelivery';
+import SmsService from './sms';
+
+/**
+ * Password Reset Service
+ * Single-use reset tokens sent by email or SMS. Only the SHA-256 hash is
+ * kept in users.password_reset_token; a successful reset clears it and
+ * ends every session of the account.
+ */
+
+export interface PasswordResetResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+}
+
+const RESET_TOKEN_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 30);
+
+// A new link is not sent while the previous one is this fresh
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+const hashResetToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export class PasswordResetService {
+
+  /**
+   * Start a reset for an email or Philippine mobile number. Resolves the
+   * same way whether or not the account exists.
+   * @param identifier - Normalized email or +639XXXXXXXXX number
+   */
+  public static async requestReset(identifier: string): Promise<void> {
+    const user = await User.findByEmailOrPhone(identifier);
+
+    if (!user || !user.is_active) {
+      console.log('🔑 Password reset requested for unknown or inactive account');
+      return;
+    }
+
+    // Don't resend on rapid repeat requests
+    if (user.password_reset_token && user.password_reset_expires) {
+      const issuedAt = user.password_reset_expires.getTime() - RESET_TOKEN_TTL_MINUTES * 60 * 1000;
+      if (Date.now() - issuedAt < RESEND_COOLDOWN_MS) return;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+    user.password_reset_token = hashResetToken(token);
+    user.password_reset_expires = expiresAt;
+    await user.save();
+
+    const channel = identifier.includes('@') ? 'email' : 'sms';
+    const resetLink = EmailService.getPasswordResetLink(token);
+
+    // Sent in the background: waiting on provider retries would make real
+    // accounts measurably slower to answer than unknown ones
+    if (channel === 'sms') {
+      SmsService.send({
+        to: identifier,
+        body: `Reset your HelpQo password: ${resetLink} (valid for ${RESET_TOKEN_TTL_MINUTES} minutes). Ignore this if you didn't ask.`,
+        purpose: 'password_reset',
+        userId: user.id
+      })
+        .then(outcome => {
+          if (!outcome.success) console.error(`❌ Password reset SMS failed for user ${user.id}: ${outcome.error}`);
+        })
+        .catch(error => console.error('❌ Password reset SMS error:', error));
+    } else {
+      EmailDeliveryService.sendInBackground({
+        to: user.email,
+        template: 'password_reset',
+        data: { user, resetLink, expiresAt },
+        userId: user.id
+      });
+    }
+
+    console.log(`🔑 Password reset ${channel} queued for user ${user.id}`);
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`📝 Reset link: ${resetLink}`);
+    }
+  }
+
+  /**
+   * Set a new password with a reset token. The token is consumed and all
+   * existing sessions are revoked.
+   * @param token - Plain token from the reset link
+   * @param newPassword - Already validated against the password rules
+   */
+  public static async resetPassword(token: string, newPassword: string): Promise<PasswordResetResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const user = await User.findOne({
+        where: {
+          password_reset_token: hashResetToken(token),
+          password_reset_expires: { [Op.gt]: new Date() },
+          is_active: true
+        },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          status: 400,
+          message: 'This reset link is invalid or has expired. Please request a new one.',
+          code: 'INVALID_RESET_TOKEN'
+        };
+      }
+
+      user.password_hash = newPassword;    // Hashed by the model hook
+      user.password_reset_token = null as any;
+      user.password_reset_expires = null as any;
+
+      // Proving control of the email/phone lifts any login lockout
+      user.failed_login_count = 0;
+      user.lockout_count = 0;
+      user.locked_until = null as any;
+      await user.save({ transaction });
+
+      const revoked = await AuthSession.revokeAllForUser(user.id, 'password_reset', undefined, transaction);
+
+      console.log(`🔑 Password reset for user ${user.id}, ${revoked} session(s) revoked`);
+
+      return {
+        success: true,
+        message: 'Password reset successfully. Please log in with your new password.',
+        code: 'PASSWORD_RESET_SUCCESS'
+      };
+    });
+  }
+}
+
+export default PasswordResetService;
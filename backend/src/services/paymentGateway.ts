@@ -0,0 +1,309 @@
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Booking from '../models/Booking';
+import PaymentTransaction, { PaymentProviderName } from '../models/PaymentTransaction';
+import EscrowService from './escrow';
+import { getPaymentProvider, PaymentProvider, WebhookEvent } from './paymentProviders';
+import PayoutService from './payouts';
+
+/**
+ * Payment Gateway Service
+ * Connects payment providers to the escrow ledger: checkouts fund escrow,
+ * refunds return escrow to the client's wallet.
+ */
+
+export interface CheckoutStartResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  payment?: PaymentTransaction;
+}
+
+export interface WebhookHandleResult {
+  event: WebhookEvent;
+  duplicate: boolean;
+  payment?: PaymentTransaction;
+}
+
+// Bookings can be funded once the client has accepted a worker
+const FUNDABLE_BOOKING_STATUSES = ['accepted', 'confirmed'];
+
+export class PaymentGatewayService {
+
+  /**
+   * Start a checkout so the client can fund escrow for a booking
+   * @param booking - Booking to fund
+   * @param providerName - GCash or PayMaya
+   * @param clientId - Paying client (must own the booking)
+   * @returns Promise<CheckoutStartResult>
+   */
+  public static async startCheckout(
+    booking: Booking,
+    providerName: PaymentProviderName,
+    clientId: string
+  ): Promise<CheckoutStartResult> {
+    if (booking.client_id !== clientId) {
+      return { success: false, status: 403, message: 'Only the booking client can pay for it', code: 'BOOKING_ACCESS_DENIED' };
+    }
+
+    if (!FUNDABLE_BOOKING_STATUSES.includes(booking.status)) {
+      return {
+        success: false,
+        status: 409,
+        message: `Bookings with status '${booking.status}' cannot be funded`,
+        code: 'BOOKING_NOT_FUNDABLE'
+      };
+    }
+
+    if (booking.payment_status !== 'pending') {
+      return { success: false, status: 409, message: 'This booking has already been funded', code: 'BOOKING_ALREADY_FUNDED' };
+    }
+
+    // Reuse an open checkout for the same provider instead of creating duplicates
+    const openCheckout = await PaymentTransaction.findOne({
+      where: { booking_id: booking.id, type: 'checkout', status: 'pending', provider: providerName }
+    });
+    if (openCheckout && openCheckout.metadata?.expires_at && new Date(openCheckout.metadata.expires_at) > new Date()) {
+      return { success: true, status: 200, message: 'Checkout already in progress', code: 'CHECKOUT_EXISTS', payment: openCheckout };
+    }
+
+    const { totalAmount } = booking.calculatePayments();
+    const provider = getPaymentProvider(providerName);
+
+    const session = await provider.createCheckout({
+      bookingId: booking.id,
+      amount: Number(totalAmount),
+      description: `HelpQo booking ${booking.id}`,
+      customerId: clientId
+    });
+
+    const payment = await PaymentTransaction.create({
+      booking_id: booking.id,
+      user_id: clientId,
+      provider: providerName,
+      type: 'checkout',
+      status: 'pending',
+      amount: session.amount,
+      provider_reference: session.checkoutId,
+      checkout_url: session.checkoutUrl,
+      metadata: { expires_at: session.expiresAt.toISOString() }
+    } as any);
+
+    console.log(`💳 Checkout started for booking ${booking.id} via ${providerName}`);
+
+    return { success: true, status: 201, message: 'Checkout created', code: 'CHECKOUT_CREATED', payment };
+  }
+
+  /**
+   * Verify and apply a provider webhook
+   * Webhooks are idempotent: replays of an already-applied event are ignored
+   * @param providerName - Provider the webhook claims to come from
+   * @param rawBody - Exact request body as received
+   * @param headers - Request headers (signature lives here)
+   * @returns Promise<WebhookHandleResult>
+   * @throws WebhookVerificationError on bad signatures
+   */
+  public static async handleWebhook(
+    providerName: PaymentProviderName,
+    rawBody: string,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<WebhookHandleResult> {
+    const provider = getPaymentProvider(providerName);
+    const event = provider.verifyWebhook(rawBody, headers);
+
+    // Capture and commit the result before any ledger work, so a rollback
+    // below can't lose track of money the provider has already moved
+    if (event.type === 'checkout.paid') {
+      await this.recordCapture(provider, event);
+    }
+
+    let refundDue: PaymentTransaction | null = null;
+
+    const result = await sequelize.transaction(async (transaction): Promise<WebhookHandleResult> => {
+      const payment = await PaymentTransaction.findOne({
+        where: { provider: providerName, provider_reference: event.reference },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!payment) {
+        console.warn(`⚠️ Webhook ${event.id} references unknown ${providerName} transaction ${event.reference}`);
+        return { event, duplicate: false };
+      }
+
+      if (payment.status !== 'pending') {
+        return { event, duplicate: true, payment };
+      }
+
+      switch (event.type) {
+        case 'checkout.paid': {
+          const booking = await Booking.findByPk(payment.booking_id!, { transaction, lock: transaction.LOCK.UPDATE });
+          if (!booking) throw new Error(`Booking ${payment.booking_id} not found for checkout ${payment.provider_reference}`);
+
+          const transactionId = payment.metadata?.transaction_id;
+          if (!transactionId) throw new Error(`Checkout ${payment.provider_reference} has no recorded capture`);
+
+          // Paid through a second checkout after the booking was already funded, or
+          // after it was cancelled: hand the money back instead of posting it to escrow.
+          // The refund itself goes to the provider once this transaction commits
+          const alreadyFunded = booking.payment_status !== 'pending';
+          if (alreadyFunded || !FUNDABLE_BOOKING_STATUSES.includes(booking.status)) {
+            payment.metadata = {
+              ...payment.metadata,
+              webhook_event_id: event.id,
+              refund_due: true,
+              refund_reason: alreadyFunded ? 'duplicate_payment' : 'booking_not_fundable'
+            };
+            await payment.markFailed(alreadyFunded
+              ? 'Duplicate payment: booking was already funded; refunded to the client'
+              : `Booking is ${booking.status} and can no longer be funded; refunded to the client`, { transaction });
+
+            refundDue = payment;
+            break;
+          }
+
+          await payment.markSucceeded({ webhook_event_id: event.id }, { transaction });
+
+          await EscrowService.holdFunds(booking, { reference: transactionId, transaction });
+          console.log(`✅ ${providerName} payment captured; escrow funded for booking ${booking.id}`);
+          break;
+        }
+
+        case 'checkout.failed':
+          await payment.markFailed(event.data?.failure_reason || 'Payment failed', { transaction });
+          break;
+
+        case 'refund.succeeded':
+        case 'payout.succeeded':
+          await payment.markSucceeded({ webhook_event_id: event.id }, { transaction });
+          break;
+
+        case 'payout.failed': {
+          const reason = event.data?.failure_reason || 'Payout failed';
+          await payment.markFailed(reason, { transaction });
+          await PayoutService.handleProviderPayoutFailure(payment, reason, transaction);
+          break;
+        }
+      }
+
+      return { event, duplicate: false, payment };
+    });
+
+    if (refundDue) {
+      await this.refundUnfundedCapture(provider, refundDue);
+    }
+
+    return result;
+  }
+
+  /**
+   * Capture a paid checkout and store the provider transaction on the payment
+   * Captures are idempotent per checkout, so a replayed webhook gets the same transaction
+   */
+  private static async recordCapture(provider: PaymentProvider, event: WebhookEvent): Promise<void> {
+    const payment = await PaymentTransaction.findOne({
+      where: { provider: provider.name, provider_reference: event.reference }
+    });
+    if (!payment || payment.status !== 'pending' || payment.metadata?.transaction_id) return;
+
+    const capture = await provider.capture(payment.provider_reference);
+
+    await sequelize.transaction(async (transaction) => {
+      await payment.reload({ transaction, lock: transaction.LOCK.UPDATE });
+      if (payment.status !== 'pending' || payment.metadata?.transaction_id) return;
+
+      payment.metadata = {
+        ...(payment.metadata || {}),
+        transaction_id: capture.transactionId,
+        captured_amount: capture.amount,
+        captured_at: capture.capturedAt.toISOString()
+      };
+      await payment.save({ transaction });
+    });
+  }
+
+  /**
+   * Return a captured checkout that could not fund its booking
+   * A failed provider call leaves refund_due on the payment for finance to retry
+   */
+  private static async refundUnfundedCapture(provider: PaymentProvider, payment: PaymentTransaction): Promise<void> {
+    const transactionId = payment.metadata!.transaction_id;
+
+    try {
+      const refund = await provider.refund(transactionId, Number(payment.metadata!.captured_amount ?? payment.amount));
+
+      await sequelize.transaction(async (transaction) => {
+        await PaymentTransaction.create({
+          booking_id: payment.booking_id,
+          user_id: payment.user_id,
+          provider: payment.provider,
+          type: 'refund',
+          status: refund.status === 'succeeded' ? 'succeeded' : 'pending',
+          amount: refund.amount,
+          provider_reference: refund.refundId,
+          completed_at: refund.status === 'succeeded' ? new Date() : undefined,
+          metadata: { original_transaction_id: transactionId, reason: payment.metadata!.refund_reason }
+        } as any, { transaction });
+
+        payment.metadata = { ...payment.metadata, refund_due: false, refund_id: refund.refundId };
+        await payment.save({ transaction });
+      });
+
+      console.warn(`⚠️ Unfundable ${payment.provider} payment for booking ${payment.booking_id} refunded (${refund.refundId})`);
+    } catch (error) {
+      console.error(`❌ Refund of unfundable ${payment.provider} payment ${transactionId} failed; still due:`, error);
+    }
+  }
+
+  /**
+   * Refund escrow to the client through the provider that funded it
+   * Writes the ledger refund and the provider refund in one step
+   * @param booking - Booking being refunded
+   * @param amount - Optional partial amount (defaults to the full escrow balance)
+   * @returns Promise<PaymentTransaction | null> - Provider refund record (null if funded outside a provider)
+   */
+  public static async refundToClient(
+    booking: Booking,
+    amount?: number,
+    options: { createdBy?: string; transaction?: Transaction } = {}
+  ): Promise<PaymentTransaction | null> {
+    const run = async (transaction: Transaction) => {
+      const refundAmount = amount !== undefined
+        ? amount
+        : (await EscrowService.getBookingBalances(booking.id, transaction)).escrow;
+
+      const checkout = await PaymentTransaction.findOne({
+        where: { booking_id: booking.id, type: 'checkout', status: 'succeeded' },
+        transaction
+      });
+
+      await EscrowService.refundFunds(booking, refundAmount, {
+        reference: checkout?.metadata?.transaction_id,
+        createdBy: options.createdBy,
+        transaction
+      });
+
+      if (!checkout) return null;
+
+      const provider = getPaymentProvider(checkout.provider);
+      const refund = await provider.refund(checkout.metadata!.transaction_id, refundAmount);
+
+      return await PaymentTransaction.create({
+        booking_id: booking.id,
+        user_id: booking.client_id,
+        provider: checkout.provider,
+        type: 'refund',
+        status: refund.status === 'succeeded' ? 'succeeded' : 'pending',
+        amount: refund.amount,
+        provider_reference: refund.refundId,
+        completed_at: refund.status === 'succeeded' ? new Date() : undefined,
+        metadata: { original_transaction_id: checkout.metadata!.transaction_id }
+      } as any, { transaction });
+    };
+
+    return options.transaction ? run(options.transaction) : sequelize.transaction(run);
+  }
+}
+
+export default PaymentGatewayService;
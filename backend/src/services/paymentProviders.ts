@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import { PaymentProviderName, PAYMENT_PROVIDERS } from '../models/PaymentTransaction';
+
+/**
+ * Payment Provider Abstraction - Philippine e-wallets
+ * Every rail (GCash, PayMaya, ...) implements PaymentProvider. Local simulators
+ * stand in for the real APIs so the escrow flow runs end to end offline.
+ */
+
+export interface CheckoutRequest {
+  bookingId: string;
+  amount: number;
+  description: string;
+  customerId: string;
+}
+
+export interface CheckoutSession {
+  checkoutId: string;
+  checkoutUrl: string;
+  amount: number;
+  expiresAt: Date;
+}
+
+export interface CaptureResult {
+  transactionId: string;
+  amount: number;
+  capturedAt: Date;
+}
+
+export interface RefundResult {
+  refundId: string;
+  amount: number;
+  status: 'succeeded' | 'pending';
+}
+
+export interface PayoutRequest {
+  recipientId: string;
+  accountNumber: string;
+  amount: number;
+  reference: string;
+}
+
+export interface PayoutResult {
+  payoutId: string;
+  amount: number;
+  status: 'succeeded' | 'pending' | 'failed';
+  failureReason?: string;
+}
+
+export const WEBHOOK_EVENT_TYPES = [
+  'checkout.paid',
+  'checkout.failed',
+  'refund.succeeded',
+  'payout.succeeded',
+  'payout.failed'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  provider: PaymentProviderName;
+  reference: string;          // checkoutId / refundId / payoutId
+  amount: number;
+  occurredAt: string;
+  data?: Record<string, any>;
+}
+
+export interface SignedWebhook {
+  body: string;
+  headers: Record<string, string>;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  capture(checkoutId: string): Promise<CaptureResult>;
+  refund(transactionId: string, amount: number): Promise<RefundResult>;
+  payout(request: PayoutRequest): Promise<PayoutResult>;
+  verifyWebhook(rawBody: string, headers: Record<string, string | string[] | undefined>): WebhookEvent;
+}
+
+// Thrown when a webhook fails signature or freshness checks
+export class WebhookVerificationError extends Error {
+  public readonly status = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+// Webhooks older than this are rejected to prevent replay
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// Built-in simulator secrets are only accepted in local development; anywhere
+// else an unset secret means webhooks for that provider are rejected
+const webhookSecretFromEnv = (envName: string, developmentFallback: string): string | undefined =>
+  process.env[envName] || (process.env.NODE_ENV === 'development' ? developmentFallback : undefined);
+
+/**
+ * Local e-wallet simulator
+ * Keeps checkouts in memory and signs callbacks with HMAC-SHA256 over
+ * "<timestamp>.<body>", the same scheme the real providers use.
+ */
+abstract class SimulatedWalletProvider implements PaymentProvider {
+  public abstract readonly name: PaymentProviderName;
+  protected abstract readonly referencePrefix: string;
+  protected abstract readonly signatureHeader: string;
+  protected abstract readonly webhookSecret: string | undefined;
+
+  private checkouts = new Map<string, CheckoutSession & { status: 'pending' | 'paid' | 'failed'; bookingId: string }>();
+  private captures = new Map<string, CaptureResult & { refunded: number }>();
+
+  protected generateReference(kind: string): string {
+    return `${this.referencePrefix}_${kind}_${crypto.randomBytes(10).toString('hex')}`;
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const checkoutId = this.generateReference('chk');
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+    const session = {
+      checkoutId,
+      checkoutUrl: `${baseUrl}/payments/simulator/${this.name.toLowerCase()}/${checkoutId}`,
+      amount: request.amount,
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
+      status: 'pending' as const,
+      bookingId: request.bookingId
+    };
+
+    this.checkouts.set(checkoutId, session);
+    console.log(`💳 [${this.name} simulator] Checkout ${checkoutId} created for ₱${request.amount.toLocaleString()}`);
+
+    return {
+      checkoutId: session.checkoutId,
+      checkoutUrl: session.checkoutUrl,
+      amount: session.amount,
+      expiresAt: session.expiresAt
+    };
+  }
+
+  async capture(checkoutId: string): Promise<CaptureResult> {
+    const checkout = this.checkouts.get(checkoutId);
+    if (!checkout || checkout.status !== 'paid') {
+      throw new Error(`[${this.name} simulator] Checkout ${checkoutId} has not been paid`);
+    }
+
+    const existing = this.captures.get(checkoutId);
+    if (existing) return existing;
+
+    const capture = {
+      transactionId: this.generateReference('txn'),
+      amount: checkout.amount,
+      capturedAt: new Date(),
+      refunded: 0
+    };
+    this.captures.set(checkoutId, capture);
+    this.captures.set(capture.transactionId, capture);
+
+    return capture;
+  }
+
+  async refund(transactionId: string, amount: number): Promise<RefundResult> {
+    const capture = this.captures.get(transactionId);
+    if (!capture) {
+      throw new Error(`[${this.name} simulator] Unknown transaction ${transactionId}`);
+    }
+    if (capture.refunded + amount > capture.amount) {
+      throw new Error(`[${this.name} simulator] Refund exceeds captured amount`);
+    }
+
+    capture.refunded += amount;
+    console.log(`↩️ [${this.name} simulator] Refunded ₱${amount.toLocaleString()} on ${transactionId}`);
+
+    return { refundId: this.generateReference('ref'), amount, status: 'succeeded' };
+  }
+
+  async payout(request: PayoutRequest): Promise<PayoutResult> {
+    // Simulate the wallet rejecting malformed Philippine mobile numbers
+    if (!/^(\+63|0)9\d{9}$/.test(request.accountNumber)) {
+      return {
+        payoutId: this.generateReference('po'),
+        amount: request.amount,
+        status: 'failed',
+        failureReason: `Invalid ${this.name} account number`
+      };
+    }
+
+    console.log(`💸 [${this.name} simulator] Payout ₱${request.amount.toLocaleString()} → ${request.accountNumber}`);
+    return { payoutId: this.generateReference('po'), amount: request.amount, status: 'succeeded' };
+  }
+
+  /**
+   * Sign a webhook body the way the provider would
+   */
+  public signWebhook(event: WebhookEvent, timestamp: number = Math.floor(Date.now() / 1000)): SignedWebhook {
+    if (!this.webhookSecret) {
+      throw new Error(`[${this.name} simulator] Webhook secret is not configured`);
+    }
+
+    const body = JSON.stringify(event);
+    const signature = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return {
+      body,
+      headers: {
+        'content-type': 'application/json',
+        [this.signatureHeader]: `t=${timestamp},v1=${signature}`
+      }
+    };
+  }
+
+  verifyWebhook(rawBody: string, headers: Record<string, string | string[] | undefined>): WebhookEvent {
+    if (!this.webhookSecret) {
+      throw new WebhookVerificationError(`${this.name} webhooks are not configured`);
+    }
+
+    const header = headers[this.signatureHeader];
+    if (!header || Array.isArray(header)) {
+      throw new WebhookVerificationError(`Missing ${this.signatureHeader} header`);
+    }
+
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+    const timestamp = parseInt(parts.t, 10);
+    if (!parts.v1 || isNaN(timestamp)) {
+      throw new WebhookVerificationError('Malformed webhook signature header');
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+      throw new WebhookVerificationError('Webhook timestamp outside tolerance');
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.${rawBody}`)
+      .digest('hex');
+
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    const receivedBuffer = Buffer.from(parts.v1, 'hex');
+    if (expectedBuffer.length !== receivedBuffer.length || !crypto.timingSafeEqual(expectedBuffer, receivedBuffer)) {
+      throw new WebhookVerificationError('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(rawBody) as WebhookEvent;
+    if (event.provider !== this.name) {
+      throw new WebhookVerificationError('Webhook provider mismatch');
+    }
+
+    return event;
+  }
+
+  /**
+   * Simulate the customer completing (or abandoning) checkout in the wallet app
+   * Returns the signed webhook the provider would send us
+   */
+  public simulateCustomerPayment(checkoutId: string, outcome: 'paid' | 'failed' = 'paid'): SignedWebhook {
+    const checkout = this.checkouts.get(checkoutId);
+    if (!checkout) {
+      throw new Error(`[${this.name} simulator] Unknown checkout ${checkoutId}`);
+    }
+
+    checkout.status = outcome;
+
+    return this.signWebhook({
+      id: this.generateReference('evt'),
+      type: outcome === 'paid' ? 'checkout.paid' : 'checkout.failed',
+      provider: this.name,
+      reference: checkoutId,
+      amount: checkout.amount,
+      occurredAt: new Date().toISOString(),
+      data: {
+        booking_id: checkout.bookingId,
+        ...(outcome === 'failed' && { failure_reason: 'Customer cancelled payment in wallet app' })
+      }
+    });
+  }
+}
+
+class GCashSimulator extends SimulatedWalletProvider {
+  public readonly name = 'GCash' as const;
+  protected readonly referencePrefix = 'gcash';
+  protected readonly signatureHeader = 'x-gcash-signature';
+  protected readonly webhookSecret = webhookSecretFromEnv('GCASH_WEBHOOK_SECRET', 'gcash-simulator-secret');
+}
+
+class PayMayaSimulator extends SimulatedWalletProvider {
+  public readonly name = 'PayMaya' as const;
+  protected readonly referencePrefix = 'paymaya';
+  protected readonly signatureHeader = 'x-paymaya-signature';
+  protected readonly webhookSecret = webhookSecretFromEnv('PAYMAYA_WEBHOOK_SECRET', 'paymaya-simulator-secret');
+}
+
+// Provider registry (simulators until live credentials are configured)
+const providers: Record<PaymentProviderName, SimulatedWalletProvider> = {
+  GCash: new GCashSimulator(),
+  PayMaya: new PayMayaSimulator()
+};
+
+/**
+ * Look up the provider for a payment method
+ * @param name - 'GCash' or 'PayMaya'
+ */
+export const getPaymentProvider = (name: PaymentProviderName): PaymentProvider => {
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unsupported payment provider: ${name}`);
+  }
+  return provider;
+};
+
+/**
+ * Access the simulator for a provider (development tooling only)
+ */
+export const getPaymentSimulator = (name: PaymentProviderName): SimulatedWalletProvider => {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Payment simulators are disabled in production');
+  }
+  return providers[name];
+};
+
+export const isPaymentProviderName = (value: string): value is PaymentProviderName =>
+  (PAYMENT_PROVIDERS as readonly string[]).includes(value);
@@ -0,0 +1,584 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Booking from '../models/Booking';
+import Job from '../models/Job';
+import User from '../models/User';
+import Worker from '../models/Worker';
+import LedgerEntry from '../models/LedgerEntry';
+import LedgerLine from '../models/LedgerLine';
+import PaymentTransaction, { PaymentProviderName } from '../models/PaymentTransaction';
+import PayoutBatch, { PayoutMethod, UNSENT_PAYOUT_BATCH_STATUSES } from '../models/PayoutBatch';
+import PayoutItem from '../models/PayoutItem';
+import EarningsStatement, { EarningsStatementLineItem } from '../models/EarningsStatement';
+import EscrowService, { toCentavos, toPesos } from './escrow';
+import { getPaymentProvider } from './paymentProviders';
+
+/**
+ * Worker Payout Service
+ * Groups released worker earnings (ledger worker_payable) into per-worker
+ * payout batches, sends them through the worker's preferred method and
+ * produces monthly earnings statements.
+ */
+
+export interface PayableBooking {
+  booking_id: string;
+  worker_id: string;
+  amount: number;
+}
+
+export interface PayoutRunResult {
+  batches: PayoutBatch[];
+  skipped: Array<{ worker_id: string; amount: number; reason: string }>;
+}
+
+export interface PayoutActionResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  batch?: PayoutBatch;
+}
+
+// Payouts below this are carried over to the next run
+const MINIMUM_PAYOUT_AMOUNT = Number(process.env.PAYOUT_MINIMUM_AMOUNT || 100);
+
+// Statements follow Philippine calendar months
+const MANILA_UTC_OFFSET_HOURS = 8;
+
+const DEFAULT_COMMISSION_RATE = 0.15;
+
+// Postgres advisory lock key held for a payout run, so only one API instance runs it at a time
+const PAYOUT_RUN_LOCK_KEY = 730451;
+
+export class PayoutService {
+
+  /**
+   * Pick the first preferred payment method we can pay out through
+   * Cash is settled on site; bank transfers need a verified account
+   * @param worker - Worker profile
+   * @param user - Worker's user account (wallet number = mobile number)
+   */
+  public static resolvePayoutMethod(worker: Worker, user: User): { method: PayoutMethod; accountNumber?: string } | null {
+    for (const method of worker.preferred_payment_methods || []) {
+      if (method === 'GCash' || method === 'PayMaya') {
+        return { method, accountNumber: user.phone };
+      }
+      if (method === 'Bank Transfer' && worker.bank_account_verified) {
+        return { method };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Bookings with unpaid worker earnings that are not already in an unsent batch
+   * @param workerId - Optional worker (user ID) filter
+   * @returns Promise<PayableBooking[]>
+   */
+  public static async getPayableBookings(workerId?: string, transaction?: Transaction): Promise<PayableBooking[]> {
+    const whereCondition: any = { account: 'worker_payable' };
+    if (workerId) whereCondition.owner_id = workerId;
+
+    const balances = await LedgerLine.findAll({
+      attributes: [
+        'booking_id',
+        'owner_id',
+        [sequelize.literal('SUM(credit) - SUM(debit)'), 'balance']
+      ],
+      where: whereCondition,
+      group: ['booking_id', 'owner_id'],
+      having: sequelize.literal('SUM(credit) - SUM(debit) > 0'),
+      raw: true,
+      transaction
+    }) as any[];
+
+    if (balances.length === 0) return [];
+
+    const queuedItems = await PayoutItem.findAll({
+      attributes: ['booking_id'],
+      where: { booking_id: { [Op.in]: balances.map(row => row.booking_id) } },
+      include: [{ model: PayoutBatch, as: 'batch', attributes: [], where: { status: UNSENT_PAYOUT_BATCH_STATUSES } }],
+      raw: true,
+      transaction
+    }) as any[];
+    const queuedBookingIds = new Set(queuedItems.map(item => item.booking_id));
+
+    return balances
+      .filter(row => !queuedBookingIds.has(row.booking_id))
+      .map(row => ({
+        booking_id: row.booking_id,
+        worker_id: row.owner_id,
+        amount: toPesos(toCentavos(row.balance))
+      }));
+  }
+
+  /**
+   * Group payable bookings into one queued batch per worker
+   * @param options.workerId - Only batch this worker's earnings
+   * @returns Promise<PayoutRunResult>
+   */
+  public static async createBatches(options: { workerId?: string } = {}): Promise<PayoutRunResult> {
+    const payable = await this.getPayableBookings(options.workerId);
+
+    const byWorker = new Map<string, PayableBooking[]>();
+    payable.forEach(item => {
+      byWorker.set(item.worker_id, [...(byWorker.get(item.worker_id) || []), item]);
+    });
+
+    const result: PayoutRunResult = { batches: [], skipped: [] };
+
+    for (const [workerId, items] of byWorker) {
+      const total = toPesos(items.reduce((sum, item) => sum + toCentavos(item.amount), 0));
+
+      const [user, worker] = await Promise.all([
+        User.findByPk(workerId),
+        Worker.findOne({ where: { user_id: workerId } })
+      ]);
+
+      if (!user || !worker) {
+        result.skipped.push({ worker_id: workerId, amount: total, reason: 'Worker profile not found' });
+        continue;
+      }
+
+      const payoutMethod = this.resolvePayoutMethod(worker, user);
+      if (!payoutMethod) {
+        result.skipped.push({ worker_id: workerId, amount: total, reason: 'No payout method available (add GCash/PayMaya or verify bank account)' });
+        continue;
+      }
+
+      if (total < MINIMUM_PAYOUT_AMOUNT) {
+        result.skipped.push({ worker_id: workerId, amount: total, reason: `Below minimum payout of ₱${MINIMUM_PAYOUT_AMOUNT}` });
+        continue;
+      }
+
+      const batch = await sequelize.transaction(async (transaction) => {
+        const created = await PayoutBatch.create({
+          worker_id: workerId,
+          method: payoutMethod.method,
+          status: 'queued',
+          total_amount: total,
+          booking_count: items.length,
+          account_number: payoutMethod.accountNumber
+        } as any, { transaction });
+
+        await PayoutItem.bulkCreate(items.map(item => ({
+          batch_id: created.id,
+          booking_id: item.booking_id,
+          amount: item.amount
+        })) as any[], { transaction });
+
+        return created;
+      });
+
+      console.log(`📦 Payout batch ${batch.id} queued: ₱${total.toLocaleString()} to worker ${workerId} via ${payoutMethod.method}`);
+      result.batches.push(batch);
+    }
+
+    return result;
+  }
+
+  /**
+   * Post one payout (or reversal) ledger entry per booking in the batch
+   */
+  private static async postBatchEntries(
+    batch: PayoutBatch,
+    entryType: 'payout' | 'payout_reversal',
+    options: { createdBy?: string; transaction: Transaction }
+  ): Promise<void> {
+    const items = await PayoutItem.findAll({ where: { batch_id: batch.id }, transaction: options.transaction });
+
+    for (const item of items) {
+      const amount = Number(item.amount);
+
+      if (entryType === 'payout') {
+        const balances = await EscrowService.getBookingBalances(item.booking_id, options.transaction);
+        if (toCentavos(balances.worker_payable) < toCentavos(amount)) {
+          throw new Error(`Worker payable ₱${balances.worker_payable} is insufficient to pay out ₱${amount} for booking ${item.booking_id}`);
+        }
+      }
+
+      const lines = entryType === 'payout'
+        ? [
+            { account: 'worker_payable' as const, owner_id: batch.worker_id, debit: amount },
+            { account: 'worker_disbursed' as const, owner_id: batch.worker_id, credit: amount }
+          ]
+        : [
+            { account: 'worker_disbursed' as const, owner_id: batch.worker_id, debit: amount },
+            { account: 'worker_payable' as const, owner_id: batch.worker_id, credit: amount }
+          ];
+
+      const description = entryType === 'payout'
+        ? `Worker earnings paid out via ${batch.method} (batch ${batch.id})`
+        : `Payout batch ${batch.id} reversed to worker payable`;
+
+      await EscrowService.postEntry(item.booking_id, entryType, description, lines, {
+        reference: batch.provider_reference || batch.id,
+        createdBy: options.createdBy,
+        transaction: options.transaction
+      });
+    }
+  }
+
+  /**
+   * Send a queued batch
+   * Wallet batches go through the payment provider; bank transfers are sent
+   * manually by finance and recorded with their transfer reference.
+   * A wallet batch is claimed as 'processing' and committed before the
+   * provider is called, so the payout is never made inside an open transaction
+   * and a second sender can't pick the batch up; the result is recorded after.
+   * @param batchId - Batch to send
+   * @param options.reference - Bank transfer reference (required for Bank Transfer)
+   * @param options.processedBy - Admin sending the batch (omit for the scheduler)
+   * @returns Promise<PayoutActionResult>
+   */
+  public static async sendBatch(
+    batchId: string,
+    options: { reference?: string; processedBy?: string } = {}
+  ): Promise<PayoutActionResult> {
+    const claimed = await sequelize.transaction(async (transaction): Promise<PayoutActionResult> => {
+      const batch = await PayoutBatch.findByPk(batchId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!batch) {
+        return { success: false, status: 404, message: 'Payout batch not found', code: 'PAYOUT_BATCH_NOT_FOUND' };
+      }
+
+      if (batch.status !== 'queued') {
+        return { success: false, status: 409, message: `Cannot send a ${batch.status} payout batch`, code: 'PAYOUT_BATCH_NOT_SENDABLE', batch };
+      }
+
+      batch.processed_by = options.processedBy;
+
+      if (batch.isProviderPayout()) {
+        batch.status = 'processing';
+        await batch.save({ transaction });
+        return { success: true, message: 'Payout batch claimed', code: 'PAYOUT_PROCESSING', batch };
+      }
+
+      if (!options.reference) {
+        return { success: false, status: 400, message: 'Bank transfer reference is required', code: 'PAYOUT_REFERENCE_REQUIRED', batch };
+      }
+      batch.provider_reference = options.reference;
+
+      return await this.recordSent(batch, options.processedBy, transaction);
+    });
+
+    if (!claimed.success || claimed.code !== 'PAYOUT_PROCESSING') return claimed;
+
+    const claimedBatch = claimed.batch!;
+    const amount = Number(claimedBatch.total_amount);
+
+    // A provider error leaves the batch in 'processing' for finance to check against the provider
+    const provider = getPaymentProvider(claimedBatch.method as PaymentProviderName);
+    const payout = await provider.payout({
+      recipientId: claimedBatch.worker_id,
+      accountNumber: claimedBatch.account_number || '',
+      amount,
+      reference: claimedBatch.id
+    });
+
+    return await sequelize.transaction(async (transaction) => {
+      const batch = await PayoutBatch.findByPk(batchId, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!batch || batch.status !== 'processing') {
+        throw new Error(`Payout batch ${batchId} left processing while its payout ${payout.payoutId} was in flight`);
+      }
+
+      const payment = await PaymentTransaction.create({
+        user_id: batch.worker_id,
+        provider: batch.method,
+        type: 'payout',
+        status: payout.status,
+        amount,
+        provider_reference: payout.payoutId,
+        failure_reason: payout.failureReason,
+        completed_at: payout.status === 'pending' ? undefined : new Date(),
+        metadata: { payout_batch_id: batch.id }
+      } as any, { transaction });
+
+      batch.payment_transaction_id = payment.id;
+      batch.provider_reference = payout.payoutId;
+
+      if (payout.status === 'failed') {
+        batch.status = 'failed';
+        batch.failed_at = new Date();
+        batch.failure_reason = payout.failureReason || 'Payout rejected by provider';
+        await batch.save({ transaction });
+
+        console.warn(`⚠️ Payout batch ${batch.id} failed: ${batch.failure_reason}`);
+        return { success: false, status: 502, message: batch.failure_reason, code: 'PAYOUT_FAILED', batch };
+      }
+
+      return await this.recordSent(batch, options.processedBy, transaction);
+    });
+  }
+
+  /**
+   * Move a batch's earnings to worker_disbursed and mark it sent
+   */
+  private static async recordSent(batch: PayoutBatch, processedBy: string | undefined, transaction: Transaction): Promise<PayoutActionResult> {
+    await this.postBatchEntries(batch, 'payout', { createdBy: processedBy, transaction });
+
+    batch.status = 'sent';
+    batch.sent_at = new Date();
+    await batch.save({ transaction });
+
+    console.log(`💸 Payout batch ${batch.id} sent: ₱${Number(batch.total_amount).toLocaleString()} via ${batch.method}`);
+    return { success: true, status: 200, message: 'Payout sent', code: 'PAYOUT_SENT', batch };
+  }
+
+  /**
+   * Reverse a sent batch (payout bounced or was clawed back)
+   * Earnings return to worker_payable and are picked up by the next run
+   * @param batchId - Batch to reverse
+   * @param reason - Why the payout was reversed
+   * @returns Promise<PayoutActionResult>
+   */
+  public static async reverseBatch(
+    batchId: string,
+    reason: string,
+    options: { processedBy?: string; transaction?: Transaction } = {}
+  ): Promise<PayoutActionResult> {
+    const run = async (transaction: Transaction): Promise<PayoutActionResult> => {
+      const batch = await PayoutBatch.findByPk(batchId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!batch) {
+        return { success: false, status: 404, message: 'Payout batch not found', code: 'PAYOUT_BATCH_NOT_FOUND' };
+      }
+
+      if (!batch.canTransitionTo('reversed')) {
+        return { success: false, status: 409, message: `Cannot reverse a ${batch.status} payout batch`, code: 'PAYOUT_BATCH_NOT_REVERSIBLE', batch };
+      }
+
+      await this.postBatchEntries(batch, 'payout_reversal', { createdBy: options.processedBy, transaction });
+
+      batch.status = 'reversed';
+      batch.reversed_at = new Date();
+      batch.reversal_reason = reason;
+      if (options.processedBy) batch.processed_by = options.processedBy;
+      await batch.save({ transaction });
+
+      console.warn(`↩️ Payout batch ${batch.id} reversed: ${reason}`);
+      return { success: true, status: 200, message: 'Payout reversed', code: 'PAYOUT_REVERSED', batch };
+    };
+
+    return options.transaction ? run(options.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * Provider reported a payout failure after accepting it
+   * @param payment - Failed payout transaction
+   */
+  public static async handleProviderPayoutFailure(payment: PaymentTransaction, reason: string, transaction: Transaction): Promise<void> {
+    const batch = await PayoutBatch.findOne({ where: { payment_transaction_id: payment.id }, transaction });
+    if (batch && batch.status === 'sent') {
+      await this.reverseBatch(batch.id, `Provider reported failure: ${reason}`, { transaction });
+    }
+  }
+
+  /**
+   * Scheduled run: batch all payable earnings and send wallet batches
+   * Bank transfer batches stay queued for finance to send manually
+   */
+  public static async runScheduledPayouts(): Promise<PayoutRunResult & { sent: number; failed: number }> {
+    // The lock lives as long as this transaction; the run's own writes use their own transactions
+    return await sequelize.transaction(async (lockTransaction) => {
+      const [[{ acquired }]] = await sequelize.query(
+        'SELECT pg_try_advisory_xact_lock(:key) AS acquired',
+        { replacements: { key: PAYOUT_RUN_LOCK_KEY }, transaction: lockTransaction }
+      ) as [Array<{ acquired: boolean }>, unknown];
+
+      if (!acquired) {
+        console.warn('⚠️ Payout run already in progress, skipping');
+        return { batches: [], skipped: [], sent: 0, failed: 0 };
+      }
+
+      const run = await this.createBatches();
+      let sent = 0;
+      let failed = 0;
+
+      for (const batch of run.batches) {
+        if (!batch.isProviderPayout()) continue;
+
+        const result = await this.sendBatch(batch.id);
+        result.success ? sent++ : failed++;
+      }
+
+      console.log(`💸 Payout run complete: ${run.batches.length} batches, ${sent} sent, ${failed} failed, ${run.skipped.length} skipped`);
+      return { ...run, sent, failed };
+    });
+  }
+
+  /**
+   * Get the Manila calendar month range for a YYYY-MM period
+   */
+  public static getPeriodRange(period: string): { start: Date; end: Date } {
+    const [year, month] = period.split('-').map(Number);
+    const nextPeriod = month === 12
+      ? `${year + 1}-01`
+      : `${year}-${String(month + 1).padStart(2, '0')}`;
+
+    const offset = `+${String(MANILA_UTC_OFFSET_HOURS).padStart(2, '0')}:00`;
+    return {
+      start: new Date(`${period}-01T00:00:00${offset}`),
+      end: new Date(`${nextPeriod}-01T00:00:00${offset}`)
+    };
+  }
+
+  /**
+   * Get the YYYY-MM period (Manila time) a date falls in
+   */
+  public static getPeriod(date: Date = new Date()): string {
+    const manila = new Date(date.getTime() + MANILA_UTC_OFFSET_HOURS * 60 * 60 * 1000);
+    return `${manila.getUTCFullYear()}-${String(manila.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+
+  /**
+   * Generate (or regenerate) a worker's earnings statement for a month
+   * Gross = released earnings + commission; net = released earnings
+   * @param workerId - Worker user ID
+   * @param period - YYYY-MM
+   * @returns Promise<EarningsStatement>
+   */
+  public static async generateStatement(workerId: string, period: string): Promise<EarningsStatement> {
+    const { start, end } = this.getPeriodRange(period);
+
+    const entries = await LedgerEntry.findAll({
+      where: {
+        entry_type: { [Op.in]: ['release', 'payout', 'payout_reversal'] },
+        created_at: { [Op.gte]: start, [Op.lt]: end }
+      },
+      include: [
+        { model: LedgerLine, as: 'lines' },
+        {
+          model: Booking,
+          as: 'booking',
+          attributes: ['id', 'job_id'],
+          where: { worker_id: workerId },
+          include: [{ model: Job, as: 'job', attributes: ['title'] }]
+        }
+      ],
+      order: [['created_at', 'ASC']]
+    });
+
+    const lineItems: EarningsStatementLineItem[] = [];
+    let grossCentavos = 0;
+    let commissionCentavos = 0;
+    let paidOutCentavos = 0;
+    const bookingIds = new Set<string>();
+
+    entries.forEach(entry => {
+      const lines: LedgerLine[] = entry.lines || [];
+      const sumLines = (account: string, side: 'debit' | 'credit') => lines
+        .filter(line => line.account === account)
+        .reduce((sum, line) => sum + toCentavos(line[side]), 0);
+
+      if (entry.entry_type === 'release') {
+        const net = sumLines('worker_payable', 'credit');
+        const commission = sumLines('platform_commission', 'credit');
+
+        grossCentavos += net + commission;
+        commissionCentavos += commission;
+        bookingIds.add(entry.booking_id);
+
+        lineItems.push({
+          booking_id: entry.booking_id,
+          job_title: entry.booking?.job?.title,
+          released_at: entry.created_at.toISOString(),
+          gross: toPesos(net + commission),
+          commission: toPesos(commission),
+          net: toPesos(net)
+        });
+      } else if (entry.entry_type === 'payout') {
+        paidOutCentavos += sumLines('worker_disbursed', 'credit');
+      } else {
+        paidOutCentavos -= sumLines('worker_disbursed', 'debit');
+      }
+    });
+
+    const netCentavos = grossCentavos - commissionCentavos;
+    const figures = {
+      worker_id: workerId,
+      period,
+      period_start: start,
+      period_end: end,
+      gross_amount: toPesos(grossCentavos),
+      commission_amount: toPesos(commissionCentavos),
+      net_amount: toPesos(netCentavos),
+      commission_rate: grossCentavos > 0
+        ? Math.round((commissionCentavos / grossCentavos) * 1000) / 1000
+        : DEFAULT_COMMISSION_RATE,
+      booking_count: bookingIds.size,
+      paid_out_amount: toPesos(paidOutCentavos),
+      line_items: lineItems,
+      generated_at: new Date()
+    };
+
+    const existing = await EarningsStatement.findOne({ where: { worker_id: workerId, period } });
+    if (existing) {
+      return await existing.update(figures);
+    }
+    return await EarningsStatement.create(figures as any);
+  }
+
+  /**
+   * Generate statements for every worker with ledger activity in a month
+   * @param period - YYYY-MM
+   * @returns Promise<number> - Statements generated
+   */
+  public static async generateMonthlyStatements(period: string): Promise<number> {
+    const { start, end } = this.getPeriodRange(period);
+
+    const owners = await LedgerLine.findAll({
+      attributes: [[sequelize.fn('DISTINCT', sequelize.col('owner_id')), 'owner_id']],
+      where: {
+        account: { [Op.in]: ['worker_payable', 'worker_disbursed'] },
+        created_at: { [Op.gte]: start, [Op.lt]: end }
+      },
+      raw: true
+    }) as any[];
+
+    for (const { owner_id } of owners) {
+      if (owner_id) await this.generateStatement(owner_id, period);
+    }
+
+    console.log(`🧾 Generated ${owners.length} earnings statements for ${period}`);
+    return owners.length;
+  }
+
+  /**
+   * Start the recurring payout schedule
+   * Runs payouts every PAYOUT_INTERVAL_HOURS (default 24) and generates the
+   * previous month's statements once the month rolls over
+   */
+  public static startScheduler(): NodeJS.Timeout | null {
+    if (process.env.PAYOUT_SCHEDULER_ENABLED === 'false') {
+      console.log('⏸️ Payout scheduler disabled');
+      return null;
+    }
+
+    const intervalHours = Number(process.env.PAYOUT_INTERVAL_HOURS || 24);
+    const intervalMs = intervalHours * 60 * 60 * 1000;
+
+    const tick = async () => {
+      try {
+        await this.runScheduledPayouts();
+
+        // First run of a new month closes out the previous month's statements
+        const now = new Date();
+        const previousRunPeriod = this.getPeriod(new Date(now.getTime() - intervalMs));
+        if (previousRunPeriod !== this.getPeriod(now)) {
+          await this.generateMonthlyStatements(previousRunPeriod);
+        }
+      } catch (error) {
+        console.error('❌ Scheduled payout run failed:', error);
+      }
+    };
+
+    const timer = setInterval(tick, intervalMs);
+    timer.unref();
+
+    console.log(`⏰ Payout scheduler running every ${intervalHours}h`);
+    return timer;
+  }
+}
+
+export default PayoutService;
@@ -0,0 +1,246 @@
+import { Transaction } from 'sequelize';
+import Review, { ReviewCategory, ReviewDirection } from '../models/Review';
+import User from '../models/User';
+import Worker from '../models/Worker';
+
+/**
+ * Rating Aggregation Service
+ * Single source of worker and client ratings. Everything is recomputed from
+ * the review store, so edits, hidden and flagged reviews are always reflected.
+ *
+ * rating_average is the plain mean shown to users. rating_score is used for
+ * ranking: reviews are weighted by age (half-life decay) and the result is
+ * pulled toward the platform mean until a worker has enough reviews.
+ */
+
+export interface RatingSummary {
+  average_rating: number;
+  total_reviews: number;
+  rating_breakdown: Record<number, number>;
+  category_averages: Partial<Record<ReviewCategory, number>>;
+  weighted_average: number;
+  bayesian_score: number;
+}
+
+// Confidence (in review-equivalents) given to the platform mean
+const PRIOR_WEIGHT = Number(process.env.RATING_PRIOR_WEIGHT || 5);
+// Age at which a review counts half as much as a new one
+const DECAY_HALF_LIFE_DAYS = Number(process.env.RATING_DECAY_HALF_LIFE_DAYS || 365);
+// Used until the platform has any published reviews
+const DEFAULT_PRIOR_MEAN = 4.0;
+
+// Review changes that affect the reviewee's rating
+const RATING_FIELDS = ['is_public', 'is_flagged', 'overall_rating', 'category_ratings', 'review_direction'];
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export class RatingService {
+  private static hooksAttached = false;
+
+  /**
+   * Weight of a review by age: 1 when new, 0.5 after one half-life
+   */
+  public static getDecayWeight(review: Review, now: Date = new Date()): number {
+    const reviewedAt = new Date(review.published_at || review.created_at).getTime();
+    const ageDays = Math.max(0, (now.getTime() - reviewedAt) / (1000 * 60 * 60 * 24));
+    return Math.pow(0.5, ageDays / DECAY_HALF_LIFE_DAYS);
+  }
+
+  /**
+   * Platform-wide mean rating for a review direction (the Bayesian prior)
+   */
+  public static async getPriorMean(direction: ReviewDirection, transaction?: Transaction): Promise<number> {
+    const mean = await Review.aggregate('overall_rating', 'avg', {
+      where: { review_direction: direction, is_public: true, is_flagged: false },
+      transaction
+    });
+
+    const value = Number(mean);
+    return Number.isFinite(value) && value > 0 ? value : DEFAULT_PRIOR_MEAN;
+  }
+
+  /**
+   * Aggregate a set of reviews into plain, weighted and smoothed ratings
+   * @param reviews - Reviews that count toward the rating
+   * @param direction - Direction the reviews were written in
+   * @param priorMean - Platform mean used for smoothing
+   */
+  public static summarize(
+    reviews: Review[],
+    direction: ReviewDirection,
+    priorMean: number,
+    now: Date = new Date()
+  ): RatingSummary {
+    const ratingBreakdown: Record<number, number> = {};
+    for (let i = 1; i <= 5; i++) {
+      ratingBreakdown[i] = reviews.filter(review => review.overall_rating === i).length;
+    }
+
+    const categoryAverages: Partial<Record<ReviewCategory, number>> = {};
+    Review.getCategoriesForDirection(direction).forEach(category => {
+      const scores = reviews
+        .map(review => review.category_ratings?.[category])
+        .filter((score): score is number => typeof score === 'number');
+
+      if (scores.length > 0) {
+        categoryAverages[category] = round(scores.reduce((sum, score) => sum + score, 0) / scores.length, 1);
+      }
+    });
+
+    if (reviews.length === 0) {
+      return {
+        average_rating: 0,
+        total_reviews: 0,
+        rating_breakdown: ratingBreakdown,
+        category_averages: categoryAverages,
+        weighted_average: 0,
+        bayesian_score: round(priorMean, 3)
+      };
+    }
+
+    const total = reviews.reduce((sum, review) => sum + review.overall_rating, 0);
+
+    let weightSum = 0;
+    let weightedTotal = 0;
+    reviews.forEach(review => {
+      const weight = this.getDecayWeight(review, now);
+      weightSum += weight;
+      weightedTotal += weight * review.overall_rating;
+    });
+
+    return {
+      average_rating: round(total / reviews.length, 2),
+      total_reviews: reviews.length,
+      rating_breakdown: ratingBreakdown,
+      category_averages: categoryAverages,
+      weighted_average: round(weightedTotal / weightSum, 2),
+      bayesian_score: round((PRIOR_WEIGHT * priorMean + weightedTotal) / (PRIOR_WEIGHT + weightSum), 3)
+    };
+  }
+
+  /**
+   * Rating summary for a user as a worker (default) or as a client
+   */
+  public static async getRatingSummary(
+    userId: string,
+    direction: ReviewDirection = 'client_to_worker',
+    transaction?: Transaction
+  ): Promise<RatingSummary> {
+    const [reviews, priorMean] = await Promise.all([
+      Review.findCountedReviews(userId, direction, transaction),
+      this.getPriorMean(direction, transaction)
+    ]);
+
+    return this.summarize(reviews, direction, priorMean);
+  }
+
+  /**
+   * Recompute the rating fields on a worker profile
+   * @param workerUserId - User ID of the worker (the reviewee)
+   */
+  public static async recomputeWorkerRating(workerUserId: string, transaction?: Transaction): Promise<RatingSummary | null> {
+    const worker = await Worker.findOne({ where: { user_id: workerUserId }, transaction });
+    if (!worker) return null;
+
+    const summary = await this.getRatingSummary(workerUserId, 'client_to_worker', transaction);
+
+    worker.rating_average = summary.average_rating;
+    worker.total_reviews = summary.total_reviews;
+    worker.category_ratings = summary.category_averages;
+    // Workers without reviews rank below anyone who has earned a score
+    worker.rating_score = summary.total_reviews > 0 ? summary.bayesian_score : 0;
+    await worker.save({ transaction });
+
+    return summary;
+  }
+
+  /**
+   * Recompute the client rating stored on the user row
+   */
+  public static async recomputeClientRating(clientId: string, transaction?: Transaction): Promise<RatingSummary> {
+    const summary = await this.getRatingSummary(clientId, 'worker_to_client', transaction);
+
+    await User.update(
+      {
+        client_rating_average: summary.average_rating,
+        client_total_reviews: summary.total_reviews
+      },
+      { where: { id: clientId }, transaction }
+    );
+
+    return summary;
+  }
+
+  /**
+   * Recompute the rating of whoever a review is about
+   */
+  public static async recomputeForReview(review: Review, transaction?: Transaction): Promise<void> {
+    if (review.review_direction === 'worker_to_client') {
+      await this.recomputeClientRating(review.reviewee_id, transaction);
+    } else {
+      await this.recomputeWorkerRating(review.reviewee_id, transaction);
+    }
+  }
+
+  /**
+   * Recompute every reviewed worker (time decay shifts scores even without new reviews)
+   * @returns number - Workers updated
+   */
+  public static async refreshAllWorkerRatings(): Promise<number> {
+    const reviewees = await Review.findAll({
+      attributes: ['reviewee_id'],
+      where: { review_direction: 'client_to_worker' },
+      group: ['reviewee_id']
+    });
+
+    let updated = 0;
+    for (const { reviewee_id } of reviewees) {
+      if (await this.recomputeWorkerRating(reviewee_id)) updated++;
+    }
+    return updated;
+  }
+
+  /**
+   * Keep ratings in sync whenever a review is created, edited, hidden,
+   * flagged/unflagged or deleted
+   */
+  public static attachReviewHooks(): void {
+    if (this.hooksAttached) return;
+    this.hooksAttached = true;
+
+    Review.addHook('afterSave', 'recomputeRating', async (review: Review, options: any) => {
+      if (RATING_FIELDS.some(field => review.changed(field as any))) {
+        await this.recomputeForReview(review, options.transaction);
+      }
+    });
+
+    Review.addHook('afterDestroy', 'recomputeRating', async (review: Review, options: any) => {
+      await this.recomputeForReview(review, options.transaction);
+    });
+  }
+
+  /**
+   * Start the recurring decay refresh (every RATING_REFRESH_HOURS, default 24)
+   */
+  public static startDecayRefresh(): NodeJS.Timeout {
+    const intervalHours = Number(process.env.RATING_REFRESH_HOURS || 24);
+
+    const timer = setInterval(async () => {
+      try {
+        const updated = await this.refreshAllWorkerRatings();
+        console.log(`⭐ Refreshed ratings for ${updated} worker(s)`);
+      } catch (error) {
+        console.error('❌ Rating refresh failed:', error);
+      }
+    }, intervalHours * 60 * 60 * 1000);
+    timer.unref();
+
+    console.log(`⏰ Rating decay refresh running every ${intervalHours}h`);
+    return timer;
+  }
+}
+
+export default RatingService;
@@ -0,0 +1,295 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import Review, { ReviewDirection } from '../models/Review';
+import ReviewModerationAction from '../models/ReviewModerationAction';
+import User from '../models/User';
+import AuthorizationService from './authorization';
+import { ReviewResult } from './reviews';
+
+/**
+ * Review Moderation Service
+ * Admin queue for flagged reviews. Every action is written to
+ * review_moderation_actions with the moderator, reason and time.
+ */
+
+export type ModerationQueueStatus = 'flagged' | 'hidden' | 'all';
+
+export interface ModerationQueueFilters {
+  status?: ModerationQueueStatus;
+  assigned_to?: string;           // Admin user ID or 'unassigned'
+  direction?: ReviewDirection;
+  rating?: number;
+  search?: string;
+}
+
+const REDACTION_MASK = '[redacted]';
+
+// Text fields a moderator can redact
+const REDACTABLE_FIELDS = ['review_title', 'review_text', 'response_text'] as const;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class ReviewModerationService {
+
+  /**
+   * Load and lock a review, run a moderation step and return its result
+   */
+  private static async withReview(
+    reviewId: string,
+    step: (review: Review, transaction: Transaction) => Promise<ReviewResult>
+  ): Promise<ReviewResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const review = await Review.findByPk(reviewId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!review) {
+        return { success: false, status: 404, message: 'Review not found', code: 'REVIEW_NOT_FOUND' };
+      }
+
+      return await step(review, transaction);
+    });
+  }
+
+  /**
+   * Moderation queue, oldest first
+   * @returns Promise<{ rows: Review[]; count: number }>
+   */
+  public static async getQueue(
+    filters: ModerationQueueFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ rows: Review[]; count: number }> {
+    const status = filters.status || 'flagged';
+    const whereCondition: any = {};
+
+    if (status === 'flagged') whereCondition.is_flagged = true;
+    if (status === 'hidden') whereCondition.hidden_at = { [Op.ne]: null };
+
+    if (filters.assigned_to === 'unassigned') {
+      whereCondition.moderation_assigned_to = null;
+    } else if (filters.assigned_to) {
+      whereCondition.moderation_assigned_to = filters.assigned_to;
+    }
+
+    if (filters.direction) whereCondition.review_direction = filters.direction;
+    if (filters.rating) whereCondition.overall_rating = filters.rating;
+
+    if (filters.search) {
+      whereCondition[Op.or] = [
+        { review_title: { [Op.iLike]: `%${filters.search}%` } },
+        { review_text: { [Op.iLike]: `%${filters.search}%` } }
+      ];
+    }
+
+    return await Review.findAndCountAll({
+      where: whereCondition,
+      include: [
+        { model: User, as: 'reviewer', attributes: ['id', 'first_name', 'last_name'] },
+        { model: User, as: 'reviewee', attributes: ['id', 'first_name', 'last_name'] },
+        { model: User, as: 'moderator', attributes: ['id', 'first_name', 'last_name'] }
+      ],
+      order: [['updated_at', 'ASC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+  }
+
+  /**
+   * Full moderation history of a review, oldest first
+   */
+  public static async getHistory(reviewId: string): Promise<ReviewModerationAction[]> {
+    return await ReviewModerationAction.findAll({
+      where: { review_id: reviewId },
+      order: [['created_at', 'ASC']]
+    });
+  }
+
+  /**
+   * Take a review from the queue
+   * @param force - Take it over from another moderator
+   */
+  public static async claim(reviewId: string, adminId: string, force: boolean = false): Promise<ReviewResult> {
+    return this.withReview(reviewId, async (review, transaction) => {
+      if (review.moderation_assigned_to === adminId) {
+        return { success: true, message: 'Review already claimed by you', code: 'REVIEW_CLAIMED', review };
+      }
+
+      if (review.moderation_assigned_to && !force) {
+        return { success: false, status: 409, message: 'Review is already claimed by another moderator', code: 'REVIEW_ALREADY_CLAIMED' };
+      }
+
+      const previous = review.moderation_assigned_to;
+      review.moderation_assigned_to = adminId;
+      review.moderation_assigned_at = new Date();
+      await review.save({ transaction });
+
+      await review.recordModerationAction('claimed', { id: adminId, role: 'admin' }, {
+        metadata: previous ? { taken_over_from: previous } : undefined
+      }, transaction);
+
+      return { success: true, message: 'Review claimed', code: 'REVIEW_CLAIMED', review };
+    });
+  }
+
+  /**
+   * Assign a review to a moderator
+   */
+  public static async assign(reviewId: string, adminId: string, assigneeId: string): Promise<ReviewResult> {
+    const assignee = await User.findByPk(assigneeId);
+    if (!assignee || !AuthorizationService.hasPermission(assignee, 'review:moderate')) {
+      return { success: false, status: 400, message: 'Reviews can only be assigned to moderators', code: 'INVALID_ASSIGNEE' };
+    }
+
+    return this.withReview(reviewId, async (review, transaction) => {
+      review.moderation_assigned_to = assignee.id;
+      review.moderation_assigned_at = new Date();
+      await review.save({ transaction });
+
+      await review.recordModerationAction('assigned', { id: adminId, role: 'admin' }, {
+        metadata: { assigned_to: assignee.id }
+      }, transaction);
+
+      return { success: true, message: `Review assigned to ${assignee.getFullName()}`, code: 'REVIEW_ASSIGNED', review };
+    });
+  }
+
+  /**
+   * Remove a review from public view (clears the flag)
+   */
+  public static async hide(reviewId: string, adminId: string, reason: string): Promise<ReviewResult> {
+    return this.withReview(reviewId, async (review, transaction) => {
+      if (review.isHidden()) {
+        return { success: false, status: 409, message: 'Review is already hidden', code: 'REVIEW_ALREADY_HIDDEN' };
+      }
+
+      review.hidden_at = new Date();
+      review.is_public = false;
+      review.is_flagged = false;
+      await review.save({ transaction });
+
+      await review.recordModerationAction('hidden', { id: adminId, role: 'admin' }, { reason }, transaction);
+
+      console.log(`🙈 Review ${review.id} hidden by ${adminId}`);
+
+      return { success: true, message: 'Review hidden', code: 'REVIEW_HIDDEN', review };
+    });
+  }
+
+  /**
+   * Make a hidden review visible again (still subject to double-blind publication)
+   */
+  public static async restore(reviewId: string, adminId: string, reason: string): Promise<ReviewResult> {
+    return this.withReview(reviewId, async (review, transaction) => {
+      if (!review.isHidden()) {
+        return { success: false, status: 409, message: 'Review is not hidden', code: 'REVIEW_NOT_HIDDEN' };
+      }
+
+      review.hidden_at = null as any;
+      review.is_public = !review.isBlind();
+      await review.save({ transaction });
+
+      await review.recordModerationAction('restored', { id: adminId, role: 'admin' }, { reason }, transaction);
+
+      return { success: true, message: 'Review restored', code: 'REVIEW_RESTORED', review };
+    });
+  }
+
+  /**
+   * Mask phrases in the review title, text and response
+   * @param phrases - Exact phrases to mask (case-insensitive)
+   */
+  public static async redact(reviewId: string, adminId: string, phrases: string[], reason: string): Promise<ReviewResult> {
+    return this.withReview(reviewId, async (review, transaction) => {
+      const occurrences: Record<string, number> = {};
+
+      REDACTABLE_FIELDS.forEach(field => {
+        let value = review[field];
+        if (!value) return;
+
+        phrases.forEach(phrase => {
+          const pattern = new RegExp(escapeRegExp(phrase.trim()), 'gi');
+          const matches = value!.match(pattern);
+          if (matches) {
+            occurrences[field] = (occurrences[field] || 0) + matches.length;
+            value = value!.replace(pattern, REDACTION_MASK);
+          }
+        });
+
+        review[field] = value;
+      });
+
+      if (Object.keys(occurrences).length === 0) {
+        return { success: false, status: 400, message: 'None of the phrases appear in this review', code: 'REDACTION_NOT_FOUND' };
+      }
+
+      await review.save({ transaction });
+
+      // Record where and how much was masked, never the masked text itself
+      await review.recordModerationAction('text_redacted', { id: adminId, role: 'admin' }, {
+        reason,
+        metadata: { occurrences, phrase_count: phrases.length }
+      }, transaction);
+
+      return { success: true, message: 'Review text redacted', code: 'REVIEW_REDACTED', review };
+    });
+  }
+
+  /**
+   * Remove some or all photos from a review
+   * @param photoUrls - Photos to remove (all when omitted)
+   */
+  public static async removePhotos(reviewId: string, adminId: string, reason: string, photoUrls?: string[]): Promise<ReviewResult> {
+    return this.withReview(reviewId, async (review, transaction) => {
+      const current = review.review_photos || [];
+      const removed = photoUrls ? current.filter(url => photoUrls.includes(url)) : current;
+
+      if (removed.length === 0) {
+        return { success: false, status: 400, message: 'No matching photos on this review', code: 'PHOTOS_NOT_FOUND' };
+      }
+
+      review.review_photos = current.filter(url => !removed.includes(url));
+      await review.save({ transaction });
+
+      await review.recordModerationAction('photos_removed', { id: adminId, role: 'admin' }, {
+        reason,
+        metadata: { removed_photos: removed }
+      }, transaction);
+
+      return { success: true, message: `${removed.length} photo(s) removed`, code: 'REVIEW_PHOTOS_REMOVED', review };
+    });
+  }
+
+  /**
+   * Mark a review as verified
+   */
+  public static async verify(reviewId: string, adminId: string, reason?: string): Promise<ReviewResult> {
+    return this.withReview(reviewId, async (review, transaction) => {
+      if (review.is_verified_review) {
+        return { success: false, status: 409, message: 'Review is already verified', code: 'REVIEW_ALREADY_VERIFIED' };
+      }
+
+      await review.verifyReview(adminId, reason, transaction);
+
+      return { success: true, message: 'Review verified', code: 'REVIEW_VERIFIED', review };
+    });
+  }
+
+  /**
+   * Clear the flag without changing the review
+   */
+  public static async dismiss(reviewId: string, adminId: string, reason: string): Promise<ReviewResult> {
+    return this.withReview(reviewId, async (review, transaction) => {
+      if (!review.is_flagged) {
+        return { success: false, status: 409, message: 'Review is not flagged', code: 'REVIEW_NOT_FLAGGED' };
+      }
+
+      review.is_flagged = false;
+      await review.save({ transaction });
+
+      await review.recordModerationAction('dismissed', { id: adminId, role: 'admin' }, { reason }, transaction);
+
+      return { success: true, message: 'Flag dismissed', code: 'REVIEW_FLAG_DISMISSED', review };
+    });
+  }
+}
+
+export default ReviewModerationService;
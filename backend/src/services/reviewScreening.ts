@@ -0,0 +1,472 @@
+import crypto from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import Review, { ReviewScreeningResult, SCREENED_FIELDS, ScreenedField } from '../models/Review';
+import ReviewScreeningRule, {
+  ScreeningAction,
+  ScreeningCategory,
+  ScreeningLanguage,
+  ScreeningMatchType
+} from '../models/ReviewScreeningRule';
+
+/**
+ * Review Screening Service
+ * Runs every review (on create and whenever its text changes) through the
+ * active screening rules plus duplicate/template detection. Matches are
+ * masked in public output and risky reviews are flagged for moderation.
+ */
+
+export interface ScreeningRuleInput {
+  name: string;
+  category: ScreeningCategory;
+  language?: ScreeningLanguage;
+  match_type: ScreeningMatchType;
+  pattern: string;
+  action?: ScreeningAction;
+}
+
+export interface ScreeningRuleResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  rule?: ReviewScreeningRule;
+}
+
+type DefaultRule = Omit<ScreeningRuleInput, 'language' | 'action'> & { language: ScreeningLanguage; action: ScreeningAction };
+
+// Built-in rules seeded on first use; moderators can deactivate or add to them
+const DEFAULT_RULES: DefaultRule[] = [
+  // Profanity
+  {
+    name: 'English profanity',
+    category: 'profanity',
+    language: 'en',
+    match_type: 'regex',
+    pattern: '\\b(f+u+c+k+(ing|er|ed|s)?|sh+i+t+(ty|s)?|bitch(es|y)?|asshole|bastard|dickhead|motherf\\w*|wtf|stfu)\\b',
+    action: 'mask'
+  },
+  {
+    name: 'Tagalog profanity',
+    category: 'profanity',
+    language: 'tl',
+    match_type: 'regex',
+    pattern: '\\b(putang\\s*ina|tang\\s*ina|puta|gago|gaga|tarantado|ulol|ulul|punyeta|leche|letse|kupal|hinayupak|siraulo|bwisit|buwisit|inutil|pakyu|pak\\s*yu)\\b',
+    action: 'mask'
+  },
+  {
+    name: 'Taglish profanity',
+    category: 'profanity',
+    language: 'taglish',
+    match_type: 'regex',
+    pattern: '\\b(pak\\s*shet|shet|fuck\\s*you\\s*ka|bullshit\\s*(talaga|naman))\\b',
+    action: 'mask'
+  },
+  {
+    name: 'Insults aimed at a person (Tagalog)',
+    category: 'profanity',
+    language: 'tl',
+    match_type: 'regex',
+    pattern: '\\b(putang\\s*ina\\s*mo|tang\\s*ina\\s*mo|gago\\s*ka|ulol\\s*ka|bobo\\s*(mo|ka)|tanga\\s*(mo|ka)|hayop\\s*ka)\\b',
+    action: 'mask_and_flag'
+  },
+
+  // Contact details
+  {
+    name: 'Philippine mobile number',
+    category: 'contact_phone',
+    language: 'any',
+    match_type: 'regex',
+    pattern: '(?<!\\d)(\\+?63|0)[\\s.-]*9\\d{2}[\\s.-]*\\d{3}[\\s.-]*\\d{4}(?!\\d)',
+    action: 'mask_and_flag'
+  },
+  {
+    name: 'Landline or spaced-out number',
+    category: 'contact_phone',
+    language: 'any',
+    match_type: 'regex',
+    pattern: '(?<!\\d)\\d(?:[\\s.-]?\\d){9,11}(?!\\d)',
+    action: 'mask_and_flag'
+  },
+  {
+    name: 'Email address',
+    category: 'contact_email',
+    language: 'any',
+    match_type: 'regex',
+    pattern: '[a-z0-9._%+-]+@[a-z0-9.-]+\\.[a-z]{2,}',
+    action: 'mask_and_flag'
+  },
+  {
+    name: 'Obfuscated email address',
+    category: 'contact_email',
+    language: 'any',
+    match_type: 'regex',
+    pattern: '[a-z0-9._%+-]+\\s*(\\(at\\)|\\[at\\]|\\s+at\\s+)\\s*[a-z0-9-]+\\s*(\\(dot\\)|\\[dot\\]|\\s+dot\\s+|\\.)\\s*(com|net|org|ph)\\b',
+    action: 'mask_and_flag'
+  },
+
+  // Taking the deal off-platform
+  {
+    name: 'Direct e-wallet payment',
+    category: 'off_platform_payment',
+    language: 'taglish',
+    match_type: 'regex',
+    pattern: '\\b(g-?\\s?cash|maya|paymaya)\\s+(me|mo\\s+(na\\s+)?lang(\\s+ako)?|nyo\\s+na\\s+lang|directly|direct|diretso|deretso)\\b',
+    action: 'flag'
+  },
+  {
+    name: 'Pay directly / outside the app',
+    category: 'off_platform_payment',
+    language: 'en',
+    match_type: 'regex',
+    pattern: '\\b((pay|send|transfer)\\s+(me\\s+)?(it\\s+)?direct(ly)?|(outside|off)\\s+(the\\s+)?(app|platform|helpqo))\\b',
+    action: 'flag'
+  },
+  {
+    name: 'Direct payment (Tagalog)',
+    category: 'off_platform_payment',
+    language: 'tl',
+    match_type: 'regex',
+    pattern: '\\b(diretso|deretso|direkta|direct)\\s+(na\\s+)?(lang\\s+)?(ang\\s+)?(bayad|payment|sa\\s+akin|sakin|kayo\\s+sa\\s+akin)\\b',
+    action: 'flag'
+  },
+  {
+    name: 'Contact me on another app',
+    category: 'off_platform_payment',
+    language: 'taglish',
+    match_type: 'regex',
+    pattern: '\\b(message|msg|pm|text|call|contact|chat|i-?message)\\s+(me\\s+|mo\\s+ako\\s+|nyo\\s+ako\\s+)?(on|sa|via|thru|through|at)\\s+(fb|facebook|messenger|viber|whatsapp|telegram|wechat|ig|instagram)\\b',
+    action: 'flag'
+  },
+
+  // Spam
+  {
+    name: 'Web link',
+    category: 'spam_link',
+    language: 'any',
+    match_type: 'regex',
+    pattern: '\\b(https?:\\/\\/|www\\.)\\S+',
+    action: 'mask_and_flag'
+  }
+];
+
+// Public replacement text for masked matches
+const MASK_LABELS: Record<ScreeningCategory, string> = {
+  profanity: '',                        // Starred out, keeping the first letter
+  contact_phone: '[phone removed]',
+  contact_email: '[email removed]',
+  off_platform_payment: '[removed]',
+  spam_link: '[link removed]'
+};
+
+// How long loaded rules are reused before re-reading the table
+const RULE_CACHE_MS = 60 * 1000;
+
+// Exact duplicates only count for text long enough to be distinctive
+const DUPLICATE_MIN_LENGTH = 40;
+// Reviewer's own recent reviews compared for templated text
+const TEMPLATE_LOOKBACK = 20;
+const TEMPLATE_SIMILARITY = 0.8;
+
+const maskMatch = (category: ScreeningCategory, match: string): string => {
+  if (category === 'profanity') {
+    return match.charAt(0) + match.slice(1).replace(/\S/g, '*');
+  }
+  return MASK_LABELS[category];
+};
+
+export class ReviewScreeningService {
+  private static ruleCache: { rules: ReviewScreeningRule[]; loadedAt: number } | null = null;
+  private static hooksAttached = false;
+
+  // Reviews flagged during beforeSave, recorded in afterSave once the row exists
+  private static pendingFlags = new WeakMap<Review, ReviewScreeningResult>();
+
+  /**
+   * Seed the built-in rules the first time screening runs
+   */
+  public static async ensureDefaultRules(transaction?: Transaction): Promise<void> {
+    const existing = await ReviewScreeningRule.count({ transaction });
+    if (existing > 0) return;
+
+    for (const rule of DEFAULT_RULES) {
+      await ReviewScreeningRule.create({ ...rule, is_active: true, is_system: true } as any, { transaction });
+    }
+
+    console.log(`🧹 Created ${DEFAULT_RULES.length} default review screening rules`);
+  }
+
+  /**
+   * Active rules (cached briefly so every save doesn't hit the table)
+   */
+  public static async getActiveRules(transaction?: Transaction): Promise<ReviewScreeningRule[]> {
+    if (this.ruleCache && Date.now() - this.ruleCache.loadedAt < RULE_CACHE_MS) {
+      return this.ruleCache.rules;
+    }
+
+    await this.ensureDefaultRules(transaction);
+
+    const rules = await ReviewScreeningRule.findAll({
+      where: { is_active: true },
+      order: [['category', 'ASC'], ['created_at', 'ASC']],
+      transaction
+    });
+
+    this.ruleCache = { rules, loadedAt: Date.now() };
+    return rules;
+  }
+
+  /**
+   * Drop cached rules after an admin change
+   */
+  public static invalidateRuleCache(): void {
+    this.ruleCache = null;
+  }
+
+  /**
+   * Lowercase, strip punctuation and collapse whitespace for comparisons
+   */
+  public static normalizeText(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Stable fingerprint of normalized text, used to find exact duplicates
+   */
+  public static fingerprint(text: string): string {
+    return crypto.createHash('sha256').update(this.normalizeText(text)).digest('hex');
+  }
+
+  /**
+   * Jaccard similarity of word trigrams (1 = same text)
+   */
+  public static similarity(a: string, b: string): number {
+    const shingles = (text: string) => {
+      const words = this.normalizeText(text).split(' ');
+      const set = new Set<string>();
+      for (let i = 0; i <= Math.max(0, words.length - 3); i++) {
+        set.add(words.slice(i, i + 3).join(' '));
+      }
+      return set;
+    };
+
+    const first = shingles(a);
+    const second = shingles(b);
+    let shared = 0;
+    first.forEach(shingle => { if (second.has(shingle)) shared++; });
+
+    const union = first.size + second.size - shared;
+    return union === 0 ? 0 : shared / union;
+  }
+
+  /**
+   * Run the rules over one piece of text
+   */
+  public static applyRules(
+    text: string,
+    field: ScreenedField,
+    rules: ReviewScreeningRule[]
+  ): { matches: ReviewScreeningResult['matches']; masked?: string; flag: boolean } {
+    const matches: ReviewScreeningResult['matches'] = [];
+    let masked = text;
+    let flag = false;
+
+    for (const rule of rules) {
+      let pattern: RegExp;
+      try {
+        pattern = rule.toRegExp();
+      } catch {
+        continue;   // Invalid patterns are rejected on create; skip anything legacy
+      }
+
+      if (!pattern.test(text)) continue;
+      pattern.lastIndex = 0;
+
+      matches.push({ rule: rule.name, category: rule.category, field });
+      if (rule.shouldFlag()) flag = true;
+      if (rule.shouldMask()) {
+        masked = masked.replace(pattern, match => maskMatch(rule.category, match));
+      }
+    }
+
+    return { matches, masked: masked !== text ? masked : undefined, flag };
+  }
+
+  /**
+   * Check review text against other reviews for copies and templates
+   * @returns string[] - 'duplicate' and/or 'templated'
+   */
+  public static async findCopies(review: Review, fingerprint: string, transaction?: Transaction): Promise<string[]> {
+    const categories: string[] = [];
+    const others = { [Op.ne]: review.id };
+
+    if (this.normalizeText(review.review_text).length >= DUPLICATE_MIN_LENGTH) {
+      const duplicate = await Review.findOne({
+        attributes: ['id'],
+        where: { id: others, content_fingerprint: fingerprint },
+        transaction
+      });
+      if (duplicate) categories.push('duplicate');
+    }
+
+    const recent = await Review.findAll({
+      attributes: ['id', 'review_text'],
+      where: { id: others, reviewer_id: review.reviewer_id },
+      order: [['created_at', 'DESC']],
+      limit: TEMPLATE_LOOKBACK,
+      transaction
+    });
+    if (recent.some(other => this.similarity(other.review_text, review.review_text) >= TEMPLATE_SIMILARITY)) {
+      categories.push('templated');
+    }
+
+    return categories;
+  }
+
+  /**
+   * Screen a review's title, text and response
+   */
+  public static async screenReview(
+    review: Review,
+    transaction?: Transaction
+  ): Promise<{ result: ReviewScreeningResult; fingerprint: string }> {
+    const rules = await this.getActiveRules(transaction);
+    const result: ReviewScreeningResult = {
+      screened_at: new Date().toISOString(),
+      flagged: false,
+      categories: [],
+      matches: [],
+      masked: {}
+    };
+
+    for (const field of SCREENED_FIELDS) {
+      const text = review[field];
+      if (!text) continue;
+
+      const outcome = this.applyRules(text, field, rules);
+      result.matches.push(...outcome.matches);
+      if (outcome.masked) result.masked[field] = outcome.masked;
+      if (outcome.flag) result.flagged = true;
+    }
+
+    const fingerprint = this.fingerprint(review.review_text);
+    const copies = await this.findCopies(review, fingerprint, transaction);
+    if (copies.length > 0) {
+      result.flagged = true;
+      copies.forEach(category => result.matches.push({ rule: `${category} text`, category, field: 'review_text' }));
+    }
+
+    result.categories = Array.from(new Set(result.matches.map(match => match.category)));
+    return { result, fingerprint };
+  }
+
+  /**
+   * Preview screening for arbitrary text (moderator tool)
+   */
+  public static async previewText(text: string): Promise<{ matches: ReviewScreeningResult['matches']; masked: string; would_flag: boolean }> {
+    const rules = await this.getActiveRules();
+    const outcome = this.applyRules(text, 'review_text', rules);
+    return { matches: outcome.matches, masked: outcome.masked || text, would_flag: outcome.flag };
+  }
+
+  /**
+   * All rules, active and inactive, for the admin screen
+   */
+  public static async listRules(): Promise<ReviewScreeningRule[]> {
+    await this.ensureDefaultRules();
+
+    return await ReviewScreeningRule.findAll({
+      order: [['category', 'ASC'], ['created_at', 'ASC']]
+    });
+  }
+
+  /**
+   * Add a moderator-defined rule
+   */
+  public static async createRule(input: ScreeningRuleInput, adminId: string): Promise<ScreeningRuleResult> {
+    try {
+      ReviewScreeningRule.compilePattern(input.match_type, input.pattern);
+    } catch {
+      return { success: false, status: 400, message: 'Pattern is not a valid regular expression', code: 'INVALID_SCREENING_PATTERN' };
+    }
+
+    const rule = await ReviewScreeningRule.create({
+      name: input.name,
+      category: input.category,
+      language: input.language || 'any',
+      match_type: input.match_type,
+      pattern: input.pattern,
+      action: input.action || 'mask_and_flag',
+      is_active: true,
+      is_system: false,
+      created_by: adminId
+    } as any);
+
+    this.invalidateRuleCache();
+    console.log(`🧹 Screening rule "${rule.name}" added by ${adminId}`);
+
+    return { success: true, status: 201, message: 'Screening rule created', code: 'SCREENING_RULE_CREATED', rule };
+  }
+
+  /**
+   * Turn a rule on or off
+   */
+  public static async setRuleActive(ruleId: string, isActive: boolean): Promise<ScreeningRuleResult> {
+    const rule = await ReviewScreeningRule.findByPk(ruleId);
+    if (!rule) {
+      return { success: false, status: 404, message: 'Screening rule not found', code: 'SCREENING_RULE_NOT_FOUND' };
+    }
+
+    rule.is_active = isActive;
+    await rule.save();
+    this.invalidateRuleCache();
+
+    return {
+      success: true,
+      message: isActive ? 'Screening rule activated' : 'Screening rule deactivated',
+      code: isActive ? 'SCREENING_RULE_ACTIVATED' : 'SCREENING_RULE_DEACTIVATED',
+      rule
+    };
+  }
+
+  /**
+   * Screen reviews on create and whenever their text changes
+   */
+  public static attachReviewHooks(): void {
+    if (this.hooksAttached) return;
+    this.hooksAttached = true;
+
+    Review.addHook('beforeSave', 'screenContent', async (review: Review, options: any) => {
+      if (!review.isNewRecord && !SCREENED_FIELDS.some(field => review.changed(field))) return;
+
+      const { result, fingerprint } = await this.screenReview(review, options.transaction);
+      review.screening_result = result;
+      review.content_fingerprint = fingerprint;
+
+      if (result.flagged && !review.is_flagged) {
+        review.is_flagged = true;
+        this.pendingFlags.set(review, result);
+      }
+    });
+
+    Review.addHook('afterSave', 'recordScreeningFlag', async (review: Review, options: any) => {
+      const result = this.pendingFlags.get(review);
+      if (!result) return;
+      this.pendingFlags.delete(review);
+
+      await review.recordModerationAction('flagged', { role: 'system' }, {
+        reason: `Automated screening: ${result.categories.join(', ')}`,
+        metadata: { matches: result.matches }
+      }, options.transaction);
+
+      console.log(`🚩 Review ${review.id} auto-flagged (${result.categories.join(', ')})`);
+    });
+  }
+}
+
+export default ReviewScreeningService;
@@ -0,0 +1,254 @@
+import sequelize from '../config/database';
+import Booking from '../models/Booking';
+import Review, { ReviewCategory, ReviewDirection } from '../models/Review';
+import { ReviewVoteType } from '../models/ReviewVote';
+import ReviewModerationAction from '../models/ReviewModerationAction';
+
+/**
+ * Review Service
+ * Both booking parties review each other; reviews stay hidden until the
+ * counterpart review arrives or the blind window closes.
+ */
+
+export interface SubmitReviewInput {
+  overall_rating: number;
+  category_ratings?: Partial<Record<ReviewCategory, number>>;
+  review_title?: string;
+  review_text: string;
+  review_photos?: string[];
+}
+
+export interface ReviewResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  review?: Review;
+}
+
+// Bookings that can be reviewed (work accepted by the client)
+const REVIEWABLE_STATUSES = ['approved', 'paid'];
+
+export class ReviewService {
+
+  /**
+   * Work out which direction a booking participant reviews in (null = not a participant)
+   * @param booking - Reviewed booking
+   * @param userId - Authenticated user
+   */
+  public static getReviewDirection(booking: Booking, userId: string): ReviewDirection | null {
+    if (booking.client_id === userId) return 'client_to_worker';
+    if (booking.worker_id === userId) return 'worker_to_client';
+    return null;
+  }
+
+  /**
+   * Submit the caller's review of the other party on a booking
+   * @param bookingId - Reviewed booking
+   * @param userId - Client or worker writing the review
+   * @returns Promise<ReviewResult>
+   */
+  public static async submitReview(bookingId: string, userId: string, input: SubmitReviewInput): Promise<ReviewResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const booking = await Booking.findByPk(bookingId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!booking) {
+        return { success: false, status: 404, message: 'Booking not found', code: 'BOOKING_NOT_FOUND' };
+      }
+
+      const direction = this.getReviewDirection(booking, userId);
+      if (!direction) {
+        return { success: false, status: 403, message: 'You are not a participant in this booking', code: 'BOOKING_ACCESS_DENIED' };
+      }
+
+      if (!REVIEWABLE_STATUSES.includes(booking.status)) {
+        return {
+          success: false,
+          status: 409,
+          message: 'Reviews can only be left once the work is approved',
+          code: 'BOOKING_NOT_REVIEWABLE'
+        };
+      }
+
+      const allowed = Review.getCategoriesForDirection(direction);
+      const invalid = Object.keys(input.category_ratings || {}).filter(
+        category => !allowed.includes(category as ReviewCategory)
+      );
+      if (invalid.length > 0) {
+        return {
+          success: false,
+          status: 400,
+          message: `Invalid rating categories: ${invalid.join(', ')}. Allowed: ${allowed.join(', ')}`,
+          code: 'INVALID_RATING_CATEGORY'
+        };
+      }
+
+      const existing = await Review.findOne({
+        where: { booking_id: booking.id, review_direction: direction },
+        transaction
+      });
+      if (existing) {
+        return { success: false, status: 409, message: 'You have already reviewed this booking', code: 'REVIEW_ALREADY_SUBMITTED', review: existing };
+      }
+
+      const review = await Review.create({
+        booking_id: booking.id,
+        reviewer_id: userId,
+        reviewee_id: direction === 'client_to_worker' ? booking.worker_id : booking.client_id,
+        review_direction: direction,
+        overall_rating: input.overall_rating,
+        category_ratings: input.category_ratings,
+        review_title: input.review_title,
+        review_text: input.review_text,
+        review_photos: input.review_photos || []
+      } as any, { transaction });
+
+      // afterCreate may have published the pair; pick up the new state
+      await review.reload({ transaction });
+
+      console.log(`⭐ Review submitted: ${direction} on booking ${booking.id}`);
+
+      return {
+        success: true,
+        status: 201,
+        message: review.isBlind()
+          ? 'Review submitted. It will be published once the other party reviews or the review window closes.'
+          : 'Review submitted and published',
+        code: 'REVIEW_SUBMITTED',
+        review
+      };
+    });
+  }
+
+  /**
+   * Add the reviewee's one-time public response
+   * @param reviewId - Review being answered
+   * @param userId - Reviewee
+   * @returns Promise<ReviewResult>
+   */
+  public static async respond(reviewId: string, userId: string, responseText: string): Promise<ReviewResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const review = await Review.findByPk(reviewId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!review) {
+        return { success: false, status: 404, message: 'Review not found', code: 'REVIEW_NOT_FOUND' };
+      }
+
+      if (review.reviewee_id !== userId) {
+        return { success: false, status: 403, message: 'Only the reviewed user can respond', code: 'REVIEW_RESPONSE_FORBIDDEN' };
+      }
+
+      if (review.isBlind()) {
+        return { success: false, status: 409, message: 'This review has not been published yet', code: 'REVIEW_NOT_PUBLISHED' };
+      }
+
+      if (review.response_text) {
+        return { success: false, status: 409, message: 'You have already responded to this review', code: 'REVIEW_ALREADY_RESPONDED', review };
+      }
+
+      await review.addResponse(responseText, transaction);
+
+      return { success: true, message: 'Response added', code: 'REVIEW_RESPONDED', review };
+    });
+  }
+
+  /**
+   * Cast or withdraw a helpful/unhelpful vote (one per user per review)
+   * @param reviewId - Review being voted on
+   * @param userId - Voter
+   * @param vote - Vote type, or null to withdraw
+   * @returns Promise<ReviewResult>
+   */
+  public static async vote(reviewId: string, userId: string, vote: ReviewVoteType | null): Promise<ReviewResult> {
+    return await sequelize.transaction(async (transaction) => {
+      // Lock the review so concurrent votes recount in order
+      const review = await Review.findByPk(reviewId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      if (!review || !review.is_public) {
+        return { success: false, status: 404, message: 'Review not found', code: 'REVIEW_NOT_FOUND' };
+      }
+
+      if (review.reviewer_id === userId || review.reviewee_id === userId) {
+        return { success: false, status: 403, message: 'You cannot vote on a review you wrote or received', code: 'REVIEW_VOTE_FORBIDDEN' };
+      }
+
+      if (vote) {
+        await review.castVote(userId, vote, transaction);
+      } else {
+        await review.removeVote(userId, transaction);
+      }
+
+      return {
+        success: true,
+        message: vote ? 'Vote recorded' : 'Vote removed',
+        code: vote ? 'REVIEW_VOTE_RECORDED' : 'REVIEW_VOTE_REMOVED',
+        review
+      };
+    });
+  }
+
+  /**
+   * Report a review for moderation
+   * @param reviewId - Reported review
+   * @param userId - Reporting user
+   * @returns Promise<ReviewResult>
+   */
+  public static async report(reviewId: string, userId: string, reason: string): Promise<ReviewResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const review = await Review.findByPk(reviewId, { transaction, lock: transaction.LOCK.UPDATE });
+
+      const isParticipant = review && (review.reviewer_id === userId || review.reviewee_id === userId);
+      if (!review || (!review.is_public && !isParticipant)) {
+        return { success: false, status: 404, message: 'Review not found', code: 'REVIEW_NOT_FOUND' };
+      }
+
+      // One report per user; repeats don't add weight in the queue
+      const alreadyReported = await ReviewModerationAction.count({
+        where: { review_id: review.id, actor_id: userId, action: 'flagged' },
+        transaction
+      });
+      if (alreadyReported > 0) {
+        return { success: true, message: 'Review reported for moderation', code: 'REVIEW_REPORTED', review };
+      }
+
+      await review.flagForReview(reason, { id: userId, role: 'user' }, undefined, transaction);
+
+      console.log(`🚩 Review ${review.id} reported by ${userId}`);
+
+      return { success: true, message: 'Review reported for moderation', code: 'REVIEW_REPORTED', review };
+    });
+  }
+
+  /**
+   * Publish every review whose blind window has closed
+   * @returns number - Reviews published
+   */
+  public static async publishExpiredReviews(now: Date = new Date()): Promise<number> {
+    const published = await Review.publishExpiredReviews(now);
+    if (published > 0) {
+      console.log(`⭐ Published ${published} review(s) after the blind window closed`);
+    }
+    return published;
+  }
+
+  /**
+   * Start the recurring blind-window check (every REVIEW_PUBLISH_CHECK_MINUTES, default 60)
+   */
+  public static startPublicationScheduler(): NodeJS.Timeout {
+    const intervalMinutes = Number(process.env.REVIEW_PUBLISH_CHECK_MINUTES || 60);
+
+    const timer = setInterval(async () => {
+      try {
+        await this.publishExpiredReviews();
+      } catch (error) {
+        console.error('❌ Review publication check failed:', error);
+      }
+    }, intervalMinutes * 60 * 1000);
+    timer.unref();
+
+    console.log(`⏰ Review publication check running every ${intervalMinutes}m`);
+    return timer;
+  }
+}
+
+export default ReviewService;
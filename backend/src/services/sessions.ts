@@ -0,0 +1,200 @@
+import { Request } from 'express';
+import { Op, Transaction } from 'sequelize';
+import User from '../models/User';
+import AuthSession from '../models/AuthSession';
+import { LoginContext } from './loginProtection';
+import EmailDeliveryService from './emailDelivery';
+
+/**
+ * Session Service
+ * Where a user is logged in: device, browser, IP and approximate location
+ * of every session, the user's own list/revoke API, new-device alerts and
+ * the session history admins use during fraud investigations.
+ */
+
+// Geo headers set by the proxy/CDN in front of the API, most specific first
+const CITY_HEADERS = ['cf-ipcity', 'x-vercel-ip-city', 'x-appengine-city'];
+const REGION_HEADERS = ['cf-region', 'x-vercel-ip-country-region', 'x-appengine-region'];
+const COUNTRY_HEADERS = ['cf-ipcountry', 'x-vercel-ip-country', 'x-appengine-country'];
+
+const firstHeader = (req: Request, names: string[]): string | undefined => {
+  for (const name of names) {
+    const value = req.get(name);
+    if (!value || value === 'XX' || value === '?') continue;
+
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+// Browser and OS names, checked in order (Edge and Opera also say Chrome)
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/FBAN|FBAV/, 'Facebook app'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari'],
+  [/okhttp|Dart\//, 'HelpQo app']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+export class SessionService {
+
+  /**
+   * Device, IP and approximate location of the current request
+   * (device ID comes from the app's X-Device-Id header)
+   */
+  public static getRequestContext(req: Request): LoginContext {
+    const location = [
+      firstHeader(req, CITY_HEADERS),
+      firstHeader(req, REGION_HEADERS),
+      firstHeader(req, COUNTRY_HEADERS)
+    ].filter(Boolean).join(', ');
+
+    return {
+      ip_address: req.ip,
+      device_id: req.get('x-device-id')?.slice(0, 100),
+      user_agent: req.get('user-agent')?.slice(0, 500),
+      location: location ? location.slice(0, 120) : undefined
+    };
+  }
+
+  /**
+   * Human-readable device name from a user agent, e.g. "Chrome on Android"
+   */
+  public static describeDevice(userAgent?: string): string {
+    if (!userAgent) return 'Unknown device';
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser || platform || 'Unknown device';
+  }
+
+  /**
+   * Check whether the user has logged in from this device before.
+   * Matches the app's device ID when sent, otherwise the user agent.
+   * A user's very first session counts as known (nothing to alert about).
+   */
+  public static async isKnownDevice(userId: string, context: LoginContext, transaction?: Transaction): Promise<boolean> {
+    const previous = await AuthSession.count({ where: { user_id: userId }, transaction });
+    if (previous === 0) return true;
+
+    const deviceMatch = context.device_id
+      ? { device_id: context.device_id }
+      : context.user_agent ? { user_agent: context.user_agent } : null;
+    if (!deviceMatch) return false;
+
+    const matches = await AuthSession.count({
+      where: { user_id: userId, ...deviceMatch },
+      transaction
+    });
+    return matches > 0;
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  public static async listActive(userId: string): Promise<AuthSession[]> {
+    return await AuthSession.findActiveForUser(userId);
+  }
+
+  /**
+   * Revoke one of the user's own sessions
+   * @returns boolean - False when the session isn't theirs or is already ended
+   */
+  public static async revokeOwn(userId: string, sessionId: string): Promise<boolean> {
+    const session = await AuthSession.findOne({ where: { id: sessionId, user_id: userId } });
+    if (!session || !session.isActive()) return false;
+
+    await session.revoke('user_revoked', userId);
+    console.log(`🔒 User ${userId} revoked session ${sessionId}`);
+    return true;
+  }
+
+  /**
+   * Every session of a user, including ended ones, newest first (admin)
+   */
+  public static async getHistory(
+    userId: string,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ rows: AuthSession[]; count: number }> {
+    return await AuthSession.findAndCountAll({
+      where: { user_id: userId },
+      order: [['created_at', 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+  }
+
+  /**
+   * Number of other accounts that logged in from the same app devices.
+   * IPs are not compared: mobile carriers share them across many users.
+   */
+  public static async countOtherAccountsOnDevices(userId: string, sessions: AuthSession[]): Promise<number> {
+    const devices = [...new Set(sessions.map(s => s.device_id).filter(Boolean))];
+    if (devices.length === 0) return 0;
+
+    return await AuthSession.count({
+      distinct: true,
+      col: 'user_id',
+      where: {
+        user_id: { [Op.ne]: userId },
+        device_id: { [Op.in]: devices }
+      } as any
+    });
+  }
+
+  /**
+   * Session as shown to its owner
+   * @param currentSessionId - Session of the request, flagged as `current`
+   */
+  public static formatSession(session: AuthSession, currentSessionId?: string) {
+    return {
+      id: session.id,
+      device: session.device_name || this.describeDevice(session.user_agent),
+      ip_address: session.last_ip_address || session.ip_address,
+      location: session.location,
+      created_at: session.created_at,
+      last_used_at: session.last_used_at,
+      expires_at: session.expires_at,
+      current: session.id === currentSessionId
+    };
+  }
+
+  /**
+   * Tell the account owner about a login from a device not seen before
+   */
+  public static notifyNewDevice(user: User, session: AuthSession): void {
+    EmailDeliveryService.sendInBackground({
+      to: user.email,
+      template: 'new_device_login',
+      data: {
+        user,
+        device: session.device_name || this.describeDevice(session.user_agent),
+        location: session.location,
+        ip_address: session.ip_address,
+        logged_in_at: session.created_at
+      },
+      userId: user.id
+    });
+  }
+}
+
+export default SessionService;
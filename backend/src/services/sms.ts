@@ -0,0 +1,217 @@
+import { Op, fn, col } from 'sequelize';
+import SmsMessage, { SmsCarrier, SmsProviderName, SmsPurpose, SmsProviderAttempt, SmsStatus } from '../models/SmsMessage';
+import {
+  SmsReceiptRequest,
+  SmsSendError,
+  countSegments,
+  getCarrier,
+  getSmsProvider,
+  isSmsProviderName
+} from './smsProviders';
+
+/**
+ * SMS Service
+ * Sends texts through the provider route for the recipient's network,
+ * retrying transient errors and failing over to the next provider. Every
+ * message is logged with its status and cost; the text itself is not
+ * stored since most messages carry one-time codes.
+ */
+
+export interface SmsSendInput {
+  to: string;                     // +639XXXXXXXXX
+  body: string;
+  purpose: SmsPurpose;
+  userId?: string;
+}
+
+export interface SmsSendOutcome {
+  success: boolean;
+  message_id: string;
+  status: SmsStatus;
+  provider?: SmsProviderName;
+  error?: string;
+}
+
+// Tries per provider before failing over (only for retryable errors)
+const TRIES_PER_PROVIDER = Number(process.env.SMS_TRIES_PER_PROVIDER || 2);
+const RETRY_DELAY_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Comma-separated provider list from an env var, unknown names dropped
+const parseRoute = (value?: string): SmsProviderName[] =>
+  (value || '').split(',').map(name => name.trim()).filter(isSmsProviderName);
+
+export class SmsService {
+
+  /**
+   * Providers to try, in order, for a network. SMS_ROUTE_<CARRIER>
+   * (e.g. SMS_ROUTE_GLOBE=semaphore,twilio) overrides SMS_ROUTE; only
+   * providers with credentials are kept.
+   */
+  public static getRoute(carrier: SmsCarrier): SmsProviderName[] {
+    const configured = parseRoute(process.env[`SMS_ROUTE_${carrier.toUpperCase()}`]);
+    const fallback = parseRoute(process.env.SMS_ROUTE);
+    const defaults: SmsProviderName[] = process.env.NODE_ENV === 'production' ? ['semaphore', 'twilio'] : ['fake'];
+
+    const route = configured.length > 0 ? configured : fallback.length > 0 ? fallback : defaults;
+    return route.filter(name => getSmsProvider(name).isConfigured());
+  }
+
+  /**
+   * Send a text message
+   */
+  public static async send(input: SmsSendInput): Promise<SmsSendOutcome> {
+    const carrier = getCarrier(input.to);
+    const segments = countSegments(input.body);
+
+    const message = await SmsMessage.create({
+      user_id: input.userId,
+      to: input.to,
+      carrier,
+      purpose: input.purpose,
+      segments,
+      status: 'queued',
+      attempts: []
+    } as any);
+
+    const route = this.getRoute(carrier);
+    const attempts: SmsProviderAttempt[] = [];
+
+    for (const name of route) {
+      const provider = getSmsProvider(name);
+
+      for (let tryNumber = 1; tryNumber <= TRIES_PER_PROVIDER; tryNumber++) {
+        try {
+          const result = await provider.send({ messageId: message.id, to: input.to, body: input.body, carrier });
+          attempts.push({ provider: name, success: true, at: new Date().toISOString() });
+
+          message.status = 'sent';
+          message.provider = name;
+          message.provider_message_id = result.providerMessageId;
+          message.cost = segments * provider.getSegmentCost(carrier);
+          message.sent_at = new Date();
+          message.attempts = attempts;
+          await message.save();
+
+          return { success: true, message_id: message.id, status: 'sent', provider: name };
+
+        } catch (error: any) {
+          attempts.push({ provider: name, success: false, error: error.message, at: new Date().toISOString() });
+          console.warn(`⚠️ SMS ${message.id} via ${name} failed (try ${tryNumber}): ${error.message}`);
+
+          const retryable = error instanceof SmsSendError && error.retryable;
+          if (!retryable) break;
+          if (tryNumber < TRIES_PER_PROVIDER) await sleep(RETRY_DELAY_MS * 2 ** (tryNumber - 1));
+        }
+      }
+    }
+
+    const reason = route.length === 0 ? `No SMS provider configured for ${carrier}` : 'All SMS providers failed';
+    message.status = 'failed';
+    message.failure_reason = reason;
+    message.attempts = attempts;
+    await message.save();
+
+    console.error(`❌ SMS ${message.id} to ${carrier} not sent: ${reason}`);
+    return { success: false, message_id: message.id, status: 'failed', error: reason };
+  }
+
+  /**
+   * Apply a delivery receipt callback
+   * @returns SmsMessage | null - Updated message, null when it isn't ours
+   * @throws SmsReceiptVerificationError
+   */
+  public static async handleReceipt(providerName: SmsProviderName, request: SmsReceiptRequest): Promise<SmsMessage | null> {
+    const receipt = getSmsProvider(providerName).parseReceipt(request);
+    if (!receipt) return null;
+
+    const message = await SmsMessage.findOne({
+      where: { provider: providerName, provider_message_id: receipt.providerMessageId }
+    });
+    if (!message) return null;
+
+    // Receipts can arrive out of order; a final status is never downgraded
+    if (message.status === 'delivered' || message.status === 'failed') return message;
+
+    if (receipt.status === 'delivered') {
+      message.status = 'delivered';
+      message.delivered_at = new Date();
+    } else if (receipt.status === 'failed') {
+      message.status = 'failed';
+      message.failure_reason = receipt.error || 'Delivery failed';
+    } else {
+      return message;
+    }
+
+    await message.save();
+    return message;
+  }
+
+  /**
+   * Sent messages, newest first (admin)
+   */
+  public static async listMessages(
+    filters: { to?: string; status?: SmsStatus; purpose?: SmsPurpose },
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ rows: SmsMessage[]; count: number }> {
+    const where: any = {};
+    if (filters.to) where.to = filters.to;
+    if (filters.status) where.status = filters.status;
+    if (filters.purpose) where.purpose = filters.purpose;
+
+    return await SmsMessage.findAndCountAll({
+      where,
+      order: [['created_at', 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    });
+  }
+
+  /**
+   * Message counts and cost per provider and network for a period
+   */
+  public static async getCostSummary(from: Date, to: Date) {
+    const rows = await SmsMessage.findAll({
+      attributes: [
+        'provider',
+        'carrier',
+        'status',
+        [fn('COUNT', col('id')), 'messages'],
+        [fn('SUM', col('segments')), 'segments'],
+        [fn('SUM', col('cost')), 'cost']
+      ],
+      where: { created_at: { [Op.gte]: from, [Op.lt]: to } },
+      group: ['provider', 'carrier', 'status'],
+      raw: true
+    }) as any[];
+
+    const byProvider: Record<string, { messages: number; segments: number; cost: number; delivered: number; failed: number }> = {};
+    let totalCost = 0;
+
+    for (const row of rows) {
+      const key = `${row.provider || 'none'}:${row.carrier}`;
+      const entry = byProvider[key] || (byProvider[key] = { messages: 0, segments: 0, cost: 0, delivered: 0, failed: 0 });
+      const messages = Number(row.messages);
+
+      entry.messages += messages;
+      entry.segments += Number(row.segments || 0);
+      entry.cost += Number(row.cost || 0);
+      if (row.status === 'delivered') entry.delivered += messages;
+      if (row.status === 'failed') entry.failed += messages;
+      totalCost += Number(row.cost || 0);
+    }
+
+    return {
+      period: { from, to },
+      routes: Object.entries(byProvider).map(([key, totals]) => {
+        const [provider, carrier] = key.split(':');
+        return { provider, carrier, ...totals, cost: Math.round(totals.cost * 100) / 100 };
+      }),
+      total_cost: Math.round(totalCost * 100) / 100
+    };
+  }
+}
+
+export default SmsService;
@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SMS_PROVIDERS, SmsCarrier, SmsProviderName } from '../models/SmsMessage';
+
+/**
+ * SMS Provider Abstraction - Philippine mobile networks
+ * Every gateway (Semaphore, Twilio, ...) implements SmsProvider. The fake
+ * provider writes messages to a local outbox file instead of sending them,
+ * so tests and local development can read the codes back.
+ */
+
+export interface SmsSendRequest {
+  messageId: string;              // Our SmsMessage ID
+  to: string;                     // +639XXXXXXXXX
+  body: string;
+  carrier: SmsCarrier;
+}
+
+export interface SmsSendResult {
+  providerMessageId: string;
+}
+
+export interface SmsDeliveryReceipt {
+  providerMessageId: string;
+  status: 'sent' | 'delivered' | 'failed';
+  error?: string;
+}
+
+export interface SmsReceiptRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: any;
+  url: string;                    // Path + query the provider called
+}
+
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+
+  /**
+   * Whether credentials for this provider are configured
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Hand a message to the provider
+   * @throws SmsSendError
+   */
+  send(request: SmsSendRequest): Promise<SmsSendResult>;
+
+  /**
+   * Pesos per message segment on a network
+   */
+  getSegmentCost(carrier: SmsCarrier): number;
+
+  /**
+   * Verify and parse a delivery receipt callback (null = not a receipt this provider sent)
+   * @throws SmsReceiptVerificationError
+   */
+  parseReceipt(request: SmsReceiptRequest): SmsDeliveryReceipt | null;
+}
+
+// Provider refused or couldn't be reached; `retryable` = worth trying the same provider again
+export class SmsSendError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'SmsSendError';
+  }
+}
+
+export class SmsReceiptVerificationError extends Error {
+  public readonly status = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SmsReceiptVerificationError';
+  }
+}
+
+// Mobile prefixes (the 3 digits after +63) as allocated by the NTC. With
+// mobile number portability a ported number keeps its old prefix, so this
+// is a routing and pricing hint, not a guarantee.
+const CARRIER_PREFIXES: Record<Exclude<SmsCarrier, 'unknown'>, string[]> = {
+  globe: [
+    '905', '906', '915', '916', '917', '926', '927', '935', '936', '937',
+    '945', '953', '954', '955', '956', '965', '966', '967', '975', '976',
+    '977', '978', '979', '995', '996', '997'
+  ],
+  smart: [
+    '907', '908', '909', '910', '911', '912', '913', '914', '918', '919',
+    '920', '921', '922', '923', '924', '925', '928', '929', '930', '931',
+    '932', '933', '934', '938', '939', '940', '942', '943', '946', '947',
+    '948', '949', '950', '951', '961', '970', '981', '989', '998', '999'
+  ],
+  dito: ['991', '992', '993', '994']
+};
+
+/**
+ * Network of a normalized +639XXXXXXXXX number
+ */
+export const getCarrier = (phoneNumber: string): SmsCarrier => {
+  const prefix = phoneNumber.replace(/^\+63/, '').slice(0, 3);
+  const match = (Object.keys(CARRIER_PREFIXES) as Array<keyof typeof CARRIER_PREFIXES>)
+    .find(carrier => CARRIER_PREFIXES[carrier].includes(prefix));
+  return match || 'unknown';
+};
+
+/**
+ * Billed segments: 160 characters (153 when split) for plain GSM-7 text,
+ * 70 (67 when split) once the message needs Unicode
+ */
+export const countSegments = (body: string): number => {
+  const isGsm = /^[\x20-\x7E\n\r]*$/.test(body);
+  const single = isGsm ? 160 : 70;
+  const multi = isGsm ? 153 : 67;
+  return body.length <= single ? 1 : Math.ceil(body.length / multi);
+};
+
+const header = (headers: SmsReceiptRequest['headers'], name: string): string | undefined => {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Semaphore (semaphore.co), local aggregator with direct Globe/Smart/DITO links.
+ * No receipt callbacks: messages stay 'sent' once accepted.
+ */
+class SemaphoreProvider implements SmsProvider {
+  public readonly name = 'semaphore' as const;
+
+  // List price in pesos per segment
+  private readonly rates: Record<SmsCarrier, number> = { globe: 0.5, smart: 0.5, dito: 0.5, unknown: 0.5 };
+
+  isConfigured(): boolean {
+    return !!process.env.SEMAPHORE_API_KEY;
+  }
+
+  getSegmentCost(carrier: SmsCarrier): number {
+    return this.rates[carrier];
+  }
+
+  async send(request: SmsSendRequest): Promise<SmsSendResult> {
+    const params = new URLSearchParams({
+      apikey: process.env.SEMAPHORE_API_KEY || '',
+      number: request.to,
+      message: request.body,
+      sendername: process.env.SMS_SENDER_NAME || 'HelpQo'
+    });
+
+    let response: Response;
+    try {
+      response = await fetch('https://api.semaphore.co/api/v4/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params,
+        signal: AbortSignal.timeout(10000)
+      });
+    } catch (error: any) {
+      throw new SmsSendError(`Semaphore unreachable: ${error.message}`, true);
+    }
+
+    if (!response.ok) {
+      throw new SmsSendError(`Semaphore returned HTTP ${response.status}`, response.status >= 500 || response.status === 429);
+    }
+
+    const [message] = await response.json() as Array<{ message_id: number | string }>;
+    if (!message?.message_id) {
+      throw new SmsSendError('Semaphore did not return a message ID', false);
+    }
+
+    return { providerMessageId: String(message.message_id) };
+  }
+
+  parseReceipt(): SmsDeliveryReceipt | null {
+    return null;
+  }
+}
+
+/**
+ * Twilio Programmable Messaging, with StatusCallback delivery receipts
+ */
+class TwilioProvider implements SmsProvider {
+  public readonly name = 'twilio' as const;
+
+  // List price in pesos per segment (international route, used as fallback)
+  private readonly rates: Record<SmsCarrier, number> = { globe: 11.2, smart: 11.2, dito: 11.2, unknown: 11.2 };
+
+  isConfigured(): boolean {
+    return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_FROM_NUMBER);
+  }
+
+  getSegmentCost(carrier: SmsCarrier): number {
+    return this.rates[carrier];
+  }
+
+  async send(request: SmsSendRequest): Promise<SmsSendResult> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID || '';
+    const auth = Buffer.from(`${accountSid}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64');
+
+    const params = new URLSearchParams({
+      To: request.to,
+      From: process.env.TWILIO_FROM_NUMBER || '',
+      Body: request.body
+    });
+    if (process.env.SMS_RECEIPT_BASE_URL) {
+      params.set('StatusCallback', `${process.env.SMS_RECEIPT_BASE_URL}/api/v1/sms/receipts/twilio`);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${auth}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: params,
+        signal: AbortSignal.timeout(10000)
+      });
+    } catch (error: any) {
+      throw new SmsSendError(`Twilio unreachable: ${error.message}`, true);
+    }
+
+    const result = await response.json().catch(() => ({})) as { sid?: string; message?: string };
+    if (!response.ok || !result.sid) {
+      throw new SmsSendError(
+        `Twilio returned HTTP ${response.status}${result.message ? `: ${result.message}` : ''}`,
+        response.status >= 500 || response.status === 429
+      );
+    }
+
+    return { providerMessageId: result.sid };
+  }
+
+  /**
+   * X-Twilio-Signature = base64(HMAC-SHA1(auth token, full URL + sorted params))
+   */
+  parseReceipt(request: SmsReceiptRequest): SmsDeliveryReceipt | null {
+    const signature = header(request.headers, 'x-twilio-signature');
+    const baseUrl = process.env.SMS_RECEIPT_BASE_URL;
+    if (!signature || !baseUrl || !process.env.TWILIO_AUTH_TOKEN) {
+      throw new SmsReceiptVerificationError('Missing Twilio signature');
+    }
+
+    const params = request.body || {};
+    const payload = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], `${baseUrl}${request.url}`);
+    const expected = crypto.createHmac('sha1', process.env.TWILIO_AUTH_TOKEN).update(payload).digest('base64');
+
+    if (expected.length !== signature.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+      throw new SmsReceiptVerificationError('Invalid Twilio signature');
+    }
+
+    if (!params.MessageSid) return null;
+
+    const status = String(params.MessageStatus);
+    if (status === 'delivered') return { providerMessageId: params.MessageSid, status: 'delivered' };
+    if (status === 'failed' || status === 'undelivered') {
+      return { providerMessageId: params.MessageSid, status: 'failed', error: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : status };
+    }
+    return { providerMessageId: params.MessageSid, status: 'sent' };
+  }
+}
+
+export interface FakeSmsRecord {
+  id: string;                     // Fake provider message ID
+  message_id: string;             // Our SmsMessage ID
+  to: string;
+  carrier: SmsCarrier;
+  body: string;
+  sent_at: string;
+}
+
+/**
+ * Local fake gateway
+ * Appends every message as a JSON line to SMS_FAKE_OUTBOX (default
+ * tmp/sms-outbox.jsonl) so other processes can read it, and fails on
+ * numbers listed in SMS_FAKE_FAIL_NUMBERS to exercise failover.
+ */
+export class FakeSmsProvider implements SmsProvider {
+  public readonly name = 'fake' as const;
+
+  private get outboxPath(): string {
+    return path.resolve(process.env.SMS_FAKE_OUTBOX || 'tmp/sms-outbox.jsonl');
+  }
+
+  isConfigured(): boolean {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  getSegmentCost(): number {
+    return 0;
+  }
+
+  async send(request: SmsSendRequest): Promise<SmsSendResult> {
+    const failNumbers = (process.env.SMS_FAKE_FAIL_NUMBERS || '').split(',').map(n => n.trim());
+    if (failNumbers.includes(request.to)) {
+      throw new SmsSendError('Fake provider configured to fail for this number', false);
+    }
+
+    const record: FakeSmsRecord = {
+      id: `fake_${crypto.randomBytes(10).toString('hex')}`,
+      message_id: request.messageId,
+      to: request.to,
+      carrier: request.carrier,
+      body: request.body,
+      sent_at: new Date().toISOString()
+    };
+
+    await fs.promises.mkdir(path.dirname(this.outboxPath), { recursive: true });
+    await fs.promises.appendFile(this.outboxPath, JSON.stringify(record) + '\n');
+
+    console.log(`📲 [fake SMS] ${record.to} (${record.carrier}): ${record.body}`);
+    return { providerMessageId: record.id };
+  }
+
+  /**
+   * Receipts are posted by hand (or by tests) as { id, status }
+   */
+  parseReceipt(request: SmsReceiptRequest): SmsDeliveryReceipt | null {
+    const { id, status, error } = request.body || {};
+    if (!id || !['sent', 'delivered', 'failed'].includes(status)) return null;
+    return { providerMessageId: id, status, error };
+  }
+
+  /**
+   * Messages in the outbox, newest first
+   * @param to - Only messages to this number
+   */
+  async readOutbox(to?: string, limit: number = 20): Promise<FakeSmsRecord[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.outboxPath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line) as FakeSmsRecord)
+      .filter(record => !to || record.to === to)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  /**
+   * Empty the outbox
+   */
+  async clearOutbox(): Promise<void> {
+    await fs.promises.rm(this.outboxPath, { force: true });
+  }
+}
+
+const fakeProvider = new FakeSmsProvider();
+
+const providers: Record<SmsProviderName, SmsProvider> = {
+  semaphore: new SemaphoreProvider(),
+  twilio: new TwilioProvider(),
+  fake: fakeProvider
+};
+
+/**
+ * Look up a provider by name
+ */
+export const getSmsProvider = (name: SmsProviderName): SmsProvider => providers[name];
+
+/**
+ * Access the fake provider's outbox (development tooling and tests only)
+ */
+export const getFakeSmsProvider = (): FakeSmsProvider => fakeProvider;
+
+export const isSmsProviderName = (value: string): value is SmsProviderName =>
+  (SMS_PROVIDERS as readonly string[]).includes(value);
@@ -0,0 +1,361 @@
+import crypto from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import AuthSession, { SessionRevocationReason } from '../models/AuthSession';
+import RefreshToken from '../models/RefreshToken';
+import TwoFactorChallenge from '../models/TwoFactorChallenge';
+import User from '../models/User';
+import { LoginContext } from './loginProtection';
+import SessionService from './sessions';
+
+/**
+ * Token Service
+ * Short-lived JWT access tokens plus opaque, rotating refresh tokens.
+ * Every login opens an AuthSession; refresh tokens rotate within it and
+ * presenting a rotated token again revokes the whole session.
+ */
+
+export interface TokenPair {
+  token: string;                  // Access token (Bearer)
+  refresh_token: string;
+  expires_in: number;             // Access token lifetime in seconds
+  refresh_expires_at: Date;
+  session_id: string;
+}
+
+export interface TokenResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  tokens?: TokenPair;
+  user?: User;
+}
+
+export interface AccessTokenPayload extends JwtPayload {
+  id: string;
+  email: string;
+  role: 'client' | 'worker' | 'admin';
+  is_verified: boolean;
+  sid: string;
+}
+
+// Thrown when an access token is well-formed but its session was revoked
+export class TokenRevokedError extends Error {
+  public readonly status = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenRevokedError';
+  }
+}
+
+const ACCESS_TOKEN_TTL_MINUTES = Number(process.env.ACCESS_TOKEN_TTL_MINUTES || 15);
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+// Hard cap on a session from login; refresh rotation never extends it past this
+const SESSION_MAX_LIFETIME_DAYS = Number(process.env.SESSION_MAX_LIFETIME_DAYS || 90);
+
+// Ended sessions are kept this long for the admin session history
+const SESSION_HISTORY_DAYS = Number(process.env.SESSION_HISTORY_DAYS || 180);
+
+// Scope of the short-lived token that only allows finishing required 2FA setup
+export const TWO_FACTOR_SETUP_SCOPE = 'two_factor_setup';
+const SETUP_TOKEN_TTL_MINUTES = 15;
+
+const JWT_ISSUER = 'helpqo-api';
+const JWT_AUDIENCE = 'helpqo-app';
+
+const getSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return secret;
+};
+
+export class TokenService {
+
+  /**
+   * SHA-256 of an opaque token (what gets stored and looked up)
+   */
+  public static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Sign a short-lived access token bound to a session
+   */
+  public static signAccessToken(user: User, sessionId: string): string {
+    const payload = {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      is_verified: user.is_verified,
+      sid: sessionId
+    };
+
+    return jwt.sign(payload, getSecret(), {
+      expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60,
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+      jwtid: crypto.randomUUID()
+    });
+  }
+
+  /**
+   * Verify an access token and check that its session is still live
+   * @throws JsonWebTokenError / TokenExpiredError / TokenRevokedError
+   */
+  public static async verifyAccessToken(token: string): Promise<AccessTokenPayload> {
+    const decoded = jwt.verify(token, getSecret(), {
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE
+    }) as AccessTokenPayload;
+
+    if (!decoded.sid) {
+      throw new TokenRevokedError('Token is not bound to a session');
+    }
+
+    const session = await AuthSession.findByPk(decoded.sid, {
+      attributes: ['id', 'user_id', 'expires_at', 'revoked_at']
+    });
+    if (!session || session.user_id !== decoded.id || !session.isActive()) {
+      throw new TokenRevokedError('Session has been revoked');
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Sign a token that can only be used to set up required 2FA
+   */
+  public static signSetupToken(user: User): string {
+    return jwt.sign({ id: user.id, scope: TWO_FACTOR_SETUP_SCOPE }, getSecret(), {
+      expiresIn: SETUP_TOKEN_TTL_MINUTES * 60,
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE
+    });
+  }
+
+  /**
+   * Verify a 2FA setup token
+   * @throws JsonWebTokenError / TokenExpiredError
+   */
+  public static verifySetupToken(token: string): { id: string; scope: string } {
+    const decoded = jwt.verify(token, getSecret(), {
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE
+    }) as JwtPayload;
+
+    if (decoded.scope !== TWO_FACTOR_SETUP_SCOPE) {
+      throw new jwt.JsonWebTokenError('Not a setup token');
+    }
+
+    return { id: decoded.id, scope: decoded.scope };
+  }
+
+  /**
+   * Check whether a token is a 2FA setup token (without verifying it)
+   */
+  public static isSetupToken(token: string): boolean {
+    const decoded = jwt.decode(token) as JwtPayload | null;
+    return decoded?.scope === TWO_FACTOR_SETUP_SCOPE;
+  }
+
+  /**
+   * Open a new session and issue its first token pair. Logins from a
+   * device the user hasn't used before trigger an alert.
+   * @param context - Device, IP and location of the login
+   */
+  public static async createSession(user: User, context: LoginContext = {}): Promise<TokenPair> {
+    const { session, pair } = await sequelize.transaction(async (transaction) => {
+      const expiresAt = this.getRefreshExpiry();
+      const knownDevice = await SessionService.isKnownDevice(user.id, context, transaction);
+
+      const session = await AuthSession.create({
+        user_id: user.id,
+        device_id: context.device_id,
+        device_name: SessionService.describeDevice(context.user_agent),
+        user_agent: context.user_agent,
+        ip_address: context.ip_address,
+        last_ip_address: context.ip_address,
+        location: context.location,
+        is_new_device: !knownDevice,
+        expires_at: expiresAt,
+        last_used_at: new Date()
+      } as any, { transaction });
+
+      const refreshToken = crypto.randomBytes(48).toString('base64url');
+      await RefreshToken.create({
+        session_id: session.id,
+        token_hash: this.hashToken(refreshToken),
+        expires_at: expiresAt
+      } as any, { transaction });
+
+      return { session, pair: this.buildPair(user, session.id, refreshToken, expiresAt) };
+    });
+
+    if (session.is_new_device) {
+      SessionService.notifyNewDevice(user, session);
+    }
+
+    return pair;
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. The presented token is
+   * rotated out; presenting it again revokes the whole session.
+   * @param ipAddress - Caller's IP, kept as the session's last seen IP
+   */
+  public static async rotateRefreshToken(refreshToken: string, ipAddress?: string): Promise<TokenResult> {
+    return await sequelize.transaction(async (transaction) => {
+      const stored = await RefreshToken.findOne({
+        where: { token_hash: this.hashToken(refreshToken) },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      if (!stored) {
+        return { success: false, status: 401, message: 'Invalid refresh token', code: 'INVALID_REFRESH_TOKEN' };
+      }
+
+      const session = await AuthSession.findByPk(stored.session_id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!session || session.revoked_at) {
+        return { success: false, status: 401, message: 'Session has been revoked. Please log in again.', code: 'SESSION_REVOKED' };
+      }
+
+      // A rotated token coming back means it leaked; end the session for everyone holding it
+      if (stored.isRotated()) {
+        await session.revoke('token_reuse', undefined, transaction);
+        console.warn(`⚠️ Refresh token reuse detected, session ${session.id} revoked`);
+        return { success: false, status: 401, message: 'Refresh token was already used. Please log in again.', code: 'REFRESH_TOKEN_REUSED' };
+      }
+
+      if (stored.isExpired()) {
+        return { success: false, status: 401, message: 'Refresh token expired. Please log in again.', code: 'REFRESH_TOKEN_EXPIRED' };
+      }
+
+      const user = await User.findByPk(session.user_id, { transaction });
+      if (!user || !user.is_active) {
+        return { success: false, status: 401, message: 'User not found or inactive', code: 'USER_NOT_FOUND' };
+      }
+
+      const expiresAt = this.getRefreshExpiry(session.created_at);
+      if (expiresAt <= new Date()) {
+        return { success: false, status: 401, message: 'Session has expired. Please log in again.', code: 'SESSION_EXPIRED' };
+      }
+
+      const nextToken = crypto.randomBytes(48).toString('base64url');
+
+      stored.rotated_at = new Date();
+      await stored.save({ transaction });
+
+      await RefreshToken.create({
+        session_id: session.id,
+        token_hash: this.hashToken(nextToken),
+        expires_at: expiresAt
+      } as any, { transaction });
+
+      session.expires_at = expiresAt;
+      session.last_used_at = new Date();
+      if (ipAddress) session.last_ip_address = ipAddress;
+      await session.save({ transaction });
+
+      return {
+        success: true,
+        message: 'Token refreshed successfully',
+        code: 'TOKEN_REFRESHED',
+        tokens: this.buildPair(user, session.id, nextToken, expiresAt),
+        user
+      };
+    });
+  }
+
+  /**
+   * Revoke one session (logout from this device)
+   */
+  public static async revokeSession(sessionId: string, reason: SessionRevocationReason, revokedBy?: string): Promise<boolean> {
+    const session = await AuthSession.findByPk(sessionId);
+    if (!session || session.revoked_at) return false;
+
+    await session.revoke(reason, revokedBy);
+    return true;
+  }
+
+  /**
+   * Revoke every session of a user (logout everywhere / forced logout)
+   * @returns number - Sessions revoked
+   */
+  public static async revokeAllSessions(userId: string, reason: SessionRevocationReason, revokedBy?: string): Promise<number> {
+    const revoked = await AuthSession.revokeAllForUser(userId, reason, revokedBy);
+    console.log(`🔒 Revoked ${revoked} session(s) for user ${userId} (${reason})`);
+    return revoked;
+  }
+
+  /**
+   * Delete refresh tokens and 2FA challenges that can no longer be used,
+   * and sessions older than the history retention (SESSION_HISTORY_DAYS)
+   * @returns number - Rows removed
+   */
+  public static async cleanupExpired(now: Date = new Date()): Promise<number> {
+    const tokens = await RefreshToken.destroy({
+      where: { expires_at: { [Op.lt]: now } }
+    });
+
+    const sessions = await AuthSession.destroy({
+      where: { expires_at: { [Op.lt]: new Date(now.getTime() - SESSION_HISTORY_DAYS * 24 * 60 * 60 * 1000) } }
+    });
+
+    const challenges = await TwoFactorChallenge.destroy({
+      where: { expires_at: { [Op.lt]: now } }
+    });
+
+    return tokens + sessions + challenges;
+  }
+
+  /**
+   * Start the recurring token cleanup (every AUTH_CLEANUP_HOURS, default 24)
+   */
+  public static startCleanupScheduler(): NodeJS.Timeout {
+    const intervalHours = Number(process.env.AUTH_CLEANUP_HOURS || 24);
+
+    const timer = setInterval(async () => {
+      try {
+        const removed = await this.cleanupExpired();
+        if (removed > 0) {
+          console.log(`🧹 Removed ${removed} expired session/token/challenge row(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Token cleanup failed:', error);
+      }
+    }, intervalHours * 60 * 60 * 1000);
+    timer.unref();
+
+    console.log(`⏰ Expired token cleanup running every ${intervalHours}h`);
+    return timer;
+  }
+
+  /**
+   * Refresh token expiry, capped at the session's maximum lifetime
+   * @param sessionStartedAt - When the session was opened (omit for a new session)
+   */
+  private static getRefreshExpiry(sessionStartedAt: Date = new Date()): Date {
+    const refreshExpiry = Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+    const sessionEnd = new Date(sessionStartedAt).getTime() + SESSION_MAX_LIFETIME_DAYS * 24 * 60 * 60 * 1000;
+    return new Date(Math.min(refreshExpiry, sessionEnd));
+  }
+
+  private static buildPair(user: User, sessionId: string, refreshToken: string, refreshExpiresAt: Date): TokenPair {
+    return {
+      token: this.signAccessToken(user, sessionId),
+      refresh_token: refreshToken,
+      expires_in: ACCESS_TOKEN_TTL_MINUTES * 60,
+      refresh_expires_at: refreshExpiresAt,
+      session_id: sessionId
+    };
+  }
+}
+
+export default TokenService;
@@ -0,0 +1,449 @@
+import crypto from 'crypto';
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import User, { TwoFactorMethod } from '../models/User';
+import Worker from '../models/Worker';
+import TwoFactorChallenge from '../models/TwoFactorChallenge';
+import verificationService from './verification';
+import TokenService, { TokenPair } from './tokens';
+import LoginProtectionService, { LoginContext } from './loginProtection';
+
+/**
+ * Two-Factor Service
+ * SMS login codes (through the phone verification machinery) or TOTP
+ * authenticator apps, with single-use recovery codes. Required for admins
+ * and for workers with a verified bank account.
+ */
+
+export interface TwoFactorResult {
+  success: boolean;
+  message: string;
+  code: string;
+  status?: number;
+  data?: Record<string, any>;
+}
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1;                  // Accept one step of clock drift either way
+const TOTP_ISSUER = 'HelpQo';
+
+const CHALLENGE_TTL_MINUTES = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = '';
+  buffer.forEach(byte => { bits += byte.toString(2).padStart(8, '0'); });
+
+  let output = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return output;
+};
+
+const base32Decode = (value: string): Buffer => {
+  const bits = value
+    .replace(/=+$/, '')
+    .toUpperCase()
+    .split('')
+    .map(char => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+// TOTP secrets must be recoverable, so they're encrypted rather than hashed
+const getEncryptionKey = (): Buffer => {
+  const material = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!material) {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY is not defined');
+  }
+  return crypto.createHash('sha256').update(material).digest();
+};
+
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+};
+
+const decryptSecret = (payload: string): string => {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+const isRecoveryCode = (code: string) => /^[0-9a-f]{4}-?[0-9a-f]{4}$/i.test(code.trim());
+
+export class TwoFactorService {
+
+  /**
+   * Whether the account must use 2FA (admins, workers with a verified bank account)
+   */
+  public static async isRequired(user: User): Promise<boolean> {
+    if (user.role === 'admin') return true;
+    if (user.role !== 'worker') return false;
+
+    const worker = await Worker.findOne({ where: { user_id: user.id }, attributes: ['bank_account_verified'] });
+    return !!worker?.bank_account_verified;
+  }
+
+  /**
+   * 2FA settings of the account (never the secret)
+   */
+  public static async getStatus(user: User): Promise<Record<string, any>> {
+    return {
+      enabled: user.hasTwoFactor(),
+      method: user.two_factor_method || null,
+      enabled_at: user.two_factor_enabled_at || null,
+      required: await this.isRequired(user),
+      recovery_codes_remaining: (user.two_factor_recovery_codes || []).length,
+      phone_available: !!user.phone && user.is_phone_verified
+    };
+  }
+
+  /**
+   * TOTP code for a time step
+   */
+  public static generateTotp(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+    return binary.toString().padStart(TOTP_DIGITS, '0');
+  }
+
+  /**
+   * Match a TOTP code around the current time
+   * @param lastStep - Last accepted step; it and earlier steps are rejected (replay)
+   * @returns number | null - Matching time step
+   */
+  public static matchTotp(secret: string, code: string, lastStep?: number, now: number = Date.now()): number | null {
+    const current = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+      const step = current + offset;
+      if (lastStep !== undefined && lastStep !== null && step <= Number(lastStep)) continue;
+
+      const expected = this.generateTotp(secret, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code.padStart(TOTP_DIGITS, '0').slice(0, TOTP_DIGITS)))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a new TOTP secret awaiting confirmation
+   * @returns secret and otpauth:// URL for QR codes
+   */
+  public static async startTotpSetup(user: User): Promise<TwoFactorResult> {
+    if (user.hasTwoFactor()) {
+      return { success: false, status: 409, message: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' };
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    user.two_factor_pending_secret = encryptSecret(secret);
+    await user.save();
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${TOTP_ISSUER}&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+    return {
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      code: 'TOTP_SETUP_STARTED',
+      data: { secret, otpauth_url: otpauthUrl }
+    };
+  }
+
+  /**
+   * Send a confirmation code to the account's verified phone
+   */
+  public static async startSmsSetup(user: User): Promise<TwoFactorResult> {
+    if (user.hasTwoFactor()) {
+      return { success: false, status: 409, message: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' };
+    }
+
+    if (!user.phone || !user.is_phone_verified) {
+      return { success: false, status: 409, message: 'Verify your mobile number before using SMS codes', code: 'PHONE_NOT_VERIFIED' };
+    }
+
+    const sent = await verificationService.sendTwoFactorCode(user.phone, user.first_name);
+    if (!sent.success) {
+      return { success: false, status: 503, message: sent.message, code: 'SMS_SEND_FAILED' };
+    }
+
+    return {
+      success: true,
+      message: sent.message,
+      code: 'SMS_SETUP_STARTED',
+      data: { code_expires_at: sent.codeExpiry }
+    };
+  }
+
+  /**
+   * Confirm setup with a first code and turn 2FA on
+   * @returns Recovery codes (shown once)
+   */
+  public static async confirmSetup(user: User, method: TwoFactorMethod, code: string): Promise<TwoFactorResult> {
+    if (user.hasTwoFactor()) {
+      return { success: false, status: 409, message: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ALREADY_ENABLED' };
+    }
+
+    if (method === 'totp') {
+      if (!user.two_factor_pending_secret) {
+        return { success: false, status: 409, message: 'Start authenticator setup first', code: 'TOTP_SETUP_NOT_STARTED' };
+      }
+
+      const step = this.matchTotp(decryptSecret(user.two_factor_pending_secret), code);
+      if (step === null) {
+        return { success: false, status: 400, message: 'Invalid authenticator code', code: 'INVALID_TWO_FACTOR_CODE' };
+      }
+
+      user.two_factor_secret = user.two_factor_pending_secret;
+      user.two_factor_pending_secret = null as any;
+      user.two_factor_last_totp_step = step;
+    } else {
+      const check = await verificationService.verifyTwoFactorCode(user.phone, code);
+      if (!check.success) {
+        return { success: false, status: 400, message: check.message, code: 'INVALID_TWO_FACTOR_CODE' };
+      }
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    user.two_factor_method = method;
+    user.two_factor_enabled_at = new Date();
+    user.two_factor_recovery_codes = recoveryCodes.map(hashRecoveryCode);
+    await user.save();
+
+    console.log(`🔐 Two-factor (${method}) enabled for user ${user.id}`);
+
+    return {
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      code: 'TWO_FACTOR_ENABLED',
+      data: { method, recovery_codes: recoveryCodes }
+    };
+  }
+
+  /**
+   * Check a second-factor or recovery code for an account with 2FA on.
+   * Recovery codes are consumed; accepted TOTP steps can't be replayed.
+   */
+  public static async verifyCode(
+    user: User,
+    code: string,
+    transaction?: Transaction
+  ): Promise<{ valid: boolean; usedRecoveryCode: boolean }> {
+    if (isRecoveryCode(code)) {
+      const hash = hashRecoveryCode(code);
+      const remaining = user.two_factor_recovery_codes || [];
+      if (!remaining.includes(hash)) return { valid: false, usedRecoveryCode: false };
+
+      user.two_factor_recovery_codes = remaining.filter(stored => stored !== hash);
+      await user.save({ transaction });
+      console.log(`🔐 Recovery code used by user ${user.id} (${user.two_factor_recovery_codes.length} left)`);
+      return { valid: true, usedRecoveryCode: true };
+    }
+
+    if (user.two_factor_method === 'totp' && user.two_factor_secret) {
+      const step = this.matchTotp(decryptSecret(user.two_factor_secret), code, user.two_factor_last_totp_step);
+      if (step === null) return { valid: false, usedRecoveryCode: false };
+
+      user.two_factor_last_totp_step = step;
+      await user.save({ transaction });
+      return { valid: true, usedRecoveryCode: false };
+    }
+
+    if (user.two_factor_method === 'sms') {
+      const check = await verificationService.verifyTwoFactorCode(user.phone, code);
+      return { valid: check.success, usedRecoveryCode: false };
+    }
+
+    return { valid: false, usedRecoveryCode: false };
+  }
+
+  /**
+   * Turn 2FA off (not allowed where it is required)
+   */
+  public static async disable(user: User, password: string, code: string): Promise<TwoFactorResult> {
+    if (!user.hasTwoFactor()) {
+      return { success: false, status: 409, message: 'Two-factor authentication is not enabled', code: 'TWO_FACTOR_NOT_ENABLED' };
+    }
+
+    if (await this.isRequired(user)) {
+      return { success: false, status: 403, message: 'Two-factor authentication is required for your account', code: 'TWO_FACTOR_REQUIRED_FOR_ACCOUNT' };
+    }
+
+    const passwordValid = await user.comparePassword(password);
+    const { valid } = passwordValid ? await this.verifyCode(user, code) : { valid: false };
+    if (!valid) {
+      return { success: false, status: 401, message: 'Invalid password or code', code: 'INVALID_TWO_FACTOR_CODE' };
+    }
+
+    user.two_factor_method = null as any;
+    user.two_factor_enabled_at = null as any;
+    user.two_factor_secret = null as any;
+    user.two_factor_pending_secret = null as any;
+    user.two_factor_last_totp_step = null as any;
+    user.two_factor_recovery_codes = [];
+    await user.save();
+
+    console.log(`🔐 Two-factor disabled for user ${user.id}`);
+
+    return { success: true, message: 'Two-factor authentication disabled', code: 'TWO_FACTOR_DISABLED' };
+  }
+
+  /**
+   * Replace all recovery codes
+   */
+  public static async regenerateRecoveryCodes(user: User, code: string): Promise<TwoFactorResult> {
+    if (!user.hasTwoFactor()) {
+      return { success: false, status: 409, message: 'Two-factor authentication is not enabled', code: 'TWO_FACTOR_NOT_ENABLED' };
+    }
+
+    const { valid } = await this.verifyCode(user, code);
+    if (!valid) {
+      return { success: false, status: 401, message: 'Invalid code', code: 'INVALID_TWO_FACTOR_CODE' };
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    user.two_factor_recovery_codes = recoveryCodes.map(hashRecoveryCode);
+    await user.save();
+
+    return {
+      success: true,
+      message: 'New recovery codes generated; the old ones no longer work',
+      code: 'RECOVERY_CODES_REGENERATED',
+      data: { recovery_codes: recoveryCodes }
+    };
+  }
+
+  /**
+   * Open a login challenge after a correct password (sends the SMS code)
+   */
+  public static async createChallenge(user: User, identifier: string, context: LoginContext): Promise<TwoFactorChallenge> {
+    const challenge = await TwoFactorChallenge.create({
+      user_id: user.id,
+      method: user.two_factor_method!,
+      identifier,
+      expires_at: new Date(Date.now() + CHALLENGE_TTL_MINUTES * 60 * 1000),
+      ...context
+    } as any);
+
+    if (challenge.method === 'sms') {
+      await verificationService.sendTwoFactorCode(user.phone, user.first_name);
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Send the SMS code of an open challenge again
+   */
+  public static async resendChallenge(challengeId: string): Promise<TwoFactorResult> {
+    const challenge = await TwoFactorChallenge.findByPk(challengeId);
+    if (!challenge || !challenge.isOpen()) {
+      return { success: false, status: 401, message: 'Login challenge expired. Please log in again.', code: 'CHALLENGE_EXPIRED' };
+    }
+
+    if (challenge.method !== 'sms') {
+      return { success: false, status: 400, message: 'Use the code from your authenticator app', code: 'CHALLENGE_NOT_SMS' };
+    }
+
+    const user = await User.findByPk(challenge.user_id);
+    if (!user) {
+      return { success: false, status: 401, message: 'Login challenge expired. Please log in again.', code: 'CHALLENGE_EXPIRED' };
+    }
+
+    const sent = await verificationService.sendTwoFactorCode(user.phone, user.first_name);
+    return {
+      success: sent.success,
+      status: sent.success ? 200 : 503,
+      message: sent.message,
+      code: sent.success ? 'CHALLENGE_CODE_SENT' : 'SMS_SEND_FAILED'
+    };
+  }
+
+  /**
+   * Answer a login challenge; on success the session is opened
+   */
+  public static async completeChallenge(challengeId: string, code: string): Promise<TwoFactorResult & { user?: User; tokens?: TokenPair }> {
+    const outcome = await sequelize.transaction(async (transaction) => {
+      const challenge = await TwoFactorChallenge.findByPk(challengeId, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!challenge || !challenge.isOpen()) return { challenge: null, user: null, valid: false };
+
+      const user = await User.findByPk(challenge.user_id, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!user || !user.is_active || !user.hasTwoFactor()) return { challenge: null, user: null, valid: false };
+
+      const { valid } = await this.verifyCode(user, code, transaction);
+      if (valid) {
+        challenge.completed_at = new Date();
+      } else {
+        challenge.attempts += 1;
+      }
+      await challenge.save({ transaction });
+
+      return { challenge, user, valid };
+    });
+
+    if (!outcome.challenge || !outcome.user) {
+      return { success: false, status: 401, message: 'Login challenge expired. Please log in again.', code: 'CHALLENGE_EXPIRED' };
+    }
+
+    const { challenge, user } = outcome;
+    const context: LoginContext = {
+      ip_address: challenge.ip_address,
+      device_id: challenge.device_id,
+      user_agent: challenge.user_agent,
+      location: challenge.location
+    };
+
+    // Wrong second factors count toward the account lockout
+    if (!outcome.valid) {
+      await LoginProtectionService.recordFailure(user, challenge.identifier, context);
+      const remaining = TwoFactorChallenge.MAX_ATTEMPTS - challenge.attempts;
+      return {
+        success: false,
+        status: 401,
+        message: remaining > 0 ? `Invalid code. ${remaining} attempt(s) remaining.` : 'Too many invalid codes. Please log in again.',
+        code: 'INVALID_TWO_FACTOR_CODE'
+      };
+    }
+
+    await LoginProtectionService.recordSuccess(user, challenge.identifier, context);
+    await user.updateLastLogin();
+    const tokens = await TokenService.createSession(user, context);
+
+    return { success: true, message: 'Login successful', code: 'LOGIN_SUCCESS', user, tokens };
+  }
+
+  /**
+   * Random recovery codes in xxxx-xxxx form
+   */
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = crypto.randomBytes(4).toString('hex');
+      return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+    });
+  }
+}
+
+export default TwoFactorService;
@@ -233,35 +233,42 @@ export class ValidationService {
     ];
   }
 
+  /**
+   * Email or Philippine mobile number used to find an account
+   */
+  public static validateIdentifier(): ValidationChain {
+    return body('identifier')
+      .trim()
+      .notEmpty()
+      .withMessage('Email or phone number is required')
+      .isLength({ min: 5, max: 255 })
+      .withMessage('Identifier must be between 5 and 255 characters')
+      .custom((value: string) => {
+        // Check if it's either email or phone format
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        const phoneRegex = /^(\+63|0)9\d{9}$/;
+        
+        if (!emailRegex.test(value) && !phoneRegex.test(value)) {
+          throw new Error('Must be a valid email address or Philippine phone number');
+        }
+        
+        return true;
+      })
+      .customSanitizer((value: string) => {
+        // Normalize phone number if provided
+        if (value.startsWith('09')) {
+          return '+63' + value.substring(1);
+        }
+        return value.toLowerCase().trim();
+      });
+  }
+
   /**
    * Enhanced login validation
    */
   public static getLoginValidation(): ValidationChain[] {
     return [
-      body('identifier')
-        .trim()
-        .notEmpty()
-        .withMessage('Email or phone number is required')
-        .isLength({ min: 5, max: 255 })
-        .withMessage('Identifier must be between 5 and 255 characters')
-        .custom((value: string) => {
-          // Check if it's either email or phone format
-          const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-          const phoneRegex = /^(\+63|0)9\d{9}$/;
-          
-          if (!emailRegex.test(value) && !phoneRegex.test(value)) {
-            throw new Error('Must be a valid email address or Philippine phone number');
-          }
-          
-          return true;
-        })
-        .customSanitizer((value: string) => {
-          // Normalize phone number if provided
-          if (value.startsWith('09')) {
-            return '+63' + value.substring(1);
-          }
-          return value.toLowerCase().trim();
-        }),
+      this.validateIdentifier(),
 
       body('password')
         .notEmpty()
@@ -271,6 +278,29 @@ export class ValidationService {
     ];
   }
 
+  /**
+   * Forgot-password validation (same identifier rules as login)
+   */
+  public static getForgotPasswordValidation(): ValidationChain[] {
+    return [
+      this.validateIdentifier()
+    ];
+  }
+
+  /**
+   * Password reset validation (new password must meet registration rules)
+   */
+  public static getResetPasswordValidation(): ValidationChain[] {
+    return [
+      body('token')
+        .trim()
+        .isHexadecimal()
+        .isLength({ min: 64, max: 64 })
+        .withMessage('Invalid reset token'),
+      this.validatePassword()
+    ];
+  }
+
   /**
    * Validation result handler middleware
    */
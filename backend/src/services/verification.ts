@@ -2,6 +2,10 @@
 import crypto from 'crypto';
 import  User  from '../models/User';
 import  Worker  from '../models/Worker';
+import { VerificationCodePurpose } from '../models/VerificationCode';
+import { VerificationCodeStore, createVerificationCodeStore } from './verificationCodeStore';
+import SmsService from './sms';
+import EmailDeliveryService from './emailDelivery';
 
 /**
  * Verification Service - Philippine Market Compliance
@@ -13,8 +17,12 @@ export interface VerificationCode {
   expires: Date;
   attempts: number;
   lastSent: Date;
+  sendCount: number;              // Codes sent in the current resend window
 }
 
+// Phone codes are kept apart per purpose so a login code can't verify a phone (and vice versa)
+export type PhoneCodePurpose = 'verification' | 'two_factor';
+
 export interface PhoneVerificationResult {
   success: boolean;
   message: string;
@@ -39,37 +47,68 @@ export interface AccountVerificationStatus {
   canProceed: boolean;
 }
 
+// Code lifetimes and limits
+const PHONE_CODE_TTL_MS = 10 * 60 * 1000;              // 10 minutes
+const EMAIL_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;        // 24 hours
+const MAX_CODE_ATTEMPTS = 5;                            // Wrong codes before the code is invalidated
+const PHONE_SEND_WINDOW_MS = 15 * 60 * 1000;           // Max 3 verification SMS per 15 minutes
+const MAX_PHONE_SENDS_PER_WINDOW = 3;
+const TWO_FACTOR_RESEND_MS = 60 * 1000;                 // Login codes: at most one per minute
+
+// Codes are stored as HMACs so a database leak doesn't expose usable codes
+const getCodeHashKey = (): string => {
+  const key = process.env.VERIFICATION_CODE_SECRET || process.env.JWT_SECRET;
+  if (!key) {
+    throw new Error('VERIFICATION_CODE_SECRET is not defined');
+  }
+  return key;
+};
+
+const hashCode = (purpose: VerificationCodePurpose, subject: string, code: string): string =>
+  crypto.createHmac('sha256', getCodeHashKey()).update(`${purpose}:${subject}:${code}`).digest('hex');
+
+const codeMatches = (stored: string, candidate: string): boolean =>
+  crypto.timingSafeEqual(Buffer.from(stored, 'hex'), Buffer.from(candidate, 'hex'));
+
 class VerificationService {
-  // Phone verification storage (in production, use Redis)
-  private phoneVerificationCodes = new Map<string, VerificationCode>();
-  
-  // Email verification storage
-  private emailVerificationTokens = new Map<string, VerificationCode>();
+  // Phone codes and email tokens (database-backed unless VERIFICATION_CODE_STORE=memory)
+  constructor(private store: VerificationCodeStore = createVerificationCodeStore()) {}
+
+  /**
+   * Store purpose for a phone code
+   */
+  private getPhoneCodePurpose(purpose: PhoneCodePurpose): VerificationCodePurpose {
+    return purpose === 'verification' ? 'phone_verification' : 'two_factor';
+  }
 
   /**
    * Generate Philippine phone verification code
    * Supports +639XXXXXXXXX format with 6-digit codes
    */
-  generatePhoneVerificationCode(phoneNumber: string): VerificationCode {
-    const code = Math.floor(100000 + Math.random() * 900000).toString();
-    const expires = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
-    
-    const verificationData: VerificationCode = {
+  async generatePhoneVerificationCode(phoneNumber: string, purpose: PhoneCodePurpose = 'verification'): Promise<VerificationCode> {
+    const storePurpose = this.getPhoneCodePurpose(purpose);
+    const code = crypto.randomInt(100000, 1000000).toString();
+    const expires = new Date(Date.now() + PHONE_CODE_TTL_MS);
+
+    const stored = await this.store.issue(
+      storePurpose,
+      phoneNumber,
+      hashCode(storePurpose, phoneNumber, code),
+      expires,
+      PHONE_SEND_WINDOW_MS
+    );
+
+    return {
       code,
       expires,
-      attempts: 0,
-      lastSent: new Date()
+      attempts: stored.attempts,
+      lastSent: stored.last_sent_at,
+      sendCount: stored.send_count
     };
-
-    this.phoneVerificationCodes.set(phoneNumber, verificationData);
-    
-    console.log(`📱 Phone verification code for ${phoneNumber}: ${code}`);
-    return verificationData;
   }
 
   /**
    * Send SMS verification code (Philippine networks)
-   * In production: integrate with Twilio for Philippine carriers
    */
   async sendPhoneVerificationCode(
     phoneNumber: string, 
@@ -91,10 +130,10 @@ class VerificationService {
         : phoneNumber;
 
       // Check rate limiting (max 3 codes per 15 minutes)
-      const existing = this.phoneVerificationCodes.get(normalizedPhone);
-      if (existing && existing.attempts >= 3) {
-        const timeSinceLastSent = Date.now() - existing.lastSent.getTime();
-        if (timeSinceLastSent < 15 * 60 * 1000) {
+      const existing = await this.store.get('phone_verification', normalizedPhone);
+      if (existing && existing.send_count >= MAX_PHONE_SENDS_PER_WINDOW) {
+        const windowAge = Date.now() - existing.send_window_started_at.getTime();
+        if (windowAge < PHONE_SEND_WINDOW_MS) {
           return {
             success: false,
             message: 'Too many verification attempts. Please wait 15 minutes before requesting another code.'
@@ -103,14 +142,25 @@ class VerificationService {
       }
 
       // Generate new verification code
-      const verificationData = this.generatePhoneVerificationCode(normalizedPhone);
+      const verificationData = await this.generatePhoneVerificationCode(normalizedPhone);
+
+      const sms = await SmsService.send({
+        to: normalizedPhone,
+        body: `Your HelpQo verification code is ${verificationData.code}. It expires in 10 minutes. Never share this code.`,
+        purpose: 'phone_verification'
+      });
+
+      if (!sms.success) {
+        return {
+          success: false,
+          message: 'We could not send a text to this number right now. Please try again in a few minutes.'
+        };
+      }
 
-      // TODO: In production, integrate with Twilio
-      // const twilioResult = await this.sendSMSViaTwilio(normalizedPhone, verificationData.code, userName);
-      
-      // For development: log the code
       console.log(`🇵🇭 SMS Verification for ${userName} (${normalizedPhone})`);
-      console.log(`📝 Your HelpQo verification code: ${verificationData.code}`);
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`📝 Your HelpQo verification code: ${verificationData.code}`);
+      }
       console.log(`⏰ Expires at: ${verificationData.expires.toLocaleString('en-PH', { timeZone: 'Asia/Manila' })}`);
 
       return {
@@ -118,7 +168,7 @@ class VerificationService {
         message: 'Verification code sent successfully to your Philippine mobile number',
         phoneNumber: normalizedPhone,
         codeExpiry: verificationData.expires,
-        attemptsRemaining: 3 - (existing?.attempts || 0)
+        attemptsRemaining: MAX_PHONE_SENDS_PER_WINDOW - verificationData.sendCount
       };
 
     } catch (error) {
@@ -144,41 +194,9 @@ class VerificationService {
         ? '+63' + phoneNumber.slice(1)
         : phoneNumber;
 
-      const verificationData = this.phoneVerificationCodes.get(normalizedPhone);
-      
-      if (!verificationData) {
-        return {
-          success: false,
-          message: 'No verification code found. Please request a new code.'
-        };
-      }
-
-      // Check expiry
-      if (new Date() > verificationData.expires) {
-        this.phoneVerificationCodes.delete(normalizedPhone);
-        return {
-          success: false,
-          message: 'Verification code has expired. Please request a new code.'
-        };
-      }
-
-      // Check code
-      if (verificationData.code !== code) {
-        verificationData.attempts++;
-        
-        if (verificationData.attempts >= 5) {
-          this.phoneVerificationCodes.delete(normalizedPhone);
-          return {
-            success: false,
-            message: 'Too many failed attempts. Please request a new verification code.'
-          };
-        }
-
-        return {
-          success: false,
-          message: `Invalid verification code. ${5 - verificationData.attempts} attempts remaining.`,
-          attemptsRemaining: 5 - verificationData.attempts
-        };
+      const check = await this.checkCode('phone_verification', normalizedPhone, code);
+      if (!check.success) {
+        return check;
       }
 
       // Code is valid - update user
@@ -191,9 +209,6 @@ class VerificationService {
         { where: { id: userId } }
       );
 
-      // Clean up verification data
-      this.phoneVerificationCodes.delete(normalizedPhone);
-
       console.log(`✅ Phone verified successfully for user ${userId}: ${normalizedPhone}`);
 
       return {
@@ -211,22 +226,138 @@ class VerificationService {
     }
   }
 
+  /**
+   * Check a stored code; consumed on success or after 5 wrong tries
+   */
+  private async checkCode(purpose: VerificationCodePurpose, subject: string, code: string): Promise<PhoneVerificationResult> {
+    const verificationData = await this.store.get(purpose, subject);
+    
+    if (!verificationData || !verificationData.code_hash) {
+      return {
+        success: false,
+        message: 'No verification code found. Please request a new code.'
+      };
+    }
+
+    // Check expiry
+    if (new Date() > verificationData.expires_at) {
+      await this.store.consume(purpose, subject);
+      return {
+        success: false,
+        message: 'Verification code has expired. Please request a new code.'
+      };
+    }
+
+    // Check code
+    if (!codeMatches(verificationData.code_hash, hashCode(purpose, subject, code))) {
+      const attempts = await this.store.recordFailedAttempt(purpose, subject);
+      
+      if (attempts >= MAX_CODE_ATTEMPTS) {
+        await this.store.consume(purpose, subject);
+        return {
+          success: false,
+          message: 'Too many failed attempts. Please request a new verification code.'
+        };
+      }
+
+      return {
+        success: false,
+        message: `Invalid verification code. ${MAX_CODE_ATTEMPTS - attempts} attempts remaining.`,
+        attemptsRemaining: MAX_CODE_ATTEMPTS - attempts
+      };
+    }
+
+    // Single use
+    await this.store.consume(purpose, subject);
+
+    return {
+      success: true,
+      message: 'Code verified'
+    };
+  }
+
+  /**
+   * Send a login (two-factor) code to a verified Philippine number
+   */
+  async sendTwoFactorCode(phoneNumber: string, userName: string): Promise<PhoneVerificationResult> {
+    try {
+      // Don't resend within a minute of the last code
+      const existing = await this.store.get('two_factor', phoneNumber);
+      if (existing?.code_hash && Date.now() - existing.last_sent_at.getTime() < TWO_FACTOR_RESEND_MS) {
+        return {
+          success: true,
+          message: 'A login code was just sent. Please check your messages.',
+          phoneNumber,
+          codeExpiry: existing.expires_at
+        };
+      }
+
+      const verificationData = await this.generatePhoneVerificationCode(phoneNumber, 'two_factor');
+
+      const sms = await SmsService.send({
+        to: phoneNumber,
+        body: `Your HelpQo login code is ${verificationData.code}. Never share this code, even with HelpQo staff.`,
+        purpose: 'two_factor'
+      });
+
+      if (!sms.success) {
+        return {
+          success: false,
+          message: 'We could not send your login code right now. Please try again in a few minutes.'
+        };
+      }
+
+      console.log(`🇵🇭 SMS login code for ${userName} (${phoneNumber})`);
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`📝 Your HelpQo login code: ${verificationData.code}`);
+      }
+
+      return {
+        success: true,
+        message: 'Login code sent to your mobile number',
+        phoneNumber,
+        codeExpiry: verificationData.expires
+      };
+
+    } catch (error) {
+      console.error('❌ Two-factor SMS error:', error);
+      return {
+        success: false,
+        message: 'Failed to send login code. Please try again.'
+      };
+    }
+  }
+
+  /**
+   * Check a login (two-factor) code
+   */
+  async verifyTwoFactorCode(phoneNumber: string, code: string): Promise<PhoneVerificationResult> {
+    return await this.checkCode('two_factor', phoneNumber, code);
+  }
+
   /**
    * Generate email verification token
    */
-  generateEmailVerificationToken(email: string): string {
+  async generateEmailVerificationToken(email: string): Promise<VerificationCode> {
+    const subject = email.toLowerCase();
     const token = crypto.randomBytes(32).toString('hex');
-    const expires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-    
-    const verificationData: VerificationCode = {
+    const expires = new Date(Date.now() + EMAIL_TOKEN_TTL_MS);
+
+    const stored = await this.store.issue(
+      'email_verification',
+      subject,
+      hashCode('email_verification', subject, token),
+      expires,
+      EMAIL_TOKEN_TTL_MS
+    );
+
+    return {
       code: token,
       expires,
-      attempts: 0,
-      lastSent: new Date()
+      attempts: stored.attempts,
+      lastSent: stored.last_sent_at,
+      sendCount: stored.send_count
     };
-
-    this.emailVerificationTokens.set(email, verificationData);
-    return token;
   }
 
   /**
@@ -238,13 +369,29 @@ class VerificationService {
     userId: string
   ): Promise<EmailVerificationResult> {
     try {
-      const token = this.generateEmailVerificationToken(email);
+      const { code: token, expires } = await this.generateEmailVerificationToken(email);
       const verificationUrl = `${process.env.FRONTEND_URL}/verify-email?token=${token}&email=${encodeURIComponent(email)}`;
 
-      // TODO: In production, integrate with email service (SendGrid, AWS SES)
+      const sent = await EmailDeliveryService.send({
+        to: email,
+        template: 'email_verification',
+        data: { user: { first_name: userName }, verificationLink: verificationUrl, expiresAt: expires },
+        userId
+      });
+
+      if (!sent.success) {
+        return {
+          success: false,
+          message: sent.status === 'suppressed'
+            ? 'Emails to this address could not be delivered. Please use a different email address.'
+            : 'Failed to send verification email. Please try again.'
+        };
+      }
+
       console.log(`📧 Email Verification for ${userName} (${email})`);
-      console.log(`🔗 Verification URL: ${verificationUrl}`);
-      console.log(`🎫 Token: ${token}`);
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`🔗 Verification URL: ${verificationUrl}`);
+      }
 
       // Store verification token in user record
       await User.update(
@@ -256,7 +403,7 @@ class VerificationService {
         success: true,
         message: 'Verification email sent successfully',
         email,
-        tokenExpiry: this.emailVerificationTokens.get(email)?.expires
+        tokenExpiry: expires
       };
 
     } catch (error) {
@@ -273,20 +420,12 @@ class VerificationService {
    */
   async verifyEmailToken(email: string, token: string): Promise<EmailVerificationResult> {
     try {
-      const verificationData = this.emailVerificationTokens.get(email);
-      
-      if (!verificationData || verificationData.code !== token) {
-        return {
-          success: false,
-          message: 'Invalid or expired verification token'
-        };
-      }
+      const check = await this.checkCode('email_verification', email.toLowerCase(), token);
 
-      if (new Date() > verificationData.expires) {
-        this.emailVerificationTokens.delete(email);
+      if (!check.success) {
         return {
           success: false,
-          message: 'Verification token has expired. Please request a new verification email.'
+          message: 'Invalid or expired verification token. Please request a new verification email.'
         };
       }
 
@@ -300,9 +439,6 @@ class VerificationService {
         { where: { email } }
       );
 
-      // Clean up verification data
-      this.emailVerificationTokens.delete(email);
-
       console.log(`✅ Email verified successfully: ${email}`);
 
       return {
@@ -320,6 +456,29 @@ class VerificationService {
     }
   }
 
+  /**
+   * Remove expired codes (every VERIFICATION_CLEANUP_MINUTES, default 60)
+   */
+  startCleanupScheduler(): NodeJS.Timeout {
+    const intervalMinutes = Number(process.env.VERIFICATION_CLEANUP_MINUTES || 60);
+
+    const timer = setInterval(async () => {
+      try {
+        // Keep rows until their resend window has passed too
+        const removed = await this.store.deleteExpired(new Date(Date.now() - PHONE_SEND_WINDOW_MS));
+        if (removed > 0) {
+          console.log(`🧹 Removed ${removed} expired verification code(s)`);
+        }
+      } catch (error) {
+        console.error('❌ Verification code cleanup failed:', error);
+      }
+    }, intervalMinutes * 60 * 1000);
+    timer.unref();
+
+    console.log(`⏰ Verification code cleanup running every ${intervalMinutes}m (${this.store.name} store)`);
+    return timer;
+  }
+
   /**
    * Get comprehensive account verification status
    */
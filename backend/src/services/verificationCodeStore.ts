@@ -0,0 +1,228 @@
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import VerificationCode, { VerificationCodePurpose } from '../models/VerificationCode';
+
+/**
+ * Verification Code Store Abstraction
+ * Where VerificationService keeps SMS codes and email tokens. The database
+ * store survives restarts and is shared by every instance behind the load
+ * balancer; the memory store is for tests and single-process tooling.
+ * Stores only ever see code hashes.
+ */
+
+export interface StoredVerificationCode {
+  purpose: VerificationCodePurpose;
+  subject: string;
+  code_hash?: string | null;      // null once used or invalidated
+  expires_at: Date;
+  attempts: number;
+  send_count: number;
+  send_window_started_at: Date;
+  last_sent_at: Date;
+}
+
+export interface VerificationCodeStore {
+  readonly name: string;
+
+  /**
+   * Current code row for a subject, if any (including used/expired ones)
+   */
+  get(purpose: VerificationCodePurpose, subject: string): Promise<StoredVerificationCode | null>;
+
+  /**
+   * Replace the code: resets attempts and counts the send (a new send
+   * window starts once the previous one is older than sendWindowMs)
+   */
+  issue(
+    purpose: VerificationCodePurpose,
+    subject: string,
+    codeHash: string,
+    expiresAt: Date,
+    sendWindowMs: number
+  ): Promise<StoredVerificationCode>;
+
+  /**
+   * Count a wrong code
+   * @returns number - Attempts so far against the current code
+   */
+  recordFailedAttempt(purpose: VerificationCodePurpose, subject: string): Promise<number>;
+
+  /**
+   * Make the current code unusable (keeps the send counters)
+   */
+  consume(purpose: VerificationCodePurpose, subject: string): Promise<void>;
+
+  /**
+   * Remove codes that expired before the given time
+   * @returns number - Codes removed
+   */
+  deleteExpired(before: Date): Promise<number>;
+}
+
+// Send counters after issuing a new code
+const nextSendWindow = (existing: StoredVerificationCode | null, now: Date, sendWindowMs: number) => {
+  if (!existing || now.getTime() - existing.send_window_started_at.getTime() >= sendWindowMs) {
+    return { send_count: 1, send_window_started_at: now };
+  }
+  return { send_count: existing.send_count + 1, send_window_started_at: existing.send_window_started_at };
+};
+
+/**
+ * Postgres-backed store (default)
+ */
+export class DatabaseVerificationCodeStore implements VerificationCodeStore {
+  public readonly name = 'database';
+
+  async get(purpose: VerificationCodePurpose, subject: string): Promise<StoredVerificationCode | null> {
+    return await VerificationCode.findOne({ where: { purpose, subject } });
+  }
+
+  async issue(
+    purpose: VerificationCodePurpose,
+    subject: string,
+    codeHash: string,
+    expiresAt: Date,
+    sendWindowMs: number
+  ): Promise<StoredVerificationCode> {
+    return await sequelize.transaction(async (transaction) => {
+      const existing = await VerificationCode.findOne({
+        where: { purpose, subject },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+
+      const now = new Date();
+      const values = {
+        code_hash: codeHash,
+        expires_at: expiresAt,
+        attempts: 0,
+        last_sent_at: now,
+        ...nextSendWindow(existing, now, sendWindowMs)
+      };
+
+      if (existing) {
+        return await existing.update(values, { transaction });
+      }
+
+      return await VerificationCode.create({ purpose, subject, ...values } as any, { transaction });
+    });
+  }
+
+  async recordFailedAttempt(purpose: VerificationCodePurpose, subject: string): Promise<number> {
+    return await sequelize.transaction(async (transaction) => {
+      const existing = await VerificationCode.findOne({
+        where: { purpose, subject },
+        transaction,
+        lock: transaction.LOCK.UPDATE
+      });
+      if (!existing) return 0;
+
+      existing.attempts += 1;
+      await existing.save({ transaction });
+      return existing.attempts;
+    });
+  }
+
+  async consume(purpose: VerificationCodePurpose, subject: string): Promise<void> {
+    await VerificationCode.update(
+      { code_hash: null as any },
+      { where: { purpose, subject } }
+    );
+  }
+
+  async deleteExpired(before: Date): Promise<number> {
+    return await VerificationCode.destroy({
+      where: { expires_at: { [Op.lt]: before } }
+    });
+  }
+}
+
+/**
+ * In-process store for tests (not shared between instances)
+ */
+export class MemoryVerificationCodeStore implements VerificationCodeStore {
+  public readonly name = 'memory';
+  private codes = new Map<string, StoredVerificationCode>();
+
+  private key(purpose: VerificationCodePurpose, subject: string): string {
+    return `${purpose}:${subject}`;
+  }
+
+  async get(purpose: VerificationCodePurpose, subject: string): Promise<StoredVerificationCode | null> {
+    const stored = this.codes.get(this.key(purpose, subject));
+    return stored ? { ...stored } : null;
+  }
+
+  async issue(
+    purpose: VerificationCodePurpose,
+    subject: string,
+    codeHash: string,
+    expiresAt: Date,
+    sendWindowMs: number
+  ): Promise<StoredVerificationCode> {
+    const now = new Date();
+    const stored: StoredVerificationCode = {
+      purpose,
+      subject,
+      code_hash: codeHash,
+      expires_at: expiresAt,
+      attempts: 0,
+      last_sent_at: now,
+      ...nextSendWindow(this.codes.get(this.key(purpose, subject)) || null, now, sendWindowMs)
+    };
+
+    this.codes.set(this.key(purpose, subject), stored);
+    return { ...stored };
+  }
+
+  async recordFailedAttempt(purpose: VerificationCodePurpose, subject: string): Promise<number> {
+    const stored = this.codes.get(this.key(purpose, subject));
+    if (!stored) return 0;
+
+    stored.attempts += 1;
+    return stored.attempts;
+  }
+
+  async consume(purpose: VerificationCodePurpose, subject: string): Promise<void> {
+    const stored = this.codes.get(this.key(purpose, subject));
+    if (stored) stored.code_hash = null;
+  }
+
+  async deleteExpired(before: Date): Promise<number> {
+    let removed = 0;
+    for (const [key, stored] of this.codes) {
+      if (stored.expires_at < before) {
+        this.codes.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Forget everything (between tests)
+   */
+  clear(): void {
+    this.codes.clear();
+  }
+}
+
+/**
+ * Store selected by VERIFICATION_CODE_STORE ('database' by default, or 'memory')
+ */
+export const createVerificationCodeStore = (): VerificationCodeStore => {
+  const kind = process.env.VERIFICATION_CODE_STORE || 'database';
+
+  if (kind === 'memory') {
+    if (process.env.NODE_ENV === 'production') {
+      console.warn('⚠️ In-memory verification codes are not shared between instances');
+    }
+    return new MemoryVerificationCodeStore();
+  }
+
+  if (kind !== 'database') {
+    throw new Error(`Unknown VERIFICATION_CODE_STORE: ${kind}`);
+  }
+
+  return new DatabaseVerificationCodeStore();
+};